@@ -0,0 +1,144 @@
+import { describe, test, expect } from "vitest";
+import { createIgnoreMatcher, walkArtifactFiles, DEFAULT_IGNORE_PATTERNS } from "./ignore";
+import { createMockFileSystem } from "#/test-utils/mocks";
+
+describe("ignore", () => {
+  describe("createIgnoreMatcher", () => {
+    test("matches unanchored names at any depth", () => {
+      const isIgnored = createIgnoreMatcher(["*.log", "build"]);
+
+      expect(isIgnored("debug.log", false)).toBe(true);
+      expect(isIgnored("skills/review/debug.log", false)).toBe(true);
+      expect(isIgnored("skills/build", true)).toBe(true);
+      expect(isIgnored("skills/builder.md", false)).toBe(false);
+    });
+
+    test("anchors patterns containing a slash to the root", () => {
+      const isIgnored = createIgnoreMatcher(["/drafts", "docs/internal.md"]);
+
+      expect(isIgnored("drafts", true)).toBe(true);
+      expect(isIgnored("skills/drafts", true)).toBe(false);
+      expect(isIgnored("docs/internal.md", false)).toBe(true);
+      expect(isIgnored("skills/docs/internal.md", false)).toBe(false);
+    });
+
+    test("applies trailing-slash patterns to directories only", () => {
+      const isIgnored = createIgnoreMatcher(["cache/"]);
+
+      expect(isIgnored("cache", true)).toBe(true);
+      expect(isIgnored("cache", false)).toBe(false);
+      expect(isIgnored("cache/data.json", false)).toBe(true);
+    });
+
+    test("supports ** across directories", () => {
+      const isIgnored = createIgnoreMatcher(["**/fixtures/**", "docs/**/*.png"]);
+
+      expect(isIgnored("fixtures/a.md", false)).toBe(true);
+      expect(isIgnored("skills/review/fixtures/deep/b.md", false)).toBe(true);
+      expect(isIgnored("docs/logo.png", false)).toBe(true);
+      expect(isIgnored("docs/img/deep/logo.png", false)).toBe(true);
+      expect(isIgnored("assets/logo.png", false)).toBe(false);
+    });
+
+    test("supports ? and character classes", () => {
+      const isIgnored = createIgnoreMatcher(["draft?.md", "v[0-9].md", "[!a]*.txt"]);
+
+      expect(isIgnored("draft1.md", false)).toBe(true);
+      expect(isIgnored("draft10.md", false)).toBe(false);
+      expect(isIgnored("v2.md", false)).toBe(true);
+      expect(isIgnored("vx.md", false)).toBe(false);
+      expect(isIgnored("notes.txt", false)).toBe(true);
+      expect(isIgnored("about.txt", false)).toBe(false);
+    });
+
+    test("re-includes files with negation, the last matching rule wins", () => {
+      const isIgnored = createIgnoreMatcher(["*.md", "!README.md", "docs/README.md"]);
+
+      expect(isIgnored("agent.md", false)).toBe(true);
+      expect(isIgnored("README.md", false)).toBe(false);
+      expect(isIgnored("docs/README.md", false)).toBe(true);
+    });
+
+    test("never re-includes files inside an ignored directory", () => {
+      const isIgnored = createIgnoreMatcher(["vendor/", "!vendor/keep.md"]);
+
+      expect(isIgnored("vendor/keep.md", false)).toBe(true);
+    });
+
+    test("skips comments and blank lines, honours escapes", () => {
+      const isIgnored = createIgnoreMatcher(["# comment", "", "   ", "\\#notes.md", "\\!important.md"]);
+
+      expect(isIgnored("comment", false)).toBe(false);
+      expect(isIgnored("#notes.md", false)).toBe(true);
+      expect(isIgnored("!important.md", false)).toBe(true);
+    });
+
+    test("defaults cover OS metadata, swap files and dependencies", () => {
+      const isIgnored = createIgnoreMatcher(DEFAULT_IGNORE_PATTERNS);
+
+      for (const junk of [".DS_Store", "skills/._SKILL.md", "Thumbs.db", ".agent.md.swp", "agent.md~", "#agent.md#", ".#agent.md"]) {
+        expect(isIgnored(junk, false)).toBe(true);
+      }
+      for (const dir of [".git", "node_modules", "skills/review/node_modules", ".grekt"]) {
+        expect(isIgnored(dir, true)).toBe(true);
+      }
+      expect(isIgnored("skills/review/SKILL.md", false)).toBe(false);
+    });
+  });
+
+  describe("walkArtifactFiles", () => {
+    test("lists non-ignored files relative to the root", () => {
+      const fs = createMockFileSystem({
+        "/artifact/grekt.yaml": "name: test",
+        "/artifact/skills/review/SKILL.md": "# Review",
+        "/artifact/skills/review/.DS_Store": "",
+        "/artifact/node_modules/dep/index.js": "",
+      });
+
+      const files = walkArtifactFiles(fs, "/artifact");
+
+      expect(files.sort()).toEqual(["grekt.yaml", "skills/review/SKILL.md"]);
+    });
+
+    test("applies .grektignore on top of the defaults", () => {
+      const fs = createMockFileSystem({
+        "/artifact/.grektignore": "drafts/\n*.log\n!.DS_Store\n",
+        "/artifact/agent.md": "# Agent",
+        "/artifact/.DS_Store": "",
+        "/artifact/drafts/idea.md": "# Idea",
+        "/artifact/skills/trace.log": "",
+      });
+
+      const files = walkArtifactFiles(fs, "/artifact");
+
+      expect(files.sort()).toEqual([".DS_Store", ".grektignore", "agent.md"]);
+    });
+
+    test("applies extra patterns after .grektignore", () => {
+      const fs = createMockFileSystem({
+        "/artifact/.grektignore": "!keep.log\n",
+        "/artifact/keep.log": "",
+        "/artifact/agent.md": "# Agent",
+      });
+
+      const files = walkArtifactFiles(fs, "/artifact", { ignore: ["*.log"] });
+
+      expect(files.sort()).toEqual([".grektignore", "agent.md"]);
+    });
+
+    test("skips unreadable entries when asked", () => {
+      const fs = createMockFileSystem({
+        "/artifact/agent.md": "# Agent",
+        "/artifact/broken.md": "# Broken",
+      });
+      const stat = fs.stat.bind(fs);
+      fs.stat = (path: string) => {
+        if (path.endsWith("broken.md")) throw new Error("EACCES");
+        return stat(path);
+      };
+
+      expect(() => walkArtifactFiles(fs, "/artifact")).toThrow("EACCES");
+      expect(walkArtifactFiles(fs, "/artifact", { skipUnreadable: true })).toEqual(["agent.md"]);
+    });
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * .grektignore
+ *
+ * Gitignore-syntax rules deciding which files of an artifact directory count.
+ * Every walk over an artifact (scanning, packing, eval discovery) goes through
+ * walkArtifactFiles, so OS metadata, editor swap files and dependencies are
+ * never published.
+ *
+ * Built-in defaults apply first. A .grektignore at the artifact root adds
+ * rules and can re-include defaults with "!pattern".
+ *
+ * Extracted content is not trusted to ignore itself: integrity hashing and
+ * security scans walk every file, so neither a .grektignore nor the defaults
+ * can hide installed files from them.
+ */
+
+import { join } from "path";
+import type { FileSystem } from "#/core";
+
+export const GREKTIGNORE_FILENAME = ".grektignore";
+
+// VCS data, dependencies, installed artifacts, OS and editor noise, previous packs
+export const DEFAULT_IGNORE_PATTERNS = [
+  ".git",
+  ".svn",
+  ".hg",
+  "node_modules",
+  ".grekt",
+  ".DS_Store",
+  "._*",
+  "Thumbs.db",
+  "desktop.ini",
+  "*.swp",
+  "*.swo",
+  "*~",
+  ".#*",
+  "\\#*#",
+  "*.tar.gz",
+  "*.tgz",
+];
+
+/**
+ * Check if a path relative to the artifact root (with "/" separators) is ignored
+ */
+export type IgnoreMatcher = (relativePath: string, isDirectory: boolean) => boolean;
+
+interface IgnoreRule {
+  regex: RegExp;
+  negate: boolean;
+  directoryOnly: boolean;
+}
+
+function escapeRegExp(char: string): string {
+  return char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+/**
+ * Translate a gitignore glob to a regular expression source
+ * (`*` and `?` stop at "/", `**` spans directories, `[...]` classes, `\` escapes)
+ */
+function globToRegExpSource(glob: string): string {
+  let source = "";
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+
+    if (char === "*") {
+      const atSegmentStart = i === 0 || glob[i - 1] === "/";
+      if (glob[i + 1] === "*" && atSegmentStart && (i + 2 === glob.length || glob[i + 2] === "/")) {
+        if (i + 2 === glob.length) {
+          source += ".*";
+          i += 1;
+        } else {
+          source += "(?:.*/)?";
+          i += 2;
+        }
+        continue;
+      }
+      source += "[^/]*";
+      while (glob[i + 1] === "*") i++;
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 2);
+      if (end === -1) {
+        source += "\\[";
+        continue;
+      }
+      const members = glob.slice(i + 1, end).replace(/\\/g, "\\\\");
+      source += members.startsWith("!") ? `[^${members.slice(1)}]` : `[${members}]`;
+      i = end;
+    } else if (char === "\\" && i + 1 < glob.length) {
+      source += escapeRegExp(glob[++i]!);
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return source;
+}
+
+function parseRule(line: string): IgnoreRule | null {
+  // Trailing spaces are dropped unless escaped
+  let pattern = line.replace(/(?<!\\)\s+$/, "");
+  if (!pattern || pattern.startsWith("#")) {
+    return null;
+  }
+
+  const negate = pattern.startsWith("!");
+  if (negate) {
+    pattern = pattern.slice(1);
+  }
+
+  const directoryOnly = pattern.endsWith("/");
+  pattern = pattern.replace(/\/+$/, "");
+
+  // A slash anywhere but at the end anchors the pattern to the artifact root
+  const anchored = pattern.includes("/");
+  pattern = pattern.replace(/^\/+/, "");
+  if (!pattern) {
+    return null;
+  }
+
+  const prefix = anchored ? "" : "(?:.*/)?";
+  return { regex: new RegExp(`^${prefix}${globToRegExpSource(pattern)}$`), negate, directoryOnly };
+}
+
+/**
+ * Build a matcher from gitignore-syntax patterns (later patterns win)
+ */
+export function createIgnoreMatcher(patterns: string[]): IgnoreMatcher {
+  const rules = patterns.map(parseRule).filter((rule): rule is IgnoreRule => rule !== null);
+
+  const matches = (path: string, isDirectory: boolean): boolean => {
+    let ignored = false;
+    for (const rule of rules) {
+      // Only rules that would flip the current state matter
+      if (rule.negate === ignored && (!rule.directoryOnly || isDirectory) && rule.regex.test(path)) {
+        ignored = !rule.negate;
+      }
+    }
+    return ignored;
+  };
+
+  return (relativePath, isDirectory) => {
+    const segments = relativePath.split("/");
+
+    // As in git, nothing inside an ignored directory can be re-included
+    for (let i = 1; i < segments.length; i++) {
+      if (matches(segments.slice(0, i).join("/"), true)) {
+        return true;
+      }
+    }
+
+    return matches(relativePath, isDirectory);
+  };
+}
+
+/**
+ * Matcher for an artifact directory: defaults, its .grektignore, then extra patterns
+ */
+export function loadIgnoreMatcher(fs: FileSystem, rootDir: string, extraPatterns: string[] = []): IgnoreMatcher {
+  const ignorePath = join(rootDir, GREKTIGNORE_FILENAME);
+  const filePatterns = fs.exists(ignorePath) ? fs.readFile(ignorePath).split(/\r?\n/) : [];
+
+  return createIgnoreMatcher([...DEFAULT_IGNORE_PATTERNS, ...filePatterns, ...extraPatterns]);
+}
+
+/**
+ * Rules a walk applies: the artifact's (defaults, .grektignore, extra patterns)
+ * or none (every file)
+ */
+export type WalkRules = "artifact" | "none";
+
+export interface WalkArtifactOptions {
+  /** Extra gitignore-syntax patterns, applied after .grektignore */
+  ignore?: string[];
+  /** Rules to apply (default "artifact") */
+  rules?: WalkRules;
+  /** Skip entries that cannot be read instead of throwing */
+  skipUnreadable?: boolean;
+}
+
+function getWalkMatcher(fs: FileSystem, rootDir: string, options: WalkArtifactOptions): IgnoreMatcher {
+  switch (options.rules ?? "artifact") {
+    case "none":
+      return () => false;
+    case "artifact":
+      return loadIgnoreMatcher(fs, rootDir, options.ignore);
+  }
+}
+
+/**
+ * List the files of an artifact directory that are not ignored
+ *
+ * @returns Paths relative to rootDir with "/" separators, in walk order
+ */
+export function walkArtifactFiles(fs: FileSystem, rootDir: string, options: WalkArtifactOptions = {}): string[] {
+  const isIgnored = getWalkMatcher(fs, rootDir, options);
+  const files: string[] = [];
+
+  function walkDir(currentDir: string, basePath: string): void {
+    let entries: string[];
+    try {
+      entries = fs.readdir(currentDir);
+    } catch (err) {
+      if (options.skipUnreadable) return;
+      throw err;
+    }
+
+    for (const entry of entries) {
+      const fullPath = join(currentDir, entry);
+      const relativePath = basePath ? `${basePath}/${entry}` : entry;
+
+      let stat: ReturnType<FileSystem["stat"]>;
+      try {
+        stat = fs.stat(fullPath);
+      } catch (err) {
+        if (options.skipUnreadable) continue;
+        throw err;
+      }
+
+      if (isIgnored(relativePath, stat.isDirectory)) continue;
+
+      if (stat.isDirectory) {
+        walkDir(fullPath, relativePath);
+      } else if (stat.isFile) {
+        files.push(relativePath);
+      }
+    }
+  }
+
+  walkDir(rootDir, "");
+  return files;
+}
@@ -1,5 +1,9 @@
 export * from './frontmatter';
 export * from './naming';
 export * from './integrity';
+export * from './ignore';
 export * from './scanner';
 export * from './lockfile';
+export * from './lockfile-diff';
+export * from './lockfile-check';
+export * from './pack';
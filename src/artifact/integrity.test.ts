@@ -6,18 +6,43 @@ import {
   calculateIntegrity,
   compareHashes,
   verifyIntegrity,
+  matchesIntegrity,
+  matchesHash,
+  parseHash,
   getDirectorySize,
+  LEGACY_HASH_FORMAT,
 } from "./integrity";
 import { createMockFileSystem } from "#/test-utils/mocks";
 
-const HASH_PATTERN = /^sha256:[a-f0-9]{32}$/;
+const HASH_PATTERN = /^sha256-[A-Za-z0-9+/]{43}=$/;
+const LEGACY_HASH_PATTERN = /^sha256:[a-f0-9]{32}$/;
+
+// PNG header followed by bytes that are not valid UTF-8
+const BINARY_ASSET = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0xff, 0xfe, 0x00, 0x80]);
+
+function flipByte(content: Buffer, index: number, value: number): Buffer {
+  const copy = Buffer.from(content);
+  copy[index] = value;
+  return copy;
+}
 
 describe("integrity", () => {
   describe("hashContent", () => {
-    test("returns sha256 prefixed hash with 32 hex chars", () => {
+    test("returns a full-length SRI sha256 hash", () => {
       const result = hashContent("hello");
 
-      expect(result).toMatch(HASH_PATTERN);
+      expect(result).toBe("sha256-LPJNul+wow4m6DsqxbninhsWHlwfp0JecwQzYpOLmCQ=");
+    });
+
+    test("supports sha512", () => {
+      expect(hashContent("hello", "sha512")).toMatch(/^sha512-[A-Za-z0-9+/]{86}==$/);
+    });
+
+    test("computes v1 lockfile hashes in legacy format", () => {
+      const result = hashContent("hello", LEGACY_HASH_FORMAT);
+
+      expect(result).toBe("sha256:2cf24dba5fb0a30e26e83b2ac5b9e29e");
+      expect(result).toMatch(LEGACY_HASH_PATTERN);
     });
 
     test("produces same hash for same content", () => {
@@ -48,6 +73,15 @@ describe("integrity", () => {
       expect(fileHash).toBe(contentHash);
     });
 
+    test("hashes binary files from their raw bytes", () => {
+      const fs = createMockFileSystem({
+        "/artifacts/@author/skill/assets/logo.png": BINARY_ASSET,
+      });
+
+      expect(hashFile(fs, "/artifacts/@author/skill/assets/logo.png")).toBe(hashContent(BINARY_ASSET));
+      expect(hashContent(BINARY_ASSET)).not.toBe(hashContent(BINARY_ASSET.toString("utf-8")));
+    });
+
     test("detects when artifact file content changes after install", () => {
       const originalContent = "# Original rule";
       const originalHash = hashContent(originalContent);
@@ -125,6 +159,22 @@ describe("integrity", () => {
       expect(result["sub/deep/file.txt"]).toBeDefined();
     });
 
+    test("hashes ignored files too, so integrity covers every extracted file", () => {
+      const fs = createMockFileSystem({
+        "/dir/agent.md": "# Agent",
+        "/dir/.grektignore": "hidden.md\n",
+        "/dir/hidden.md": "# Hidden",
+        "/dir/node_modules/dep/index.js": "module.exports = {}",
+      });
+
+      expect(Object.keys(hashDirectory(fs, "/dir")).sort()).toEqual([
+        ".grektignore",
+        "agent.md",
+        "hidden.md",
+        "node_modules/dep/index.js",
+      ]);
+    });
+
     test("uses relative paths as keys", () => {
       const fs = createMockFileSystem({
         "/some/long/path/dir/file.txt": "content",
@@ -245,6 +295,61 @@ describe("integrity", () => {
     });
   });
 
+  describe("parseHash", () => {
+    test("parses SRI hashes to a hex digest", () => {
+      expect(parseHash(hashContent("hello"))).toEqual({
+        format: "sha256",
+        digest: "2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824",
+      });
+    });
+
+    test("parses v1 lockfile hashes", () => {
+      expect(parseHash("sha256:2cf24dba5fb0a30e26e83b2ac5b9e29e")).toEqual({
+        format: LEGACY_HASH_FORMAT,
+        digest: "2cf24dba5fb0a30e26e83b2ac5b9e29e",
+      });
+    });
+
+    test("rejects unknown algorithms and truncated digests", () => {
+      expect(parseHash("md5-XUFAKrxLKna5cZ2REBfFkg==")).toBeNull();
+      expect(parseHash("sha256-LPJNul+wow4m6Dsq")).toBeNull();
+      expect(parseHash("sha256:not-hex")).toBeNull();
+    });
+  });
+
+  describe("matchesHash", () => {
+    test("matches content against SRI and v1 hashes", () => {
+      expect(matchesHash("hello", hashContent("hello"))).toBe(true);
+      expect(matchesHash("hello", hashContent("hello", LEGACY_HASH_FORMAT))).toBe(true);
+      expect(matchesHash("changed", hashContent("hello", LEGACY_HASH_FORMAT))).toBe(false);
+    });
+  });
+
+  describe("matchesIntegrity", () => {
+    test("matches a directory against SRI and v1 integrity", () => {
+      const fs = createMockFileSystem({
+        "/dir/agent.md": "# Agent",
+        "/dir/skills/review.md": "# Review",
+      });
+      const integrity = calculateIntegrity(hashDirectory(fs, "/dir"));
+      const legacyIntegrity = calculateIntegrity(hashDirectory(fs, "/dir", LEGACY_HASH_FORMAT), LEGACY_HASH_FORMAT);
+
+      expect(legacyIntegrity).toMatch(LEGACY_HASH_PATTERN);
+      expect(matchesIntegrity(fs, "/dir", integrity)).toBe(true);
+      expect(matchesIntegrity(fs, "/dir", legacyIntegrity)).toBe(true);
+
+      fs.writeFile("/dir/agent.md", "# Tampered");
+      expect(matchesIntegrity(fs, "/dir", legacyIntegrity)).toBe(false);
+    });
+
+    test("rejects malformed integrity", () => {
+      const fs = createMockFileSystem({ "/dir/agent.md": "# Agent" });
+
+      expect(matchesIntegrity(fs, "/dir", "sha256:abc123")).toBe(false);
+      expect(matchesIntegrity(fs, "/dir", "garbage")).toBe(false);
+    });
+  });
+
   describe("verifyIntegrity", () => {
     test("returns valid:true when files match expected", () => {
       const fs = createMockFileSystem({
@@ -260,6 +365,18 @@ describe("integrity", () => {
       expect(result.extraFiles).toHaveLength(0);
     });
 
+    test("verifies listed ignored files and leaves unlisted junk out", () => {
+      const fs = createMockFileSystem({ "/dir/agent.md": "# Agent", "/dir/._agent.md": "resource fork" });
+      const expectedFiles = hashDirectory(fs, "/dir");
+      fs.writeFile("/dir/.DS_Store", "finder");
+
+      expect(verifyIntegrity(fs, "/dir", expectedFiles).valid).toBe(true);
+      expect(verifyIntegrity(fs, "/dir", expectedFiles).extraFiles).toEqual([]);
+
+      fs.writeFile("/dir/._agent.md", "tampered");
+      expect(verifyIntegrity(fs, "/dir", expectedFiles).modifiedFiles.map((file) => file.path)).toEqual(["._agent.md"]);
+    });
+
     test("detects missing files", () => {
       const fs = createMockFileSystem({
         "/dir/existing.txt": "content",
@@ -289,7 +406,46 @@ describe("integrity", () => {
       expect(result.modifiedFiles).toHaveLength(1);
       expect(result.modifiedFiles[0].path).toBe("file.txt");
       expect(result.modifiedFiles[0].expected).toBe("sha256:originalHash");
-      expect(result.modifiedFiles[0].actual).toMatch(/^sha256:/);
+      expect(result.modifiedFiles[0].actual).toMatch(/^sha256-/);
+    });
+
+    test("detects a single-byte change in a binary file", () => {
+      const fs = createMockFileSystem({
+        "/dir/assets/logo.png": BINARY_ASSET,
+      });
+      const expectedFiles = hashDirectory(fs, "/dir");
+
+      // 0xff -> 0xfe decodes to the same replacement character as text
+      fs.writeFileBinary("/dir/assets/logo.png", flipByte(BINARY_ASSET, 8, 0xfe));
+      const result = verifyIntegrity(fs, "/dir", expectedFiles);
+
+      expect(result.valid).toBe(false);
+      expect(result.modifiedFiles.map((f) => f.path)).toEqual(["assets/logo.png"]);
+    });
+
+    test("compatibility mode keeps binary files of v1 lockfiles matching", () => {
+      const fs = createMockFileSystem({
+        "/dir/agent.md": "# Agent",
+        "/dir/assets/logo.png": BINARY_ASSET,
+      });
+      const legacyHashes = {
+        "agent.md": hashContent("# Agent", LEGACY_HASH_FORMAT),
+        "assets/logo.png": hashContent(BINARY_ASSET.toString("utf-8"), LEGACY_HASH_FORMAT),
+      };
+
+      expect(hashDirectory(fs, "/dir", LEGACY_HASH_FORMAT)).toEqual(legacyHashes);
+      expect(verifyIntegrity(fs, "/dir", legacyHashes).valid).toBe(true);
+    });
+
+    test("verifies v1 lockfile hashes in their own format", () => {
+      const fs = createMockFileSystem({
+        "/dir/file.txt": "content",
+      });
+      const legacyHashes = hashDirectory(fs, "/dir", LEGACY_HASH_FORMAT);
+
+      const result = verifyIntegrity(fs, "/dir", legacyHashes);
+
+      expect(result.valid).toBe(true);
     });
 
     test("reports extra files", () => {
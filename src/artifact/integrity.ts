@@ -1,56 +1,140 @@
 import { createHash } from "crypto";
-import { join, relative } from "path";
+import { join } from "path";
 import type { FileSystem } from "#/core";
+import type { HashAlgorithm } from "#/schemas";
+import { walkArtifactFiles } from "./ignore";
 
-export function hashContent(content: string): string {
-  const hash = createHash("sha256").update(content).digest("hex");
-  return `sha256:${hash.slice(0, 32)}`;
+/** Algorithm of newly computed hashes */
+export const DEFAULT_HASH_ALGORITHM: HashAlgorithm = "sha256";
+
+/**
+ * Truncated hex SHA-256 ("sha256:<32 hex>") written by v1 lockfiles.
+ * Only computed to verify entries that were not reinstalled since.
+ *
+ * Compatibility mode: v1 hashed files after decoding them as UTF-8 text, so
+ * this format still does. Binary files of existing lockfiles keep matching,
+ * while every SRI hash is computed from the raw bytes.
+ */
+export const LEGACY_HASH_FORMAT = "legacy";
+
+/** How a hash is computed: an SRI algorithm, or the v1 lockfile format */
+export type HashFormat = HashAlgorithm | typeof LEGACY_HASH_FORMAT;
+
+const DIGEST_LENGTHS: Record<HashAlgorithm, number> = { sha256: 32, sha512: 64 };
+
+const SRI_PATTERN = /^(sha256|sha512)-([A-Za-z0-9+/]+={0,2})$/;
+const LEGACY_PATTERN = /^sha256:([a-f0-9]+)$/;
+
+export interface ParsedHash {
+  format: HashFormat;
+  /** Hex digest (truncated for legacy hashes) */
+  digest: string;
+}
+
+/**
+ * Parse an SRI hash ("sha256-<base64>") or a v1 lockfile hash ("sha256:<hex>")
+ *
+ * @returns null for anything else, including SRI hashes with a wrong digest length
+ */
+export function parseHash(hash: string): ParsedHash | null {
+  const legacy = LEGACY_PATTERN.exec(hash);
+  if (legacy) {
+    return { format: LEGACY_HASH_FORMAT, digest: legacy[1]! };
+  }
+
+  const sri = SRI_PATTERN.exec(hash);
+  if (!sri) {
+    return null;
+  }
+
+  const algorithm = sri[1] as HashAlgorithm;
+  const digest = Buffer.from(sri[2]!, "base64");
+  return digest.length === DIGEST_LENGTHS[algorithm] ? { format: algorithm, digest: digest.toString("hex") } : null;
+}
+
+function digest(data: string | Uint8Array, format: HashFormat): string {
+  if (format === LEGACY_HASH_FORMAT) {
+    return `sha256:${createHash("sha256").update(data).digest("hex").slice(0, 32)}`;
+  }
+  return `${format}-${createHash(format).update(data).digest("base64")}`;
+}
+
+/**
+ * Hash content as an SRI string (e.g. "sha256-<base64>")
+ */
+export function hashContent(content: string | Uint8Array, format: HashFormat = DEFAULT_HASH_ALGORITHM): string {
+  if (format === LEGACY_HASH_FORMAT && typeof content !== "string") {
+    return digest(Buffer.from(content).toString("utf-8"), format);
+  }
+  return digest(content, format);
+}
+
+/**
+ * Read a file the way the format hashes it: raw bytes, or decoded text for v1 hashes
+ */
+function readForHashing(fs: FileSystem, filePath: string, format: HashFormat): string | Uint8Array {
+  return format === LEGACY_HASH_FORMAT ? fs.readFile(filePath) : fs.readFileBinary(filePath);
 }
 
 /**
  * Hash a single file by reading its content
  */
-export function hashFile(fs: FileSystem, filePath: string): string {
-  const content = fs.readFile(filePath);
-  return hashContent(content);
+export function hashFile(fs: FileSystem, filePath: string, format: HashFormat = DEFAULT_HASH_ALGORITHM): string {
+  return hashContent(readForHashing(fs, filePath, format), format);
+}
+
+/**
+ * Check content against a hash in any supported format (e.g. synced file hashes from a v1 lockfile)
+ */
+export function matchesHash(content: string | Uint8Array, hash: string): boolean {
+  const parsed = parseHash(hash);
+  return parsed !== null && hashContent(content, parsed.format) === hash;
 }
 
 /**
- * Hash all files in a directory recursively
+ * Hash every file in a directory recursively, ignore rules included, so
+ * integrity covers all extracted files (a tarball's .grektignore hides nothing)
  * Returns a map of relative paths to their hashes
  */
-export function hashDirectory(fs: FileSystem, dir: string): Record<string, string> {
+export function hashDirectory(
+  fs: FileSystem,
+  dir: string,
+  format: HashFormat = DEFAULT_HASH_ALGORITHM
+): Record<string, string> {
   const hashes: Record<string, string> = {};
 
-  function walkDir(currentDir: string): void {
-    const entries = fs.readdir(currentDir);
-
-    for (const entry of entries) {
-      const fullPath = join(currentDir, entry);
-      const stat = fs.stat(fullPath);
-
-      if (stat.isDirectory) {
-        walkDir(fullPath);
-      } else if (stat.isFile) {
-        const relativePath = relative(dir, fullPath);
-        const content = fs.readFile(fullPath);
-        hashes[relativePath] = hashContent(content);
-      }
-    }
+  for (const relativePath of walkArtifactFiles(fs, dir, { rules: "none" })) {
+    hashes[relativePath] = hashContent(readForHashing(fs, join(dir, relativePath), format), format);
   }
 
-  walkDir(dir);
   return hashes;
 }
 
 /**
  * Calculate integrity hash for entire artifact (hash of sorted file hashes)
  */
-export function calculateIntegrity(fileHashes: Record<string, string>): string {
+export function calculateIntegrity(
+  fileHashes: Record<string, string>,
+  format: HashFormat = DEFAULT_HASH_ALGORITHM
+): string {
   const sortedKeys = Object.keys(fileHashes).sort();
   const combined = sortedKeys.map((k) => `${k}:${fileHashes[k]}`).join("\n");
-  const hash = createHash("sha256").update(combined).digest("hex");
-  return `sha256:${hash.slice(0, 32)}`;
+  return digest(combined, format);
+}
+
+/**
+ * Check a directory against an artifact integrity in any supported format.
+ * Files are re-hashed the way the integrity was computed, so v1 lockfile
+ * entries keep verifying until they are reinstalled.
+ */
+export function matchesIntegrity(fs: FileSystem, dir: string, integrity: string): boolean {
+  const parsed = parseHash(integrity);
+  if (!parsed) {
+    return false;
+  }
+
+  const fileHashes = hashDirectory(fs, dir, parsed.format);
+  return Object.keys(fileHashes).length > 0 && calculateIntegrity(fileHashes, parsed.format) === integrity;
 }
 
 export interface IntegrityResult {
@@ -102,38 +186,43 @@ export function compareHashes(
 }
 
 /**
- * Verify integrity of an artifact against lockfile hashes
+ * Verify integrity of an artifact against lockfile hashes.
+ * Actual files are hashed in the format of the expected hashes (v1 lockfiles included).
+ *
+ * Every expected file is checked, ignored or not. Unlisted files only count
+ * as extra when not ignored, so local junk (e.g. .DS_Store) is not reported.
  */
 export function verifyIntegrity(
   fs: FileSystem,
   artifactDir: string,
   expectedFiles: Record<string, string>
 ): IntegrityResult {
-  const actualHashes = hashDirectory(fs, artifactDir);
+  const [firstHash] = Object.values(expectedFiles);
+  const format = (firstHash && parseHash(firstHash)?.format) || DEFAULT_HASH_ALGORITHM;
+
+  const paths = new Set(walkArtifactFiles(fs, artifactDir));
+  for (const path of Object.keys(expectedFiles)) {
+    if (fs.exists(join(artifactDir, path))) {
+      paths.add(path);
+    }
+  }
+
+  const actualHashes: Record<string, string> = {};
+  for (const path of paths) {
+    actualHashes[path] = hashFile(fs, join(artifactDir, path), format);
+  }
   return compareHashes(expectedFiles, actualHashes);
 }
 
 /**
- * Get total size of all files in a directory (in bytes)
+ * Get total size of all files in a directory (in bytes), skipping ignored files
  */
 export function getDirectorySize(fs: FileSystem, dir: string): number {
   let totalSize = 0;
 
-  function walkDir(currentDir: string): void {
-    const entries = fs.readdir(currentDir);
-
-    for (const entry of entries) {
-      const fullPath = join(currentDir, entry);
-      const stat = fs.stat(fullPath);
-
-      if (stat.isDirectory) {
-        walkDir(fullPath);
-      } else if (stat.isFile) {
-        totalSize += stat.size;
-      }
-    }
+  for (const relativePath of walkArtifactFiles(fs, dir)) {
+    totalSize += fs.stat(join(dir, relativePath)).size;
   }
 
-  walkDir(dir);
   return totalSize;
 }
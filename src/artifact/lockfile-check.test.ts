@@ -0,0 +1,224 @@
+import { describe, test, expect } from "vitest";
+import {
+  checkLockfile,
+  checkLockfileAgainstConfig,
+  checkInstalledArtifacts,
+  checkFrozenLockfile,
+} from "./lockfile-check";
+import { hashContent, hashDirectory } from "./integrity";
+import { ProjectConfigSchema, type Lockfile, type LockfileEntry, type ProjectConfig } from "#/schemas";
+import { createMockFileSystem } from "#/test-utils/mocks";
+
+const ARTIFACTS_DIR = "/project/.grekt/artifacts";
+const AGENT = hashContent("# Agent");
+const SKILL = hashContent("# Skill");
+
+function entry(version: string, overrides: Partial<LockfileEntry> = {}): LockfileEntry {
+  const files = { "agent.md": AGENT };
+  return { version, integrity: hashContent(JSON.stringify(files)), mode: "lazy", files, ...overrides };
+}
+
+function lockfile(artifacts: Record<string, LockfileEntry>): Lockfile {
+  return { version: 2, hashAlgorithm: "sha256", artifacts };
+}
+
+/**
+ * Mock filesystem with each artifact directory created, as an install does
+ */
+function installed(artifacts: Record<string, Record<string, string>>) {
+  const fs = createMockFileSystem();
+  for (const [artifactId, files] of Object.entries(artifacts)) {
+    fs.mkdir(`${ARTIFACTS_DIR}/${artifactId}`, { recursive: true });
+    for (const [path, content] of Object.entries(files)) {
+      fs.writeFile(`${ARTIFACTS_DIR}/${artifactId}/${path}`, content);
+    }
+  }
+  return fs;
+}
+
+function config(artifacts: Record<string, unknown>): ProjectConfig {
+  return ProjectConfigSchema.parse({ artifacts });
+}
+
+describe("checkLockfileAgainstConfig", () => {
+  test("accepts a lockfile that matches grekt.yaml", () => {
+    const issues = checkLockfileAgainstConfig(
+      config({
+        "@scope/exact": "1.0.0",
+        "@scope/range": { version: "^1.0.0", mode: "core" },
+        "@scope/tagged": "beta",
+        "@scope/dep-owner": "2.0.0",
+      }),
+      lockfile({
+        "@scope/exact": entry("1.0.0"),
+        "@scope/range": entry("1.4.1", { specifier: "^1.0.0", mode: "core" }),
+        "@scope/tagged": entry("3.0.0-beta.2", { specifier: "beta" }),
+        "@scope/dep-owner": entry("2.0.0"),
+        "@scope/dep": entry("1.0.0", { requiredBy: ["@scope/dep-owner"] }),
+      })
+    );
+
+    expect(issues).toEqual([]);
+  });
+
+  test("reports artifacts missing from either side", () => {
+    const issues = checkLockfileAgainstConfig(
+      config({ "@scope/new": "1.0.0" }),
+      lockfile({
+        "@scope/removed": entry("1.0.0"),
+        "@scope/orphan": entry("1.0.0", { requiredBy: ["@scope/removed-owner"] }),
+        "@scope/unused": entry("1.0.0", { requiredBy: [] }),
+      })
+    );
+
+    expect(issues.map(({ kind, artifactId }) => ({ kind, artifactId }))).toEqual([
+      { kind: "unlocked", artifactId: "@scope/new" },
+      { kind: "orphaned-dependency", artifactId: "@scope/orphan" },
+      { kind: "not-in-config", artifactId: "@scope/removed" },
+      { kind: "not-in-config", artifactId: "@scope/unused" },
+    ]);
+  });
+
+  test("reports version drift for exact versions, ranges and dist-tags", () => {
+    const issues = checkLockfileAgainstConfig(
+      config({
+        "@scope/exact": "1.1.0",
+        "@scope/range": "^2.0.0",
+        "@scope/respecified": "^1.2.0",
+        "@scope/tagged": "next",
+      }),
+      lockfile({
+        "@scope/exact": entry("1.0.0"),
+        "@scope/range": entry("1.4.1", { specifier: "^1.0.0" }),
+        "@scope/respecified": entry("1.4.1", { specifier: "^1.0.0" }),
+        "@scope/tagged": entry("2.0.0-beta.1", { specifier: "beta" }),
+      })
+    );
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      "@scope/exact is locked at 1.0.0, grekt.yaml pins 1.1.0",
+      "@scope/range is locked at 1.4.1, which does not satisfy ^2.0.0 from grekt.yaml",
+      "@scope/respecified is resolved from ^1.0.0, grekt.yaml asks for ^1.2.0",
+      "@scope/tagged is resolved from beta, grekt.yaml asks for next",
+    ]);
+    expect(issues.every((issue) => issue.kind === "version-mismatch")).toBe(true);
+  });
+
+  test("reports mode drift, with lazy as the grekt.yaml default", () => {
+    const issues = checkLockfileAgainstConfig(
+      config({ "@scope/a": "1.0.0", "@scope/b": { version: "1.0.0", mode: "core-sym" } }),
+      lockfile({ "@scope/a": entry("1.0.0", { mode: "core" }), "@scope/b": entry("1.0.0", { mode: "core" }) })
+    );
+
+    expect(issues).toEqual([
+      { kind: "mode-mismatch", artifactId: "@scope/a", message: "@scope/a is locked in core mode, grekt.yaml uses lazy" },
+      { kind: "mode-mismatch", artifactId: "@scope/b", message: "@scope/b is locked in core mode, grekt.yaml uses core-sym" },
+    ]);
+  });
+});
+
+describe("checkInstalledArtifacts", () => {
+  test("reports missing installs and file drift", () => {
+    const fs = installed({ "@scope/a": { "agent.md": "# Agent (edited)", "notes.md": "scratch" } });
+    const locked = lockfile({
+      "@scope/a": entry("1.0.0", { files: { "agent.md": AGENT, "skills/review.md": SKILL } }),
+      "@scope/b": entry("1.0.0"),
+    });
+
+    const issues = checkInstalledArtifacts(fs, locked, ARTIFACTS_DIR);
+
+    expect(issues.map(({ kind, artifactId, path }) => ({ kind, artifactId, path }))).toEqual([
+      { kind: "missing-file", artifactId: "@scope/a", path: "skills/review.md" },
+      { kind: "modified-file", artifactId: "@scope/a", path: "agent.md" },
+      { kind: "extra-file", artifactId: "@scope/a", path: "notes.md" },
+      { kind: "not-installed", artifactId: "@scope/b", path: undefined },
+    ]);
+  });
+
+  test("accepts installs that match their locked files", () => {
+    const fs = installed({ "@scope/a": { "agent.md": "# Agent" } });
+    const files = hashDirectory(fs, `${ARTIFACTS_DIR}/@scope/a`);
+
+    expect(checkInstalledArtifacts(fs, lockfile({ "@scope/a": entry("1.0.0", { files }) }), ARTIFACTS_DIR)).toEqual([]);
+  });
+});
+
+describe("checkLockfile", () => {
+  test("only config drift marks the lockfile outdated", () => {
+    const fs = installed({ "@scope/a": { "agent.md": "# Agent (edited)" } });
+    const locked = lockfile({ "@scope/a": entry("1.0.0") });
+
+    const drifted = checkLockfile(fs, config({ "@scope/a": "1.0.0" }), locked, ARTIFACTS_DIR);
+    expect(drifted.valid).toBe(false);
+    expect(drifted.outdated).toBe(false);
+
+    const outdated = checkLockfile(fs, config({ "@scope/a": "1.0.0", "@scope/b": "1.0.0" }), locked, ARTIFACTS_DIR);
+    expect(outdated.outdated).toBe(true);
+    expect(outdated.issues.map((issue) => issue.kind)).toEqual(["unlocked", "modified-file"]);
+  });
+
+  test("is valid when grekt.yaml, grekt.lock and the installs agree", () => {
+    const fs = installed({ "@scope/a": { "agent.md": "# Agent" } });
+
+    const result = checkLockfile(fs, config({ "@scope/a": "1.0.0" }), lockfile({ "@scope/a": entry("1.0.0") }), ARTIFACTS_DIR);
+
+    expect(result).toEqual({ valid: true, outdated: false, issues: [] });
+  });
+});
+
+describe("checkFrozenLockfile", () => {
+  test("passes when the install resolves the committed lockfile", () => {
+    const current = lockfile({ "@scope/a": entry("1.0.0") });
+
+    const result = checkFrozenLockfile(current, structuredClone(current));
+
+    expect(result.success).toBe(true);
+    expect(result.error).toBeUndefined();
+  });
+
+  test("fails with the lockfile diff when the install would change it", () => {
+    const current = lockfile({ "@scope/a": entry("1.0.0") });
+    const next = lockfile({ "@scope/a": entry("1.1.0") });
+
+    const result = checkFrozenLockfile(current, next);
+
+    expect(result.success).toBe(false);
+    expect(result.diff.upgraded).toHaveLength(1);
+    expect(result.error).toContain("would change grekt.lock");
+    expect(result.error).toContain("@scope/a 1.0.0 → 1.1.0");
+  });
+
+  test("fails when only fields outside the diff change", () => {
+    const current = lockfile({
+      "@scope/a": entry("1.4.1", { specifier: "^1.0.0", resolved: "https://registry.grekt.com/a-1.4.1.tgz" }),
+      "@scope/b": entry("1.0.0"),
+    });
+    const next = lockfile({
+      "@scope/a": entry("1.4.1", { specifier: "^1.4.0", resolved: "https://mirror.example.com/a-1.4.1.tgz" }),
+      "@scope/b": entry("1.0.0", { requiredBy: ["@scope/a"] }),
+    });
+
+    const result = checkFrozenLockfile(current, next);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("Other changes:\n  @scope/a: resolved, specifier\n  @scope/b: requiredBy");
+  });
+
+  test("fails when the lockfile settings change", () => {
+    const current = lockfile({ "@scope/a": entry("1.0.0") });
+
+    const result = checkFrozenLockfile(current, { ...current, hashAlgorithm: "sha512" });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("Other changes:\n  hashAlgorithm");
+  });
+
+  test("ignores key order and unset fields", () => {
+    const current = lockfile({ "@scope/a": entry("1.0.0", { specifier: "^1.0.0" }) });
+    const { specifier, ...rest } = current.artifacts["@scope/a"]!;
+
+    const result = checkFrozenLockfile(current, lockfile({ "@scope/a": { specifier, ...rest, resolved: undefined } }));
+
+    expect(result.success).toBe(true);
+  });
+});
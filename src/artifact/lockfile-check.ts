@@ -0,0 +1,267 @@
+/**
+ * Lockfile consistency
+ *
+ * Checks that grekt.lock still describes grekt.yaml (every configured
+ * artifact locked with a matching version and mode, nothing locked that the
+ * config dropped) and that .grekt/artifacts holds exactly the locked files.
+ *
+ * Frozen installs (CI) must not touch the lockfile: an outdated lockfile
+ * fails before resolving, and checkFrozenLockfile fails when the resolved
+ * lockfile differs from the committed one in any field.
+ */
+
+import { join } from "path";
+import { isDeepStrictEqual } from "util";
+import type { FileSystem } from "#/core";
+import type { ArtifactMode, Lockfile, LockfileEntry, ProjectConfig } from "#/schemas";
+import { isDistTag, isValidSemver, satisfiesRange } from "#/version";
+import { verifyIntegrity } from "./integrity";
+import { diffLockfiles, isLockfileDiffEmpty, renderLockfileDiffText, type LockfileDiff } from "./lockfile-diff";
+
+export type LockfileIssueKind =
+  // grekt.yaml ↔ grekt.lock (an install would rewrite the lockfile)
+  | "unlocked" // In grekt.yaml, missing from grekt.lock
+  | "not-in-config" // Locked, no longer in grekt.yaml and required by no artifact
+  | "orphaned-dependency" // Locked dependency whose dependents are all gone
+  | "version-mismatch"
+  | "mode-mismatch"
+  // grekt.lock ↔ .grekt/artifacts (an install would restore the files)
+  | "not-installed"
+  | "missing-file"
+  | "modified-file"
+  | "extra-file";
+
+export interface LockfileIssue {
+  kind: LockfileIssueKind;
+  artifactId: string;
+  /** File path relative to the artifact directory, for file issues */
+  path?: string;
+  message: string;
+}
+
+export interface LockfileCheckResult {
+  /** No issues at all */
+  valid: boolean;
+  /** An install would change grekt.lock (fails frozen installs) */
+  outdated: boolean;
+  issues: LockfileIssue[];
+}
+
+export interface FrozenLockfileResult {
+  success: boolean;
+  error?: string;
+  diff: LockfileDiff;
+}
+
+const LOCKFILE_ISSUES = new Set<LockfileIssueKind>([
+  "unlocked",
+  "not-in-config",
+  "orphaned-dependency",
+  "version-mismatch",
+  "mode-mismatch",
+]);
+
+/**
+ * Check if fixing an issue means rewriting grekt.lock
+ */
+export function isLockfileIssue(issue: LockfileIssue): boolean {
+  return LOCKFILE_ISSUES.has(issue.kind);
+}
+
+function byArtifactId(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Why a locked version does not match a grekt.yaml specifier, or null
+ *
+ * Dist-tags move, so only the recorded specifier is compared for them.
+ */
+function versionMismatch(spec: string, entry: LockfileEntry): string | null {
+  if (isValidSemver(spec)) {
+    return entry.version === spec ? null : `locked at ${entry.version}, grekt.yaml pins ${spec}`;
+  }
+
+  if (!isDistTag(spec) && !satisfiesRange(entry.version, spec)) {
+    return `locked at ${entry.version}, which does not satisfy ${spec} from grekt.yaml`;
+  }
+
+  if (entry.specifier !== spec) {
+    const lockedFrom = entry.specifier ? `resolved from ${entry.specifier}` : "locked as an exact version";
+    return `${lockedFrom}, grekt.yaml asks for ${spec}`;
+  }
+
+  return null;
+}
+
+/**
+ * Compare grekt.yaml artifacts with grekt.lock entries
+ */
+export function checkLockfileAgainstConfig(config: ProjectConfig, lockfile: Lockfile): LockfileIssue[] {
+  const issues: LockfileIssue[] = [];
+  const artifactIds = [...new Set([...Object.keys(config.artifacts), ...Object.keys(lockfile.artifacts)])].sort(
+    byArtifactId
+  );
+
+  for (const artifactId of artifactIds) {
+    const configEntry = config.artifacts[artifactId];
+    const lockEntry = lockfile.artifacts[artifactId];
+
+    if (!lockEntry) {
+      issues.push({ kind: "unlocked", artifactId, message: `${artifactId} is in grekt.yaml but not in grekt.lock` });
+      continue;
+    }
+
+    if (configEntry === undefined) {
+      const dependents = lockEntry.requiredBy ?? [];
+      if (dependents.length === 0) {
+        issues.push({ kind: "not-in-config", artifactId, message: `${artifactId} is locked but no longer in grekt.yaml` });
+      } else if (!dependents.some((dependent) => dependent in lockfile.artifacts)) {
+        issues.push({
+          kind: "orphaned-dependency",
+          artifactId,
+          message: `${artifactId} is locked as a dependency of ${dependents.join(", ")}, none of which is locked`,
+        });
+      }
+      continue;
+    }
+
+    // A plain version string means the whole artifact in lazy mode
+    const spec = typeof configEntry === "string" ? configEntry : configEntry.version;
+    const mode: ArtifactMode = typeof configEntry === "string" ? "lazy" : configEntry.mode;
+
+    const mismatch = versionMismatch(spec, lockEntry);
+    if (mismatch) {
+      issues.push({ kind: "version-mismatch", artifactId, message: `${artifactId} is ${mismatch}` });
+    }
+
+    if (lockEntry.mode !== mode) {
+      issues.push({
+        kind: "mode-mismatch",
+        artifactId,
+        message: `${artifactId} is locked in ${lockEntry.mode} mode, grekt.yaml uses ${mode}`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Compare grekt.lock file hashes with the installed artifacts
+ *
+ * @param artifactsDir - Install directory (.grekt/artifacts), one subdirectory per artifact ID
+ */
+export function checkInstalledArtifacts(fs: FileSystem, lockfile: Lockfile, artifactsDir: string): LockfileIssue[] {
+  const issues: LockfileIssue[] = [];
+
+  for (const artifactId of Object.keys(lockfile.artifacts).sort(byArtifactId)) {
+    const entry = lockfile.artifacts[artifactId]!;
+    const artifactDir = join(artifactsDir, artifactId);
+
+    if (!fs.exists(artifactDir)) {
+      issues.push({ kind: "not-installed", artifactId, message: `${artifactId}@${entry.version} is locked but not installed` });
+      continue;
+    }
+
+    const result = verifyIntegrity(fs, artifactDir, entry.files);
+    for (const path of result.missingFiles) {
+      issues.push({ kind: "missing-file", artifactId, path, message: `${artifactId}: ${path} is locked but missing` });
+    }
+    for (const { path } of result.modifiedFiles) {
+      issues.push({ kind: "modified-file", artifactId, path, message: `${artifactId}: ${path} does not match its locked hash` });
+    }
+    for (const path of result.extraFiles) {
+      issues.push({ kind: "extra-file", artifactId, path, message: `${artifactId}: ${path} is not in grekt.lock` });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Report every mismatch between grekt.yaml, grekt.lock and the installed artifacts
+ *
+ * @param artifactsDir - Install directory (PathConfig.artifactsDir)
+ */
+export function checkLockfile(
+  fs: FileSystem,
+  config: ProjectConfig,
+  lockfile: Lockfile,
+  artifactsDir: string
+): LockfileCheckResult {
+  const issues = [...checkLockfileAgainstConfig(config, lockfile), ...checkInstalledArtifacts(fs, lockfile, artifactsDir)];
+
+  return {
+    valid: issues.length === 0,
+    outdated: issues.some(isLockfileIssue),
+    issues,
+  };
+}
+
+// Entry fields the lockfile diff reports
+const DIFFED_ENTRY_FIELDS = new Set(["version", "mode", "integrity", "files"]);
+
+/**
+ * Lockfile as written to disk: undefined fields dropped
+ */
+function toWritten(lockfile: Lockfile): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(lockfile));
+}
+
+function changedFields(before: Record<string, unknown>, after: Record<string, unknown>, skip: Set<string>): string[] {
+  return [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter((field) => !skip.has(field) && !isDeepStrictEqual(before[field], after[field]))
+    .sort();
+}
+
+/**
+ * Changes the lockfile diff does not show: lockfile settings and entry fields
+ * such as specifier, resolved or requiredBy
+ */
+function describeOtherChanges(current: Record<string, unknown>, next: Record<string, unknown>): string[] {
+  const lines = changedFields(current, next, new Set(["artifacts"])).map((field) => `  ${field}`);
+
+  const before = current.artifacts as Record<string, Record<string, unknown>>;
+  const after = next.artifacts as Record<string, Record<string, unknown>>;
+  for (const artifactId of Object.keys(after).sort(byArtifactId)) {
+    if (!before[artifactId]) continue;
+    const fields = changedFields(before[artifactId]!, after[artifactId]!, DIFFED_ENTRY_FIELDS);
+    if (fields.length > 0) {
+      lines.push(`  ${artifactId}: ${fields.join(", ")}`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Frozen install guard: fail when the lockfile an install resolved differs
+ * from the committed one in any field (the diff only explains the failure)
+ *
+ * @param current - Committed grekt.lock
+ * @param next - Lockfile the install would write
+ */
+export function checkFrozenLockfile(current: Lockfile, next: Lockfile): FrozenLockfileResult {
+  const diff = diffLockfiles(current, next);
+  const written = { current: toWritten(current), next: toWritten(next) };
+
+  if (isDeepStrictEqual(written.current, written.next)) {
+    return { success: true, diff };
+  }
+
+  const sections: string[] = [];
+  if (!isLockfileDiffEmpty(diff)) {
+    sections.push(renderLockfileDiffText(diff).trimEnd());
+  }
+  const otherChanges = describeOtherChanges(written.current, written.next);
+  if (otherChanges.length > 0) {
+    sections.push(["Other changes:", ...otherChanges].join("\n"));
+  }
+
+  return {
+    success: false,
+    error: `Frozen lockfile: the install would change grekt.lock. Update it and commit the result\n\n${sections.join("\n\n")}\n`,
+    diff,
+  };
+}
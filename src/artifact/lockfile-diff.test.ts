@@ -0,0 +1,166 @@
+import { describe, test, expect } from "vitest";
+import {
+  diffLockfiles,
+  isLockfileDiffEmpty,
+  renderLockfileDiffText,
+  renderLockfileDiffJson,
+} from "./lockfile-diff";
+import { hashContent, LEGACY_HASH_FORMAT } from "./integrity";
+import type { Lockfile, LockfileEntry } from "#/schemas";
+
+const AGENT = hashContent("# Agent");
+const AGENT_V2 = hashContent("# Agent v2");
+const SKILL = hashContent("# Skill");
+
+function entry(version: string, files: Record<string, string>, overrides: Partial<LockfileEntry> = {}): LockfileEntry {
+  return { version, integrity: hashContent(JSON.stringify(files)), mode: "lazy", files, ...overrides };
+}
+
+function lockfile(artifacts: Record<string, LockfileEntry>): Lockfile {
+  return { version: 2, hashAlgorithm: "sha256", artifacts };
+}
+
+describe("diffLockfiles", () => {
+  test("reports added and removed artifacts", () => {
+    const before = lockfile({ "@scope/old": entry("1.0.0", { "agent.md": AGENT }) });
+    const after = lockfile({ "@scope/new": entry("2.0.0", { "agent.md": AGENT }, { mode: "core" }) });
+
+    const diff = diffLockfiles(before, after);
+
+    expect(diff.added).toEqual([{ artifactId: "@scope/new", version: "2.0.0", mode: "core" }]);
+    expect(diff.removed).toEqual([{ artifactId: "@scope/old", version: "1.0.0", mode: "lazy" }]);
+  });
+
+  test("reports upgrades and downgrades with per-file changes", () => {
+    const before = lockfile({
+      "@scope/a": entry("1.0.0", { "agent.md": AGENT, "old.md": SKILL }),
+      "@scope/b": entry("2.0.0", { "agent.md": AGENT }),
+    });
+    const after = lockfile({
+      "@scope/a": entry("1.1.0", { "agent.md": AGENT_V2, "skills/new.md": SKILL }),
+      "@scope/b": entry("1.9.0", { "agent.md": AGENT }),
+    });
+
+    const diff = diffLockfiles(before, after);
+
+    expect(diff.upgraded).toEqual([
+      {
+        artifactId: "@scope/a",
+        from: "1.0.0",
+        to: "1.1.0",
+        files: { added: ["skills/new.md"], removed: ["old.md"], modified: ["agent.md"] },
+      },
+    ]);
+    expect(diff.downgraded).toEqual([
+      { artifactId: "@scope/b", from: "2.0.0", to: "1.9.0", files: { added: [], removed: [], modified: [] } },
+    ]);
+  });
+
+  test("reports mode changes alongside version changes", () => {
+    const before = lockfile({ "@scope/a": entry("1.0.0", { "agent.md": AGENT }) });
+    const after = lockfile({ "@scope/a": entry("1.1.0", { "agent.md": AGENT }, { mode: "core" }) });
+
+    const diff = diffLockfiles(before, after);
+
+    expect(diff.modeChanged).toEqual([{ artifactId: "@scope/a", from: "lazy", to: "core" }]);
+    expect(diff.upgraded).toHaveLength(1);
+  });
+
+  test("flags content that changed without a version change", () => {
+    const before = lockfile({ "@scope/a": entry("1.0.0", { "agent.md": AGENT }) });
+    const tampered = entry("1.0.0", { "agent.md": AGENT_V2 });
+    const after = lockfile({ "@scope/a": tampered });
+
+    const diff = diffLockfiles(before, after);
+
+    expect(diff.integrityChanged).toEqual([
+      {
+        artifactId: "@scope/a",
+        version: "1.0.0",
+        from: before.artifacts["@scope/a"]!.integrity,
+        to: tampered.integrity,
+        files: { added: [], removed: [], modified: ["agent.md"] },
+      },
+    ]);
+    expect(diff.upgraded).toEqual([]);
+  });
+
+  test("reports v1 entries re-hashed to SRI as rehashed, not changed", () => {
+    const before = lockfile({
+      "@scope/a": entry("1.0.0", { "agent.md": hashContent("# Agent", LEGACY_HASH_FORMAT) }, {
+        integrity: hashContent("files", LEGACY_HASH_FORMAT),
+      }),
+    });
+    const after = lockfile({ "@scope/a": entry("1.0.0", { "agent.md": AGENT }) });
+
+    const diff = diffLockfiles(before, after);
+
+    expect(diff.integrityChanged).toEqual([]);
+    expect(diff.rehashed).toEqual(["@scope/a"]);
+  });
+
+  test("returns an empty diff for identical lockfiles", () => {
+    const same = lockfile({ "@scope/a": entry("1.0.0", { "agent.md": AGENT }) });
+
+    expect(isLockfileDiffEmpty(diffLockfiles(same, same))).toBe(true);
+  });
+});
+
+describe("renderLockfileDiffText", () => {
+  test("renders a summary line and one section per change type", () => {
+    const before = lockfile({
+      "@scope/a": entry("1.0.0", { "agent.md": AGENT }),
+      "@scope/gone": entry("0.1.0", {}),
+    });
+    const after = lockfile({
+      "@scope/a": entry("1.1.0", { "agent.md": AGENT_V2, "skills/new.md": SKILL }),
+      "@scope/b": entry("2.0.0", {}, { mode: "core" }),
+    });
+
+    const text = renderLockfileDiffText(diffLockfiles(before, after));
+
+    expect(text).toBe(
+      [
+        "grekt.lock: 1 added, 1 removed, 1 upgraded",
+        "",
+        "Added:",
+        "  @scope/b 2.0.0 (core)",
+        "",
+        "Removed:",
+        "  @scope/gone 0.1.0",
+        "",
+        "Upgraded:",
+        "  @scope/a 1.0.0 → 1.1.0",
+        "    + skills/new.md",
+        "    ~ agent.md",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("renders a single line when nothing changed", () => {
+    const same = lockfile({});
+
+    expect(renderLockfileDiffText(diffLockfiles(same, same))).toBe("grekt.lock: no changes\n");
+  });
+});
+
+describe("renderLockfileDiffJson", () => {
+  test("renders the summary counts with the diff", () => {
+    const before = lockfile({});
+    const after = lockfile({ "@scope/a": entry("1.0.0", {}) });
+
+    const json = JSON.parse(renderLockfileDiffJson(diffLockfiles(before, after)));
+
+    expect(json.summary).toEqual({
+      added: 1,
+      removed: 0,
+      upgraded: 0,
+      downgraded: 0,
+      modeChanged: 0,
+      integrityChanged: 0,
+      rehashed: 0,
+    });
+    expect(json.added).toEqual([{ artifactId: "@scope/a", version: "1.0.0", mode: "lazy" }]);
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Lockfile diff
+ *
+ * Compares two grekt.lock contents so a lockfile change can be reviewed
+ * without reading raw YAML (e.g. posted as a CI comment). Pure: callers
+ * read both lockfiles (getLockfile, or a base branch checkout).
+ *
+ * Hashes in different formats (a v1 entry re-hashed to SRI) cannot be
+ * compared, so they are reported as rehashed instead of changed.
+ */
+
+import type { ArtifactMode, Lockfile, LockfileEntry } from "#/schemas";
+import { compareSemver } from "#/version";
+import { parseHash } from "./integrity";
+
+export interface LockfileFileChanges {
+  added: string[];
+  removed: string[];
+  modified: string[];
+}
+
+export interface LockfileArtifactRef {
+  artifactId: string;
+  version: string;
+  mode: ArtifactMode;
+}
+
+export interface LockfileVersionChange {
+  artifactId: string;
+  from: string;
+  to: string;
+  files: LockfileFileChanges;
+}
+
+export interface LockfileModeChange {
+  artifactId: string;
+  from: ArtifactMode;
+  to: ArtifactMode;
+}
+
+export interface LockfileIntegrityChange {
+  artifactId: string;
+  version: string;
+  from: string;
+  to: string;
+  files: LockfileFileChanges;
+}
+
+export interface LockfileDiff {
+  added: LockfileArtifactRef[];
+  removed: LockfileArtifactRef[];
+  upgraded: LockfileVersionChange[];
+  downgraded: LockfileVersionChange[];
+  modeChanged: LockfileModeChange[];
+  /** Same version, different content: the artifact changed behind its version */
+  integrityChanged: LockfileIntegrityChange[];
+  /** Same version re-hashed in another format (v1 lockfile migration) */
+  rehashed: string[];
+}
+
+export interface LockfileDiffSummary {
+  added: number;
+  removed: number;
+  upgraded: number;
+  downgraded: number;
+  modeChanged: number;
+  integrityChanged: number;
+  rehashed: number;
+}
+
+function hashFormat(hash: string): string | undefined {
+  return parseHash(hash)?.format;
+}
+
+/**
+ * Hashes are only comparable in the same format
+ */
+function hashChanged(before: string, after: string): boolean {
+  return before !== after && hashFormat(before) === hashFormat(after);
+}
+
+function byPath(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function diffFiles(before: Record<string, string>, after: Record<string, string>): LockfileFileChanges {
+  const changes: LockfileFileChanges = { added: [], removed: [], modified: [] };
+
+  for (const [path, hash] of Object.entries(after)) {
+    const previous = before[path];
+    if (previous === undefined) {
+      changes.added.push(path);
+    } else if (hashChanged(previous, hash)) {
+      changes.modified.push(path);
+    }
+  }
+
+  for (const path of Object.keys(before)) {
+    if (!(path in after)) {
+      changes.removed.push(path);
+    }
+  }
+
+  changes.added.sort(byPath);
+  changes.removed.sort(byPath);
+  changes.modified.sort(byPath);
+  return changes;
+}
+
+function toRef(artifactId: string, entry: LockfileEntry): LockfileArtifactRef {
+  return { artifactId, version: entry.version, mode: entry.mode };
+}
+
+/**
+ * Compare two lockfiles
+ *
+ * An artifact can appear in several lists (e.g. upgraded and mode changed).
+ * Every list is sorted by artifact ID.
+ */
+export function diffLockfiles(before: Lockfile, after: Lockfile): LockfileDiff {
+  const diff: LockfileDiff = {
+    added: [],
+    removed: [],
+    upgraded: [],
+    downgraded: [],
+    modeChanged: [],
+    integrityChanged: [],
+    rehashed: [],
+  };
+
+  const artifactIds = [...new Set([...Object.keys(before.artifacts), ...Object.keys(after.artifacts)])].sort(byPath);
+
+  for (const artifactId of artifactIds) {
+    const previous = before.artifacts[artifactId];
+    const current = after.artifacts[artifactId];
+
+    if (!previous) {
+      diff.added.push(toRef(artifactId, current!));
+      continue;
+    }
+    if (!current) {
+      diff.removed.push(toRef(artifactId, previous));
+      continue;
+    }
+
+    if (previous.mode !== current.mode) {
+      diff.modeChanged.push({ artifactId, from: previous.mode, to: current.mode });
+    }
+
+    const order = compareSemver(previous.version, current.version);
+    if (order !== 0) {
+      const change = { artifactId, from: previous.version, to: current.version, files: diffFiles(previous.files, current.files) };
+      (order < 0 ? diff.upgraded : diff.downgraded).push(change);
+    } else if (hashChanged(previous.integrity, current.integrity)) {
+      diff.integrityChanged.push({
+        artifactId,
+        version: current.version,
+        from: previous.integrity,
+        to: current.integrity,
+        files: diffFiles(previous.files, current.files),
+      });
+    } else if (previous.integrity !== current.integrity) {
+      diff.rehashed.push(artifactId);
+    }
+  }
+
+  return diff;
+}
+
+export function summarizeLockfileDiff(diff: LockfileDiff): LockfileDiffSummary {
+  return {
+    added: diff.added.length,
+    removed: diff.removed.length,
+    upgraded: diff.upgraded.length,
+    downgraded: diff.downgraded.length,
+    modeChanged: diff.modeChanged.length,
+    integrityChanged: diff.integrityChanged.length,
+    rehashed: diff.rehashed.length,
+  };
+}
+
+/**
+ * Check if a diff has no changes at all
+ */
+export function isLockfileDiffEmpty(diff: LockfileDiff): boolean {
+  return Object.values(summarizeLockfileDiff(diff)).every((count) => count === 0);
+}
+
+const SUMMARY_LABELS: Record<keyof LockfileDiffSummary, string> = {
+  added: "added",
+  removed: "removed",
+  upgraded: "upgraded",
+  downgraded: "downgraded",
+  modeChanged: "mode changed",
+  integrityChanged: "integrity changed",
+  rehashed: "rehashed",
+};
+
+function renderFileChanges(files: LockfileFileChanges): string[] {
+  return [
+    ...files.added.map((path) => `    + ${path}`),
+    ...files.removed.map((path) => `    - ${path}`),
+    ...files.modified.map((path) => `    ~ ${path}`),
+  ];
+}
+
+/**
+ * Render a diff as plain text (fits a CI comment in a code block)
+ *
+ * @example
+ * grekt.lock: 1 upgraded, 1 integrity changed
+ *
+ * Upgraded:
+ *   @scope/reviewer 1.0.0 → 1.1.0
+ *     + skills/audit.md
+ */
+export function renderLockfileDiffText(diff: LockfileDiff): string {
+  if (isLockfileDiffEmpty(diff)) {
+    return "grekt.lock: no changes\n";
+  }
+
+  const summary = Object.entries(summarizeLockfileDiff(diff))
+    .filter(([, count]) => count > 0)
+    .map(([key, count]) => `${count} ${SUMMARY_LABELS[key as keyof LockfileDiffSummary]}`);
+
+  const sections: Array<[string, string[]]> = [
+    ["Added", diff.added.map((a) => `  ${a.artifactId} ${a.version} (${a.mode})`)],
+    ["Removed", diff.removed.map((a) => `  ${a.artifactId} ${a.version}`)],
+    ["Upgraded", diff.upgraded.flatMap((c) => [`  ${c.artifactId} ${c.from} → ${c.to}`, ...renderFileChanges(c.files)])],
+    ["Downgraded", diff.downgraded.flatMap((c) => [`  ${c.artifactId} ${c.from} → ${c.to}`, ...renderFileChanges(c.files)])],
+    ["Mode changed", diff.modeChanged.map((c) => `  ${c.artifactId} ${c.from} → ${c.to}`)],
+    [
+      "Integrity changed without a version change",
+      diff.integrityChanged.flatMap((c) => [`  ${c.artifactId} ${c.version}`, ...renderFileChanges(c.files)]),
+    ],
+    ["Rehashed (lockfile format upgrade, content not compared)", diff.rehashed.map((id) => `  ${id}`)],
+  ];
+
+  const lines = [`grekt.lock: ${summary.join(", ")}`];
+  for (const [title, entries] of sections) {
+    if (entries.length > 0) {
+      lines.push("", `${title}:`, ...entries);
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Render a diff as JSON, with the summary counts first
+ */
+export function renderLockfileDiffJson(diff: LockfileDiff): string {
+  return `${JSON.stringify({ summary: summarizeLockfileDiff(diff), ...diff }, null, 2)}\n`;
+}
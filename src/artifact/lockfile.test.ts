@@ -4,7 +4,11 @@ import {
   saveLockfile,
   createEmptyLockfile,
   lockfileExists,
+  migrateLockfile,
+  hasLegacyHashes,
+  upgradeLockfileEntry,
 } from "./lockfile";
+import { hashDirectory, calculateIntegrity, verifyIntegrity, LEGACY_HASH_FORMAT } from "./integrity";
 import { createMockFileSystem } from "#/test-utils/mocks";
 import { stringify, parse } from "yaml";
 import type { Lockfile } from "#/schemas";
@@ -14,7 +18,8 @@ describe("lockfile", () => {
     test("returns valid lockfile structure", () => {
       const result = createEmptyLockfile();
 
-      expect(result.version).toBe(1);
+      expect(result.version).toBe(2);
+      expect(result.hashAlgorithm).toBe("sha256");
       expect(result.artifacts).toEqual({});
     });
 
@@ -63,14 +68,15 @@ describe("lockfile", () => {
 
       expect(result.success).toBe(true);
       if (result.success) {
-        expect(result.data.version).toBe(1);
+        expect(result.data.version).toBe(2);
         expect(result.data.artifacts).toEqual({});
       }
     });
 
     test("parses existing lockfile", () => {
       const lockfileData: Lockfile = {
-        version: 1,
+        version: 2,
+        hashAlgorithm: "sha256",
         artifacts: {
           "@scope/artifact": {
             version: "1.0.0",
@@ -91,7 +97,7 @@ describe("lockfile", () => {
 
       expect(result.success).toBe(true);
       if (result.success) {
-        expect(result.data.version).toBe(1);
+        expect(result.data.version).toBe(2);
         expect(result.data.artifacts["@scope/artifact"]).toBeDefined();
         expect(result.data.artifacts["@scope/artifact"].version).toBe("1.0.0");
         expect(result.data.artifacts["@scope/artifact"].integrity).toBe("sha256:abc123def456");
@@ -100,7 +106,8 @@ describe("lockfile", () => {
 
     test("parses lockfile with multiple artifacts", () => {
       const lockfileData: Lockfile = {
-        version: 1,
+        version: 2,
+        hashAlgorithm: "sha256",
         artifacts: {
           "@org/artifact1": {
             version: "1.0.0",
@@ -244,7 +251,8 @@ describe("lockfile", () => {
     test("writes lockfile to disk as YAML", () => {
       const fs = createMockFileSystem();
       const lockfile: Lockfile = {
-        version: 1,
+        version: 2,
+        hashAlgorithm: "sha256",
         artifacts: {
           "@scope/test": {
             version: "1.0.0",
@@ -261,13 +269,14 @@ describe("lockfile", () => {
       expect(fs.exists("/project/grekt.lock")).toBe(true);
       const content = fs.readFile("/project/grekt.lock");
       const parsed = parse(content);
-      expect(parsed.version).toBe(1);
+      expect(parsed.version).toBe(2);
       expect(parsed.artifacts["@scope/test"].version).toBe("1.0.0");
     });
 
     test("overwrites existing lockfile", () => {
       const initialLockfile: Lockfile = {
-        version: 1,
+        version: 2,
+        hashAlgorithm: "sha256",
         artifacts: {
           "@scope/old": {
             version: "0.1.0",
@@ -282,7 +291,8 @@ describe("lockfile", () => {
         "/project/grekt.lock": stringify(initialLockfile),
       });
       const newLockfile: Lockfile = {
-        version: 1,
+        version: 2,
+        hashAlgorithm: "sha256",
         artifacts: {
           "@scope/new": {
             version: "2.0.0",
@@ -306,7 +316,8 @@ describe("lockfile", () => {
     test("synced hashes survive lockfile round-trip", () => {
       const fs = createMockFileSystem();
       const lockfile: Lockfile = {
-        version: 1,
+        version: 2,
+        hashAlgorithm: "sha256",
         artifacts: {
           "@author/foo": {
             version: "1.0.0",
@@ -365,7 +376,8 @@ describe("lockfile", () => {
     test("preserves all artifact data", () => {
       const fs = createMockFileSystem();
       const lockfile: Lockfile = {
-        version: 1,
+        version: 2,
+        hashAlgorithm: "sha256",
         artifacts: {
           "@scope/complete": {
             version: "3.0.0",
@@ -395,4 +407,90 @@ describe("lockfile", () => {
       }
     });
   });
+
+  describe("v1 migration", () => {
+    const ARTIFACT_DIR = "/project/.grekt/artifacts/@scope/artifact";
+
+    function setupLegacyInstall() {
+      const fs = createMockFileSystem({
+        [`${ARTIFACT_DIR}/agent.md`]: "# Agent",
+        [`${ARTIFACT_DIR}/skills/review.md`]: "# Review",
+      });
+      const files = hashDirectory(fs, ARTIFACT_DIR, LEGACY_HASH_FORMAT);
+      const entry = {
+        version: "1.0.0",
+        integrity: calculateIntegrity(files, LEGACY_HASH_FORMAT),
+        mode: "lazy" as const,
+        files,
+      };
+      return { fs, entry };
+    }
+
+    test("getLockfile migrates v1 lockfiles and keeps their entries verifiable", () => {
+      const { fs, entry } = setupLegacyInstall();
+      fs.writeFile("/project/grekt.lock", stringify({ version: 1, artifacts: { "@scope/artifact": entry } }));
+
+      const result = getLockfile(fs, "/project/grekt.lock");
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.version).toBe(2);
+        expect(result.data.hashAlgorithm).toBe("sha256");
+        const migrated = result.data.artifacts["@scope/artifact"]!;
+        expect(migrated.integrity).toBe(entry.integrity);
+        expect(verifyIntegrity(fs, ARTIFACT_DIR, migrated.files).valid).toBe(true);
+      }
+    });
+
+    test("migrateLockfile leaves v2 lockfiles untouched", () => {
+      const lockfile = createEmptyLockfile("sha512");
+
+      expect(migrateLockfile(lockfile)).toBe(lockfile);
+    });
+
+    test("upgradeLockfileEntry re-hashes verified v1 entries", () => {
+      const { fs, entry } = setupLegacyInstall();
+      expect(hasLegacyHashes(entry)).toBe(true);
+
+      const upgraded = upgradeLockfileEntry(fs, entry, ARTIFACT_DIR, "sha256");
+
+      expect(upgraded).not.toBeNull();
+      expect(hasLegacyHashes(upgraded!)).toBe(false);
+      expect(upgraded!.integrity).toBe(calculateIntegrity(hashDirectory(fs, ARTIFACT_DIR)));
+      expect(upgraded!.files["agent.md"]).toMatch(/^sha256-/);
+      expect(upgradeLockfileEntry(fs, upgraded!, ARTIFACT_DIR, "sha256")).toBe(upgraded);
+    });
+
+    test("upgradeLockfileEntry re-hashes entries in the lockfile's algorithm", () => {
+      const { fs, entry } = setupLegacyInstall();
+      const sha256 = upgradeLockfileEntry(fs, entry, ARTIFACT_DIR, "sha256")!;
+
+      const sha512 = upgradeLockfileEntry(fs, sha256, ARTIFACT_DIR, "sha512");
+
+      expect(sha512!.integrity).toBe(calculateIntegrity(hashDirectory(fs, ARTIFACT_DIR, "sha512"), "sha512"));
+      expect(sha512!.files["agent.md"]).toMatch(/^sha512-/);
+    });
+
+    test("upgradeLockfileEntry keeps listed files that ignore rules now skip", () => {
+      const { fs } = setupLegacyInstall();
+      fs.writeFile(`${ARTIFACT_DIR}/._agent.md`, "resource fork");
+      fs.writeFile(`${ARTIFACT_DIR}/notes.md~`, "backup");
+      const files = hashDirectory(fs, ARTIFACT_DIR, LEGACY_HASH_FORMAT);
+      const entry = { version: "1.0.0", integrity: calculateIntegrity(files, LEGACY_HASH_FORMAT), mode: "lazy" as const, files };
+      fs.writeFile(`${ARTIFACT_DIR}/.DS_Store`, "finder");
+
+      const upgraded = upgradeLockfileEntry(fs, entry, ARTIFACT_DIR, "sha256");
+
+      expect(upgraded).not.toBeNull();
+      expect(Object.keys(upgraded!.files).sort()).toEqual(["._agent.md", "agent.md", "notes.md~", "skills/review.md"]);
+      expect(upgraded!.files["._agent.md"]).toMatch(/^sha256-/);
+    });
+
+    test("upgradeLockfileEntry refuses installs that no longer match", () => {
+      const { fs, entry } = setupLegacyInstall();
+      fs.writeFile(`${ARTIFACT_DIR}/agent.md`, "# Tampered");
+
+      expect(upgradeLockfileEntry(fs, entry, ARTIFACT_DIR, "sha256")).toBeNull();
+    });
+  });
 });
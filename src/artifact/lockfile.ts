@@ -1,14 +1,35 @@
+import { join } from "path";
 import { stringify } from "yaml";
 import type { FileSystem } from "#/core";
-import { LockfileSchema, type Lockfile } from "#/schemas";
+import {
+  AnyLockfileSchema,
+  type HashAlgorithm,
+  type Lockfile,
+  type LockfileEntry,
+  type LockfileV1,
+} from "#/schemas";
 import { safeParseYaml, type ParseResult } from "#/friendly-errors";
+import {
+  DEFAULT_HASH_ALGORITHM,
+  LEGACY_HASH_FORMAT,
+  parseHash,
+  hashFile,
+  calculateIntegrity,
+  verifyIntegrity,
+} from "./integrity";
 
-export function getLockfile(fs: FileSystem, lockfilePath: string) {
+export const LOCKFILE_VERSION = 2;
+
+/**
+ * Read grekt.lock. v1 lockfiles are migrated in memory, so the next save writes v2.
+ */
+export function getLockfile(fs: FileSystem, lockfilePath: string): ParseResult<Lockfile> {
   if (!fs.exists(lockfilePath)) {
-    return { success: true as const, data: createEmptyLockfile() };
+    return { success: true, data: createEmptyLockfile() };
   }
   const content = fs.readFile(lockfilePath);
-  return safeParseYaml(content, LockfileSchema, lockfilePath);
+  const result = safeParseYaml(content, AnyLockfileSchema, lockfilePath);
+  return result.success ? { success: true, data: migrateLockfile(result.data) } : result;
 }
 
 export function saveLockfile(fs: FileSystem, lockfilePath: string, data: Lockfile): void {
@@ -16,9 +37,10 @@ export function saveLockfile(fs: FileSystem, lockfilePath: string, data: Lockfil
   fs.writeFile(lockfilePath, content);
 }
 
-export function createEmptyLockfile(): Lockfile {
+export function createEmptyLockfile(hashAlgorithm: HashAlgorithm = DEFAULT_HASH_ALGORITHM): Lockfile {
   return {
-    version: 1,
+    version: LOCKFILE_VERSION,
+    hashAlgorithm,
     artifacts: {},
   };
 }
@@ -26,3 +48,69 @@ export function createEmptyLockfile(): Lockfile {
 export function lockfileExists(fs: FileSystem, lockfilePath: string): boolean {
   return fs.exists(lockfilePath);
 }
+
+/**
+ * Upgrade a lockfile to v2
+ *
+ * Entries keep their v1 hashes, which still verify (see matchesIntegrity),
+ * until upgradeLockfileEntry re-hashes them on the next install.
+ */
+export function migrateLockfile(lockfile: Lockfile | LockfileV1): Lockfile {
+  if (lockfile.version === LOCKFILE_VERSION) {
+    return lockfile;
+  }
+
+  return {
+    version: LOCKFILE_VERSION,
+    hashAlgorithm: DEFAULT_HASH_ALGORITHM,
+    artifacts: lockfile.artifacts,
+  };
+}
+
+/**
+ * Check if an entry still carries v1 hashes
+ */
+export function hasLegacyHashes(entry: LockfileEntry): boolean {
+  return parseHash(entry.integrity)?.format === LEGACY_HASH_FORMAT;
+}
+
+/**
+ * Re-hash an entry from its installed files in the lockfile's algorithm
+ * (v1 hashes, or SRI hashes from before Lockfile.hashAlgorithm changed)
+ *
+ * The installed files must match the files the entry lists (which must match
+ * its integrity) first, so a tampered install is never blessed with new hashes.
+ * Listed files stay listed even when ignore rules now skip them. Synced hashes
+ * are left as they are and rewritten by the next sync (compare them with matchesHash).
+ *
+ * @param hashAlgorithm - Lockfile.hashAlgorithm
+ * @returns The entry hashed with hashAlgorithm (unchanged when it already is),
+ *          or null when the installed files do not match the entry
+ */
+export function upgradeLockfileEntry(
+  fs: FileSystem,
+  entry: LockfileEntry,
+  artifactDir: string,
+  hashAlgorithm: HashAlgorithm
+): LockfileEntry | null {
+  const format = parseHash(entry.integrity)?.format;
+  if (format === hashAlgorithm) {
+    return entry;
+  }
+
+  const installed = verifyIntegrity(fs, artifactDir, entry.files);
+  if (
+    !format ||
+    !installed.valid ||
+    installed.extraFiles.length > 0 ||
+    calculateIntegrity(entry.files, format) !== entry.integrity
+  ) {
+    return null;
+  }
+
+  const files: Record<string, string> = {};
+  for (const path of Object.keys(entry.files)) {
+    files[path] = hashFile(fs, join(artifactDir, path), hashAlgorithm);
+  }
+  return { ...entry, integrity: calculateIntegrity(files, hashAlgorithm), files };
+}
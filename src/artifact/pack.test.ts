@@ -0,0 +1,159 @@
+import { describe, test, expect } from "vitest";
+import { parse } from "yaml";
+import { packArtifact } from "./pack";
+import { createMockFileSystem, createMockTarOperations } from "#/test-utils/mocks";
+import type { FileSystem } from "#/core";
+
+const MANIFEST = "# Reviewer artifact\nname: \"@scope/reviewer\"\nversion: 1.0.0\ndescription: Code review helpers\n";
+
+function skill(name: string): string {
+  return `---\ngrk-type: skills\ngrk-name: ${name}\ngrk-description: ${name} skill\n---\n# ${name}`;
+}
+
+const ARTIFACT_FILES: Record<string, string> = {
+  "/artifact/grekt.yaml": MANIFEST,
+  "/artifact/skills/review/SKILL.md": skill("review"),
+  "/artifact/skills/audit/SKILL.md": skill("audit"),
+  "/artifact/agents/reviewer.md": "---\ngrk-type: agents\ngrk-name: reviewer\ngrk-description: Reviewer agent\n---\n# Agent",
+};
+
+/**
+ * Deterministic fake tar: the archive is the ordered entry list with file contents
+ */
+function createPacker(fs: FileSystem) {
+  const tar = createMockTarOperations();
+  tar.create = (options) => {
+    tar.calls.push({ operation: "create", options });
+    const archive = options.entries.map((entry) => [entry, fs.readFile(`${options.sourceDir}/${entry}`)]);
+    fs.writeFileBinary(options.outputPath, Buffer.from(JSON.stringify(archive)));
+  };
+  return tar;
+}
+
+function readArchive(fs: FileSystem, path: string): Map<string, string> {
+  return new Map(JSON.parse(fs.readFileBinary(path).toString()));
+}
+
+describe("packArtifact", () => {
+  test("archives sorted files under package/ with deterministic options", () => {
+    const fs = createMockFileSystem(ARTIFACT_FILES);
+    const tar = createPacker(fs);
+
+    const result = packArtifact(fs, tar, { sourceDir: "/artifact", outputPath: "/out/reviewer.tgz" });
+
+    expect(result.success).toBe(true);
+    expect(result.files).toEqual(["agents/reviewer.md", "grekt.yaml", "skills/audit/SKILL.md", "skills/review/SKILL.md"]);
+    expect(tar.calls[0]!.options).toMatchObject({
+      outputPath: "/out/reviewer.tgz",
+      entries: result.files!.map((file) => `package/${file}`),
+      gzip: true,
+      deterministic: true,
+    });
+    expect(result.integrity).toMatch(/^sha256-[A-Za-z0-9+/]{43}=$/);
+    expect(result.tarballIntegrity).toMatch(/^sha256-[A-Za-z0-9+/]{43}=$/);
+  });
+
+  test("hashes with the requested algorithm", () => {
+    const fs = createMockFileSystem(ARTIFACT_FILES);
+
+    const result = packArtifact(fs, createPacker(fs), {
+      sourceDir: "/artifact",
+      outputPath: "/out/reviewer.tgz",
+      hashAlgorithm: "sha512",
+    });
+
+    expect(result.integrity).toMatch(/^sha512-/);
+    expect(result.tarballIntegrity).toMatch(/^sha512-/);
+    expect(Object.values(result.fileHashes!).every((hash) => hash.startsWith("sha512-"))).toBe(true);
+  });
+
+  test("injects the generated components summary into the packed manifest", () => {
+    const fs = createMockFileSystem(ARTIFACT_FILES);
+
+    packArtifact(fs, createPacker(fs), { sourceDir: "/artifact", outputPath: "/out/reviewer.tgz" });
+
+    const packed = readArchive(fs, "/out/reviewer.tgz").get("package/grekt.yaml")!;
+    expect(packed).toContain("# Reviewer artifact");
+    expect(parse(packed).components).toEqual({
+      agents: [{ name: "reviewer", file: "agents/reviewer.md", description: "Reviewer agent" }],
+      skills: [
+        { name: "audit", file: "skills/audit/SKILL.md", description: "audit skill" },
+        { name: "review", file: "skills/review/SKILL.md", description: "review skill" },
+      ],
+    });
+    // Source manifest is left untouched and the staging directory is removed
+    expect(fs.readFile("/artifact/grekt.yaml")).toBe(MANIFEST);
+    expect([...fs.files.keys()].filter((path) => path.includes("/package/"))).toEqual([]);
+  });
+
+  test("produces identical bytes regardless of directory listing order", () => {
+    const reversed = Object.fromEntries(Object.entries(ARTIFACT_FILES).reverse());
+    const first = createMockFileSystem(ARTIFACT_FILES);
+    const second = createMockFileSystem(reversed);
+
+    const a = packArtifact(first, createPacker(first), { sourceDir: "/artifact", outputPath: "/out/a.tgz" });
+    const b = packArtifact(second, createPacker(second), { sourceDir: "/artifact", outputPath: "/out/b.tgz" });
+
+    expect(first.readFileBinary("/out/a.tgz").equals(second.readFileBinary("/out/b.tgz"))).toBe(true);
+    expect(a.tarballIntegrity).toBe(b.tarballIntegrity);
+    expect(a.integrity).toBe(b.integrity);
+  });
+
+  test("skips default and custom ignore patterns", () => {
+    const fs = createMockFileSystem({
+      ...ARTIFACT_FILES,
+      "/artifact/.git/HEAD": "ref: refs/heads/main",
+      "/artifact/node_modules/dep/index.js": "",
+      "/artifact/skills/.DS_Store": "",
+      "/artifact/old-release.tgz": "",
+      "/artifact/drafts/notes.md": "# Notes",
+    });
+
+    const result = packArtifact(fs, createPacker(fs), {
+      sourceDir: "/artifact",
+      outputPath: "/out/reviewer.tgz",
+      ignore: ["drafts"],
+    });
+
+    expect(result.files).toEqual(["agents/reviewer.md", "grekt.yaml", "skills/audit/SKILL.md", "skills/review/SKILL.md"]);
+  });
+
+  test("applies .grektignore and packs it for installs", () => {
+    const fs = createMockFileSystem({
+      ...ARTIFACT_FILES,
+      "/artifact/.grektignore": "# Local only\nscratch/\n*.log\n",
+      "/artifact/scratch/todo.md": "# Todo",
+      "/artifact/skills/review/debug.log": "trace",
+      "/artifact/skills/review/SKILL.md.swp": "",
+    });
+
+    const result = packArtifact(fs, createPacker(fs), { sourceDir: "/artifact", outputPath: "/out/reviewer.tgz" });
+
+    expect(result.files).toEqual([
+      ".grektignore",
+      "agents/reviewer.md",
+      "grekt.yaml",
+      "skills/audit/SKILL.md",
+      "skills/review/SKILL.md",
+    ]);
+  });
+
+  test("reports invalid components without failing", () => {
+    const fs = createMockFileSystem({ ...ARTIFACT_FILES, "/artifact/skills/broken.md": "# No frontmatter" });
+
+    const result = packArtifact(fs, createPacker(fs), { sourceDir: "/artifact", outputPath: "/out/reviewer.tgz" });
+
+    expect(result.success).toBe(true);
+    expect(result.invalidFiles).toEqual([expect.objectContaining({ path: "skills/broken.md" })]);
+  });
+
+  test("fails without a valid manifest", () => {
+    const fs = createMockFileSystem({ "/artifact/skills/review/SKILL.md": skill("review") });
+    const tar = createPacker(fs);
+
+    const result = packArtifact(fs, tar, { sourceDir: "/artifact", outputPath: "/out/reviewer.tgz" });
+
+    expect(result).toEqual({ success: false, error: "No valid grekt.yaml found in /artifact" });
+    expect(tar.calls).toEqual([]);
+  });
+});
@@ -0,0 +1,133 @@
+import { createHash } from "crypto";
+import { dirname, join } from "path";
+import { parseDocument } from "yaml";
+import { generateSecureTempPath, type FileSystem, type TarOperations } from "#/core";
+import { CATEGORIES } from "#/categories";
+import type { Components, HashAlgorithm } from "#/schemas";
+import { scanArtifact, generateComponents } from "./scanner";
+import { hashDirectory, calculateIntegrity, DEFAULT_HASH_ALGORITHM } from "./integrity";
+import { walkArtifactFiles } from "./ignore";
+import type { InvalidFile } from "./scanner.types";
+
+const MANIFEST_FILENAME = "grekt.yaml";
+
+// Root directory inside the tarball, stripped on extraction (stripComponents: 1)
+const PACKAGE_DIR = "package";
+
+export interface PackOptions {
+  /** Artifact directory (holds grekt.yaml) */
+  sourceDir: string;
+  /** Tarball path to write */
+  outputPath: string;
+  /** Extra ignore patterns (gitignore syntax), applied after the defaults and .grektignore */
+  ignore?: string[];
+  /** Algorithm of the returned hashes (default sha256) */
+  hashAlgorithm?: HashAlgorithm;
+}
+
+export interface PackResult {
+  success: boolean;
+  /** Packed files relative to the artifact root, sorted */
+  files?: string[];
+  /** Per-file hashes, as an install computes them after extraction */
+  fileHashes?: Record<string, string>;
+  /** Integrity of the packed files (what the lockfile records on install) */
+  integrity?: string;
+  /** SRI hash of the tarball bytes */
+  tarballIntegrity?: string;
+  /** Components skipped because their metadata is invalid */
+  invalidFiles?: InvalidFile[];
+  error?: string;
+}
+
+function collectPackFiles(fs: FileSystem, rootDir: string, ignore: string[]): string[] {
+  const files = walkArtifactFiles(fs, rootDir, { ignore });
+  // Code-point order, independent of filesystem and locale
+  return files.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+}
+
+/**
+ * Rewrite grekt.yaml with the generated components summary (sorted by file).
+ * Comments and key order of the original manifest are preserved.
+ */
+function buildPackedManifest(content: string, components: Components): string {
+  const doc = parseDocument(content);
+
+  if (!components) {
+    doc.delete("components");
+    return doc.toString();
+  }
+
+  const sorted: Record<string, unknown> = {};
+  for (const category of CATEGORIES) {
+    const entries = components[category];
+    if (entries) {
+      sorted[category] = [...entries].sort((a, b) => (a.file < b.file ? -1 : a.file > b.file ? 1 : 0));
+    }
+  }
+  doc.set("components", sorted);
+  return doc.toString();
+}
+
+/**
+ * Pack an artifact into a reproducible tarball
+ *
+ * Scans the artifact, injects the generated components summary into grekt.yaml,
+ * drops ignored files and archives the rest under `package/` in sorted order.
+ * Packing the same files twice gives a byte-identical tarball and the same integrity.
+ */
+export function packArtifact(fs: FileSystem, tar: TarOperations, options: PackOptions): PackResult {
+  const { sourceDir, outputPath, hashAlgorithm = DEFAULT_HASH_ALGORITHM } = options;
+
+  const info = scanArtifact(fs, sourceDir);
+  if (!info) {
+    return { success: false, error: `No valid ${MANIFEST_FILENAME} found in ${sourceDir}` };
+  }
+
+  const files = collectPackFiles(fs, sourceDir, options.ignore ?? []);
+
+  // Stage the packed tree so the rewritten manifest never touches the source
+  const stagingDir = generateSecureTempPath("pack").replace(/\.tar\.gz$/, "");
+  const packageDir = join(stagingDir, PACKAGE_DIR);
+
+  try {
+    fs.mkdir(packageDir, { recursive: true });
+
+    for (const file of files) {
+      const target = join(packageDir, file);
+      fs.mkdir(dirname(target), { recursive: true });
+      if (file === MANIFEST_FILENAME) {
+        const manifest = buildPackedManifest(fs.readFile(join(sourceDir, file)), generateComponents(info));
+        fs.writeFile(target, manifest);
+      } else {
+        fs.copyFile(join(sourceDir, file), target);
+      }
+    }
+
+    const fileHashes = hashDirectory(fs, packageDir, hashAlgorithm);
+
+    fs.mkdir(dirname(outputPath), { recursive: true });
+    tar.create({
+      outputPath,
+      sourceDir: stagingDir,
+      entries: files.map((file) => `${PACKAGE_DIR}/${file}`),
+      gzip: true,
+      deterministic: true,
+    });
+
+    const tarballHash = createHash(hashAlgorithm).update(fs.readFileBinary(outputPath)).digest("base64");
+
+    return {
+      success: true,
+      files,
+      fileHashes,
+      integrity: calculateIntegrity(fileHashes, hashAlgorithm),
+      tarballIntegrity: `${hashAlgorithm}-${tarballHash}`,
+      invalidFiles: info.invalidFiles,
+    };
+  } catch (err) {
+    return { success: false, error: err instanceof Error ? err.message : "Unknown error packing artifact" };
+  } finally {
+    fs.rmdir(stagingDir, { recursive: true });
+  }
+}
@@ -1,4 +1,4 @@
-import { join, relative } from "path";
+import { basename, join, relative } from "path";
 import type { FileSystem } from "#/core";
 import {
   ArtifactManifestSchema,
@@ -10,6 +10,7 @@ import {
 import { type Category, CATEGORIES, getCategoriesForFormat, createCategoryRecord, isValidCategory } from "#/categories";
 import { safeParseYaml } from "#/friendly-errors";
 import { parseFrontmatter } from "./frontmatter";
+import { walkArtifactFiles } from "./ignore";
 import type {
   InvalidFileReason,
   InvalidFile,
@@ -38,19 +39,12 @@ interface FoundFiles {
 function findFiles(fs: FileSystem, dir: string): FoundFiles {
   const result: FoundFiles = { mdFiles: [], jsonFiles: [] };
 
-  const entries = fs.readdir(dir);
-  for (const entry of entries) {
-    const fullPath = join(dir, entry);
-    const stat = fs.stat(fullPath);
-
-    if (stat.isDirectory) {
-      const nested = findFiles(fs, fullPath);
-      result.mdFiles.push(...nested.mdFiles);
-      result.jsonFiles.push(...nested.jsonFiles);
-    } else if (entry.endsWith(".md")) {
-      result.mdFiles.push(fullPath);
-    } else if (entry.endsWith(".json") && entry !== "package.json") {
-      result.jsonFiles.push(fullPath);
+  for (const file of walkArtifactFiles(fs, dir)) {
+    const name = basename(file);
+    if (name.endsWith(".md")) {
+      result.mdFiles.push(join(dir, file));
+    } else if (name.endsWith(".json") && name !== "package.json") {
+      result.jsonFiles.push(join(dir, file));
     }
   }
 
@@ -0,0 +1,196 @@
+import { describe, test, expect } from "vitest";
+import { createRetryingHttpClient, parseRetryAfter, getBackoffDelay, DEFAULT_RETRY_POLICY } from "./http-retry";
+import { createMockHttpClient, jsonResponse, errorResponse } from "#/test-utils/mocks";
+
+const REQUEST_URL = "https://registry.grekt.com/api/artifacts";
+
+/**
+ * Mock client answering each request with the next outcome (the last one repeats)
+ */
+function createSequenceClient(outcomes: Array<Response | Error>) {
+  const http = createMockHttpClient();
+  const calls: string[] = [];
+  let index = 0;
+
+  http.fetch = async (_url: string, init?: RequestInit) => {
+    calls.push(init?.method ?? "GET");
+    const outcome = outcomes[Math.min(index++, outcomes.length - 1)]!;
+    if (outcome instanceof Error) {
+      throw outcome;
+    }
+    return outcome.clone();
+  };
+
+  return { http, calls };
+}
+
+function networkError(): Error {
+  return new TypeError("fetch failed", { cause: { code: "ECONNRESET" } });
+}
+
+function createClient(outcomes: Array<Response | Error>, maxAttempts = 3) {
+  const { http, calls } = createSequenceClient(outcomes);
+  const delays: number[] = [];
+  const client = createRetryingHttpClient(http, {
+    maxAttempts,
+    sleep: async (ms) => {
+      delays.push(ms);
+    },
+    random: () => 0.5,
+  });
+  return { client, calls, delays };
+}
+
+describe("createRetryingHttpClient", () => {
+  test("returns successful responses without retrying", async () => {
+    const { client, calls } = createClient([jsonResponse({ ok: true })]);
+
+    const response = await client.fetch(REQUEST_URL);
+
+    expect(response.status).toBe(200);
+    expect(calls).toHaveLength(1);
+  });
+
+  test("retries transient 5xx with exponential backoff", async () => {
+    const { client, calls, delays } = createClient([
+      errorResponse(503, "Service Unavailable"),
+      errorResponse(502, "Bad Gateway"),
+      jsonResponse({ ok: true }),
+    ]);
+
+    const response = await client.fetch(REQUEST_URL);
+
+    expect(response.status).toBe(200);
+    expect(calls).toHaveLength(3);
+    // random() = 0.5 of 500ms, then of 1000ms
+    expect(delays).toEqual([250, 500]);
+  });
+
+  test("returns last response after max attempts", async () => {
+    const { client, calls } = createClient([errorResponse(500, "Internal Server Error")]);
+
+    const response = await client.fetch(REQUEST_URL);
+
+    expect(response.status).toBe(500);
+    expect(calls).toHaveLength(3);
+  });
+
+  test("does not retry client errors", async () => {
+    const { client, calls } = createClient([errorResponse(404, "Not Found")]);
+
+    const response = await client.fetch(REQUEST_URL);
+
+    expect(response.status).toBe(404);
+    expect(calls).toHaveLength(1);
+  });
+
+  test("waits for Retry-After on 429", async () => {
+    const { client, delays } = createClient([
+      new Response(null, { status: 429, headers: { "Retry-After": "2" } }),
+      jsonResponse({ ok: true }),
+    ]);
+
+    const response = await client.fetch(REQUEST_URL);
+
+    expect(response.status).toBe(200);
+    expect(delays).toEqual([2000]);
+  });
+
+  test("gives up when Retry-After exceeds the limit", async () => {
+    const { client, calls } = createClient([
+      new Response(null, { status: 429, headers: { "Retry-After": "3600" } }),
+    ]);
+
+    const response = await client.fetch(REQUEST_URL);
+
+    expect(response.status).toBe(429);
+    expect(calls).toHaveLength(1);
+  });
+
+  test("retries 429 for non-idempotent requests", async () => {
+    const { client, calls } = createClient([
+      new Response(null, { status: 429 }),
+      new Response(null, { status: 202 }),
+    ]);
+
+    const response = await client.fetch(REQUEST_URL, { method: "POST" });
+
+    expect(response.status).toBe(202);
+    expect(calls).toEqual(["POST", "POST"]);
+  });
+
+  test("does not retry 5xx for non-idempotent requests", async () => {
+    const { client, calls } = createClient([errorResponse(503, "Service Unavailable")]);
+
+    const response = await client.fetch(REQUEST_URL, { method: "POST" });
+
+    expect(response.status).toBe(503);
+    expect(calls).toHaveLength(1);
+  });
+
+  test("retries network errors", async () => {
+    const { client, calls } = createClient([networkError(), jsonResponse({ ok: true })]);
+
+    const response = await client.fetch(REQUEST_URL);
+
+    expect(response.status).toBe(200);
+    expect(calls).toHaveLength(2);
+  });
+
+  test("rethrows network error after max attempts", async () => {
+    const { client, calls } = createClient([networkError()], 2);
+
+    await expect(client.fetch(REQUEST_URL)).rejects.toThrow("fetch failed");
+    expect(calls).toHaveLength(2);
+  });
+
+  test("does not retry application errors", async () => {
+    const { client, calls } = createClient([new Error("Invalid URL")]);
+
+    await expect(client.fetch(REQUEST_URL)).rejects.toThrow("Invalid URL");
+    expect(calls).toHaveLength(1);
+  });
+
+  test("does not retry when the caller aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const abortError = new DOMException("The operation was aborted", "AbortError");
+    const { client, calls } = createClient([abortError]);
+
+    await expect(client.fetch(REQUEST_URL, { signal: controller.signal })).rejects.toThrow("aborted");
+    expect(calls).toHaveLength(1);
+  });
+
+  test("wrapping a retrying client returns it unchanged", () => {
+    const { client } = createClient([jsonResponse({})]);
+
+    expect(createRetryingHttpClient(client)).toBe(client);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  test("parses delay in seconds", () => {
+    expect(parseRetryAfter("120")).toBe(120_000);
+  });
+
+  test("parses HTTP date relative to now", () => {
+    const now = Date.parse("Wed, 21 Oct 2026 07:28:00 GMT");
+
+    expect(parseRetryAfter("Wed, 21 Oct 2026 07:28:30 GMT", now)).toBe(30_000);
+    expect(parseRetryAfter("Wed, 21 Oct 2026 07:27:00 GMT", now)).toBe(0);
+  });
+
+  test("returns null for missing or invalid values", () => {
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter("soon")).toBeNull();
+  });
+});
+
+describe("getBackoffDelay", () => {
+  test("caps the backoff ceiling at maxDelayMs", () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, random: () => 0.999 };
+
+    expect(getBackoffDelay(1, policy)).toBe(499);
+    expect(getBackoffDelay(10, policy)).toBe(9990);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * HTTP retry policy
+ *
+ * Wraps an injected HttpClient with retries for transient failures:
+ * network errors, 408, 429 and 5xx gateway errors. Delays use exponential
+ * backoff with full jitter, and honor Retry-After when the server sends it.
+ *
+ * Only idempotent requests are retried after a network error or 5xx.
+ * A 429 means the request was not processed, so it is retried for any method.
+ */
+
+import type { HttpClient } from "./interfaces";
+import { isNetworkError } from "./network-errors";
+
+export interface RetryPolicy {
+  /** Total attempts including the first request */
+  maxAttempts: number;
+  /** Backoff base: attempt n waits up to baseDelayMs * 2^(n-1) */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay */
+  maxDelayMs: number;
+  /** Give up instead of waiting when Retry-After asks for longer than this */
+  maxRetryAfterMs: number;
+  /** Injectable for tests */
+  sleep: (ms: number) => Promise<void>;
+  /** Injectable for tests, returns [0, 1) */
+  random: () => number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+  maxRetryAfterMs: 60_000,
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+  random: Math.random,
+};
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+// Clients already wrapped, so factories can wrap unconditionally
+const retryingClients = new WeakSet<HttpClient>();
+
+/**
+ * Parse a Retry-After header (delay in seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return null;
+  }
+  return Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with full jitter for a 1-based attempt number
+ */
+export function getBackoffDelay(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.floor(policy.random() * ceiling);
+}
+
+/**
+ * Wrap an HttpClient with the retry policy.
+ * Wrapping an already retrying client returns it unchanged.
+ */
+export function createRetryingHttpClient(
+  http: HttpClient,
+  policy: Partial<RetryPolicy> = {}
+): HttpClient {
+  if (retryingClients.has(http)) {
+    return http;
+  }
+
+  const resolved: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...policy };
+
+  const client: HttpClient = {
+    async fetch(url: string, options?: RequestInit): Promise<Response> {
+      const method = (options?.method ?? "GET").toUpperCase();
+      const idempotent = IDEMPOTENT_METHODS.has(method);
+
+      for (let attempt = 1; ; attempt++) {
+        const isLastAttempt = attempt >= resolved.maxAttempts;
+
+        let response: Response;
+        try {
+          response = await http.fetch(url, options);
+        } catch (err) {
+          // Caller aborted: never retry
+          if (options?.signal?.aborted || isLastAttempt || !idempotent || !isNetworkError(err)) {
+            throw err;
+          }
+          await resolved.sleep(getBackoffDelay(attempt, resolved));
+          continue;
+        }
+
+        const retryable =
+          RETRYABLE_STATUSES.has(response.status) && (idempotent || response.status === 429);
+        if (!retryable || isLastAttempt) {
+          return response;
+        }
+
+        const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+        if (retryAfter !== null && retryAfter > resolved.maxRetryAfterMs) {
+          return response;
+        }
+
+        // Release the connection before waiting
+        await response.body?.cancel().catch(() => {});
+        await resolved.sleep(retryAfter ?? getBackoffDelay(attempt, resolved));
+      }
+    },
+  };
+
+  retryingClients.add(client);
+  return client;
+}
@@ -1,2 +1,5 @@
 export * from './interfaces';
 export * from './tar-utils';
+export * from './network-errors';
+export * from './http-retry';
+export * from './metadata-cache';
@@ -3,6 +3,8 @@
  * These abstract away I/O operations for testability and portability.
  */
 
+import type { MetadataCache } from "./metadata-cache";
+
 export interface FileSystem {
   readFile(path: string): string;
   readFileBinary(path: string): Buffer;
@@ -42,9 +44,22 @@ export interface ShellExecutor {
   execFile(command: string, args: string[]): string;
 }
 
+/**
+ * Access keys for an S3-compatible registry
+ */
+export interface S3AccessKeys {
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
 export interface TokenProvider {
   getRegistryToken(scope: string): string | undefined;
-  getGitToken(type: 'github' | 'gitlab', host?: string): string | undefined;
+  getGitToken(type: 'github' | 'gitlab' | 'bitbucket' | 'gitea', host?: string): string | undefined;
+  /**
+   * S3 access keys for a scope, from the credentials store or env vars.
+   * Never read from .grekt/config.yaml, which may be committed.
+   */
+  getS3Credentials?(scope: string): S3AccessKeys | undefined;
 }
 
 export interface TarOperations {
@@ -59,6 +74,13 @@ export interface TarCreateOptions {
   entries: string[];
   gzip: boolean;
   exclude?: string[];
+  /**
+   * Reproducible archive: entries written in the given order (no directory
+   * recursion), fixed mtime (epoch), no uid/gid or owner names, modes
+   * normalized to 0644 and no gzip timestamp. Identical inputs must give
+   * identical bytes.
+   */
+  deterministic?: boolean;
 }
 
 export interface TarExtractOptions {
@@ -66,6 +88,11 @@ export interface TarExtractOptions {
   targetDir: string;
   gzip: boolean;
   stripComponents?: number;
+  /**
+   * Only extract entries under this directory (relative to the archive root
+   * after stripComponents). Its contents are placed directly in targetDir.
+   */
+  subdir?: string;
 }
 
 export interface TarEntry {
@@ -89,4 +116,6 @@ export interface EngineContext {
   tar: TarOperations;
   tokens: TokenProvider;
   paths: PathConfig;
+  /** Registry metadata cache shared by every client created for this context */
+  metadataCache?: MetadataCache;
 }
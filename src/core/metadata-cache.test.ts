@@ -0,0 +1,229 @@
+import { describe, test, expect } from "vitest";
+import { MetadataCache } from "./metadata-cache";
+import { createMockFileSystem } from "#/test-utils/mocks";
+
+const METADATA_URL = "https://registry.grekt.com/api/artifact?id=%40scope%2Fartifact";
+const CACHE_PATH = "/home/user/.grekt/cache/metadata.json";
+
+interface RecordedRequest {
+  url: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * Fake origin serving one JSON document with an ETag, honoring If-None-Match
+ */
+function createOrigin(
+  options: { etag?: string; lastModified?: string; headers?: Record<string, string> } = { etag: '"v1"' }
+) {
+  const requests: RecordedRequest[] = [];
+  let body = JSON.stringify({ versions: ["1.0.0"] });
+
+  const send = async (url: string, init?: RequestInit): Promise<Response> => {
+    const headers = (init?.headers ?? {}) as Record<string, string>;
+    requests.push({ url, headers });
+
+    const notModified =
+      (options.etag && headers["If-None-Match"] === options.etag) ||
+      (options.lastModified && headers["If-Modified-Since"] === options.lastModified);
+    if (notModified) {
+      return new Response(null, { status: 304 });
+    }
+
+    const responseHeaders: Record<string, string> = { "Content-Type": "application/json", ...options.headers };
+    if (options.etag) responseHeaders.ETag = options.etag;
+    if (options.lastModified) responseHeaders["Last-Modified"] = options.lastModified;
+    return new Response(body, { status: 200, headers: responseHeaders });
+  };
+
+  return {
+    send,
+    requests,
+    publish(version: string, etag: string) {
+      body = JSON.stringify({ versions: [version, "1.0.0"] });
+      options.etag = etag;
+    },
+  };
+}
+
+function createClock() {
+  let time = 0;
+  return {
+    now: () => time,
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+}
+
+describe("MetadataCache", () => {
+  test("serves repeated lookups within the freshness window without a request", async () => {
+    const origin = createOrigin();
+    const cache = new MetadataCache();
+
+    const first = await cache.fetch(origin.send, METADATA_URL);
+    const second = await cache.fetch(origin.send, METADATA_URL);
+
+    expect(origin.requests).toHaveLength(1);
+    expect(await first.json()).toEqual({ versions: ["1.0.0"] });
+    expect(await second.json()).toEqual({ versions: ["1.0.0"] });
+  });
+
+  test("revalidates stale entries with If-None-Match", async () => {
+    const origin = createOrigin();
+    const clock = createClock();
+    const cache = new MetadataCache({ now: clock.now, freshForMs: 1000 });
+
+    await cache.fetch(origin.send, METADATA_URL);
+    clock.advance(1000);
+    const response = await cache.fetch(origin.send, METADATA_URL);
+
+    expect(origin.requests[1]!.headers["If-None-Match"]).toBe('"v1"');
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ versions: ["1.0.0"] });
+  });
+
+  test("revalidates with If-Modified-Since when only Last-Modified is sent", async () => {
+    const lastModified = "Wed, 21 Oct 2026 07:28:00 GMT";
+    const origin = createOrigin({ lastModified });
+    const cache = new MetadataCache({ freshForMs: 0 });
+
+    await cache.fetch(origin.send, METADATA_URL);
+    const response = await cache.fetch(origin.send, METADATA_URL);
+
+    expect(origin.requests[1]!.headers["If-Modified-Since"]).toBe(lastModified);
+    expect(await response.json()).toEqual({ versions: ["1.0.0"] });
+  });
+
+  test("replaces entry when the origin changed", async () => {
+    const origin = createOrigin();
+    const cache = new MetadataCache({ freshForMs: 0 });
+
+    await cache.fetch(origin.send, METADATA_URL);
+    origin.publish("1.1.0", '"v2"');
+    const response = await cache.fetch(origin.send, METADATA_URL);
+
+    expect(await response.json()).toEqual({ versions: ["1.1.0", "1.0.0"] });
+  });
+
+  test("keeps entries separate per credentials", async () => {
+    const origin = createOrigin();
+    const cache = new MetadataCache();
+
+    await cache.fetch(origin.send, METADATA_URL, { headers: { Authorization: "Bearer alice" } });
+    await cache.fetch(origin.send, METADATA_URL, { headers: { Authorization: "Bearer bob" } });
+    await cache.fetch(origin.send, METADATA_URL, { headers: { Authorization: "Bearer alice" } });
+
+    expect(origin.requests).toHaveLength(2);
+  });
+
+  test("does not cache error responses", async () => {
+    const cache = new MetadataCache();
+    let calls = 0;
+    const send = async () => {
+      calls++;
+      return new Response("Server Error", { status: 500 });
+    };
+
+    await cache.fetch(send, METADATA_URL);
+    const response = await cache.fetch(send, METADATA_URL);
+
+    expect(calls).toBe(2);
+    expect(response.status).toBe(500);
+  });
+
+  test("invalidate forces a full request", async () => {
+    const origin = createOrigin();
+    const cache = new MetadataCache();
+
+    await cache.fetch(origin.send, METADATA_URL);
+    cache.invalidate(METADATA_URL);
+    await cache.fetch(origin.send, METADATA_URL);
+
+    expect(origin.requests).toHaveLength(2);
+    expect(origin.requests[1]!.headers["If-None-Match"]).toBeUndefined();
+  });
+
+  describe("persistence", () => {
+    test("persists entries with validators and revalidates them on the next run", async () => {
+      const fs = createMockFileSystem();
+      const origin = createOrigin();
+
+      const init = { headers: { Authorization: "Bearer secret-token" } };
+
+      await new MetadataCache({ fs, path: CACHE_PATH }).fetch(origin.send, METADATA_URL, init);
+      expect(fs.readFile(CACHE_PATH)).not.toContain("secret-token");
+
+      const nextRun = new MetadataCache({ fs, path: CACHE_PATH });
+      const response = await nextRun.fetch(origin.send, METADATA_URL, init);
+
+      expect(origin.requests).toHaveLength(2);
+      expect(origin.requests[1]!.headers["If-None-Match"]).toBe('"v1"');
+      expect(await response.json()).toEqual({ versions: ["1.0.0"] });
+    });
+
+    test("does not persist entries without validators", async () => {
+      const fs = createMockFileSystem();
+      const origin = createOrigin({});
+
+      await new MetadataCache({ fs, path: CACHE_PATH }).fetch(origin.send, METADATA_URL);
+
+      expect(fs.exists(CACHE_PATH)).toBe(false);
+    });
+
+    test("persists only the headers needed to rebuild the response", async () => {
+      const fs = createMockFileSystem();
+      const origin = createOrigin({
+        etag: '"v1"',
+        headers: { "Set-Cookie": "session=secret-cookie", Link: '</next>; rel="next"', "X-Next-Page": "2" },
+      });
+
+      await new MetadataCache({ fs, path: CACHE_PATH }).fetch(origin.send, METADATA_URL);
+      expect(fs.readFile(CACHE_PATH)).not.toContain("secret-cookie");
+
+      const origin2 = createOrigin({ etag: '"v1"' });
+      const response = await new MetadataCache({ fs, path: CACHE_PATH }).fetch(origin2.send, METADATA_URL);
+
+      expect(response.headers.get("set-cookie")).toBeNull();
+      expect(response.headers.get("link")).toBe('</next>; rel="next"');
+      expect(response.headers.get("x-next-page")).toBe("2");
+      expect(response.headers.get("content-type")).toBe("application/json");
+    });
+
+    test("keeps Cache-Control: private responses in memory only", async () => {
+      const fs = createMockFileSystem();
+      const origin = createOrigin({ etag: '"v1"', headers: { "Cache-Control": "private, max-age=0" } });
+      const cache = new MetadataCache({ fs, path: CACHE_PATH });
+
+      await cache.fetch(origin.send, METADATA_URL);
+      await cache.fetch(origin.send, METADATA_URL);
+
+      expect(origin.requests).toHaveLength(1);
+      expect(JSON.parse(fs.readFile(CACHE_PATH)).entries).toEqual({});
+    });
+
+    test("does not cache Cache-Control: no-store responses", async () => {
+      const fs = createMockFileSystem();
+      const origin = createOrigin({ etag: '"v1"', headers: { "Cache-Control": "no-store" } });
+      const cache = new MetadataCache({ fs, path: CACHE_PATH });
+
+      await cache.fetch(origin.send, METADATA_URL);
+      const response = await cache.fetch(origin.send, METADATA_URL);
+
+      expect(origin.requests).toHaveLength(2);
+      expect(origin.requests[1]!.headers["If-None-Match"]).toBeUndefined();
+      expect(await response.json()).toEqual({ versions: ["1.0.0"] });
+      expect(fs.exists(CACHE_PATH)).toBe(false);
+    });
+
+    test("ignores a corrupted cache file", async () => {
+      const fs = createMockFileSystem({ [CACHE_PATH]: "{not json" });
+      const origin = createOrigin();
+
+      const response = await new MetadataCache({ fs, path: CACHE_PATH }).fetch(origin.send, METADATA_URL);
+
+      expect(response.status).toBe(200);
+      expect(origin.requests[0]!.headers["If-None-Match"]).toBeUndefined();
+    });
+  });
+});
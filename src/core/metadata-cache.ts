@@ -0,0 +1,234 @@
+/**
+ * Registry metadata cache
+ *
+ * Conditional GET cache for registry metadata endpoints (artifact info,
+ * package lists, tag lists). One instance is shared per EngineContext so
+ * repeated lookups of the same artifact during an install hit the network
+ * once, and later lookups are revalidated with If-None-Match /
+ * If-Modified-Since instead of downloading the body again.
+ *
+ * Entries are keyed by URL and a fingerprint of the credentials, so a
+ * private response is never served to a different identity. When a path is
+ * configured, entries with validators are persisted through FileSystem and
+ * revalidated on the next run. Only the headers needed to rebuild a response
+ * are kept; Cache-Control: no-store responses are never cached and private
+ * ones only in memory.
+ */
+
+import { createHash } from "crypto";
+import { dirname } from "path";
+import type { FileSystem } from "./interfaces";
+import { MetadataCacheFileSchema, type MetadataCacheEntry } from "#/schemas";
+
+export type MetadataFetcher = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface MetadataCacheOptions {
+  /** FileSystem and file path to persist entries across runs */
+  fs?: FileSystem;
+  path?: string;
+  /** Entries validated within this window are served without a request */
+  freshForMs?: number;
+  /** Injectable for tests */
+  now?: () => number;
+}
+
+const DEFAULT_FRESH_FOR_MS = 30_000;
+const AUTH_HEADERS = ["authorization", "private-token", "deploy-token", "job-token"];
+// Response headers kept with an entry (never cookies or other credentials)
+const CACHED_HEADERS = ["content-type", "etag", "last-modified", "link", "x-next-page"];
+
+function getCacheControl(response: Response): string[] {
+  return (response.headers.get("cache-control") ?? "")
+    .toLowerCase()
+    .split(",")
+    .map((directive) => directive.trim());
+}
+
+function toCachedResponse(entry: MetadataCacheEntry): Response {
+  return new Response(entry.body, { status: 200, headers: entry.headers });
+}
+
+export class MetadataCache {
+  private entries = new Map<string, MetadataCacheEntry>();
+  private validatedAt = new Map<string, number>();
+  // Keys of Cache-Control: private entries, never written to disk
+  private memoryOnly = new Set<string>();
+  private loaded = false;
+  private fs?: FileSystem;
+  private path?: string;
+  private freshForMs: number;
+  private now: () => number;
+
+  constructor(options: MetadataCacheOptions = {}) {
+    this.fs = options.fs;
+    this.path = options.path;
+    this.freshForMs = options.freshForMs ?? DEFAULT_FRESH_FOR_MS;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Cache key: URL plus a hash of the credentials (never the credentials themselves)
+   */
+  private getKey(url: string, headers: Record<string, string>, identity?: string): string {
+    const credentials =
+      identity ??
+      Object.entries(headers)
+        .filter(([name]) => AUTH_HEADERS.includes(name.toLowerCase()))
+        .map(([name, value]) => `${name.toLowerCase()}=${value}`)
+        .sort()
+        .join("\n");
+
+    if (!credentials) {
+      return `${url}#anonymous`;
+    }
+    return `${url}#${createHash("sha256").update(credentials).digest("hex").slice(0, 16)}`;
+  }
+
+  private load(): void {
+    if (this.loaded) {
+      return;
+    }
+    this.loaded = true;
+
+    if (!this.fs || !this.path || !this.fs.exists(this.path)) {
+      return;
+    }
+
+    try {
+      const result = MetadataCacheFileSchema.safeParse(JSON.parse(this.fs.readFile(this.path)));
+      if (result.success) {
+        for (const [key, entry] of Object.entries(result.data.entries)) {
+          this.entries.set(key, entry);
+        }
+      }
+    } catch {
+      // Corrupted cache file: start empty, it is rewritten on the next store
+    }
+  }
+
+  /**
+   * Write entries that can be revalidated. Failures are ignored (cache is best effort).
+   */
+  private persist(): void {
+    if (!this.fs || !this.path) {
+      return;
+    }
+
+    const entries: Record<string, MetadataCacheEntry> = {};
+    for (const [key, entry] of this.entries) {
+      if ((entry.etag || entry.lastModified) && !this.memoryOnly.has(key)) {
+        entries[key] = entry;
+      }
+    }
+
+    try {
+      this.fs.mkdir(dirname(this.path), { recursive: true });
+      this.fs.writeFile(this.path, `${JSON.stringify({ entries }, null, 2)}\n`);
+    } catch {
+      // Best effort
+    }
+  }
+
+  private isFresh(key: string): boolean {
+    const validatedAt = this.validatedAt.get(key);
+    return validatedAt !== undefined && this.now() - validatedAt < this.freshForMs;
+  }
+
+  /**
+   * GET a metadata URL through the cache
+   *
+   * @param send - Performs the request (plain http.fetch, or an authenticated fetch)
+   * @param identity - Credentials fingerprint source when they are not in the headers
+   */
+  async fetch(
+    send: MetadataFetcher,
+    url: string,
+    init: RequestInit & { headers?: Record<string, string> } = {},
+    identity?: string
+  ): Promise<Response> {
+    this.load();
+
+    const headers = init.headers ?? {};
+    const key = this.getKey(url, headers, identity);
+    const entry = this.entries.get(key);
+
+    if (entry && this.isFresh(key)) {
+      return toCachedResponse(entry);
+    }
+
+    const conditionalHeaders: Record<string, string> = { ...headers };
+    if (entry?.etag) {
+      conditionalHeaders["If-None-Match"] = entry.etag;
+    }
+    if (entry?.lastModified) {
+      conditionalHeaders["If-Modified-Since"] = entry.lastModified;
+    }
+
+    const response = await send(url, { ...init, headers: conditionalHeaders });
+
+    if (response.status === 304 && entry) {
+      this.validatedAt.set(key, this.now());
+      return toCachedResponse(entry);
+    }
+
+    if (response.status === 404 && entry) {
+      this.invalidate(url);
+      return response;
+    }
+
+    if (response.status !== 200) {
+      return response;
+    }
+
+    const cacheControl = getCacheControl(response);
+    if (cacheControl.includes("no-store")) {
+      this.invalidate(url);
+      return response;
+    }
+
+    const body = await response.text();
+    const stored: MetadataCacheEntry = {
+      etag: response.headers.get("etag") ?? undefined,
+      lastModified: response.headers.get("last-modified") ?? undefined,
+      body,
+      headers: Object.fromEntries(
+        [...response.headers.entries()].filter(([name]) => CACHED_HEADERS.includes(name.toLowerCase()))
+      ),
+    };
+
+    this.entries.set(key, stored);
+    this.validatedAt.set(key, this.now());
+    if (cacheControl.includes("private")) {
+      this.memoryOnly.add(key);
+    } else {
+      this.memoryOnly.delete(key);
+    }
+    if (stored.etag || stored.lastModified) {
+      this.persist();
+    }
+
+    return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+  }
+
+  /**
+   * Drop cached entries for a URL (all identities), e.g. after publishing a new version
+   */
+  invalidate(url: string): void {
+    this.load();
+
+    const prefix = `${url}#`;
+    let removed = false;
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+        this.validatedAt.delete(key);
+        this.memoryOnly.delete(key);
+        removed = true;
+      }
+    }
+
+    if (removed) {
+      this.persist();
+    }
+  }
+}
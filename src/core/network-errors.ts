@@ -0,0 +1,54 @@
+/**
+ * Network error classification
+ *
+ * Distinguishes transport failures (DNS, refused connection, reset, timeout)
+ * from application errors, so callers can decide to fail over or retry.
+ */
+
+// Node (libuv / undici) and Bun error codes for transport failures
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ENOTFOUND",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "EPIPE",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+  "UND_ERR_SOCKET",
+  "ConnectionRefused",
+  "ConnectionClosed",
+  "FailedToOpenSocket",
+]);
+
+function getErrorCode(value: unknown): string | undefined {
+  if (typeof value !== "object" || value === null) {
+    return undefined;
+  }
+  const code = (value as { code?: unknown }).code;
+  return typeof code === "string" ? code : undefined;
+}
+
+/**
+ * Check if an error thrown by HttpClient.fetch is a network failure
+ */
+export function isNetworkError(err: unknown): boolean {
+  if (!(err instanceof Error)) {
+    return false;
+  }
+
+  // Timeouts and aborts (AbortSignal.timeout) never reached a response
+  if (err.name === "AbortError" || err.name === "TimeoutError") {
+    return true;
+  }
+
+  const code = getErrorCode(err) ?? getErrorCode(err.cause);
+  if (code && NETWORK_ERROR_CODES.has(code)) {
+    return true;
+  }
+
+  // fetch() rejects with TypeError("fetch failed") wrapping the socket error
+  return err instanceof TypeError && /fetch failed|network/i.test(err.message);
+}
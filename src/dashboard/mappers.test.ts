@@ -289,6 +289,16 @@ describe("mapRegistryToRecord", () => {
     })
   })
 
+  test("maps primary registry of a fallback chain", () => {
+    const result = mapRegistryToRecord("@company", [
+      { type: "gitlab", host: "gitlab.company.com", project: "mirror/artifacts" },
+      { type: "default" },
+    ])
+
+    expect(result.type).toBe("gitlab")
+    expect(result.url).toBe("https://gitlab.company.com/mirror/artifacts")
+  })
+
   test("defaults host and url to empty strings", () => {
     const result = mapRegistryToRecord("@default", { type: "default" })
 
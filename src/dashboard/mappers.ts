@@ -1,4 +1,4 @@
-import type { ProjectConfig, LockfileEntry, LocalConfig } from "#/schemas"
+import { toRegistryEntries, type ProjectConfig, type LockfileEntry, type RegistryEntry, type ScopeRegistries } from "#/schemas"
 import type { Category } from "#/categories"
 import type { ArtifactInfo } from "#/artifact"
 import type { EvalSummary, EvalElementResult } from "#/eval"
@@ -133,7 +133,7 @@ export function mapScanResultToRecord(
   }
 }
 
-function buildRegistryUrl(registry: NonNullable<LocalConfig["registries"]>[string]): string {
+function buildRegistryUrl(registry: RegistryEntry): string {
   if (!registry.host) return ""
 
   const base = `https://${registry.host}`
@@ -145,8 +145,11 @@ function buildRegistryUrl(registry: NonNullable<LocalConfig["registries"]>[strin
 
 export function mapRegistryToRecord(
   scope: string,
-  registry: NonNullable<LocalConfig["registries"]>[string],
+  registries: ScopeRegistries,
 ): Record<string, unknown> {
+  // Fallback chains are reported by their primary registry
+  const registry = toRegistryEntries(registries)[0]!
+
   return {
     scope,
     name: scope,
@@ -1,5 +1,6 @@
 import type { FileSystem } from "#/core";
 import { parseFrontmatter } from "#/artifact/frontmatter";
+import { walkArtifactFiles } from "#/artifact/ignore";
 import { safeParseYaml } from "#/friendly-errors";
 import { EvalFileConfigSchema } from "./eval.schemas";
 import { EVALUABLE_CATEGORIES } from "./eval.types";
@@ -12,38 +13,6 @@ import type {
 
 const EVAL_EXTENSION = ".eval.yaml";
 
-/**
- * Recursively collect all file paths under a directory.
- */
-function collectFiles(fs: FileSystem, dir: string, basePath = ""): string[] {
-  const paths: string[] = [];
-
-  let entries: string[];
-  try {
-    entries = fs.readdir(dir);
-  } catch {
-    return paths;
-  }
-
-  for (const entry of entries) {
-    const fullPath = `${dir}/${entry}`;
-    const relativePath = basePath ? `${basePath}/${entry}` : entry;
-
-    try {
-      const stat = fs.stat(fullPath);
-      if (stat.isDirectory) {
-        paths.push(...collectFiles(fs, fullPath, relativePath));
-      } else {
-        paths.push(relativePath);
-      }
-    } catch {
-      // Skip unreadable entries
-    }
-  }
-
-  return paths;
-}
-
 export interface DiscoverEvalsOptions {
   artifactDir: string;
   artifactId: string;
@@ -65,7 +34,7 @@ export function discoverEvals(
   const evals: DiscoveredEval[] = [];
   const warnings: EvalDiscoveryWarning[] = [];
 
-  const allFiles = collectFiles(fs, artifactDir);
+  const allFiles = walkArtifactFiles(fs, artifactDir, { skipUnreadable: true });
   const evalFiles = allFiles.filter((f) => f.endsWith(EVAL_EXTENSION));
 
   for (const evalRelativePath of evalFiles) {
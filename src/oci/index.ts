@@ -1,8 +1,8 @@
 /**
  * OCI Distribution Spec module
  *
- * Native client for pulling artifacts from OCI-compliant registries.
- * Used by GitHubRegistryClient for GHCR support.
+ * Native client for pulling and pushing artifacts on OCI-compliant registries.
+ * Used by GitHubRegistryClient (GHCR) and OciRegistryClient (any OCI registry).
  */
 
 export { OciClient } from "./oci-client";
@@ -13,6 +13,18 @@ export type {
   OciRegistryConfig,
   PullManifestResult,
   PullBlobResult,
+  PullConfigResult,
   ListTagsResult,
+  PushBlobOptions,
+  PushBlobResult,
+  PushManifestResult,
+  PushArtifactOptions,
+  DeleteTagResult,
+} from "./oci.types";
+export {
+  GREKT_MEDIA_TYPES,
+  GREKT_SIGNATURE_ANNOTATION,
+  GREKT_DEPRECATION_ANNOTATION,
+  GREKT_YANKED_TAG_SUFFIX,
+  OCI_CREATED_ANNOTATION,
 } from "./oci.types";
-export { GREKT_MEDIA_TYPES } from "./oci.types";
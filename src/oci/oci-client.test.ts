@@ -0,0 +1,271 @@
+import { describe, test, expect } from "vitest";
+import { createHash } from "crypto";
+import { OciClient } from "./oci-client";
+import { GREKT_MEDIA_TYPES } from "./oci.types";
+import { createMockHttpClient, jsonResponse } from "#/test-utils/mocks";
+import { MetadataCache } from "#/core";
+
+interface RecordedRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: Uint8Array;
+}
+
+function sha256Digest(content: string | Uint8Array): string {
+  return `sha256:${createHash("sha256").update(content).digest("hex")}`;
+}
+
+/**
+ * Fake registry implementing the push side of the distribution spec.
+ * Upload sessions accumulate PATCH chunks and are committed by the closing PUT.
+ */
+function createFakeRegistry(options: { existingBlobs?: string[]; startLocation?: string } = {}) {
+  const requests: RecordedRequest[] = [];
+  const blobs = new Map<string, Buffer>();
+  const sessions = new Map<string, Buffer>();
+  let sessionCount = 0;
+
+  const http = createMockHttpClient();
+  http.fetch = async (url: string, init?: RequestInit) => {
+    const method = init?.method ?? "GET";
+    const body = init?.body ? new Uint8Array(init.body as Uint8Array) : undefined;
+    requests.push({ url, method, headers: (init?.headers ?? {}) as Record<string, string>, body });
+
+    const parsed = new URL(url);
+
+    if (method === "HEAD" && parsed.pathname.includes("/blobs/")) {
+      const digest = parsed.pathname.split("/blobs/")[1]!;
+      const exists = blobs.has(digest) || options.existingBlobs?.includes(digest);
+      return new Response(null, { status: exists ? 200 : 404 });
+    }
+
+    if (method === "POST" && parsed.pathname.endsWith("/blobs/uploads/")) {
+      const id = `session-${sessionCount++}`;
+      sessions.set(id, Buffer.alloc(0));
+      return new Response(null, {
+        status: 202,
+        headers: { Location: options.startLocation ?? `/v2/myorg/artifact/blobs/uploads/${id}?_state=${id}` },
+      });
+    }
+
+    const sessionMatch = parsed.pathname.match(/\/blobs\/uploads\/(session-\d+)$/);
+    if (sessionMatch) {
+      const id = sessionMatch[1]!;
+      const current = sessions.get(id)!;
+      const received = body ? Buffer.concat([current, Buffer.from(body)]) : current;
+
+      if (method === "PATCH") {
+        sessions.set(id, received);
+        return new Response(null, {
+          status: 202,
+          headers: { Location: `https://ghcr.io/v2/myorg/artifact/blobs/uploads/${id}?_state=${id}-${received.length}` },
+        });
+      }
+
+      if (method === "PUT") {
+        const digest = parsed.searchParams.get("digest")!;
+        if (sha256Digest(received) !== digest) {
+          return new Response("DIGEST_INVALID", { status: 400 });
+        }
+        blobs.set(digest, received);
+        return new Response(null, { status: 201 });
+      }
+    }
+
+    if (method === "PUT" && parsed.pathname.includes("/manifests/")) {
+      return new Response(null, {
+        status: 201,
+        headers: { "Docker-Content-Digest": sha256Digest(body!) },
+      });
+    }
+
+    return new Response("Not Found", { status: 404 });
+  };
+
+  const client = new OciClient({ host: "ghcr.io" }, http);
+  return { client, requests, blobs };
+}
+
+describe("OciClient push", () => {
+  describe("pushBlob", () => {
+    test("uploads small blobs with a single monolithic PUT", async () => {
+      const { client, requests, blobs } = createFakeRegistry();
+      const data = Buffer.from("hello blob");
+
+      const result = await client.pushBlob("myorg/artifact", data, GREKT_MEDIA_TYPES.layer);
+
+      expect(result).toEqual({
+        success: true,
+        descriptor: { mediaType: GREKT_MEDIA_TYPES.layer, digest: sha256Digest(data), size: data.length },
+      });
+      expect(requests.map((r) => r.method)).toEqual(["HEAD", "POST", "PUT"]);
+      expect(blobs.get(sha256Digest(data))?.toString()).toBe("hello blob");
+    });
+
+    test("keeps upload session state and appends digest to the location", async () => {
+      const { client, requests } = createFakeRegistry();
+      const data = Buffer.from("hello blob");
+
+      await client.pushBlob("myorg/artifact", data, GREKT_MEDIA_TYPES.layer);
+
+      const put = new URL(requests.find((r) => r.method === "PUT")!.url);
+      expect(put.origin).toBe("https://ghcr.io");
+      expect(put.searchParams.get("_state")).toBe("session-0");
+      expect(put.searchParams.get("digest")).toBe(sha256Digest(data));
+    });
+
+    test("uploads large blobs in chunks", async () => {
+      const { client, requests, blobs } = createFakeRegistry();
+      const data = Buffer.from("0123456789abcdefghij-tail");
+
+      const result = await client.pushBlob("myorg/artifact", data, GREKT_MEDIA_TYPES.layer, { chunkSize: 10 });
+
+      expect(result.success).toBe(true);
+
+      const patches = requests.filter((r) => r.method === "PATCH");
+      expect(patches.map((r) => r.headers["Content-Range"])).toEqual(["0-9", "10-19", "20-24"]);
+
+      // Closing PUT carries only the digest
+      const put = requests.find((r) => r.method === "PUT")!;
+      expect(put.body).toBeUndefined();
+      expect(blobs.get(sha256Digest(data))?.toString()).toBe("0123456789abcdefghij-tail");
+    });
+
+    test("skips upload when blob already exists", async () => {
+      const data = Buffer.from("already there");
+      const { client, requests } = createFakeRegistry({ existingBlobs: [sha256Digest(data)] });
+
+      const result = await client.pushBlob("myorg/artifact", data, GREKT_MEDIA_TYPES.config);
+
+      expect(result.success).toBe(true);
+      expect(requests.map((r) => r.method)).toEqual(["HEAD"]);
+    });
+
+    test("returns error when upload session cannot be started", async () => {
+      const http = createMockHttpClient();
+      http.fetch = async () => new Response("Denied", { status: 403, statusText: "Forbidden" });
+      const client = new OciClient({ host: "ghcr.io" }, http);
+
+      const result = await client.pushBlob("myorg/artifact", Buffer.from("x"), GREKT_MEDIA_TYPES.layer);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Failed to start blob upload: 403 Forbidden");
+    });
+  });
+
+  describe("pushManifest", () => {
+    test("PUTs manifest with its media type and returns the digest", async () => {
+      const { client, requests } = createFakeRegistry();
+      const manifest = {
+        schemaVersion: 2 as const,
+        mediaType: GREKT_MEDIA_TYPES.manifest,
+        config: { mediaType: GREKT_MEDIA_TYPES.config, digest: "sha256:c", size: 2 },
+        layers: [],
+      };
+
+      const result = await client.pushManifest("myorg/artifact", "1.0.0", manifest);
+
+      const put = requests.find((r) => r.url === "https://ghcr.io/v2/myorg/artifact/manifests/1.0.0")!;
+      expect(put.method).toBe("PUT");
+      expect(put.headers["Content-Type"]).toBe(GREKT_MEDIA_TYPES.manifest);
+      expect(result).toEqual({ success: true, digest: sha256Digest(put.body!) });
+    });
+  });
+
+  describe("pushArtifact", () => {
+    test("pushes config and layer blobs referenced by the manifest", async () => {
+      const { client, requests, blobs } = createFakeRegistry();
+      const tarball = Buffer.from("tarball-bytes");
+
+      const result = await client.pushArtifact("myorg/artifact", "1.0.0", tarball, {
+        config: { name: "@scope/artifact" },
+        title: "artifact.tar.gz",
+        chunkSize: 4,
+      });
+
+      expect(result.success).toBe(true);
+
+      const manifestPut = requests.find((r) => r.url.endsWith("/manifests/1.0.0"))!;
+      const manifest = JSON.parse(new TextDecoder().decode(manifestPut.body));
+
+      expect(manifest.mediaType).toBe(GREKT_MEDIA_TYPES.manifest);
+      expect(blobs.get(manifest.config.digest)?.toString()).toBe('{"name":"@scope/artifact"}');
+      expect(manifest.layers[0]).toEqual({
+        mediaType: GREKT_MEDIA_TYPES.layer,
+        digest: sha256Digest(tarball),
+        size: tarball.length,
+        annotations: { "org.opencontainers.image.title": "artifact.tar.gz" },
+      });
+      expect(blobs.get(manifest.layers[0].digest)?.toString()).toBe("tarball-bytes");
+    });
+
+    test("exchanges token for push scope on 401 challenge", async () => {
+      const pushChallenge =
+        'Bearer realm="https://ghcr.io/token",service="ghcr.io",scope="repository:myorg/artifact:pull,push"';
+      const tokenRequests: string[] = [];
+
+      const http = createMockHttpClient();
+      http.fetch = async (url: string, init?: RequestInit) => {
+        if (url.startsWith("https://ghcr.io/token")) {
+          tokenRequests.push(new URL(url).searchParams.get("scope")!);
+          return jsonResponse({ token: "push-token" });
+        }
+
+        const auth = (init?.headers as Record<string, string>)?.Authorization;
+        if (auth !== "Bearer push-token") {
+          return new Response("Unauthorized", { status: 401, headers: { "WWW-Authenticate": pushChallenge } });
+        }
+
+        const method = init?.method ?? "GET";
+        if (method === "HEAD") return new Response(null, { status: 404 });
+        if (method === "POST") {
+          return new Response(null, { status: 202, headers: { Location: "/v2/myorg/artifact/blobs/uploads/s" } });
+        }
+        return new Response(null, { status: 201 });
+      };
+
+      const client = new OciClient({ host: "ghcr.io", token: "ghp_pat" }, http);
+      const result = await client.pushArtifact("myorg/artifact", "1.0.0", Buffer.from("tarball"));
+
+      expect(result.success).toBe(true);
+      expect(tokenRequests).toEqual(["repository:myorg/artifact:pull,push"]);
+    });
+  });
+});
+
+describe("OciClient listTags", () => {
+  test("revalidates cached tag list through the auth challenge", async () => {
+    const challenge = 'Bearer realm="https://ghcr.io/token",service="ghcr.io",scope="repository:myorg/artifact:pull"';
+    const tagRequests: Array<Record<string, string>> = [];
+
+    const http = createMockHttpClient();
+    http.fetch = async (url: string, init?: RequestInit) => {
+      if (url.startsWith("https://ghcr.io/token")) {
+        return jsonResponse({ token: "pull-token" });
+      }
+
+      const headers = (init?.headers ?? {}) as Record<string, string>;
+      if (headers.Authorization !== "Bearer pull-token") {
+        return new Response("Unauthorized", { status: 401, headers: { "WWW-Authenticate": challenge } });
+      }
+
+      tagRequests.push(headers);
+      if (headers["If-None-Match"] === '"tags-v1"') {
+        return new Response(null, { status: 304 });
+      }
+      return new Response(JSON.stringify({ name: "myorg/artifact", tags: ["1.0.0"] }), {
+        status: 200,
+        headers: { ETag: '"tags-v1"' },
+      });
+    };
+
+    const client = new OciClient({ host: "ghcr.io" }, http, new MetadataCache({ freshForMs: 0 }));
+
+    await client.listTags("myorg/artifact");
+    const result = await client.listTags("myorg/artifact");
+
+    expect(result).toEqual({ success: true, tags: ["1.0.0"] });
+    expect(tagRequests.map((h) => h["If-None-Match"])).toEqual([undefined, '"tags-v1"']);
+  });
+});
@@ -1,34 +1,59 @@
 /**
- * OCI Distribution Spec client (pull operations only)
+ * OCI Distribution Spec client
  *
- * Native TypeScript implementation for downloading artifacts from
- * OCI-compliant registries like GHCR.
- *
- * Push operations require the `oras` CLI tool.
+ * Native TypeScript implementation for pulling and pushing artifacts on
+ * OCI-compliant registries like GHCR. Only needs the injected HttpClient.
  *
  * @see https://github.com/opencontainers/distribution-spec/blob/main/spec.md
  */
 
-import type { HttpClient } from "#/core";
+import { createHash } from "crypto";
+import { isNetworkError, type HttpClient, type MetadataCache } from "#/core";
 import type {
   OciRegistryConfig,
+  OciDescriptor,
   OciManifest,
   PullManifestResult,
   PullBlobResult,
+  PullConfigResult,
   ListTagsResult,
+  PushBlobOptions,
+  PushBlobResult,
+  PushManifestResult,
+  PushArtifactOptions,
+  DeleteTagResult,
 } from "./oci.types";
 import { GREKT_MEDIA_TYPES } from "./oci.types";
 
+// Blobs up to this size are uploaded with a single PUT, larger ones in PATCH chunks
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+
+// Standard OCI annotation for the file name of a layer (same key oras uses)
+const TITLE_ANNOTATION = "org.opencontainers.image.title";
+
+/**
+ * Compute the OCI content digest (full sha256, not the truncated integrity hash)
+ */
+function computeDigest(data: Uint8Array): string {
+  return `sha256:${createHash("sha256").update(data).digest("hex")}`;
+}
+
 export class OciClient {
   private host: string;
   private token?: string;
+  private username?: string;
+  private tagDeletion: boolean;
   private http: HttpClient;
   private tokenCache: Map<string, string> = new Map();
+  private metadataCache?: MetadataCache;
 
-  constructor(config: OciRegistryConfig, http: HttpClient) {
+  constructor(config: OciRegistryConfig, http: HttpClient, metadataCache?: MetadataCache) {
     this.host = config.host;
     this.token = config.token;
+    this.username = config.username;
+    this.tagDeletion = config.tagDeletion ?? false;
     this.http = http;
+    this.metadataCache = metadataCache;
   }
 
   /**
@@ -43,7 +68,9 @@ export class OciClient {
       headers["Accept"] = accept;
     }
 
-    if (this.token) {
+    // With a username the token is a password: it is only sent through the
+    // auth challenge (token exchange or Basic), never directly as Bearer
+    if (this.token && !this.username) {
       headers["Authorization"] = `Bearer ${this.token}`;
     }
 
@@ -59,14 +86,26 @@ export class OciClient {
     return `https://${this.host}/v2/${name}${path}`;
   }
 
+  /**
+   * Basic credentials for token exchange and Basic challenges.
+   * GHCR ignores the username, other registries (Harbor, Docker Hub, ECR) need it.
+   */
+  private getBasicAuth(): string | undefined {
+    if (!this.token) {
+      return undefined;
+    }
+    return Buffer.from(`${this.username ?? "USERNAME"}:${this.token}`).toString("base64");
+  }
+
   /**
    * Parse WWW-Authenticate header from a 401 response
    *
    * Expected format: Bearer realm="<url>",service="<service>",scope="<scope>"
+   * Scope is absent on some endpoints (e.g. /v2/ on Docker Hub).
    */
   private parseWwwAuthenticate(
     header: string
-  ): { realm: string; service: string; scope: string } | undefined {
+  ): { realm: string; service: string; scope?: string } | undefined {
     if (!header.startsWith("Bearer ")) {
       return undefined;
     }
@@ -76,7 +115,7 @@ export class OciClient {
     const service = params.match(/service="([^"]+)"/)?.[1];
     const scope = params.match(/scope="([^"]+)"/)?.[1];
 
-    if (!realm || !service || !scope) {
+    if (!realm || !service) {
       return undefined;
     }
 
@@ -88,7 +127,8 @@ export class OciClient {
    *
    * GHCR (and other OCI registries) require an OAuth2-like token exchange:
    * 1. Initial request returns 401 with WWW-Authenticate header
-   * 2. Call the token endpoint with Basic auth (username:PAT)
+   * 2. Call the token endpoint with Basic auth (username:PAT),
+   *    or anonymously when no token is configured (public repositories)
    * 3. Use the returned token for subsequent requests
    */
   private async exchangeToken(
@@ -99,7 +139,7 @@ export class OciClient {
       return undefined;
     }
 
-    const cacheKey = `${params.service}:${params.scope}`;
+    const cacheKey = `${params.service}:${params.scope ?? ""}`;
     const cached = this.tokenCache.get(cacheKey);
     if (cached) {
       return cached;
@@ -107,22 +147,23 @@ export class OciClient {
 
     const tokenUrl = new URL(params.realm);
     tokenUrl.searchParams.set("service", params.service);
-    tokenUrl.searchParams.set("scope", params.scope);
+    if (params.scope) {
+      tokenUrl.searchParams.set("scope", params.scope);
+    }
 
-    const basicAuth = Buffer.from(`USERNAME:${this.token}`).toString("base64");
+    const basicAuth = this.getBasicAuth();
 
     const response = await this.http.fetch(tokenUrl.toString(), {
-      headers: {
-        Authorization: `Basic ${basicAuth}`,
-      },
+      headers: basicAuth ? { Authorization: `Basic ${basicAuth}` } : {},
     });
 
     if (!response.ok) {
       return undefined;
     }
 
+    // Docker Hub and some token servers return access_token instead of token
     const data = await response.json();
-    const exchangedToken = data.token as string | undefined;
+    const exchangedToken = (data.token ?? data.access_token) as string | undefined;
 
     if (exchangedToken) {
       this.tokenCache.set(cacheKey, exchangedToken);
@@ -141,6 +182,9 @@ export class OciClient {
    * 3. If 403 (GHCR rejects PATs as Bearer tokens), strip auth and retry
    *    unauthenticated to get a proper 401 challenge, then exchange
    * 4. Retry the original request with the exchanged token
+   *
+   * Registries using a Basic challenge (registry:2 with htpasswd, ECR) get
+   * the credentials directly as Basic auth instead of a token exchange.
    */
   private async authenticatedFetch(
     url: string,
@@ -148,15 +192,11 @@ export class OciClient {
   ): Promise<Response> {
     const response = await this.http.fetch(url, options);
 
-    if (!this.token) {
-      return response;
-    }
-
     let wwwAuthenticate: string | null = null;
 
     if (response.status === 401) {
       wwwAuthenticate = response.headers.get("www-authenticate");
-    } else if (response.status === 403) {
+    } else if (response.status === 403 && this.token && !this.username) {
       // GHCR returns 403 when a PAT is sent directly as Bearer token.
       // Strip the auth header and retry to get a proper 401 challenge.
       const { Authorization: _, ...headersWithoutAuth } = (options.headers ?? {}) as Record<string, string>;
@@ -180,19 +220,52 @@ export class OciClient {
       return response;
     }
 
-    const exchangedToken = await this.exchangeToken(wwwAuthenticate);
-    if (!exchangedToken) {
+    let authorization: string | undefined;
+
+    if (/^basic /i.test(wwwAuthenticate)) {
+      const basicAuth = this.getBasicAuth();
+      authorization = basicAuth ? `Basic ${basicAuth}` : undefined;
+    } else {
+      const exchangedToken = await this.exchangeToken(wwwAuthenticate);
+      authorization = exchangedToken ? `Bearer ${exchangedToken}` : undefined;
+    }
+
+    if (!authorization) {
       return response;
     }
 
     const retryHeaders = {
       ...options.headers,
-      Authorization: `Bearer ${exchangedToken}`,
+      Authorization: authorization,
     } as Record<string, string>;
 
     return this.http.fetch(url, { ...options, headers: retryHeaders });
   }
 
+  /**
+   * GET registry metadata (tag lists, manifests, config blobs), through the
+   * metadata cache when there is one. Credentials may only be sent after a
+   * challenge, so the cache is keyed on the configured identity.
+   */
+  private fetchMetadata(url: string, init: RequestInit & { headers: Record<string, string> }): Promise<Response> {
+    return this.metadataCache
+      ? this.metadataCache.fetch(
+          (u, i) => this.authenticatedFetch(u, i),
+          url,
+          init,
+          `${this.username ?? ""}:${this.token ?? ""}`
+        )
+      : this.authenticatedFetch(url, init);
+  }
+
+  /**
+   * Drop cached metadata a manifest change makes stale
+   */
+  private invalidateTag(name: string, tag: string): void {
+    this.metadataCache?.invalidate(this.buildUrl(name, "/tags/list"));
+    this.metadataCache?.invalidate(this.buildUrl(name, `/manifests/${tag}`));
+  }
+
   /**
    * Check if registry is accessible (ping /v2/)
    */
@@ -223,7 +296,7 @@ export class OciClient {
         "application/vnd.docker.distribution.manifest.v2+json",
       ].join(", ");
 
-      const response = await this.authenticatedFetch(url, {
+      const response = await this.fetchMetadata(url, {
         headers: this.getHeaders(acceptTypes),
       });
 
@@ -232,11 +305,13 @@ export class OciClient {
           return {
             success: false,
             error: `Manifest not found: ${name}:${reference}`,
+            status: response.status,
           };
         }
         return {
           success: false,
           error: `Failed to pull manifest: ${response.status} ${response.statusText}`,
+          status: response.status,
         };
       }
 
@@ -251,6 +326,7 @@ export class OciClient {
       return {
         success: false,
         error: `Failed to pull manifest: ${message}`,
+        networkError: isNetworkError(err),
       };
     }
   }
@@ -274,11 +350,13 @@ export class OciClient {
           return {
             success: false,
             error: `Blob not found: ${digest}`,
+            status: response.status,
           };
         }
         return {
           success: false,
           error: `Failed to pull blob: ${response.status} ${response.statusText}`,
+          status: response.status,
         };
       }
 
@@ -293,6 +371,7 @@ export class OciClient {
       return {
         success: false,
         error: `Failed to pull blob: ${message}`,
+        networkError: isNetworkError(err),
       };
     }
   }
@@ -305,10 +384,7 @@ export class OciClient {
   async listTags(name: string): Promise<ListTagsResult> {
     try {
       const url = this.buildUrl(name, "/tags/list");
-
-      const response = await this.authenticatedFetch(url, {
-        headers: this.getHeaders(),
-      });
+      const response = await this.fetchMetadata(url, { headers: this.getHeaders() });
 
       if (!response.ok) {
         if (response.status === 404) {
@@ -362,6 +438,8 @@ export class OciClient {
       return {
         success: false,
         error: manifestResult.error ?? "Failed to pull manifest",
+        status: manifestResult.status,
+        networkError: manifestResult.networkError,
       };
     }
 
@@ -383,6 +461,331 @@ export class OciClient {
     }
 
     // Pull the blob
-    return this.pullBlob(name, layer.digest);
+    const blobResult = await this.pullBlob(name, layer.digest);
+    return manifest.annotations ? { ...blobResult, annotations: manifest.annotations } : blobResult;
+  }
+
+  /**
+   * Pull and parse the config blob referenced by a manifest
+   *
+   * Both go through the metadata cache, so reading the version behind every
+   * dist-tag costs no requests while fresh (config blobs never change).
+   */
+  async pullArtifactConfig(name: string, reference: string): Promise<PullConfigResult> {
+    const manifestResult = await this.pullManifest(name, reference);
+    if (!manifestResult.success || !manifestResult.manifest) {
+      return { success: false, error: manifestResult.error ?? "Failed to pull manifest" };
+    }
+
+    let body: string;
+    try {
+      const url = this.buildUrl(name, `/blobs/${manifestResult.manifest.config.digest}`);
+      const response = await this.fetchMetadata(url, { headers: this.getHeaders(), redirect: "follow" });
+      if (!response.ok) {
+        return { success: false, error: `Failed to pull config blob: ${response.status} ${response.statusText}` };
+      }
+      body = await response.text();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      return { success: false, error: `Failed to pull config blob: ${message}` };
+    }
+
+    try {
+      return { success: true, config: JSON.parse(body) };
+    } catch {
+      return { success: false, error: `Invalid config blob for ${name}:${reference}` };
+    }
+  }
+
+  /**
+   * Point a tag at the manifest of an existing reference (no blob is re-uploaded)
+   */
+  async tagManifest(name: string, reference: string, tag: string): Promise<PushManifestResult> {
+    const manifestResult = await this.pullManifest(name, reference);
+    if (!manifestResult.success || !manifestResult.manifest) {
+      return { success: false, error: manifestResult.error ?? "Failed to pull manifest" };
+    }
+
+    return this.pushManifest(name, tag, manifestResult.manifest);
+  }
+
+  /**
+   * Set (or remove, when value is undefined) one annotation of a tagged manifest
+   *
+   * The manifest is pushed again under the same tag, so the tag moves to a new
+   * digest with the same config and layers. Other tags keep the old manifest
+   * until they are moved with tagManifest.
+   */
+  async setManifestAnnotation(
+    name: string,
+    reference: string,
+    key: string,
+    value: string | undefined
+  ): Promise<PushManifestResult> {
+    const manifestResult = await this.pullManifest(name, reference);
+    if (!manifestResult.success || !manifestResult.manifest) {
+      return { success: false, error: manifestResult.error ?? "Failed to pull manifest" };
+    }
+
+    const { annotations: current, ...manifest } = manifestResult.manifest;
+    const annotations = { ...current };
+    if (value === undefined) {
+      delete annotations[key];
+    } else {
+      annotations[key] = value;
+    }
+
+    return this.pushManifest(name, reference, {
+      ...manifest,
+      ...(Object.keys(annotations).length > 0 && { annotations }),
+    });
+  }
+
+  /**
+   * Delete a tag, leaving the manifest and the other tags pointing at it in place
+   *
+   * DELETE /v2/<name>/manifests/<tag> (tag deletion, distribution spec v1.1)
+   *
+   * Only sent when the registry is configured with tagDeletion: registry:2,
+   * Harbor and others resolve the tag and delete the manifest, which would
+   * also delete the version a yanked tag or dist-tag points at.
+   */
+  async deleteTag(name: string, tag: string): Promise<DeleteTagResult> {
+    if (!this.tagDeletion) {
+      return {
+        success: false,
+        error: `Deleting tag ${tag} is unsupported on ${this.host}: the registry may delete the manifest with every tag pointing at it. Set tagDeletion: true for this registry in .grekt/config.yaml if it deletes tags only`,
+      };
+    }
+
+    try {
+      const url = this.buildUrl(name, `/manifests/${tag}`);
+      const response = await this.authenticatedFetch(url, {
+        method: "DELETE",
+        headers: this.getHeaders(),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => "");
+        return {
+          success: false,
+          error: `Failed to delete tag ${tag}: ${response.status} ${errorText || response.statusText}`,
+        };
+      }
+
+      this.invalidateTag(name, tag);
+
+      return { success: true };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      return { success: false, error: `Failed to delete tag ${tag}: ${message}` };
+    }
+  }
+
+  /**
+   * Resolve an upload Location header (may be relative to the registry host)
+   */
+  private resolveLocation(location: string): URL {
+    return new URL(location, `https://${this.host}`);
+  }
+
+  /**
+   * Check if a blob already exists in a repository
+   *
+   * HEAD /v2/<name>/blobs/<digest>
+   */
+  async blobExists(name: string, digest: string): Promise<boolean> {
+    try {
+      const url = this.buildUrl(name, `/blobs/${digest}`);
+      const response = await this.authenticatedFetch(url, {
+        method: "HEAD",
+        headers: this.getHeaders(),
+      });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Push a blob and return its descriptor
+   *
+   * POST /v2/<name>/blobs/uploads/ to open an upload session, then either:
+   * - monolithic: PUT <location>?digest=<digest> with the whole blob
+   * - chunked: PATCH <location> per chunk, then PUT <location>?digest=<digest>
+   *
+   * Skips the upload when the registry already has the blob.
+   */
+  async pushBlob(
+    name: string,
+    data: Buffer,
+    mediaType: string,
+    options: PushBlobOptions = {}
+  ): Promise<PushBlobResult> {
+    const digest = computeDigest(data);
+    const descriptor: OciDescriptor = {
+      mediaType,
+      digest,
+      size: data.length,
+      ...(options.annotations && { annotations: options.annotations }),
+    };
+
+    try {
+      if (await this.blobExists(name, digest)) {
+        return { success: true, descriptor };
+      }
+
+      const startResponse = await this.authenticatedFetch(this.buildUrl(name, "/blobs/uploads/"), {
+        method: "POST",
+        headers: this.getHeaders(),
+      });
+
+      const startLocation = startResponse.headers.get("location");
+      if (startResponse.status !== 202 || !startLocation) {
+        return {
+          success: false,
+          error: `Failed to start blob upload: ${startResponse.status} ${startResponse.statusText}`,
+        };
+      }
+
+      let location = this.resolveLocation(startLocation);
+      const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+      let finalBody: Uint8Array<ArrayBuffer> | undefined = new Uint8Array(data);
+
+      if (data.length > chunkSize) {
+        for (let offset = 0; offset < data.length; offset += chunkSize) {
+          const chunk = data.subarray(offset, Math.min(offset + chunkSize, data.length));
+
+          const chunkResponse = await this.authenticatedFetch(location.toString(), {
+            method: "PATCH",
+            headers: {
+              ...this.getHeaders(),
+              "Content-Type": "application/octet-stream",
+              "Content-Range": `${offset}-${offset + chunk.length - 1}`,
+            },
+            body: new Uint8Array(chunk),
+          });
+
+          const nextLocation = chunkResponse.headers.get("location");
+          if (chunkResponse.status !== 202 || !nextLocation) {
+            return {
+              success: false,
+              error: `Failed to upload blob chunk at offset ${offset}: ${chunkResponse.status} ${chunkResponse.statusText}`,
+            };
+          }
+          location = this.resolveLocation(nextLocation);
+        }
+
+        // All content already sent, the closing PUT only carries the digest
+        finalBody = undefined;
+      }
+
+      location.searchParams.set("digest", digest);
+
+      const completeResponse = await this.authenticatedFetch(location.toString(), {
+        method: "PUT",
+        headers: {
+          ...this.getHeaders(),
+          "Content-Type": "application/octet-stream",
+        },
+        body: finalBody,
+      });
+
+      if (completeResponse.status !== 201) {
+        return {
+          success: false,
+          error: `Failed to complete blob upload: ${completeResponse.status} ${completeResponse.statusText}`,
+        };
+      }
+
+      return { success: true, descriptor };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      return {
+        success: false,
+        error: `Failed to push blob: ${message}`,
+      };
+    }
+  }
+
+  /**
+   * Push a manifest under a tag or digest reference
+   *
+   * PUT /v2/<name>/manifests/<reference>
+   */
+  async pushManifest(name: string, reference: string, manifest: OciManifest): Promise<PushManifestResult> {
+    try {
+      const url = this.buildUrl(name, `/manifests/${reference}`);
+      const body = new TextEncoder().encode(JSON.stringify(manifest));
+
+      const response = await this.authenticatedFetch(url, {
+        method: "PUT",
+        headers: {
+          ...this.getHeaders(),
+          "Content-Type": manifest.mediaType,
+        },
+        body,
+      });
+
+      if (response.status !== 201) {
+        const errorText = await response.text().catch(() => "");
+        return {
+          success: false,
+          error: `Failed to push manifest: ${response.status} ${errorText || response.statusText}`,
+        };
+      }
+
+      this.invalidateTag(name, reference);
+
+      return {
+        success: true,
+        digest: response.headers.get("docker-content-digest") ?? computeDigest(body),
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      return {
+        success: false,
+        error: `Failed to push manifest: ${message}`,
+      };
+    }
+  }
+
+  /**
+   * Push a grekt artifact under a tag
+   *
+   * Convenience method that:
+   * 1. Pushes the config blob (JSON, grekt config media type)
+   * 2. Pushes the tarball as the single grekt layer
+   * 3. Pushes the manifest referencing both
+   */
+  async pushArtifact(
+    name: string,
+    tag: string,
+    tarball: Buffer,
+    options: PushArtifactOptions = {}
+  ): Promise<PushManifestResult> {
+    const configData = Buffer.from(JSON.stringify(options.config ?? {}));
+    const configResult = await this.pushBlob(name, configData, GREKT_MEDIA_TYPES.config);
+    if (!configResult.success || !configResult.descriptor) {
+      return { success: false, error: configResult.error ?? "Failed to push config blob" };
+    }
+
+    const layerResult = await this.pushBlob(name, tarball, GREKT_MEDIA_TYPES.layer, {
+      chunkSize: options.chunkSize,
+      annotations: options.title ? { [TITLE_ANNOTATION]: options.title } : undefined,
+    });
+    if (!layerResult.success || !layerResult.descriptor) {
+      return { success: false, error: layerResult.error ?? "Failed to push artifact layer" };
+    }
+
+    const manifest: OciManifest = {
+      schemaVersion: 2,
+      mediaType: GREKT_MEDIA_TYPES.manifest,
+      config: configResult.descriptor,
+      layers: [layerResult.descriptor],
+      ...(options.annotations && { annotations: options.annotations }),
+    };
+
+    return this.pushManifest(name, tag, manifest);
   }
 }
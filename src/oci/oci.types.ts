@@ -2,7 +2,7 @@
  * OCI Distribution Spec types
  *
  * Types for interacting with OCI-compliant registries (GHCR, Docker Hub, etc.)
- * Only what we need for pull operations - minimal surface area.
+ * Only what we need for pull and push operations - minimal surface area.
  *
  * @see https://github.com/opencontainers/distribution-spec/blob/main/spec.md
  * @see https://github.com/opencontainers/image-spec/blob/main/manifest.md
@@ -63,14 +63,41 @@ export const GREKT_MEDIA_TYPES = {
   layer: "application/vnd.grekt.artifact.layer.v1.tar+gzip",
 } as const;
 
+/**
+ * Manifest annotation holding the publisher signature (JSON, see ArtifactSignatureSchema)
+ */
+export const GREKT_SIGNATURE_ANNOTATION = "dev.grekt.signature";
+
+/**
+ * Manifest annotation holding the deprecation message of a version
+ */
+export const GREKT_DEPRECATION_ANNOTATION = "dev.grekt.deprecated";
+
+/**
+ * Standard manifest annotation with the publish time (RFC 3339)
+ */
+export const OCI_CREATED_ANNOTATION = "org.opencontainers.image.created";
+
+/**
+ * Suffix of the tag that marks a version as yanked (1.0.0 → 1.0.0_yanked)
+ */
+export const GREKT_YANKED_TAG_SUFFIX = "_yanked";
+
 /**
  * OCI registry connection info
  */
 export interface OciRegistryConfig {
   /** Registry host (e.g., ghcr.io) */
   host: string;
-  /** Bearer token for authentication */
+  /** Bearer token for authentication (password when username is set) */
   token?: string;
+  /** Username for Basic auth and token exchange (Harbor, Docker Hub, ECR). GHCR ignores it. */
+  username?: string;
+  /**
+   * The registry deletes a tag without its manifest (distribution spec v1.1).
+   * Others delete by digest, taking every tag of the manifest with it.
+   */
+  tagDeletion?: boolean;
 }
 
 /**
@@ -80,6 +107,10 @@ export interface PullManifestResult {
   success: boolean;
   manifest?: OciManifest;
   error?: string;
+  /** HTTP status when the registry answered with an error */
+  status?: number;
+  /** True when the registry could not be reached */
+  networkError?: boolean;
 }
 
 /**
@@ -88,6 +119,22 @@ export interface PullManifestResult {
 export interface PullBlobResult {
   success: boolean;
   data?: Buffer;
+  /** Manifest annotations (set by pullArtifactLayer) */
+  annotations?: Record<string, string>;
+  error?: string;
+  /** HTTP status when the registry answered with an error */
+  status?: number;
+  /** True when the registry could not be reached */
+  networkError?: boolean;
+}
+
+/**
+ * Result from pulling the config blob of an artifact
+ */
+export interface PullConfigResult {
+  success: boolean;
+  /** Parsed config ({ name, version } for artifacts pushed by pushArtifact) */
+  config?: Record<string, unknown>;
   error?: string;
 }
 
@@ -99,3 +146,58 @@ export interface ListTagsResult {
   tags?: string[];
   error?: string;
 }
+
+/**
+ * Options for pushing a blob
+ */
+export interface PushBlobOptions {
+  /**
+   * Blobs larger than this are uploaded in chunks (PATCH per chunk).
+   * Smaller blobs use a single monolithic PUT.
+   */
+  chunkSize?: number;
+  /** Annotations to attach to the returned descriptor */
+  annotations?: Record<string, string>;
+}
+
+/**
+ * Result from pushing a blob
+ */
+export interface PushBlobResult {
+  success: boolean;
+  /** Descriptor of the stored blob, ready to reference from a manifest */
+  descriptor?: OciDescriptor;
+  error?: string;
+}
+
+/**
+ * Result from pushing a manifest
+ */
+export interface PushManifestResult {
+  success: boolean;
+  /** Manifest digest (sha256:...) */
+  digest?: string;
+  error?: string;
+}
+
+/**
+ * Result from deleting a tag
+ */
+export interface DeleteTagResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Options for pushing a grekt artifact (config + single tarball layer + manifest)
+ */
+export interface PushArtifactOptions {
+  /** Content of the config blob (serialized as JSON) */
+  config?: Record<string, unknown>;
+  /** File name recorded as the layer title annotation */
+  title?: string;
+  /** Manifest annotations */
+  annotations?: Record<string, string>;
+  /** Chunk size for the layer upload */
+  chunkSize?: number;
+}
@@ -4,9 +4,10 @@
  * Creates RegistryBrowser instances based on registry type.
  * Only self-hosted registries (GitHub/GitLab) support browsing,
  * since they expose their repository tree via Git APIs.
+ * The default registry is queried with DefaultRegistryOperations.search instead.
  */
 
-import type { HttpClient } from "#/core";
+import { createRetryingHttpClient, type HttpClient } from "#/core";
 import type { ResolvedRegistry } from "./registry.types";
 import type { RegistryBrowser } from "./browse.types";
 import { GitHubRepositoryBrowser } from "./clients/github-browser";
@@ -21,6 +22,8 @@ export function createRegistryBrowser(
   registry: ResolvedRegistry,
   http: HttpClient
 ): RegistryBrowser {
+  http = createRetryingHttpClient(http);
+
   switch (registry.type) {
     case "github":
       return new GitHubRepositoryBrowser(registry, http);
@@ -30,7 +33,7 @@ export function createRegistryBrowser(
     default:
       throw new Error(
         "Listing remote artifacts is only supported for self-hosted registries (GitHub/GitLab). " +
-        "Use the web interface to browse the default registry."
+        "Use search to find artifacts in the default registry."
       );
   }
 }
@@ -0,0 +1,338 @@
+import { describe, test, expect } from "vitest";
+import { CachedRegistryClient } from "./cache";
+import type { RegistryClient, ArtifactDownloadOptions, DownloadResult } from "./registry.types";
+import { hashDirectory, calculateIntegrity, parseHash, LEGACY_HASH_FORMAT } from "#/artifact";
+import { createMockFileSystem } from "#/test-utils/mocks";
+
+const CACHE_DIR = "/cache";
+const ARTIFACT_ID = "@scope/artifact";
+const ARTIFACT_FILES = {
+  "grekt.yaml": "name: \"@scope/artifact\"\nversion: \"1.0.0\"\n",
+  "agents/reviewer.md": "# Reviewer",
+};
+
+/**
+ * Stub client that "extracts" ARTIFACT_FILES into targetDir, like a real download
+ */
+function createStubClient(
+  fs: ReturnType<typeof createMockFileSystem>
+): RegistryClient & { downloads: number } {
+  const stub = {
+    downloads: 0,
+
+    async download(_artifactId: string, options: ArtifactDownloadOptions): Promise<DownloadResult> {
+      stub.downloads++;
+      for (const [file, content] of Object.entries(ARTIFACT_FILES)) {
+        fs.writeFile(`${options.targetDir}/${file}`, content);
+      }
+      const fileHashes = hashDirectory(fs, options.targetDir, options.hashAlgorithm);
+      return {
+        success: true,
+        version: options.version ?? "1.0.0",
+        resolved: "https://registry.grekt.com/artifact-1.0.0.tar.gz",
+        integrity: calculateIntegrity(fileHashes, options.hashAlgorithm),
+        fileHashes,
+        registry: "default:registry.grekt.com",
+      };
+    },
+
+    async publish() {
+      return { success: true, url: "published" };
+    },
+
+    async getLatestVersion() {
+      return "2.0.0";
+    },
+
+    async versionExists() {
+      return true;
+    },
+
+    async listVersions() {
+      return ["2.0.0", "1.0.0"];
+    },
+  };
+  return stub;
+}
+
+/**
+ * Mock filesystem that throws on missing directories, as node:fs does
+ * (the plain mock lists a missing directory as empty)
+ */
+function createStrictFileSystem(): ReturnType<typeof createMockFileSystem> {
+  const fs = createMockFileSystem();
+  const { readdir, rmdir } = fs;
+  const assertExists = (path: string, syscall: string) => {
+    if (!fs.exists(path) && ![...fs.files.keys()].some((file) => file.startsWith(`${path}/`))) {
+      throw new Error(`ENOENT: no such file or directory, ${syscall} '${path}'`);
+    }
+  };
+
+  fs.readdir = (path) => {
+    assertExists(path, "scandir");
+    return readdir(path);
+  };
+  fs.rmdir = (path, options) => {
+    assertExists(path, "rmdir");
+    rmdir(path, options);
+  };
+  return fs;
+}
+
+function setup(options: { offline?: boolean } = {}) {
+  const fs = createStrictFileSystem();
+  const stub = createStubClient(fs);
+  const client = new CachedRegistryClient(stub, fs, { cacheDir: CACHE_DIR, offline: options.offline });
+  return { fs, stub, client };
+}
+
+async function warmCache(fs: ReturnType<typeof createMockFileSystem>): Promise<DownloadResult> {
+  const online = new CachedRegistryClient(createStubClient(fs), fs, { cacheDir: CACHE_DIR });
+  return online.download(ARTIFACT_ID, { version: "1.0.0", targetDir: "/warmup" });
+}
+
+function getContentDir(integrity: string): string {
+  const { format, digest } = parseHash(integrity)!;
+  return `${CACHE_DIR}/content/${format}-${digest}`;
+}
+
+describe("CachedRegistryClient", () => {
+  describe("download", () => {
+    test("stores downloaded content by integrity", async () => {
+      const { fs, client } = setup();
+
+      const result = await client.download(ARTIFACT_ID, { version: "1.0.0", targetDir: "/target" });
+
+      const contentDir = getContentDir(result.integrity!);
+      expect(fs.readFile(`${contentDir}/agents/reviewer.md`)).toBe("# Reviewer");
+
+      const entry = JSON.parse(fs.readFile(`${CACHE_DIR}/index/%40scope%2Fartifact/1.0.0.json`));
+      expect(entry).toMatchObject({
+        artifactId: ARTIFACT_ID,
+        version: "1.0.0",
+        integrity: result.integrity,
+        registry: "default:registry.grekt.com",
+      });
+    });
+
+    test("serves repeated downloads from the cache", async () => {
+      const { fs, stub, client } = setup();
+
+      const first = await client.download(ARTIFACT_ID, { version: "1.0.0", targetDir: "/first" });
+      const second = await client.download(ARTIFACT_ID, { version: "1.0.0", targetDir: "/second" });
+
+      expect(stub.downloads).toBe(1);
+      expect(second).toEqual({ ...first, cached: true });
+      expect(fs.readFile("/second/grekt.yaml")).toBe(ARTIFACT_FILES["grekt.yaml"]);
+    });
+
+    test("bypasses the cache when locked integrity differs", async () => {
+      const { stub, client } = setup();
+      await client.download(ARTIFACT_ID, { version: "1.0.0", targetDir: "/first" });
+
+      const result = await client.download(ARTIFACT_ID, {
+        version: "1.0.0",
+        targetDir: "/second",
+        integrity: "sha256:0000",
+      });
+
+      expect(stub.downloads).toBe(2);
+      expect(result.cached).toBeUndefined();
+    });
+
+    test("serves the cache to lockfiles with v1 integrity of the same content", async () => {
+      const { fs, stub, client } = setup();
+      await client.download(ARTIFACT_ID, { version: "1.0.0", targetDir: "/first" });
+      const legacyIntegrity = calculateIntegrity(hashDirectory(fs, "/first", LEGACY_HASH_FORMAT), LEGACY_HASH_FORMAT);
+
+      const result = await client.download(ARTIFACT_ID, {
+        version: "1.0.0",
+        targetDir: "/second",
+        integrity: legacyIntegrity,
+      });
+
+      expect(stub.downloads).toBe(1);
+      expect(result.cached).toBe(true);
+    });
+
+    test("serves cached content hashed in the requested algorithm", async () => {
+      const { fs, stub, client } = setup();
+      await client.download(ARTIFACT_ID, { version: "1.0.0", targetDir: "/first" });
+
+      const result = await client.download(ARTIFACT_ID, { version: "1.0.0", targetDir: "/second", hashAlgorithm: "sha512" });
+
+      expect(stub.downloads).toBe(1);
+      expect(result.cached).toBe(true);
+      expect(result.fileHashes).toEqual(hashDirectory(fs, "/second", "sha512"));
+      expect(result.integrity).toBe(calculateIntegrity(result.fileHashes!, "sha512"));
+    });
+
+    test("evicts corrupted content and downloads again", async () => {
+      const { fs, stub, client } = setup();
+      const first = await client.download(ARTIFACT_ID, { version: "1.0.0", targetDir: "/first" });
+      const contentDir = getContentDir(first.integrity!);
+      fs.writeFile(`${contentDir}/agents/reviewer.md`, "# Tampered");
+
+      const result = await client.download(ARTIFACT_ID, { version: "1.0.0", targetDir: "/second" });
+
+      expect(stub.downloads).toBe(2);
+      expect(result.cached).toBeUndefined();
+      expect(fs.readFile("/second/agents/reviewer.md")).toBe("# Reviewer");
+    });
+
+    test("keeps the deprecation message of cached versions", async () => {
+      const fs = createStrictFileSystem();
+      const stub = createStubClient(fs);
+      const deprecated: RegistryClient = {
+        ...stub,
+        async download(artifactId, options) {
+          return { ...(await stub.download(artifactId, options)), deprecationMessage: "Use 2.x" };
+        },
+      };
+      const client = new CachedRegistryClient(deprecated, fs, { cacheDir: CACHE_DIR });
+
+      await client.download(ARTIFACT_ID, { version: "1.0.0", targetDir: "/first" });
+      const result = await client.download(ARTIFACT_ID, { version: "1.0.0", targetDir: "/second" });
+
+      expect(result.cached).toBe(true);
+      expect(result.deprecationMessage).toBe("Use 2.x");
+    });
+
+    test("does not cache when no version is requested and registry resolves latest", async () => {
+      const { stub, client } = setup();
+
+      await client.download(ARTIFACT_ID, { targetDir: "/first" });
+      await client.download(ARTIFACT_ID, { targetDir: "/second" });
+
+      // Latest is resolved by the registry each time, only the content is reused by version
+      expect(stub.downloads).toBe(2);
+    });
+
+    test("does not store failed downloads", async () => {
+      const fs = createMockFileSystem();
+      const failing: RegistryClient = {
+        ...createStubClient(fs),
+        async download() {
+          return { success: false, error: "Not found", failureReason: "not_found" };
+        },
+      };
+      const client = new CachedRegistryClient(failing, fs, { cacheDir: CACHE_DIR });
+
+      const result = await client.download(ARTIFACT_ID, { version: "1.0.0", targetDir: "/target" });
+
+      expect(result.success).toBe(false);
+      expect(fs.readdir(CACHE_DIR)).toEqual([]);
+    });
+  });
+
+  describe("offline mode", () => {
+    test("installs from the cache without calling the registry", async () => {
+      const { fs, stub, client } = setup({ offline: true });
+      const warm = await warmCache(fs);
+
+      const result = await client.download(ARTIFACT_ID, {
+        version: "1.0.0",
+        targetDir: "/target",
+        integrity: warm.integrity,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.cached).toBe(true);
+      expect(stub.downloads).toBe(0);
+      expect(fs.readFile("/target/agents/reviewer.md")).toBe("# Reviewer");
+    });
+
+    test("uses highest cached version when none is requested", async () => {
+      const { fs, client } = setup({ offline: true });
+      await warmCache(fs);
+
+      const result = await client.download(ARTIFACT_ID, { targetDir: "/target" });
+
+      expect(result.version).toBe("1.0.0");
+    });
+
+    test("fails clearly on a cache miss", async () => {
+      const { stub, client } = setup({ offline: true });
+
+      const result = await client.download(ARTIFACT_ID, {
+        version: "1.0.0",
+        targetDir: "/target",
+        integrity: "sha256:abc123",
+      });
+
+      expect(stub.downloads).toBe(0);
+      expect(result).toEqual({
+        success: false,
+        error: "Offline mode: @scope/artifact@1.0.0 with integrity sha256:abc123 is not in the download cache",
+        failureReason: "not_found",
+      });
+    });
+
+    test("fails clearly for an artifact that was never cached", async () => {
+      const { client } = setup({ offline: true });
+
+      const result = await client.download(ARTIFACT_ID, { targetDir: "/target" });
+
+      expect(result).toEqual({
+        success: false,
+        error: "Offline mode: @scope/artifact is not in the download cache",
+        failureReason: "not_found",
+      });
+      expect(await client.listVersions(ARTIFACT_ID)).toEqual([]);
+      expect(await client.getLatestVersion(ARTIFACT_ID)).toBeNull();
+    });
+
+    test("misses when cached content was removed", async () => {
+      const { fs, client } = setup({ offline: true });
+      const warm = await warmCache(fs);
+      fs.rmdir(getContentDir(warm.integrity!), { recursive: true });
+
+      const result = await client.download(ARTIFACT_ID, { version: "1.0.0", targetDir: "/target" });
+
+      expect(result.success).toBe(false);
+      expect(await client.listVersions(ARTIFACT_ID)).toEqual([]);
+    });
+
+    test("evicts an entry without removing content another version still uses", async () => {
+      const fs = createStrictFileSystem();
+      const online = new CachedRegistryClient(createStubClient(fs), fs, { cacheDir: CACHE_DIR });
+      const first = await online.download(ARTIFACT_ID, { version: "1.0.0", targetDir: "/first" });
+      await online.download(ARTIFACT_ID, { version: "1.1.0", targetDir: "/second" });
+      const contentDir = getContentDir(first.integrity!);
+      fs.writeFile(`${contentDir}/agents/reviewer.md`, "# Tampered");
+      const client = new CachedRegistryClient(createStubClient(fs), fs, { cacheDir: CACHE_DIR, offline: true });
+
+      await client.download(ARTIFACT_ID, { version: "1.0.0", targetDir: "/target" });
+
+      expect(fs.exists(`${CACHE_DIR}/index/%40scope%2Fartifact/1.0.0.json`)).toBe(false);
+      expect(fs.exists(`${CACHE_DIR}/index/%40scope%2Fartifact/1.1.0.json`)).toBe(true);
+      expect(fs.exists(`${contentDir}/agents/reviewer.md`)).toBe(true);
+
+      await client.download(ARTIFACT_ID, { version: "1.1.0", targetDir: "/target" });
+
+      expect(fs.exists(`${contentDir}/agents/reviewer.md`)).toBe(false);
+    });
+
+    test("answers version queries from the cache", async () => {
+      const { fs, client } = setup({ offline: true });
+      await warmCache(fs);
+
+      expect(await client.listVersions(ARTIFACT_ID)).toEqual(["1.0.0"]);
+      expect(await client.getLatestVersion(ARTIFACT_ID)).toBe("1.0.0");
+      expect(await client.versionExists(ARTIFACT_ID, "2.0.0")).toBe(false);
+      expect(await client.getArtifactInfo(ARTIFACT_ID)).toEqual({
+        artifactId: ARTIFACT_ID,
+        latestVersion: "1.0.0",
+        versions: [{ version: "1.0.0" }],
+      });
+    });
+
+    test("refuses to publish", async () => {
+      const { client } = setup({ offline: true });
+
+      const result = await client.publish({ artifactId: ARTIFACT_ID, version: "1.0.0", tarballPath: "/a.tar.gz" });
+
+      expect(result).toEqual({ success: false, error: "Cannot publish in offline mode" });
+    });
+  });
+});
@@ -0,0 +1,410 @@
+/**
+ * Download cache
+ *
+ * Content-addressed cache of extracted artifacts, shared by every
+ * RegistryClient implementation through the FileSystem interface.
+ *
+ * Layout:
+ *   <cacheDir>/content/sha256-<hex>/...         extracted files, keyed by integrity
+ *   <cacheDir>/index/<artifactId>/<version>.json (DownloadCacheEntrySchema)
+ *
+ * Versions with identical files share one content directory, removed with
+ * the last index entry pointing at it. Cached content is re-hashed before
+ * use, so a corrupted or tampered entry is evicted and never installed. In offline mode the wrapped client is
+ * never called: installs come from the cache or fail with a clear error.
+ */
+
+import { join } from "path";
+import type { FileSystem } from "#/core";
+import type {
+  RegistryClient,
+  ArtifactDownloadOptions,
+  ArtifactPublishOptions,
+  DownloadResult,
+  PublishResult,
+  RegistryArtifactInfo,
+  DistTagResult,
+  YankResult,
+  UnpublishOptions,
+  UnpublishResult,
+} from "./registry.types";
+import { DIST_TAGS_UNSUPPORTED } from "./dist-tags";
+import { YANK_UNSUPPORTED, UNPUBLISH_UNSUPPORTED } from "./unpublish";
+import { DownloadCacheEntrySchema, type DownloadCacheEntry } from "#/schemas";
+import {
+  hashDirectory,
+  calculateIntegrity,
+  matchesIntegrity,
+  parseHash,
+  DEFAULT_HASH_ALGORITHM,
+  LEGACY_HASH_FORMAT,
+} from "#/artifact";
+import { sortVersionsDesc, getHighestStableVersion, isValidSemver } from "#/version";
+
+const CONTENT_DIR = "content";
+const INDEX_DIR = "index";
+const INDEX_EXTENSION = ".json";
+
+export interface DownloadCacheOptions {
+  /** Directory holding the cache (e.g. ~/.grekt/cache) */
+  cacheDir: string;
+  /** Install only from the cache, never contact the registry */
+  offline?: boolean;
+}
+
+/**
+ * Copy a directory tree file by file (FileSystem has no recursive copy)
+ */
+function copyDirectory(fs: FileSystem, src: string, dest: string): void {
+  fs.mkdir(dest, { recursive: true });
+
+  for (const entry of fs.readdir(src)) {
+    const srcPath = join(src, entry);
+    const destPath = join(dest, entry);
+    const stat = fs.stat(srcPath);
+
+    if (stat.isDirectory) {
+      copyDirectory(fs, srcPath, destPath);
+    } else if (stat.isFile) {
+      fs.copyFile(srcPath, destPath);
+    }
+  }
+}
+
+export class CachedRegistryClient implements RegistryClient {
+  private client: RegistryClient;
+  private fs: FileSystem;
+  private cacheDir: string;
+  private offline: boolean;
+
+  constructor(client: RegistryClient, fs: FileSystem, options: DownloadCacheOptions) {
+    this.client = client;
+    this.fs = fs;
+    this.cacheDir = options.cacheDir;
+    this.offline = options.offline ?? false;
+  }
+
+  /**
+   * Index directory for an artifact. Encoded so "@a-b/c" and "@a/b-c" never collide.
+   */
+  private getIndexDir(artifactId: string): string {
+    const encoded = encodeURIComponent(artifactId).replace(/\./g, "%2E");
+    return join(this.cacheDir, INDEX_DIR, encoded);
+  }
+
+  private getIndexPath(artifactId: string, version: string): string {
+    return join(this.getIndexDir(artifactId), `${version}${INDEX_EXTENSION}`);
+  }
+
+  /**
+   * Content directory for an integrity. The hex digest keeps base64 "/" out of the path.
+   */
+  private getContentDir(integrity: string): string {
+    const parsed = parseHash(integrity);
+    return join(this.cacheDir, CONTENT_DIR, parsed ? `${parsed.format}-${parsed.digest}` : integrity);
+  }
+
+  /**
+   * Only SRI integrities are cached. Entries written before them are misses,
+   * downloaded once more and stored again.
+   */
+  private isCacheableIntegrity(integrity: string): boolean {
+    const format = parseHash(integrity)?.format;
+    return format !== undefined && format !== LEGACY_HASH_FORMAT;
+  }
+
+  private readEntry(artifactId: string, version: string): DownloadCacheEntry | null {
+    if (!isValidSemver(version)) {
+      return null;
+    }
+
+    const indexPath = this.getIndexPath(artifactId, version);
+    if (!this.fs.exists(indexPath)) {
+      return null;
+    }
+
+    try {
+      const result = DownloadCacheEntrySchema.safeParse(JSON.parse(this.fs.readFile(indexPath)));
+      return result.success && this.isCacheableIntegrity(result.data.integrity) ? result.data : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Check if any index entry points at a content directory
+   */
+  private isContentReferenced(contentDir: string): boolean {
+    const indexRoot = join(this.cacheDir, INDEX_DIR);
+
+    const list = (dir: string): string[] => {
+      try {
+        return this.fs.readdir(dir);
+      } catch {
+        return [];
+      }
+    };
+
+    return list(indexRoot).some((artifactDir) =>
+      list(join(indexRoot, artifactDir))
+        .filter((file) => file.endsWith(INDEX_EXTENSION))
+        .some((file) => {
+          try {
+            const result = DownloadCacheEntrySchema.safeParse(
+              JSON.parse(this.fs.readFile(join(indexRoot, artifactDir, file)))
+            );
+            return result.success && this.getContentDir(result.data.integrity) === contentDir;
+          } catch {
+            return false;
+          }
+        })
+    );
+  }
+
+  /**
+   * Remove an index entry, and its content once no other entry uses it
+   */
+  private evict(entry: DownloadCacheEntry): void {
+    const indexPath = this.getIndexPath(entry.artifactId, entry.version);
+    if (this.fs.exists(indexPath)) {
+      this.fs.unlink(indexPath);
+    }
+    const contentDir = this.getContentDir(entry.integrity);
+    if (this.fs.exists(contentDir) && !this.isContentReferenced(contentDir)) {
+      this.fs.rmdir(contentDir, { recursive: true });
+    }
+  }
+
+  /**
+   * Versions present in the cache for an artifact (sorted by semver descending)
+   */
+  private listCachedVersions(artifactId: string): string[] {
+    const indexDir = this.getIndexDir(artifactId);
+    if (!this.fs.exists(indexDir)) {
+      return [];
+    }
+
+    const versions = this.fs
+      .readdir(indexDir)
+      .filter((file) => file.endsWith(INDEX_EXTENSION))
+      .map((file) => file.slice(0, -INDEX_EXTENSION.length))
+      .filter(isValidSemver);
+
+    return sortVersionsDesc(versions);
+  }
+
+  /**
+   * Install a cached artifact into targetDir.
+   * Returns null on a miss, an integrity mismatch with the lockfile, or corrupted content.
+   */
+  private restore(artifactId: string, options: ArtifactDownloadOptions & { version: string }): DownloadResult | null {
+    const entry = this.readEntry(artifactId, options.version);
+    if (!entry) {
+      return null;
+    }
+
+    const contentDir = this.getContentDir(entry.integrity);
+    if (!this.fs.exists(contentDir)) {
+      this.evict(entry);
+      return null;
+    }
+
+    // Integrities from v1 lockfiles differ from the cached one for the same content
+    if (
+      options.integrity &&
+      options.integrity !== entry.integrity &&
+      !matchesIntegrity(this.fs, contentDir, options.integrity)
+    ) {
+      return null;
+    }
+
+    const format = parseHash(entry.integrity)?.format;
+    const cachedHashes = hashDirectory(this.fs, contentDir, format);
+
+    // Verify BEFORE copying so a corrupted entry never reaches targetDir
+    if (Object.keys(cachedHashes).length === 0 || calculateIntegrity(cachedHashes, format) !== entry.integrity) {
+      this.evict(entry);
+      return null;
+    }
+
+    copyDirectory(this.fs, contentDir, options.targetDir);
+
+    // Content cached under another algorithm than the install asks for is re-hashed in it
+    const algorithm = options.hashAlgorithm ?? DEFAULT_HASH_ALGORITHM;
+    const fileHashes = format === algorithm ? cachedHashes : hashDirectory(this.fs, contentDir, algorithm);
+
+    return {
+      success: true,
+      version: entry.version,
+      resolved: entry.resolved,
+      deprecationMessage: entry.deprecationMessage,
+      integrity: format === algorithm ? entry.integrity : calculateIntegrity(fileHashes, algorithm),
+      fileHashes,
+      registry: entry.registry,
+      signature: entry.signature,
+      cached: true,
+    };
+  }
+
+  /**
+   * Store a successful download. Cache failures never fail the install.
+   */
+  private store(artifactId: string, targetDir: string, result: DownloadResult): void {
+    const { version, integrity } = result;
+    if (!version || !integrity || !isValidSemver(version) || !this.isCacheableIntegrity(integrity)) {
+      return;
+    }
+
+    try {
+      const contentDir = this.getContentDir(integrity);
+      if (this.fs.exists(contentDir)) {
+        this.fs.rmdir(contentDir, { recursive: true });
+      }
+      copyDirectory(this.fs, targetDir, contentDir);
+
+      const entry: DownloadCacheEntry = {
+        artifactId,
+        version,
+        integrity,
+        resolved: result.resolved,
+        registry: result.registry,
+        signature: result.signature,
+        deprecationMessage: result.deprecationMessage,
+        cachedAt: new Date().toISOString(),
+      };
+
+      // Index written last: content is only reachable once fully copied
+      this.fs.mkdir(this.getIndexDir(artifactId), { recursive: true });
+      this.fs.writeFile(this.getIndexPath(artifactId, version), `${JSON.stringify(entry, null, 2)}\n`);
+    } catch {
+      // Best effort
+    }
+  }
+
+  async download(artifactId: string, options: ArtifactDownloadOptions): Promise<DownloadResult> {
+    const version = options.version ?? (this.offline ? getHighestStableVersion(this.listCachedVersions(artifactId)) : null);
+
+    if (version) {
+      const cached = this.restore(artifactId, { ...options, version });
+      if (cached) {
+        return cached;
+      }
+    }
+
+    if (this.offline) {
+      const requested = version ? `${artifactId}@${version}` : artifactId;
+      const integrity = options.integrity ? ` with integrity ${options.integrity}` : "";
+      return {
+        success: false,
+        error: `Offline mode: ${requested}${integrity} is not in the download cache`,
+        failureReason: "not_found",
+      };
+    }
+
+    const result = await this.client.download(artifactId, options);
+    if (result.success) {
+      this.store(artifactId, options.targetDir, result);
+    }
+    return result;
+  }
+
+  async publish(options: ArtifactPublishOptions): Promise<PublishResult> {
+    if (this.offline) {
+      return { success: false, error: "Cannot publish in offline mode" };
+    }
+    return this.client.publish(options);
+  }
+
+  async getLatestVersion(artifactId: string): Promise<string | null> {
+    if (this.offline) {
+      return getHighestStableVersion(this.listCachedVersions(artifactId));
+    }
+    return this.client.getLatestVersion(artifactId);
+  }
+
+  async versionExists(artifactId: string, version: string): Promise<boolean> {
+    if (this.offline) {
+      return this.readEntry(artifactId, version) !== null;
+    }
+    return this.client.versionExists(artifactId, version);
+  }
+
+  async listVersions(artifactId: string): Promise<string[]> {
+    if (this.offline) {
+      return this.listCachedVersions(artifactId);
+    }
+    return this.client.listVersions(artifactId);
+  }
+
+  async getArtifactInfo(artifactId: string): Promise<RegistryArtifactInfo | null> {
+    if (!this.offline) {
+      return this.client.getArtifactInfo ? this.client.getArtifactInfo(artifactId) : null;
+    }
+
+    const versions = this.listCachedVersions(artifactId);
+    if (versions.length === 0) {
+      return null;
+    }
+
+    return {
+      artifactId,
+      latestVersion: getHighestStableVersion(versions) ?? versions[0] ?? "",
+      versions: versions.map((version) => ({ version })),
+    };
+  }
+
+  async getDistTags(artifactId: string): Promise<Record<string, string>> {
+    // Dist-tags are not cached: offline, "latest" is the highest stable cached version
+    if (this.offline || !this.client.getDistTags) {
+      return {};
+    }
+    return this.client.getDistTags(artifactId);
+  }
+
+  async setDistTag(artifactId: string, tag: string, version: string): Promise<DistTagResult> {
+    if (this.offline) {
+      return { success: false, error: "Cannot change dist-tags in offline mode" };
+    }
+    return this.client.setDistTag ? this.client.setDistTag(artifactId, tag, version) : DIST_TAGS_UNSUPPORTED;
+  }
+
+  async removeDistTag(artifactId: string, tag: string): Promise<DistTagResult> {
+    if (this.offline) {
+      return { success: false, error: "Cannot change dist-tags in offline mode" };
+    }
+    return this.client.removeDistTag ? this.client.removeDistTag(artifactId, tag) : DIST_TAGS_UNSUPPORTED;
+  }
+
+  async yank(artifactId: string, version: string): Promise<YankResult> {
+    if (this.offline) {
+      return { success: false, error: "Cannot yank in offline mode" };
+    }
+    return this.client.yank ? this.client.yank(artifactId, version) : YANK_UNSUPPORTED;
+  }
+
+  async unyank(artifactId: string, version: string): Promise<YankResult> {
+    if (this.offline) {
+      return { success: false, error: "Cannot yank in offline mode" };
+    }
+    return this.client.unyank ? this.client.unyank(artifactId, version) : YANK_UNSUPPORTED;
+  }
+
+  /**
+   * Unpublished versions are also evicted from the cache (they may have been pulled for leaking secrets)
+   */
+  async unpublish(artifactId: string, options: UnpublishOptions): Promise<UnpublishResult> {
+    if (this.offline) {
+      return { success: false, error: "Cannot unpublish in offline mode" };
+    }
+    if (!this.client.unpublish) {
+      return UNPUBLISH_UNSUPPORTED;
+    }
+
+    const result = await this.client.unpublish(artifactId, options);
+    const entry = result.success ? this.readEntry(artifactId, options.version) : null;
+    if (entry) {
+      this.evict(entry);
+    }
+    return result;
+  }
+}
@@ -10,23 +10,34 @@ import {
 } from "#/test-utils/mocks";
 import type { ResolvedRegistry } from "../registry.types";
 import { REGISTRY_HOST } from "#/constants";
+import { MetadataCache } from "#/core";
 
 const API_BASE_PATH = "";
 const API_BASE = `https://${REGISTRY_HOST}`;
 
+const SIGNATURE = {
+  algorithm: "ed25519" as const,
+  keyId: "0123456789abcdef",
+  artifactId: "@scope/artifact",
+  version: "1.0.0",
+  integrity: "sha256:00000000000000000000000000000000",
+  signature: "c2lnbmF0dXJl",
+};
+
 /**
  * Helper to build an API artifact response matching the edge function shape
  */
 function buildArtifactResponse(overrides: {
   id?: string;
-  versions?: Array<{ version: string; deprecated?: string | null }>;
+  versions?: Array<{ version: string; deprecated?: string | null; yanked?: boolean; publishedAt?: string }>;
   isPublic?: boolean;
 } = {}) {
   const versions = (overrides.versions ?? [{ version: "1.0.0" }]).map(v => ({
     version: v.version,
-    publishedAt: "2024-01-01T00:00:00Z",
+    publishedAt: v.publishedAt ?? "2024-01-01T00:00:00Z",
     downloads: 0,
     deprecated: v.deprecated ?? null,
+    yanked: v.yanked ?? false,
   }));
 
   return {
@@ -84,6 +95,23 @@ describe("DefaultRegistryClient", () => {
       expect(extractCall).toBeDefined();
     });
 
+    test("returns the publisher signature served with the download", async () => {
+      const publicTarballUrl = "https://r2.example.com/artifacts/@scope/artifact/1.0.0.tar.gz";
+
+      const { client } = createClient(
+        REGISTRY_HOST,
+        new Map([
+          [`${API_BASE}/download?artifact=%40scope%2Fartifact&version=1.0.0`, jsonResponse({ url: publicTarballUrl, deprecated: null, signature: SIGNATURE })],
+          [publicTarballUrl, binaryResponse(Buffer.from("fake-tarball"))],
+        ])
+      );
+
+      const result = await client.download("@scope/artifact", { version: "1.0.0", targetDir: "/target" });
+
+      expect(result.success).toBe(true);
+      expect(result.signature).toEqual(SIGNATURE);
+    });
+
     test("resolves latest version when not specified", async () => {
       const artifactResponse = buildArtifactResponse({
         versions: [{ version: "1.0.0" }, { version: "2.0.0" }],
@@ -142,6 +170,7 @@ describe("DefaultRegistryClient", () => {
 
       expect(result.success).toBe(false);
       expect(result.error).toContain("not found");
+      expect(result.failureReason).toBe("not_found");
     });
 
     test("returns error when tarball download fails", async () => {
@@ -159,6 +188,7 @@ describe("DefaultRegistryClient", () => {
 
       expect(result.success).toBe(false);
       expect(result.error).toContain("500");
+      expect(result.failureReason).toBeUndefined();
     });
 
     test("stores canonical API URL for private artifacts (signed URLs)", async () => {
@@ -199,7 +229,7 @@ describe("DefaultRegistryClient", () => {
       const result = await client.download("@scope/artifact", { version: "1.0.0", targetDir: "/target" });
 
       expect(result.success).toBe(true);
-      expect(result.integrity).toMatch(/^sha256:/);
+      expect(result.integrity).toMatch(/^sha256-/);
       expect(result.fileHashes).toBeDefined();
     });
   });
@@ -233,6 +263,32 @@ describe("DefaultRegistryClient", () => {
       expect(result.success).toBe(true);
     });
 
+    test("sends the publisher signature with the publish request", async () => {
+      const uploadUrl = "https://storage.example.com/upload/signed-url";
+      let publishBody: Record<string, unknown> = {};
+
+      const { client, fs, http } = createClient(REGISTRY_HOST, new Map(), "test-token");
+      http.fetch = async (url: string, options?: RequestInit) => {
+        if (url === `${API_BASE}/publish`) {
+          publishBody = JSON.parse(String(options?.body));
+          return jsonResponse({ uploadUrl, expiresAt: "2025-01-01T00:00:00Z" });
+        }
+        return jsonResponse({}, 200);
+      };
+
+      fs.files.set("/path/to/tarball.tar.gz", { content: Buffer.from("tarball-data"), isDirectory: false });
+
+      const result = await client.publish({
+        artifactId: "@scope/artifact",
+        version: "1.0.0",
+        tarballPath: "/path/to/tarball.tar.gz",
+        signature: SIGNATURE,
+      });
+
+      expect(result.success).toBe(true);
+      expect(publishBody.signature).toEqual(SIGNATURE);
+    });
+
     test("returns error when upload fails", async () => {
       const uploadUrl = "https://storage.example.com/upload/signed-url";
 
@@ -438,6 +494,113 @@ describe("DefaultRegistryClient", () => {
     });
   });
 
+  describe("search", () => {
+    const searchEntry = {
+      id: "@scope/reviewer",
+      description: "Code review skill",
+      keywords: ["review"],
+      latestVersion: "1.2.0",
+      totalDownloads: 42,
+      deprecated: null,
+    };
+
+    test("sends filters and maps results", async () => {
+      const { client, http } = createClient();
+      const requested: string[] = [];
+      http.fetch = async (url: string) => {
+        requested.push(url);
+        return jsonResponse({ results: [searchEntry], total: 1 });
+      };
+
+      const page = await client.search({
+        query: "code review",
+        category: "skills",
+        keywords: ["review", "typescript"],
+        sort: "downloads",
+        limit: 5,
+      });
+
+      const url = new URL(requested[0]!);
+      expect(url.pathname).toBe("/search-artifacts");
+      expect(Object.fromEntries(url.searchParams)).toEqual({
+        q: "code review",
+        category: "skills",
+        keywords: "review,typescript",
+        sort: "downloads",
+        limit: "5",
+        offset: "0",
+      });
+      expect(page).toEqual({
+        results: [
+          {
+            id: "@scope/reviewer",
+            description: "Code review skill",
+            keywords: ["review"],
+            latestVersion: "1.2.0",
+            downloads: 42,
+            deprecated: undefined,
+          },
+        ],
+        total: 1,
+        page: 1,
+        limit: 5,
+        hasMore: false,
+      });
+    });
+
+    test("paginates with offset and reports more pages", async () => {
+      const { client } = createClient(
+        REGISTRY_HOST,
+        new Map([
+          [`${API_BASE}/search-artifacts?limit=10&offset=10`, jsonResponse({ results: [searchEntry], total: 25 })],
+        ])
+      );
+
+      const page = await client.search({ limit: 10, page: 2 });
+
+      expect(page.page).toBe(2);
+      expect(page.hasMore).toBe(true);
+    });
+
+    test("clamps limit to the registry maximum", async () => {
+      const { client } = createClient(
+        REGISTRY_HOST,
+        new Map([
+          [`${API_BASE}/search-artifacts?limit=100&offset=0`, jsonResponse({ results: [], total: 0 })],
+        ])
+      );
+
+      const page = await client.search({ limit: 1000 });
+
+      expect(page.limit).toBe(100);
+      expect(page.results).toEqual([]);
+    });
+
+    test("sends token to include private artifacts", async () => {
+      const { client, http } = createClient(REGISTRY_HOST, new Map(), "test-token");
+      let authorization: string | undefined;
+      http.fetch = async (_url: string, init?: RequestInit) => {
+        authorization = (init?.headers as Record<string, string>).Authorization;
+        return jsonResponse({ results: [], total: 0 });
+      };
+
+      await client.search({ query: "internal" });
+
+      expect(authorization).toBe("Bearer test-token");
+    });
+
+    test("throws RegistryApiError on failure", async () => {
+      const { client } = createClient(
+        REGISTRY_HOST,
+        new Map([
+          [`${API_BASE}/search-artifacts?q=x&limit=20&offset=0`, jsonResponse({ error: "Invalid sort", code: "INVALID_QUERY" }, 400)],
+        ])
+      );
+
+      await expect(client.search({ query: "x" })).rejects.toMatchObject({ name: "RegistryApiError", code: "INVALID_QUERY" });
+    });
+  });
+
   describe("RegistryApiError", () => {
     test("has correct name, code, and message", () => {
       const err = new RegistryApiError("Something failed", "SOME_CODE", "extra details");
@@ -475,6 +638,37 @@ describe("DefaultRegistryClient", () => {
       expect(result).toBe("3.0.0");
     });
 
+    test("ignores prereleases above the highest stable version", async () => {
+      const artifactResponse = buildArtifactResponse({
+        versions: [{ version: "1.4.0" }, { version: "2.0.0-beta.1" }],
+      });
+
+      const { client } = createClient(
+        REGISTRY_HOST,
+        new Map([
+          [`${API_BASE}/artifact?id=%40scope%2Fartifact`, jsonResponse(artifactResponse)],
+        ])
+      );
+
+      expect(await client.getLatestVersion("@scope/artifact")).toBe("1.4.0");
+    });
+
+    test("follows the latest dist-tag", async () => {
+      const artifactResponse = buildArtifactResponse({
+        versions: [{ version: "1.4.0" }, { version: "2.0.0" }],
+      });
+
+      const { client } = createClient(
+        REGISTRY_HOST,
+        new Map([
+          [`${API_BASE}/artifact?id=%40scope%2Fartifact`, jsonResponse(artifactResponse)],
+          [`${API_BASE}/dist-tags?artifact=%40scope%2Fartifact`, jsonResponse({ distTags: { latest: "1.4.0" } })],
+        ])
+      );
+
+      expect(await client.getLatestVersion("@scope/artifact")).toBe("1.4.0");
+    });
+
     test("returns null when artifact not found", async () => {
       const { client } = createClient(
         REGISTRY_HOST,
@@ -544,6 +738,145 @@ describe("DefaultRegistryClient", () => {
     });
   });
 
+  describe("dist-tags", () => {
+    test("getDistTags returns the tags from the dist-tags endpoint", async () => {
+      const { client } = createClient(
+        REGISTRY_HOST,
+        new Map([
+          [`${API_BASE}/dist-tags?artifact=%40scope%2Fartifact`, jsonResponse({ distTags: { latest: "1.0.0", next: "2.0.0-beta.1" } })],
+        ])
+      );
+
+      expect(await client.getDistTags("@scope/artifact")).toEqual({ latest: "1.0.0", next: "2.0.0-beta.1" });
+    });
+
+    test("getDistTags returns no tags when the endpoint fails", async () => {
+      const { client } = createClient();
+
+      expect(await client.getDistTags("@scope/artifact")).toEqual({});
+    });
+
+    test("setDistTag sends the tag to the dist-tags endpoint", async () => {
+      const requests: Array<{ method?: string; body: unknown }> = [];
+      const { client, http } = createClient(REGISTRY_HOST, new Map(), "test-token");
+      http.fetch = async (url: string, options?: RequestInit) => {
+        if (url === `${API_BASE}/dist-tags`) {
+          requests.push({ method: options?.method, body: JSON.parse(String(options?.body)) });
+        }
+        return jsonResponse({});
+      };
+
+      const result = await client.setDistTag("@scope/artifact", "next", "2.0.0-beta.1");
+
+      expect(result).toEqual({ success: true });
+      expect(requests).toEqual([
+        { method: "PUT", body: { artifactId: "@scope/artifact", tag: "next", version: "2.0.0-beta.1" } },
+      ]);
+    });
+
+    test("removeDistTag reports registry errors", async () => {
+      const { client } = createClient(
+        REGISTRY_HOST,
+        new Map([
+          [`${API_BASE}/dist-tags`, jsonResponse({ error: "Tag not found", code: "TAG_NOT_FOUND" }, 404)],
+        ]),
+        "test-token"
+      );
+
+      const result = await client.removeDistTag("@scope/artifact", "beta");
+
+      expect(result).toEqual({ success: false, error: "Tag not found" });
+    });
+
+    test("rejects invalid changes without a request", async () => {
+      const { client, http } = createClient(REGISTRY_HOST, new Map(), "test-token");
+      let requests = 0;
+      http.fetch = async () => {
+        requests++;
+        return jsonResponse({});
+      };
+
+      expect((await client.setDistTag("@scope/artifact", "1.0.0", "1.0.0")).success).toBe(false);
+      expect((await client.removeDistTag("@scope/artifact", "latest")).error).toContain("cannot be removed");
+      expect(requests).toBe(0);
+    });
+  });
+
+  describe("yank and unpublish", () => {
+    const METADATA_URL = `${API_BASE}/artifact?id=%40scope%2Fartifact`;
+
+    test("yanked versions are left out of listVersions and latest", async () => {
+      const artifactResponse = buildArtifactResponse({
+        versions: [{ version: "1.0.0" }, { version: "1.1.0", yanked: true }],
+      });
+
+      const { client, http } = createClient();
+      http.fetch = async (url: string) =>
+        url === METADATA_URL ? jsonResponse(artifactResponse) : jsonResponse({ distTags: {} });
+
+      expect(await client.listVersions("@scope/artifact")).toEqual(["1.0.0"]);
+      expect(await client.getLatestVersion("@scope/artifact")).toBe("1.0.0");
+      expect(await client.versionExists("@scope/artifact", "1.1.0")).toBe(true);
+
+      const info = await client.getArtifactInfo("@scope/artifact");
+      expect(info?.latestVersion).toBe("1.0.0");
+      expect(info?.versions.map((v) => [v.version, v.yanked])).toEqual([["1.1.0", true], ["1.0.0", undefined]]);
+    });
+
+    test("yank posts to the yank endpoint", async () => {
+      const requests: Array<{ url: string; body: unknown }> = [];
+      const { client, http } = createClient(REGISTRY_HOST, new Map(), "test-token");
+      http.fetch = async (url: string, options?: RequestInit) => {
+        requests.push({ url, body: JSON.parse(String(options?.body)) });
+        return jsonResponse({});
+      };
+
+      expect(await client.yank("@scope/artifact", "1.1.0")).toEqual({ success: true });
+      expect(requests).toEqual([{ url: `${API_BASE}/yank`, body: { artifactId: "@scope/artifact", version: "1.1.0" } }]);
+    });
+
+    test("unpublish posts to the unpublish endpoint inside the window", async () => {
+      const artifactResponse = buildArtifactResponse({
+        versions: [{ version: "1.0.0", publishedAt: new Date().toISOString() }],
+      });
+      const posts: unknown[] = [];
+
+      const { client, http } = createClient(REGISTRY_HOST, new Map(), "test-token");
+      http.fetch = async (url: string, options?: RequestInit) => {
+        if (options?.method === "POST") {
+          posts.push(JSON.parse(String(options.body)));
+          return jsonResponse({});
+        }
+        return url === METADATA_URL ? jsonResponse(artifactResponse) : jsonResponse({ distTags: {} });
+      };
+
+      const result = await client.unpublish("@scope/artifact", { version: "1.0.0" });
+
+      expect(result).toEqual({ success: true });
+      expect(posts).toEqual([{ artifactId: "@scope/artifact", version: "1.0.0", force: false }]);
+    });
+
+    test("unpublish refuses old versions without contacting the endpoint", async () => {
+      const { client, http } = createClient(
+        REGISTRY_HOST,
+        new Map([[METADATA_URL, jsonResponse(buildArtifactResponse())]]),
+        "test-token"
+      );
+      const fetch = http.fetch;
+      let posts = 0;
+      http.fetch = async (url: string, options?: RequestInit) => {
+        if (options?.method === "POST") posts++;
+        return fetch(url, options);
+      };
+
+      const result = await client.unpublish("@scope/artifact", { version: "1.0.0" });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("Yank it instead");
+      expect(posts).toBe(0);
+    });
+  });
+
   describe("listVersions", () => {
     test("returns empty array when no versions", async () => {
       const artifactResponse = buildArtifactResponse({ versions: [] });
@@ -670,6 +1003,26 @@ describe("DefaultRegistryClient", () => {
 
       expect(result!.latestVersion).toBe("5.0.0");
     });
+
+    test("reports the version latest installs: the latest dist-tag, never a prerelease", async () => {
+      const artifactResponse = buildArtifactResponse({
+        versions: [{ version: "1.0.0" }, { version: "1.1.0" }, { version: "2.0.0-beta.1" }],
+      });
+      const artifactUrl = `${API_BASE}/artifact?id=%40scope%2Fartifact`;
+      const distTagsUrl = `${API_BASE}/dist-tags?artifact=%40scope%2Fartifact`;
+
+      const untagged = createClient(REGISTRY_HOST, new Map([[artifactUrl, jsonResponse(artifactResponse)]]));
+      expect((await untagged.client.getArtifactInfo("@scope/artifact"))!.latestVersion).toBe("1.1.0");
+
+      const tagged = createClient(
+        REGISTRY_HOST,
+        new Map([
+          [artifactUrl, jsonResponse(artifactResponse)],
+          [distTagsUrl, jsonResponse({ distTags: { latest: "1.0.0" } })],
+        ])
+      );
+      expect((await tagged.client.getArtifactInfo("@scope/artifact"))!.latestVersion).toBe("1.0.0");
+    });
   });
 
   describe("apiBasePath full URL override", () => {
@@ -714,4 +1067,47 @@ describe("DefaultRegistryClient", () => {
       expect(result.version).toBe("1.0.0");
     });
   });
+
+  describe("metadata cache", () => {
+    const metadataUrl = `${API_BASE}/artifact?id=%40scope%2Fartifact`;
+
+    function createCachedClient(cache: MetadataCache) {
+      const requests: Array<Record<string, string>> = [];
+      const http = createMockHttpClient();
+      http.fetch = async (url: string, init?: RequestInit) => {
+        if (url !== metadataUrl) return new Response(null, { status: 404 });
+        const headers = (init?.headers ?? {}) as Record<string, string>;
+        requests.push(headers);
+        if (headers["If-None-Match"] === '"v1"') return new Response(null, { status: 304 });
+        return new Response(JSON.stringify(buildArtifactResponse({ versions: [{ version: "1.0.0" }, { version: "2.0.0" }] })), {
+          status: 200,
+          headers: { "Content-Type": "application/json", ETag: '"v1"' },
+        });
+      };
+
+      const registry: ResolvedRegistry = { type: "default", host: REGISTRY_HOST, apiBasePath: API_BASE_PATH, token: "tok" };
+      const client = new DefaultRegistryClient(registry, http, createMockFileSystem(), createMockTarOperations(), cache);
+      return { client, requests };
+    }
+
+    test("fetches metadata once for repeated lookups", async () => {
+      const { client, requests } = createCachedClient(new MetadataCache());
+
+      expect(await client.getLatestVersion("@scope/artifact")).toBe("2.0.0");
+      expect(await client.listVersions("@scope/artifact")).toEqual(["2.0.0", "1.0.0"]);
+      expect(await client.versionExists("@scope/artifact", "1.0.0")).toBe(true);
+
+      expect(requests).toHaveLength(1);
+    });
+
+    test("revalidates with ETag once the entry is stale", async () => {
+      const { client, requests } = createCachedClient(new MetadataCache({ freshForMs: 0 }));
+
+      await client.listVersions("@scope/artifact");
+      const versions = await client.listVersions("@scope/artifact");
+
+      expect(requests[1]!["If-None-Match"]).toBe('"v1"');
+      expect(versions).toEqual(["2.0.0", "1.0.0"]);
+    });
+  });
 });
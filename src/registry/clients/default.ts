@@ -6,10 +6,19 @@
  * Zero dependency on any specific backend — just HTTP.
  */
 
-import { validateTarballContents, generateSecureTempPath, type FileSystem, type HttpClient, type TarOperations } from "#/core";
+import {
+  validateTarballContents,
+  generateSecureTempPath,
+  isNetworkError,
+  type FileSystem,
+  type HttpClient,
+  type MetadataCache,
+  type TarOperations,
+} from "#/core";
 import type {
   RegistryClient,
   ResolvedRegistry,
+  ArtifactDownloadOptions,
   DownloadResult,
   PublishResult,
   RegistryArtifactInfo,
@@ -19,10 +28,21 @@ import type {
   DefaultPublishResult,
   ConfirmPublishOptions,
   DeprecateOptions,
+  ArtifactSearchOptions,
+  ArtifactSearchPage,
+  DownloadFailureReason,
   RegistryErrorResponse,
+  ArtifactPublishOptions,
+  DistTagResult,
+  YankResult,
+  UnpublishOptions,
+  UnpublishResult,
 } from "../registry.types";
+import type { ArtifactSignature } from "#/schemas";
 import { hashDirectory, calculateIntegrity } from "#/artifact";
-import { sortVersionsDesc, getHighestVersion } from "#/version";
+import { sortVersionsDesc, resolveVersionSpec, LATEST_TAG } from "#/version";
+import { validateDistTagChange } from "../dist-tags";
+import { checkUnpublishAllowed } from "../unpublish";
 
 /**
  * Shape of a version entry returned by the artifact API endpoint
@@ -32,6 +52,8 @@ interface ApiVersionEntry {
   publishedAt: string;
   downloads: number;
   deprecated: string | null;
+  /** Absent on registries that predate yanking */
+  yanked?: boolean;
 }
 
 /**
@@ -48,12 +70,44 @@ interface ApiArtifactResponse {
   createdAt: string;
 }
 
+/**
+ * Shape of a result entry returned by the search API endpoint
+ */
+interface ApiSearchEntry {
+  id: string;
+  description: string;
+  keywords: string[];
+  latestVersion: string;
+  totalDownloads: number;
+  deprecated: string | null;
+}
+
+/**
+ * Shape of the search API response
+ */
+interface ApiSearchResponse {
+  results: ApiSearchEntry[];
+  total: number;
+}
+
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 100;
+
+/**
+ * Shape of the dist-tags API response
+ */
+interface ApiDistTagsResponse {
+  distTags: Record<string, string>;
+}
+
 /**
  * Shape of the download API response (JSON mode)
  */
 interface ApiDownloadResponse {
   url: string;
   deprecated: string | null;
+  /** Publisher signature submitted with the publish request, if any */
+  signature?: ArtifactSignature | null;
 }
 
 export class DefaultRegistryClient implements RegistryClient, DefaultRegistryOperations {
@@ -63,12 +117,14 @@ export class DefaultRegistryClient implements RegistryClient, DefaultRegistryOpe
   private http: HttpClient;
   private fs: FileSystem;
   private tar: TarOperations;
+  private metadataCache?: MetadataCache;
 
   constructor(
     registry: ResolvedRegistry,
     http: HttpClient,
     fs: FileSystem,
-    tar: TarOperations
+    tar: TarOperations,
+    metadataCache?: MetadataCache
   ) {
     this.host = registry.host;
     this.apiBasePath = registry.apiBasePath || "";
@@ -76,6 +132,7 @@ export class DefaultRegistryClient implements RegistryClient, DefaultRegistryOpe
     this.http = http;
     this.fs = fs;
     this.tar = tar;
+    this.metadataCache = metadataCache;
   }
 
   private getApiUrl(): string {
@@ -93,20 +150,38 @@ export class DefaultRegistryClient implements RegistryClient, DefaultRegistryOpe
     return headers;
   }
 
+  private getMetadataUrl(artifactId: string): string {
+    return `${this.getApiUrl()}/artifact?id=${encodeURIComponent(artifactId)}`;
+  }
+
+  private getDistTagsUrl(artifactId: string): string {
+    return `${this.getApiUrl()}/dist-tags?artifact=${encodeURIComponent(artifactId)}`;
+  }
+
   /**
-   * Fetch artifact metadata from registry REST API
+   * Versions that ranges and latest may resolve to (yanked versions left out)
    */
-  private async fetchMetadata(artifactId: string): Promise<{ data: ApiArtifactResponse | null; error?: string }> {
-    const url = `${this.getApiUrl()}/artifact?id=${encodeURIComponent(artifactId)}`;
+  private getInstallableVersions(metadata: ApiArtifactResponse): string[] {
+    return metadata.versions.filter(v => !v.yanked).map(v => v.version);
+  }
+
+  /**
+   * Fetch artifact metadata from registry REST API (revalidated through the metadata cache when set)
+   */
+  private async fetchMetadata(
+    artifactId: string
+  ): Promise<{ data: ApiArtifactResponse | null; error?: string; failureReason?: DownloadFailureReason }> {
+    const url = this.getMetadataUrl(artifactId);
+    const init = { headers: this.getAuthHeaders() };
 
     try {
-      const response = await this.http.fetch(url, {
-        headers: this.getAuthHeaders(),
-      });
+      const response = this.metadataCache
+        ? await this.metadataCache.fetch((u, i) => this.http.fetch(u, i), url, init)
+        : await this.http.fetch(url, init);
 
       if (!response.ok) {
         if (response.status === 404) {
-          return { data: null, error: `Artifact not found: ${artifactId}` };
+          return { data: null, error: `Artifact not found: ${artifactId}`, failureReason: "not_found" };
         }
         return {
           data: null,
@@ -117,7 +192,11 @@ export class DefaultRegistryClient implements RegistryClient, DefaultRegistryOpe
       return { data: await response.json() };
     } catch (err) {
       const message = err instanceof Error ? err.message : "Unknown error";
-      return { data: null, error: `Failed to fetch metadata: ${message}` };
+      return {
+        data: null,
+        error: `Failed to fetch metadata: ${message}`,
+        failureReason: isNetworkError(err) ? "network" : undefined,
+      };
     }
   }
 
@@ -135,23 +214,20 @@ export class DefaultRegistryClient implements RegistryClient, DefaultRegistryOpe
     return `${this.getApiUrl()}/download?artifact=${encodeURIComponent(artifactId)}&version=${encodeURIComponent(version)}`;
   }
 
-  async download(
-    artifactId: string,
-    options: { version?: string; targetDir: string }
-  ): Promise<DownloadResult> {
+  async download(artifactId: string, options: ArtifactDownloadOptions): Promise<DownloadResult> {
     const { version, targetDir } = options;
 
     // Resolve version if not specified
     let resolvedVersion = version;
     if (!resolvedVersion) {
-      const { data: metadata, error: metadataError } = await this.fetchMetadata(artifactId);
+      const { data: metadata, error: metadataError, failureReason } = await this.fetchMetadata(artifactId);
       if (!metadata) {
-        return { success: false, error: metadataError || `Artifact not found: ${artifactId}` };
+        return { success: false, error: metadataError || `Artifact not found: ${artifactId}`, failureReason };
       }
-      const versionStrings = metadata.versions.map(v => v.version);
-      resolvedVersion = getHighestVersion(versionStrings) ?? undefined;
+      const distTags = await this.getDistTags(artifactId);
+      resolvedVersion = resolveVersionSpec(LATEST_TAG, this.getInstallableVersions(metadata), distTags) ?? undefined;
       if (!resolvedVersion) {
-        return { success: false, error: "No versions available for this artifact" };
+        return { success: false, error: "No versions available for this artifact", failureReason: "not_found" };
       }
     }
 
@@ -172,15 +248,15 @@ export class DefaultRegistryClient implements RegistryClient, DefaultRegistryOpe
 
         if (response.status === 404) {
           if (errorCode === "ARTIFACT_NOT_FOUND") {
-            return { success: false, error: `Artifact not found: ${artifactId}` };
+            return { success: false, error: `Artifact not found: ${artifactId}`, failureReason: "not_found" };
           }
           if (errorCode === "VERSION_NOT_FOUND") {
-            return { success: false, error: `Version ${resolvedVersion} not found` };
+            return { success: false, error: `Version ${resolvedVersion} not found`, failureReason: "not_found" };
           }
           if (errorCode === "FILE_NOT_FOUND") {
-            return { success: false, error: "Artifact file not found in storage" };
+            return { success: false, error: "Artifact file not found in storage", failureReason: "not_found" };
           }
-          return { success: false, error: errorBody?.error || "Not found" };
+          return { success: false, error: errorBody?.error || "Not found", failureReason: "not_found" };
         }
 
         if (response.status === 429) {
@@ -203,6 +279,7 @@ export class DefaultRegistryClient implements RegistryClient, DefaultRegistryOpe
         return {
           success: false,
           error: `Failed to download tarball: ${tarballResponse.status} ${tarballResponse.statusText}`,
+          failureReason: tarballResponse.status === 404 ? "not_found" : undefined,
         };
       }
 
@@ -235,8 +312,8 @@ export class DefaultRegistryClient implements RegistryClient, DefaultRegistryOpe
       }
 
       // Calculate integrity after extraction
-      const fileHashes = hashDirectory(this.fs, targetDir);
-      const integrity = calculateIntegrity(fileHashes);
+      const fileHashes = hashDirectory(this.fs, targetDir, options.hashAlgorithm);
+      const integrity = calculateIntegrity(fileHashes, options.hashAlgorithm);
 
       // Determine if artifact is public by checking if we got a non-signed URL
       const isPublic = !tarballUrl.includes("X-Amz-Signature");
@@ -249,16 +326,19 @@ export class DefaultRegistryClient implements RegistryClient, DefaultRegistryOpe
         deprecationMessage,
         integrity,
         fileHashes,
+        signature: downloadData.signature ?? undefined,
       };
     } catch (err) {
       const message = err instanceof Error ? err.message : "Unknown error";
-      return { success: false, error: `Download failed: ${message}` };
+      return {
+        success: false,
+        error: `Download failed: ${message}`,
+        failureReason: isNetworkError(err) ? "network" : undefined,
+      };
     }
   }
 
-  async publish(
-    options: { artifactId: string; version: string; tarballPath: string }
-  ): Promise<PublishResult> {
+  async publish(options: ArtifactPublishOptions): Promise<PublishResult> {
     if (!this.token) {
       return {
         success: false,
@@ -272,6 +352,7 @@ export class DefaultRegistryClient implements RegistryClient, DefaultRegistryOpe
         artifactId: options.artifactId,
         version: options.version,
         categories: [],
+        signature: options.signature,
       });
 
       // Upload tarball to signed URL
@@ -363,6 +444,8 @@ export class DefaultRegistryClient implements RegistryClient, DefaultRegistryOpe
       const errorData = await this.parseErrorResponse(response);
       throw new RegistryApiError(errorData.error, errorData.code, errorData.details);
     }
+
+    this.metadataCache?.invalidate(this.getMetadataUrl(options.artifactId));
   }
 
   async deprecate(artifactId: string, options: DeprecateOptions): Promise<void> {
@@ -387,6 +470,8 @@ export class DefaultRegistryClient implements RegistryClient, DefaultRegistryOpe
       const errorData = await this.parseErrorResponse(response);
       throw new RegistryApiError(errorData.error, errorData.code, errorData.details);
     }
+
+    this.metadataCache?.invalidate(this.getMetadataUrl(artifactId));
   }
 
   async undeprecate(artifactId: string, version: string): Promise<void> {
@@ -407,13 +492,53 @@ export class DefaultRegistryClient implements RegistryClient, DefaultRegistryOpe
       const errorData = await this.parseErrorResponse(response);
       throw new RegistryApiError(errorData.error, errorData.code, errorData.details);
     }
+
+    this.metadataCache?.invalidate(this.getMetadataUrl(artifactId));
+  }
+
+  async search(options: ArtifactSearchOptions): Promise<ArtifactSearchPage> {
+    const limit = Math.min(Math.max(Math.floor(options.limit ?? DEFAULT_SEARCH_LIMIT), 1), MAX_SEARCH_LIMIT);
+    const page = Math.max(Math.floor(options.page ?? 1), 1);
+
+    const params = new URLSearchParams();
+    if (options.query) params.set("q", options.query);
+    if (options.category) params.set("category", options.category);
+    if (options.keywords?.length) params.set("keywords", options.keywords.join(","));
+    if (options.sort) params.set("sort", options.sort);
+    params.set("limit", String(limit));
+    params.set("offset", String((page - 1) * limit));
+
+    const response = await this.http.fetch(`${this.getApiUrl()}/search-artifacts?${params}`, {
+      headers: this.getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const errorData = await this.parseErrorResponse(response);
+      throw new RegistryApiError(errorData.error, errorData.code, errorData.details);
+    }
+
+    const data: ApiSearchResponse = await response.json();
+
+    return {
+      results: data.results.map((entry) => ({
+        id: entry.id,
+        description: entry.description,
+        keywords: entry.keywords ?? [],
+        latestVersion: entry.latestVersion,
+        downloads: entry.totalDownloads,
+        deprecated: entry.deprecated ?? undefined,
+      })),
+      total: data.total,
+      page,
+      limit,
+      hasMore: page * limit < data.total,
+    };
   }
 
   async getLatestVersion(artifactId: string): Promise<string | null> {
     const { data: metadata } = await this.fetchMetadata(artifactId);
     if (!metadata) return null;
-    const versionStrings = metadata.versions.map(v => v.version);
-    return getHighestVersion(versionStrings) ?? null;
+    return resolveVersionSpec(LATEST_TAG, this.getInstallableVersions(metadata), await this.getDistTags(artifactId));
   }
 
   async versionExists(artifactId: string, version: string): Promise<boolean> {
@@ -425,8 +550,7 @@ export class DefaultRegistryClient implements RegistryClient, DefaultRegistryOpe
   async listVersions(artifactId: string): Promise<string[]> {
     const { data: metadata } = await this.fetchMetadata(artifactId);
     if (!metadata) return [];
-    const versionStrings = metadata.versions.map(v => v.version);
-    return sortVersionsDesc(versionStrings);
+    return sortVersionsDesc(this.getInstallableVersions(metadata));
   }
 
   async getArtifactInfo(artifactId: string): Promise<RegistryArtifactInfo | null> {
@@ -447,17 +571,159 @@ export class DefaultRegistryClient implements RegistryClient, DefaultRegistryOpe
       return {
         version: ver,
         deprecated: entry?.deprecated || undefined,
+        yanked: entry?.yanked || undefined,
         publishedAt: entry?.publishedAt,
       };
     });
 
     return {
       artifactId: metadata.id,
-      latestVersion: getHighestVersion(sortedVersions) ?? sortedVersions[0] ?? "",
+      // Same version an install of "latest" gets
+      latestVersion:
+        resolveVersionSpec(LATEST_TAG, this.getInstallableVersions(metadata), await this.getDistTags(artifactId)) ??
+        sortedVersions[0] ??
+        "",
       versions,
       createdAt: metadata.createdAt,
     };
   }
+
+  /**
+   * GET /dist-tags?artifact=... (revalidated through the metadata cache when set)
+   */
+  async getDistTags(artifactId: string): Promise<Record<string, string>> {
+    const url = this.getDistTagsUrl(artifactId);
+    const init = { headers: this.getAuthHeaders() };
+
+    try {
+      const response = this.metadataCache
+        ? await this.metadataCache.fetch((u, i) => this.http.fetch(u, i), url, init)
+        : await this.http.fetch(url, init);
+
+      if (!response.ok) return {};
+      const data: ApiDistTagsResponse = await response.json();
+      return data.distTags ?? {};
+    } catch {
+      return {};
+    }
+  }
+
+  async setDistTag(artifactId: string, tag: string, version: string): Promise<DistTagResult> {
+    return this.updateDistTag("PUT", artifactId, tag, version);
+  }
+
+  async removeDistTag(artifactId: string, tag: string): Promise<DistTagResult> {
+    return this.updateDistTag("DELETE", artifactId, tag);
+  }
+
+  /**
+   * PUT /dist-tags { artifactId, tag, version } or DELETE /dist-tags { artifactId, tag }
+   */
+  private async updateDistTag(
+    method: "PUT" | "DELETE",
+    artifactId: string,
+    tag: string,
+    version?: string
+  ): Promise<DistTagResult> {
+    const invalid = validateDistTagChange(tag, version);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    if (!this.token) {
+      return { success: false, error: "Not authenticated. Run 'grekt login' first." };
+    }
+
+    try {
+      const response = await this.http.fetch(`${this.getApiUrl()}/dist-tags`, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+          ...this.getAuthHeaders(),
+        },
+        body: JSON.stringify({ artifactId, tag, version }),
+      });
+
+      if (!response.ok) {
+        const errorData = await this.parseErrorResponse(response);
+        return { success: false, error: errorData.error };
+      }
+
+      this.metadataCache?.invalidate(this.getDistTagsUrl(artifactId));
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : "Unknown error" };
+    }
+  }
+
+  async yank(artifactId: string, version: string): Promise<YankResult> {
+    return this.postVersionChange("/yank", artifactId, { artifactId, version });
+  }
+
+  async unyank(artifactId: string, version: string): Promise<YankResult> {
+    return this.postVersionChange("/unyank", artifactId, { artifactId, version });
+  }
+
+  /**
+   * Checks the guardrails locally, the registry enforces its own (e.g. dependents) as well
+   */
+  async unpublish(artifactId: string, options: UnpublishOptions): Promise<UnpublishResult> {
+    const { data: metadata, error } = await this.fetchMetadata(artifactId);
+    const entry = metadata?.versions.find(v => v.version === options.version);
+    if (!entry) {
+      return { success: false, error: error ?? `Version ${options.version} not found for ${artifactId}` };
+    }
+
+    const blocked = checkUnpublishAllowed(options, {
+      artifactId,
+      publishedAt: entry.publishedAt,
+      distTags: await this.getDistTags(artifactId),
+    });
+    if (blocked) {
+      return { success: false, error: blocked };
+    }
+
+    return this.postVersionChange("/unpublish", artifactId, {
+      artifactId,
+      version: options.version,
+      force: options.force ?? false,
+    });
+  }
+
+  /**
+   * POST a version change (yank, unyank, unpublish) and invalidate the cached metadata
+   */
+  private async postVersionChange(
+    path: string,
+    artifactId: string,
+    body: Record<string, unknown>
+  ): Promise<{ success: boolean; error?: string }> {
+    if (!this.token) {
+      return { success: false, error: "Not authenticated. Run 'grekt login' first." };
+    }
+
+    try {
+      const response = await this.http.fetch(`${this.getApiUrl()}${path}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...this.getAuthHeaders(),
+        },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        const errorData = await this.parseErrorResponse(response);
+        return { success: false, error: errorData.error };
+      }
+
+      this.metadataCache?.invalidate(this.getMetadataUrl(artifactId));
+      this.metadataCache?.invalidate(this.getDistTagsUrl(artifactId));
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : "Unknown error" };
+    }
+  }
 }
 
 /**
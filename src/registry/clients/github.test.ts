@@ -1,13 +1,15 @@
 import { describe, test, expect } from "vitest";
+import { createHash } from "crypto";
 import { GitHubRegistryClient } from "./github";
 import {
   createMockHttpClient,
   createMockFileSystem,
-  createMockShellExecutor,
   createMockTarOperations,
   jsonResponse,
 } from "#/test-utils/mocks";
 import type { ResolvedRegistry } from "../registry.types";
+import { GREKT_MEDIA_TYPES } from "#/oci";
+import { MetadataCache } from "#/core";
 
 describe("GitHubRegistryClient", () => {
   const createClient = (registry: Partial<ResolvedRegistry> = {}) => {
@@ -19,14 +21,12 @@ describe("GitHubRegistryClient", () => {
     };
     const http = createMockHttpClient();
     const fs = createMockFileSystem();
-    const shell = createMockShellExecutor({ oras: "" });
     const tar = createMockTarOperations();
 
     return {
-      client: new GitHubRegistryClient(fullRegistry, http, fs, shell, tar),
+      client: new GitHubRegistryClient(fullRegistry, http, fs, tar),
       http,
       fs,
-      shell,
       tar,
     };
   };
@@ -40,10 +40,9 @@ describe("GitHubRegistryClient", () => {
       };
       const http = createMockHttpClient();
       const fs = createMockFileSystem();
-      const shell = createMockShellExecutor();
 
       expect(
-        () => new GitHubRegistryClient(registry, http, fs, shell, createMockTarOperations())
+        () => new GitHubRegistryClient(registry, http, fs, createMockTarOperations())
       ).toThrow("GitHub registry requires 'project' field in config");
     });
 
@@ -55,10 +54,9 @@ describe("GitHubRegistryClient", () => {
       };
       const http = createMockHttpClient();
       const fs = createMockFileSystem();
-      const shell = createMockShellExecutor();
 
       expect(
-        () => new GitHubRegistryClient(registry, http, fs, shell, createMockTarOperations())
+        () => new GitHubRegistryClient(registry, http, fs, createMockTarOperations())
       ).not.toThrow();
     });
   });
@@ -85,7 +83,7 @@ describe("GitHubRegistryClient", () => {
         prefix: "frontend",
       };
 
-      const client = new GitHubRegistryClient(registry, http, createMockFileSystem(), createMockShellExecutor(), createMockTarOperations());
+      const client = new GitHubRegistryClient(registry, http, createMockFileSystem(), createMockTarOperations());
       await client.listVersions("@scope/utils");
 
       // Repository name should be "myorg/frontend-utils"
@@ -111,7 +109,7 @@ describe("GitHubRegistryClient", () => {
         prefix: "packages-frontend",
       };
 
-      const client = new GitHubRegistryClient(registry, http, createMockFileSystem(), createMockShellExecutor(), createMockTarOperations());
+      const client = new GitHubRegistryClient(registry, http, createMockFileSystem(), createMockTarOperations());
       await client.listVersions("@scope/utils");
 
       // Repository name should be "myorg/packages-frontend-utils"
@@ -137,7 +135,7 @@ describe("GitHubRegistryClient", () => {
         // no prefix
       };
 
-      const client = new GitHubRegistryClient(registry, http, createMockFileSystem(), createMockShellExecutor(), createMockTarOperations());
+      const client = new GitHubRegistryClient(registry, http, createMockFileSystem(), createMockTarOperations());
       await client.listVersions("@scope/utils");
 
       // Repository name should just be "myorg/utils" (no prefix)
@@ -172,7 +170,6 @@ describe("GitHubRegistryClient", () => {
       };
 
       const fs = createMockFileSystem();
-      const shell = createMockShellExecutor({ tar: "" });
       fs.files.set("/target/file.md", { content: "content", isDirectory: false });
 
       const registry: ResolvedRegistry = {
@@ -182,7 +179,7 @@ describe("GitHubRegistryClient", () => {
         prefix: "frontend",
       };
 
-      const client = new GitHubRegistryClient(registry, http, fs, shell, createMockTarOperations());
+      const client = new GitHubRegistryClient(registry, http, fs, createMockTarOperations());
       const result = await client.download("@scope/utils", { version: "1.0.0", targetDir: "/target" });
 
       expect(result.success).toBe(true);
@@ -206,7 +203,7 @@ describe("GitHubRegistryClient", () => {
         host: "ghcr.io",
         project: "myorg",
       };
-      const client = new GitHubRegistryClient(registry, http, createMockFileSystem(), createMockShellExecutor(), createMockTarOperations());
+      const client = new GitHubRegistryClient(registry, http, createMockFileSystem(), createMockTarOperations());
       const result = await client.listVersions("@scope/artifact");
 
       expect(result).toEqual(["10.0.0", "2.0.0", "1.0.0"]);
@@ -226,13 +223,309 @@ describe("GitHubRegistryClient", () => {
         host: "ghcr.io",
         project: "myorg",
       };
-      const client = new GitHubRegistryClient(registry, http, createMockFileSystem(), createMockShellExecutor(), createMockTarOperations());
+      const client = new GitHubRegistryClient(registry, http, createMockFileSystem(), createMockTarOperations());
       const result = await client.listVersions("@scope/artifact");
 
       expect(result).toEqual(["2.0.0", "1.0.0"]);
     });
   });
 
+  describe("dist-tags", () => {
+    /**
+     * Fake GHCR repository whose tags point at manifests with a grekt config blob
+     */
+    function createDistTagClient(tags: Record<string, string>, tagDeletion = true, metadataCache?: MetadataCache) {
+      const requests: { url: string; method: string; body?: string }[] = [];
+
+      const http = createMockHttpClient();
+      http.fetch = async (url: string, init?: RequestInit) => {
+        const method = init?.method ?? "GET";
+        const body = init?.body ? new TextDecoder().decode(init.body as Uint8Array) : undefined;
+        requests.push({ url, method, body });
+
+        if (url.includes("/tags/list")) {
+          return jsonResponse({ tags: Object.keys(tags) });
+        }
+        if (url.includes("/manifests/")) {
+          if (method !== "GET") {
+            return new Response(null, { status: 201 });
+          }
+          const version = tags[url.split("/manifests/")[1]!];
+          return version
+            ? jsonResponse({ schemaVersion: 2, config: { digest: `sha256:config-${version}` }, layers: [] })
+            : new Response("Not Found", { status: 404 });
+        }
+        const config = url.match(/\/blobs\/sha256:config-(.+)$/);
+        if (config) {
+          return jsonResponse({ name: "artifact", version: config[1] });
+        }
+        return new Response("Not Found", { status: 404 });
+      };
+
+      const registry: ResolvedRegistry = {
+        type: "github",
+        host: "ghcr.io",
+        project: "myorg",
+        token: "ghp_xxxx",
+        tagDeletion,
+      };
+      const client = new GitHubRegistryClient(
+        registry,
+        http,
+        createMockFileSystem(),
+        createMockTarOperations(),
+        metadataCache
+      );
+      return { client, requests };
+    }
+
+    test("getDistTags reads the version from each tag's config blob", async () => {
+      const { client } = createDistTagClient({ "1.0.0": "1.0.0", "2.0.0-beta.1": "2.0.0-beta.1", latest: "1.0.0", next: "2.0.0-beta.1" });
+
+      expect(await client.getDistTags("@scope/artifact")).toEqual({ latest: "1.0.0", next: "2.0.0-beta.1" });
+    });
+
+    test("getDistTags reads tags through the metadata cache", async () => {
+      const { client, requests } = createDistTagClient(
+        { "1.0.0": "1.0.0", latest: "1.0.0", next: "1.0.0" },
+        true,
+        new MetadataCache()
+      );
+
+      await client.getDistTags("@scope/artifact");
+      const count = requests.length;
+      await client.getLatestVersion("@scope/artifact");
+      await client.getDistTags("@scope/artifact");
+
+      expect(requests).toHaveLength(count);
+    });
+
+    test("setDistTag is visible to the next getDistTags through the cache", async () => {
+      const tags: Record<string, string> = { "1.0.0": "1.0.0", "1.1.0": "1.1.0", latest: "1.0.0" };
+      const { client } = createDistTagClient(tags, true, new MetadataCache());
+      expect(await client.getDistTags("@scope/artifact")).toEqual({ latest: "1.0.0" });
+
+      tags.latest = "1.1.0";
+      await client.setDistTag("@scope/artifact", "latest", "1.1.0");
+
+      expect(await client.getDistTags("@scope/artifact")).toEqual({ latest: "1.1.0" });
+    });
+
+    test("getLatestVersion ignores prereleases without a latest tag", async () => {
+      const { client } = createDistTagClient({ "1.0.0": "1.0.0", "2.0.0-beta.1": "2.0.0-beta.1" });
+
+      expect(await client.getLatestVersion("@scope/artifact")).toBe("1.0.0");
+    });
+
+    test("setDistTag pushes the version's manifest under the tag", async () => {
+      const { client, requests } = createDistTagClient({ "1.0.0": "1.0.0" });
+
+      const result = await client.setDistTag("@scope/artifact", "next", "1.0.0");
+
+      expect(result).toEqual({ success: true });
+      const push = requests.find((r) => r.method === "PUT");
+      expect(push?.url).toBe("https://ghcr.io/v2/myorg/artifact/manifests/next");
+      expect(JSON.parse(push!.body!).config.digest).toBe("sha256:config-1.0.0");
+    });
+
+    test("removeDistTag deletes the tag", async () => {
+      const { client, requests } = createDistTagClient({ "1.0.0": "1.0.0", beta: "1.0.0" });
+
+      const result = await client.removeDistTag("@scope/artifact", "beta");
+
+      expect(result).toEqual({ success: true });
+      expect(requests.filter((r) => r.method === "DELETE").map((r) => r.url)).toEqual([
+        "https://ghcr.io/v2/myorg/artifact/manifests/beta",
+      ]);
+    });
+
+    test("removeDistTag refuses registries that may delete the manifest with the tag", async () => {
+      const { client, requests } = createDistTagClient({ "1.0.0": "1.0.0", beta: "1.0.0" }, false);
+
+      const result = await client.removeDistTag("@scope/artifact", "beta");
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("Deleting tag beta is unsupported on ghcr.io");
+      expect(requests.some((r) => r.method === "DELETE")).toBe(false);
+    });
+  });
+
+  describe("deprecation", () => {
+    /**
+     * Fake GHCR repository with one manifest per version tag, and dist-tags
+     * pointing at them (pushed manifests replace the tag's manifest)
+     */
+    function createDeprecationClient(
+      annotations: Record<string, Record<string, string>>,
+      distTags: Record<string, string> = {}
+    ) {
+      const pushes: { url: string; manifest: { annotations?: Record<string, string> } }[] = [];
+      const manifests = new Map<string, unknown>(
+        Object.entries({ ...Object.fromEntries(Object.keys(annotations).map((v) => [v, v])), ...distTags }).map(
+          ([tag, version]) => [
+            tag,
+            { schemaVersion: 2, config: { digest: `sha256:config-${version}` }, layers: [], annotations: annotations[version] },
+          ]
+        )
+      );
+
+      const http = createMockHttpClient();
+      http.fetch = async (url: string, init?: RequestInit) => {
+        if (url.includes("/tags/list")) {
+          return jsonResponse({ tags: [...manifests.keys()] });
+        }
+        if (url.includes("/manifests/")) {
+          const tag = url.split("/manifests/")[1]!;
+          if (init?.method === "PUT") {
+            const manifest = JSON.parse(new TextDecoder().decode(init.body as Uint8Array));
+            pushes.push({ url, manifest });
+            manifests.set(tag, manifest);
+            return new Response(null, { status: 201 });
+          }
+          return jsonResponse(manifests.get(tag));
+        }
+        const config = url.match(/\/blobs\/sha256:config-(.+)$/);
+        if (config) {
+          return jsonResponse({ name: "artifact", version: config[1] });
+        }
+        return new Response("Not Found", { status: 404 });
+      };
+
+      const registry: ResolvedRegistry = {
+        type: "github",
+        host: "ghcr.io",
+        project: "myorg",
+        token: "ghp_xxxx",
+      };
+      const client = new GitHubRegistryClient(registry, http, createMockFileSystem(), createMockTarOperations());
+      return { client, pushes };
+    }
+
+    test("deprecate re-pushes the version manifest with the deprecation annotation", async () => {
+      const { client, pushes } = createDeprecationClient({ "1.0.0": { "dev.grekt.signature": "{}" } });
+
+      await client.deprecate("@scope/artifact", { version: "1.0.0", message: "Use 2.x" });
+
+      expect(pushes).toHaveLength(1);
+      expect(pushes[0]!.url).toBe("https://ghcr.io/v2/myorg/artifact/manifests/1.0.0");
+      expect(pushes[0]!.manifest.annotations).toEqual({ "dev.grekt.signature": "{}", "dev.grekt.deprecated": "Use 2.x" });
+    });
+
+    test("deprecate moves the dist-tags of the version to the new manifest", async () => {
+      const { client, pushes } = createDeprecationClient({ "1.0.0": {}, "2.0.0-beta.1": {} }, { latest: "1.0.0", next: "2.0.0-beta.1" });
+
+      await client.deprecate("@scope/artifact", { version: "1.0.0", message: "Use 2.x" });
+
+      expect(pushes.map((push) => push.url)).toEqual([
+        "https://ghcr.io/v2/myorg/artifact/manifests/1.0.0",
+        "https://ghcr.io/v2/myorg/artifact/manifests/latest",
+      ]);
+      expect(pushes[1]!.manifest.annotations).toEqual({ "dev.grekt.deprecated": "Use 2.x" });
+    });
+
+    test("undeprecate removes the annotation", async () => {
+      const { client, pushes } = createDeprecationClient({ "1.0.0": { "dev.grekt.deprecated": "Use 2.x" } });
+
+      await client.undeprecate("@scope/artifact", "1.0.0");
+
+      expect(pushes[0]!.manifest.annotations).toBeUndefined();
+    });
+
+    test("throws without a token", async () => {
+      const { client } = createClient({ token: undefined });
+
+      await expect(client.undeprecate("@scope/artifact", "1.0.0")).rejects.toThrow("requires authentication");
+    });
+
+    test("getArtifactInfo reports deprecated versions", async () => {
+      const { client } = createDeprecationClient({ "1.0.0": { "dev.grekt.deprecated": "Use 2.x" }, "2.0.0": {} });
+
+      const info = await client.getArtifactInfo("@scope/artifact");
+
+      expect(info?.versions).toEqual([
+        { version: "2.0.0", deprecated: undefined },
+        { version: "1.0.0", deprecated: "Use 2.x" },
+      ]);
+    });
+  });
+
+  describe("yank and unpublish", () => {
+    /**
+     * Fake GHCR repository recording manifest pushes and deletions
+     */
+    function createYankClient(tags: string[], created: string) {
+      const requests: string[] = [];
+
+      const http = createMockHttpClient();
+      http.fetch = async (url: string, init?: RequestInit) => {
+        if (url.includes("/tags/list")) {
+          return jsonResponse({ tags });
+        }
+        if (url.includes("/manifests/")) {
+          if (init?.method === "PUT" || init?.method === "DELETE") {
+            requests.push(`${init.method} ${url}`);
+            return new Response(null, { status: init.method === "PUT" ? 201 : 202 });
+          }
+          return jsonResponse({
+            schemaVersion: 2,
+            config: { digest: "sha256:config" },
+            layers: [],
+            annotations: { "org.opencontainers.image.created": created },
+          });
+        }
+        return new Response("Not Found", { status: 404 });
+      };
+
+      const registry: ResolvedRegistry = {
+        type: "github",
+        host: "ghcr.io",
+        project: "myorg",
+        token: "ghp_xxxx",
+        tagDeletion: true,
+      };
+      const client = new GitHubRegistryClient(registry, http, createMockFileSystem(), createMockTarOperations());
+      return { client, requests };
+    }
+
+    test("listVersions leaves out versions with a yanked tag", async () => {
+      const { client } = createYankClient(["1.0.0", "1.1.0", "1.1.0_yanked"], "2024-01-01T00:00:00Z");
+
+      expect(await client.listVersions("@scope/artifact")).toEqual(["1.0.0"]);
+      expect(await client.getLatestVersion("@scope/artifact")).toBe("1.0.0");
+    });
+
+    test("yank tags the version manifest", async () => {
+      const { client, requests } = createYankClient(["1.0.0"], "2024-01-01T00:00:00Z");
+
+      const result = await client.yank("@scope/artifact", "1.0.0");
+
+      expect(result).toEqual({ success: true });
+      expect(requests).toEqual(["PUT https://ghcr.io/v2/myorg/artifact/manifests/1.0.0_yanked"]);
+    });
+
+    test("unpublish deletes the version and its yanked tag", async () => {
+      const { client, requests } = createYankClient(["1.0.0", "1.0.0_yanked"], new Date().toISOString());
+
+      const result = await client.unpublish("@scope/artifact", { version: "1.0.0" });
+
+      expect(result).toEqual({ success: true });
+      expect(requests).toEqual([
+        "DELETE https://ghcr.io/v2/myorg/artifact/manifests/1.0.0",
+        "DELETE https://ghcr.io/v2/myorg/artifact/manifests/1.0.0_yanked",
+      ]);
+    });
+
+    test("unpublish refuses versions published outside the window", async () => {
+      const { client, requests } = createYankClient(["1.0.0"], "2024-01-01T00:00:00Z");
+
+      const result = await client.unpublish("@scope/artifact", { version: "1.0.0" });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("Yank it instead");
+      expect(requests).toEqual([]);
+    });
+  });
+
   describe("token exchange", () => {
     const WWW_AUTHENTICATE_HEADER =
       'Bearer realm="https://ghcr.io/token",service="ghcr.io",scope="repository:myorg/utils:pull"';
@@ -301,7 +594,6 @@ describe("GitHubRegistryClient", () => {
         registry,
         http,
         createMockFileSystem(),
-        createMockShellExecutor(),
         createMockTarOperations()
       );
 
@@ -373,7 +665,6 @@ describe("GitHubRegistryClient", () => {
         registry,
         http,
         createMockFileSystem(),
-        createMockShellExecutor(),
         createMockTarOperations()
       );
 
@@ -385,6 +676,56 @@ describe("GitHubRegistryClient", () => {
   });
 
   describe("publish", () => {
+  /**
+   * Fake GHCR accepting uploads. Records every request and the uploaded blob contents.
+   */
+  function createPublishClient(options: { existingTags?: string[]; manifestStatus?: number } = {}) {
+    const requests: { url: string; method: string; headers: Record<string, string>; body?: string }[] = [];
+    const uploads: string[] = [];
+
+    const http = createMockHttpClient();
+    http.fetch = async (url: string, init?: RequestInit) => {
+      const method = init?.method ?? "GET";
+      const body = init?.body ? new TextDecoder().decode(init.body as Uint8Array) : undefined;
+      requests.push({ url, method, headers: (init?.headers ?? {}) as Record<string, string>, body });
+
+      if (url.includes("/manifests/")) {
+        if (method === "PUT") {
+          return new Response(null, { status: options.manifestStatus ?? 201 });
+        }
+        const tag = url.split("/manifests/")[1]!;
+        return options.existingTags?.includes(tag)
+          ? jsonResponse({ schemaVersion: 2, layers: [] })
+          : new Response("Not Found", { status: 404 });
+      }
+      if (method === "HEAD" && url.includes("/blobs/")) {
+        return new Response(null, { status: 404 });
+      }
+      if (method === "POST" && url.endsWith("/blobs/uploads/")) {
+        return new Response(null, {
+          status: 202,
+          headers: { Location: `/v2/myorg/artifact/blobs/uploads/session-${uploads.length}` },
+        });
+      }
+      if (method === "PUT" && url.includes("/blobs/uploads/")) {
+        uploads.push(body ?? "");
+        return new Response(null, { status: 201 });
+      }
+      return new Response("Not Found", { status: 404 });
+    };
+
+    const fs = createMockFileSystem({ "/tmp/artifact-1.0.0.tar.gz": "tarball-bytes" });
+    const registry: ResolvedRegistry = {
+      type: "github",
+      host: "ghcr.io",
+      project: "myorg",
+      token: "ghp_xxxx",
+    };
+
+    const client = new GitHubRegistryClient(registry, http, fs, createMockTarOperations());
+    return { client, requests, uploads };
+  }
+
     test("returns error when no token provided", async () => {
       const { client } = createClient({ token: undefined });
 
@@ -394,67 +735,60 @@ describe("GitHubRegistryClient", () => {
       expect(result.error).toContain("authentication");
     });
 
-    test("returns error when oras is not installed", async () => {
-      const registry: ResolvedRegistry = {
-        type: "github",
-        host: "ghcr.io",
-        project: "myorg",
-        token: "ghp_xxxx",
-      };
-
-      const http = createMockHttpClient();
-      // versionExists checks if tag exists via OCI manifest endpoint
-      http.fetch = async (url: string) => {
-        if (url.includes("/manifests/")) {
-          // Return 404 so versionExists returns false
-          return new Response("Not Found", { status: 404 });
-        }
-        return jsonResponse({ tags: [] });
-      };
+    test("pushes config, layer and manifest natively", async () => {
+      const { client, requests, uploads } = createPublishClient();
 
-      const fs = createMockFileSystem();
-      // oras command throws = not installed
-      const shell = createMockShellExecutor({
-        oras: new Error("command not found: oras"),
+      const result = await client.publish({
+        artifactId: "@scope/artifact",
+        version: "1.0.0",
+        tarballPath: "/tmp/artifact-1.0.0.tar.gz",
       });
 
-      const client = new GitHubRegistryClient(registry, http, fs, shell, createMockTarOperations());
-      const result = await client.publish({ artifactId: "@scope/artifact", version: "1.0.0", tarballPath: "/path/to/tarball.tar.gz" });
+      expect(result).toEqual({ success: true, url: "oci://ghcr.io/myorg/artifact:1.0.0" });
 
-      expect(result.success).toBe(false);
-      expect(result.error).toContain("oras");
+      const manifestPut = requests.find((r) => r.method === "PUT" && r.url.endsWith("/manifests/1.0.0"));
+      expect(manifestPut?.headers["Content-Type"]).toBe(GREKT_MEDIA_TYPES.manifest);
+
+      const manifest = JSON.parse(manifestPut!.body!);
+      expect(manifest.config.mediaType).toBe(GREKT_MEDIA_TYPES.config);
+      expect(manifest.layers).toEqual([{
+        mediaType: GREKT_MEDIA_TYPES.layer,
+        digest: `sha256:${createHash("sha256").update("tarball-bytes").digest("hex")}`,
+        size: "tarball-bytes".length,
+        annotations: { "org.opencontainers.image.title": "artifact-1.0.0.tar.gz" },
+      }]);
+
+      // Config and layer blobs were both uploaded
+      expect(uploads).toHaveLength(2);
+      expect(JSON.parse(uploads[0]!)).toEqual({ name: "@scope/artifact", version: "1.0.0" });
+      expect(uploads[1]).toBe("tarball-bytes");
     });
 
-    test("passes relative tarball path to oras", async () => {
-      const registry: ResolvedRegistry = {
-        type: "github",
-        host: "ghcr.io",
-        project: "myorg",
-        token: "ghp_xxxx",
-      };
+    test("refuses to overwrite an existing version", async () => {
+      const { client, requests } = createPublishClient({ existingTags: ["1.0.0"] });
 
-      const http = createMockHttpClient();
-      http.fetch = async (url: string) => {
-        if (url.includes("/manifests/")) {
-          return new Response("Not Found", { status: 404 });
-        }
-        return jsonResponse({ tags: [] });
-      };
+      const result = await client.publish({
+        artifactId: "@scope/artifact",
+        version: "1.0.0",
+        tarballPath: "/tmp/artifact-1.0.0.tar.gz",
+      });
 
-      const fs = createMockFileSystem();
-      const shell = createMockShellExecutor({ oras: "" });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("already exists");
+      expect(requests.some((r) => r.method === "PUT")).toBe(false);
+    });
 
-      const client = new GitHubRegistryClient(registry, http, fs, shell, createMockTarOperations());
-      const absolutePath = `${process.cwd()}/.grekt/tmp/artifact.tar.gz`;
-      await client.publish({ artifactId: "@scope/artifact", version: "1.0.0", tarballPath: absolutePath });
+    test("returns error when registry rejects the manifest", async () => {
+      const { client } = createPublishClient({ manifestStatus: 400 });
 
-      const orasCall = shell.calls.find((c) => c.command === "oras" && c.args[0] === "push");
-      expect(orasCall).toBeDefined();
+      const result = await client.publish({
+        artifactId: "@scope/artifact",
+        version: "1.0.0",
+        tarballPath: "/tmp/artifact-1.0.0.tar.gz",
+      });
 
-      // The last arg contains the tarball path — it should be relative, not absolute
-      const tarballArg = orasCall!.args[orasCall!.args.length - 1]!;
-      expect(tarballArg.startsWith("/")).toBe(false);
-      expect(tarballArg).toContain(".grekt/tmp/artifact.tar.gz");
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("Failed to push manifest: 400");
     });
   });
 });
@@ -4,36 +4,54 @@
  * Implementation for self-hosted artifact registries using GitHub's
  * Container Registry (GHCR) with OCI Distribution Spec.
  *
- * Download (pull): Native TypeScript via OCI client
- * Publish (push): Shells out to `oras` CLI
+ * Download (pull) and publish (push): Native TypeScript via OCI client
+ * Deprecation: dev.grekt.deprecated annotation on the version's manifest (dist-tags follow it)
+ * Yank: <version>_yanked tag on the version's manifest (see oci-versions.ts)
  *
  * @see https://docs.github.com/en/packages/working-with-a-github-packages-registry/working-with-the-container-registry
  */
 
-import { relative } from "path";
-import { validateTarballContents, generateSecureTempPath, type FileSystem, type HttpClient, type ShellExecutor, type TarOperations } from "#/core";
+import { basename } from "path";
+import {
+  validateTarballContents,
+  generateSecureTempPath,
+  type FileSystem,
+  type HttpClient,
+  type MetadataCache,
+  type TarOperations,
+} from "#/core";
 import type {
   RegistryClient,
   ResolvedRegistry,
+  ArtifactDownloadOptions,
   DownloadResult,
   PublishResult,
+  ArtifactPublishOptions,
+  DistTagResult,
+  DeprecateOptions,
+  DeprecationOperations,
   RegistryArtifactInfo,
   VersionInfo,
+  YankResult,
+  UnpublishOptions,
+  UnpublishResult,
 } from "../registry.types";
 import { hashDirectory, calculateIntegrity } from "#/artifact";
-import { sortVersionsDesc, getHighestVersion, isValidSemver } from "#/version";
-import { OciClient, GREKT_MEDIA_TYPES } from "#/oci";
+import { isValidSemver, isDistTag, resolveVersionSpec, LATEST_TAG } from "#/version";
+import { OciClient, OCI_CREATED_ANNOTATION, GREKT_SIGNATURE_ANNOTATION, GREKT_DEPRECATION_ANNOTATION } from "#/oci";
+import { parseArtifactSignature } from "#/security/signing";
+import { validateDistTagChange } from "../dist-tags";
+import { parseVersionTags, setVersionYanked, unpublishVersion, type OciVersionTags } from "./oci-versions";
 
 const DEFAULT_GHCR_HOST = "ghcr.io";
 
-export class GitHubRegistryClient implements RegistryClient {
+export class GitHubRegistryClient implements RegistryClient, DeprecationOperations {
   private host: string;
   private namespace: string;
   private token?: string;
   private prefix?: string;
   private http: HttpClient;
   private fs: FileSystem;
-  private shell: ShellExecutor;
   private tar: TarOperations;
   private ociClient: OciClient;
 
@@ -41,8 +59,8 @@ export class GitHubRegistryClient implements RegistryClient {
     registry: ResolvedRegistry,
     http: HttpClient,
     fs: FileSystem,
-    shell: ShellExecutor,
-    tar: TarOperations
+    tar: TarOperations,
+    metadataCache?: MetadataCache
   ) {
     if (!registry.project) {
       throw new Error(
@@ -55,14 +73,14 @@ export class GitHubRegistryClient implements RegistryClient {
     this.prefix = registry.prefix;
     this.http = http;
     this.fs = fs;
-    this.shell = shell;
     this.tar = tar;
     this.namespace = registry.project;
 
-    // Initialize OCI client for pull operations
+    // Initialize OCI client for pull and push operations
     this.ociClient = new OciClient(
-      { host: this.host, token: this.token },
-      http
+      { host: this.host, token: this.token, tagDeletion: registry.tagDeletion },
+      http,
+      metadataCache
     );
   }
 
@@ -88,10 +106,7 @@ export class GitHubRegistryClient implements RegistryClient {
     return match ? match[1]! : artifactId;
   }
 
-  async download(
-    artifactId: string,
-    options: { version?: string; targetDir: string }
-  ): Promise<DownloadResult> {
+  async download(artifactId: string, options: ArtifactDownloadOptions): Promise<DownloadResult> {
     const { version, targetDir } = options;
     if (!this.namespace) {
       return {
@@ -111,6 +126,7 @@ export class GitHubRegistryClient implements RegistryClient {
           return {
             success: false,
             error: `No versions found for artifact: ${artifactId}`,
+            failureReason: "not_found",
           };
         }
         resolvedVersion = latest;
@@ -123,6 +139,7 @@ export class GitHubRegistryClient implements RegistryClient {
         return {
           success: false,
           error: pullResult.error ?? "Failed to pull artifact",
+          failureReason: pullResult.status === 404 ? "not_found" : pullResult.networkError ? "network" : undefined,
         };
       }
 
@@ -155,8 +172,8 @@ export class GitHubRegistryClient implements RegistryClient {
       }
 
       // Calculate integrity after extraction
-      const fileHashes = hashDirectory(this.fs, targetDir);
-      const integrity = calculateIntegrity(fileHashes);
+      const fileHashes = hashDirectory(this.fs, targetDir, options.hashAlgorithm);
+      const integrity = calculateIntegrity(fileHashes, options.hashAlgorithm);
 
       // Build resolved URL (immutable reference)
       const resolved = `oci://${this.host}/${repoName}:${resolvedVersion}`;
@@ -167,6 +184,8 @@ export class GitHubRegistryClient implements RegistryClient {
         resolved,
         integrity,
         fileHashes,
+        deprecationMessage: pullResult.annotations?.[GREKT_DEPRECATION_ANNOTATION],
+        signature: parseArtifactSignature(pullResult.annotations?.[GREKT_SIGNATURE_ANNOTATION]),
       };
     } catch (err) {
       const message = err instanceof Error ? err.message : "Unknown error";
@@ -174,10 +193,8 @@ export class GitHubRegistryClient implements RegistryClient {
     }
   }
 
-  async publish(
-    options: { artifactId: string; version: string; tarballPath: string }
-  ): Promise<PublishResult> {
-    const { artifactId, version, tarballPath } = options;
+  async publish(options: ArtifactPublishOptions): Promise<PublishResult> {
+    const { artifactId, version, tarballPath, signature } = options;
 
     if (!this.token) {
       return {
@@ -193,14 +210,6 @@ export class GitHubRegistryClient implements RegistryClient {
       };
     }
 
-    // Check if oras is installed
-    if (!this.isOrasInstalled()) {
-      return {
-        success: false,
-        error: "Publishing to GitHub registry requires 'oras' CLI. Install from https://oras.land/",
-      };
-    }
-
     // Prevent overwriting existing versions
     const alreadyExists = await this.versionExists(artifactId, version);
     if (alreadyExists) {
@@ -214,18 +223,22 @@ export class GitHubRegistryClient implements RegistryClient {
       const repoName = this.getRepositoryName(artifactId);
       const fullRef = `${this.host}/${repoName}:${version}`;
 
-      // Use oras push with grekt media type and inline auth
-      // oras rejects absolute paths by default (security check), so we convert to relative
-      const relativeTarball = relative(process.cwd(), tarballPath);
-      const orasArgs = [
-        "push",
-        "--username", "USERNAME",
-        "--password", this.token,
-        fullRef,
-        `${relativeTarball}:${GREKT_MEDIA_TYPES.layer}`,
-      ];
+      const tarball = this.fs.readFileBinary(tarballPath);
+      const pushResult = await this.ociClient.pushArtifact(repoName, version, tarball, {
+        config: { name: artifactId, version },
+        title: basename(tarballPath),
+        annotations: {
+          [OCI_CREATED_ANNOTATION]: new Date().toISOString(),
+          ...(signature && { [GREKT_SIGNATURE_ANNOTATION]: JSON.stringify(signature) }),
+        },
+      });
 
-      this.shell.execFile("oras", orasArgs);
+      if (!pushResult.success) {
+        return {
+          success: false,
+          error: pushResult.error ?? "Failed to push artifact",
+        };
+      }
 
       return {
         success: true,
@@ -241,7 +254,8 @@ export class GitHubRegistryClient implements RegistryClient {
 
   async getLatestVersion(artifactId: string): Promise<string | null> {
     const versions = await this.listVersions(artifactId);
-    return getHighestVersion(versions);
+    if (versions.length === 0) return null;
+    return resolveVersionSpec(LATEST_TAG, versions, await this.getDistTags(artifactId));
   }
 
   async versionExists(artifactId: string, version: string): Promise<boolean> {
@@ -252,48 +266,161 @@ export class GitHubRegistryClient implements RegistryClient {
   }
 
   async listVersions(artifactId: string): Promise<string[]> {
-    if (!this.namespace) return [];
-
-    const repoName = this.getRepositoryName(artifactId);
-    const result = await this.ociClient.listTags(repoName);
+    const { versions, yanked } = await this.listVersionTags(artifactId);
+    return versions.filter((v) => !yanked.includes(v));
+  }
 
-    if (!result.success || !result.tags) {
-      return [];
-    }
+  /**
+   * Published versions (semver tags, descending) and the yanked ones, from one tags/list request
+   */
+  private async listVersionTags(artifactId: string): Promise<OciVersionTags> {
+    if (!this.namespace) return { versions: [], yanked: [] };
 
-    // Filter to only semver tags and sort descending
-    const semverTags = result.tags.filter(isValidSemver);
-    return sortVersionsDesc(semverTags);
+    const result = await this.ociClient.listTags(this.getRepositoryName(artifactId));
+    return result.success && result.tags ? parseVersionTags(result.tags) : { versions: [], yanked: [] };
   }
 
   async getArtifactInfo(artifactId: string): Promise<RegistryArtifactInfo | null> {
-    const versions = await this.listVersions(artifactId);
+    const { versions, yanked } = await this.listVersionTags(artifactId);
 
     if (versions.length === 0) {
       return null;
     }
 
-    const versionInfos: VersionInfo[] = versions.map((version) => ({
-      version,
-    }));
+    // Deprecation and publish time live in each version's manifest annotations
+    const repoName = this.getRepositoryName(artifactId);
+    const versionInfos: VersionInfo[] = await Promise.all(
+      versions.map(async (version) => {
+        const { manifest } = await this.ociClient.pullManifest(repoName, version);
+        return {
+          version,
+          deprecated: manifest?.annotations?.[GREKT_DEPRECATION_ANNOTATION],
+          yanked: yanked.includes(version) || undefined,
+          publishedAt: manifest?.annotations?.[OCI_CREATED_ANNOTATION],
+        };
+      })
+    );
+
+    // Same version an install of "latest" gets
+    const installable = versions.filter((v) => !yanked.includes(v));
+    const latestVersion = resolveVersionSpec(LATEST_TAG, installable, await this.getDistTags(artifactId));
 
     return {
       artifactId,
-      latestVersion: versions[0] ?? "",
+      latestVersion: latestVersion ?? versions[0] ?? "",
       versions: versionInfos,
     };
   }
 
   /**
-   * Check if oras CLI is installed
+   * Dist-tags are plain OCI tags that are not versions. The version a tag
+   * points at is read from the config blob written by pushArtifact.
    */
-  private isOrasInstalled(): boolean {
-    try {
-      this.shell.execFile("oras", ["version"]);
-      return true;
-    } catch {
-      return false;
+  async getDistTags(artifactId: string): Promise<Record<string, string>> {
+    if (!this.namespace) return {};
+
+    const repoName = this.getRepositoryName(artifactId);
+    const result = await this.ociClient.listTags(repoName);
+    if (!result.success || !result.tags) {
+      return {};
+    }
+
+    const distTags: Record<string, string> = {};
+    for (const tag of result.tags.filter(isDistTag)) {
+      const { config } = await this.ociClient.pullArtifactConfig(repoName, tag);
+      // Tags pushed by other tools have no grekt config: not a dist-tag
+      if (typeof config?.version === "string" && isValidSemver(config.version)) {
+        distTags[tag] = config.version;
+      }
     }
+    return distTags;
   }
-}
 
+  async setDistTag(artifactId: string, tag: string, version: string): Promise<DistTagResult> {
+    const invalid = validateDistTagChange(tag, version);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    if (!this.token || !this.namespace) {
+      return { success: false, error: "GitHub registry requires authentication and a namespace to change dist-tags." };
+    }
+
+    const repoName = this.getRepositoryName(artifactId);
+    const result = await this.ociClient.tagManifest(repoName, version, tag);
+    return result.success ? { success: true } : { success: false, error: result.error ?? "Failed to tag version" };
+  }
+
+  async removeDistTag(artifactId: string, tag: string): Promise<DistTagResult> {
+    const invalid = validateDistTagChange(tag);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    if (!this.token || !this.namespace) {
+      return { success: false, error: "GitHub registry requires authentication and a namespace to change dist-tags." };
+    }
+
+    const result = await this.ociClient.deleteTag(this.getRepositoryName(artifactId), tag);
+    return result.success ? { success: true } : { success: false, error: result.error };
+  }
+
+  async yank(artifactId: string, version: string): Promise<YankResult> {
+    if (!this.token || !this.namespace) {
+      return { success: false, error: "GitHub registry requires authentication and a namespace to yank versions." };
+    }
+    return setVersionYanked(this.ociClient, this.getRepositoryName(artifactId), version, true);
+  }
+
+  async unyank(artifactId: string, version: string): Promise<YankResult> {
+    if (!this.token || !this.namespace) {
+      return { success: false, error: "GitHub registry requires authentication and a namespace to yank versions." };
+    }
+    return setVersionYanked(this.ociClient, this.getRepositoryName(artifactId), version, false);
+  }
+
+  async unpublish(artifactId: string, options: UnpublishOptions): Promise<UnpublishResult> {
+    if (!this.token || !this.namespace) {
+      return { success: false, error: "GitHub registry requires authentication and a namespace to unpublish versions." };
+    }
+
+    const distTags = await this.getDistTags(artifactId);
+    return unpublishVersion(this.ociClient, this.getRepositoryName(artifactId), artifactId, options, distTags);
+  }
+
+  async deprecate(artifactId: string, options: DeprecateOptions): Promise<void> {
+    await this.setDeprecation(artifactId, options.version, options.message);
+  }
+
+  async undeprecate(artifactId: string, version: string): Promise<void> {
+    await this.setDeprecation(artifactId, version, undefined);
+  }
+
+  /**
+   * Re-push the version's manifest with (or without) the deprecation annotation,
+   * then move the dist-tags of the version to the new manifest so installs by
+   * dist-tag see the change too
+   */
+  private async setDeprecation(artifactId: string, version: string, message: string | undefined): Promise<void> {
+    if (!this.token || !this.namespace) {
+      throw new Error("GitHub registry requires authentication and a namespace to deprecate versions.");
+    }
+
+    const repoName = this.getRepositoryName(artifactId);
+    const distTags = await this.getDistTags(artifactId);
+
+    const result = await this.ociClient.setManifestAnnotation(repoName, version, GREKT_DEPRECATION_ANNOTATION, message);
+    if (!result.success) {
+      throw new Error(result.error ?? `Failed to update deprecation of ${artifactId}@${version}`);
+    }
+
+    for (const tag of Object.keys(distTags).filter((tag) => distTags[tag] === version)) {
+      const moved = await this.ociClient.tagManifest(repoName, version, tag);
+      if (!moved.success) {
+        throw new Error(
+          `Updated deprecation of ${artifactId}@${version} but failed to move dist-tag ${tag}: ${moved.error ?? "Unknown error"}`
+        );
+      }
+    }
+  }
+}
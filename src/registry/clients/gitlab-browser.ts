@@ -4,8 +4,9 @@
  * Discovers artifacts in a GitLab repository by reading the file tree
  * and parsing grekt.yaml manifests.
  *
- * Uses the Repository Tree API for directory listing (with pagination),
- * then fetches raw file contents for each grekt.yaml found.
+ * Uses the Repository Tree API for directory listing (paginated up to the
+ * registry's page cap, reported as truncated beyond it), then fetches raw
+ * file contents for each grekt.yaml found.
  *
  * @see https://docs.gitlab.com/ee/api/repositories.html#list-repository-tree
  * @see https://docs.gitlab.com/ee/api/repository_files.html#get-raw-file-from-repository
@@ -16,9 +17,9 @@ import type { ResolvedRegistry } from "../registry.types";
 import type { RegistryBrowser, BrowseResult, BrowsedArtifact } from "../browse.types";
 import { ArtifactManifestSchema } from "#/schemas";
 import { parse as parseYaml } from "yaml";
+import { fetchAllPages, GITLAB_PAGE_SIZE, DEFAULT_MAX_PAGES } from "./gitlab-pagination";
 
 const MANIFEST_FILENAME = "grekt.yaml";
-const TREE_PAGE_SIZE = 100;
 
 interface GitLabTreeEntry {
   id: string;
@@ -33,6 +34,7 @@ export class GitLabRepositoryBrowser implements RegistryBrowser {
   private encodedProject: string;
   private token?: string;
   private http: HttpClient;
+  private maxPages: number;
 
   constructor(registry: ResolvedRegistry, http: HttpClient) {
     if (!registry.project) {
@@ -43,6 +45,7 @@ export class GitLabRepositoryBrowser implements RegistryBrowser {
     this.encodedProject = encodeURIComponent(normalizeProject(registry.project));
     this.token = registry.token;
     this.http = http;
+    this.maxPages = registry.maxPages ?? DEFAULT_MAX_PAGES;
   }
 
   async browse(): Promise<BrowseResult> {
@@ -61,7 +64,7 @@ export class GitLabRepositoryBrowser implements RegistryBrowser {
       .map((entry) => entry.path);
 
     if (manifestPaths.length === 0) {
-      return { success: true, artifacts: [] };
+      return { success: true, artifacts: [], truncated: treeResult.truncated };
     }
 
     const artifacts: BrowsedArtifact[] = [];
@@ -76,66 +79,59 @@ export class GitLabRepositoryBrowser implements RegistryBrowser {
     return {
       success: true,
       artifacts,
+      truncated: treeResult.truncated,
     };
   }
 
   private async fetchTree(): Promise<{
     success: boolean;
     entries: GitLabTreeEntry[];
+    truncated: boolean;
     error?: string;
   }> {
-    const allEntries: GitLabTreeEntry[] = [];
-    let page = 1;
+    const url =
+      `https://${this.host}/api/v4/projects/${this.encodedProject}/repository/tree` +
+      `?recursive=true&per_page=${GITLAB_PAGE_SIZE}&page=1`;
 
     try {
-      while (true) {
-        const url =
-          `https://${this.host}/api/v4/projects/${this.encodedProject}/repository/tree` +
-          `?recursive=true&per_page=${TREE_PAGE_SIZE}&page=${page}`;
-
-        const response = await this.http.fetch(url, {
-          headers: this.getHeaders(),
-        });
-
-        if (!response.ok) {
-          if (response.status === 401 || response.status === 403) {
-            return {
-              success: false,
-              entries: [],
-              error: "Authentication failed. Configure a token in .grekt/config.yaml or set GITLAB_TOKEN.",
-            };
-          }
-          if (response.status === 404) {
-            return {
-              success: false,
-              entries: [],
-              error: `Project not found: ${this.encodedProject}`,
-            };
-          }
+      const result = await fetchAllPages<GitLabTreeEntry>(
+        (pageUrl) => this.http.fetch(pageUrl, { headers: this.getHeaders() }),
+        url,
+        this.maxPages
+      );
+
+      const response = result.failedResponse;
+      if (response) {
+        if (response.status === 401 || response.status === 403) {
           return {
             success: false,
             entries: [],
-            error: `GitLab API error: ${response.status} ${response.statusText}`,
+            truncated: false,
+            error: "Authentication failed. Configure a token in .grekt/config.yaml or set GITLAB_TOKEN.",
           };
         }
-
-        const entries: GitLabTreeEntry[] = await response.json();
-        allEntries.push(...entries);
-
-        // Check pagination: GitLab returns x-next-page header
-        const nextPage = response.headers.get("x-next-page");
-        if (!nextPage || nextPage === "") {
-          break;
+        if (response.status === 404) {
+          return {
+            success: false,
+            entries: [],
+            truncated: false,
+            error: `Project not found: ${this.encodedProject}`,
+          };
         }
-
-        page = parseInt(nextPage, 10);
+        return {
+          success: false,
+          entries: [],
+          truncated: false,
+          error: `GitLab API error: ${response.status} ${response.statusText}`,
+        };
       }
 
-      return { success: true, entries: allEntries };
+      return { success: true, entries: result.items, truncated: result.truncated };
     } catch (err) {
       return {
         success: false,
         entries: [],
+        truncated: false,
         error: err instanceof Error ? err.message : "Unknown error fetching tree",
       };
     }
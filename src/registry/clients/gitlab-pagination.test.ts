@@ -0,0 +1,95 @@
+import { describe, test, expect } from "vitest";
+import { getNextPageUrl, fetchAllPages } from "./gitlab-pagination";
+import { errorResponse } from "#/test-utils/mocks";
+
+const LIST_URL = "https://gitlab.com/api/v4/projects/1/packages?per_page=2";
+
+function pageResponse(items: number[], headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(items), { status: 200, headers: { "Content-Type": "application/json", ...headers } });
+}
+
+describe("getNextPageUrl", () => {
+  test("follows Link rel=next", () => {
+    const next = "https://gitlab.com/api/v4/projects/1/packages?per_page=2&page=2";
+    const response = pageResponse([], {
+      Link: `<${next}>; rel="next", <https://gitlab.com/api/v4/projects/1/packages?per_page=2&page=1>; rel="first"`,
+    });
+
+    expect(getNextPageUrl(response, LIST_URL)).toBe(next);
+  });
+
+  test("falls back to X-Next-Page", () => {
+    expect(getNextPageUrl(pageResponse([], { "X-Next-Page": "2" }), LIST_URL)).toBe(`${LIST_URL}&page=2`);
+    expect(getNextPageUrl(pageResponse([], { "X-Next-Page": "3" }), `${LIST_URL}&page=2`)).toBe(`${LIST_URL}&page=3`);
+  });
+
+  test("returns null on the last page", () => {
+    expect(getNextPageUrl(pageResponse([], { "X-Next-Page": "" }), LIST_URL)).toBeNull();
+    expect(getNextPageUrl(pageResponse([], { Link: `<${LIST_URL}>; rel="first"` }), LIST_URL)).toBeNull();
+  });
+
+  test("ignores links to another origin", () => {
+    const response = pageResponse([], { Link: '<https://attacker.example.com/steal?page=2>; rel="next"' });
+
+    expect(getNextPageUrl(response, LIST_URL)).toBeNull();
+  });
+});
+
+describe("fetchAllPages", () => {
+  function createPages(pageCount: number) {
+    const requested: string[] = [];
+    const fetchPage = async (url: string) => {
+      requested.push(url);
+      const page = Number(new URL(url).searchParams.get("page") ?? "1");
+      const headers: Record<string, string> = page < pageCount ? { "X-Next-Page": String(page + 1) } : {};
+      return pageResponse([page * 10 + 1, page * 10 + 2], headers);
+    };
+    return { fetchPage, requested };
+  }
+
+  test("collects items from every page", async () => {
+    const { fetchPage, requested } = createPages(3);
+
+    const result = await fetchAllPages<number>(fetchPage, LIST_URL, 10);
+
+    expect(result.items).toEqual([11, 12, 21, 22, 31, 32]);
+    expect(result.truncated).toBe(false);
+    expect(result.pageUrls).toEqual(requested);
+  });
+
+  test("stops at the page cap and reports truncation", async () => {
+    const { fetchPage, requested } = createPages(5);
+
+    const result = await fetchAllPages<number>(fetchPage, LIST_URL, 2);
+
+    expect(result.items).toEqual([11, 12, 21, 22]);
+    expect(result.truncated).toBe(true);
+    expect(requested).toHaveLength(2);
+  });
+
+  test("is not truncated when the last page is exactly the cap", async () => {
+    const { fetchPage } = createPages(2);
+
+    const result = await fetchAllPages<number>(fetchPage, LIST_URL, 2);
+
+    expect(result.truncated).toBe(false);
+  });
+
+  test("returns the failed response", async () => {
+    const result = await fetchAllPages<number>(async () => errorResponse(403, "Forbidden"), LIST_URL, 10);
+
+    expect(result.items).toEqual([]);
+    expect(result.failedResponse?.status).toBe(403);
+  });
+
+  test("keeps items of earlier pages when a later page fails", async () => {
+    let calls = 0;
+    const fetchPage = async () =>
+      calls++ === 0 ? pageResponse([1], { "X-Next-Page": "2" }) : errorResponse(500, "Internal Server Error");
+
+    const result = await fetchAllPages<number>(fetchPage, LIST_URL, 10);
+
+    expect(result.items).toEqual([1]);
+    expect(result.failedResponse?.status).toBe(500);
+  });
+});
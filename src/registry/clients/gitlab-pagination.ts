@@ -0,0 +1,90 @@
+/**
+ * GitLab API pagination
+ *
+ * GitLab list endpoints return one page at a time (20 items unless per_page
+ * is set) and point to the next page with a `Link: <...>; rel="next"` header
+ * and/or `X-Next-Page`. Keyset-paginated endpoints only send `Link`.
+ *
+ * @see https://docs.gitlab.com/ee/api/rest/#pagination
+ */
+
+/** Largest page size GitLab accepts */
+export const GITLAB_PAGE_SIZE = 100;
+
+/** Pages followed per listing unless the registry sets maxPages */
+export const DEFAULT_MAX_PAGES = 50;
+
+/**
+ * Result of following a paginated listing
+ */
+export interface PaginatedResult<T> {
+  items: T[];
+  /** URLs of the pages that were fetched, in order */
+  pageUrls: string[];
+  /** True when the page cap was reached before the last page */
+  truncated: boolean;
+  /** First non-OK response, when a page failed (items holds the pages before it) */
+  failedResponse?: Response;
+}
+
+/**
+ * Get the URL of the next page, or null on the last page
+ *
+ * Prefers the Link header, falls back to X-Next-Page. Links to another origin
+ * are ignored so credentials are never sent elsewhere.
+ */
+export function getNextPageUrl(response: Response, url: string): string | null {
+  const link = response.headers.get("link");
+  if (link) {
+    for (const part of link.split(",")) {
+      const match = part.match(/<([^>]+)>\s*;\s*rel="?next"?/);
+      if (match) {
+        const next = match[1]!;
+        return new URL(next, url).origin === new URL(url).origin ? next : null;
+      }
+    }
+  }
+
+  const nextPage = response.headers.get("x-next-page");
+  if (!nextPage) {
+    return null;
+  }
+
+  return /[?&]page=\d+/.test(url)
+    ? url.replace(/([?&])page=\d+/, `$1page=${nextPage}`)
+    : `${url}${url.includes("?") ? "&" : "?"}page=${nextPage}`;
+}
+
+/**
+ * Fetch a listing page by page, up to maxPages
+ *
+ * @param fetchPage - Performs the request for one page
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (url: string) => Promise<Response>,
+  url: string,
+  maxPages: number
+): Promise<PaginatedResult<T>> {
+  const items: T[] = [];
+  const pageUrls: string[] = [];
+  let nextUrl: string | null = url;
+
+  while (nextUrl) {
+    if (pageUrls.length >= maxPages) {
+      return { items, pageUrls, truncated: true };
+    }
+
+    const response = await fetchPage(nextUrl);
+    pageUrls.push(nextUrl);
+
+    if (!response.ok) {
+      return { items, pageUrls, truncated: false, failedResponse: response };
+    }
+
+    const page: T[] = await response.json();
+    items.push(...page);
+    nextUrl = getNextPageUrl(response, nextUrl);
+  }
+
+  return { items, pageUrls, truncated: false };
+}
@@ -9,6 +9,16 @@ import {
   errorResponse,
 } from "#/test-utils/mocks";
 import type { ResolvedRegistry } from "../registry.types";
+import { MetadataCache } from "#/core";
+
+const SIGNATURE = {
+  algorithm: "ed25519" as const,
+  keyId: "0123456789abcdef",
+  artifactId: "@scope/artifact",
+  version: "1.0.0",
+  integrity: "sha256:00000000000000000000000000000000",
+  signature: "c2lnbmF0dXJl",
+};
 
 describe("GitLabRegistryClient", () => {
   const createClient = (
@@ -197,7 +207,7 @@ describe("GitLabRegistryClient", () => {
       const { client, fs } = createClient(
         { host: "gitlab.com", project: "group/project" },
         new Map([
-          ["https://gitlab.com/api/v4/projects/group%2Fproject/packages?package_type=generic&package_name=artifact", jsonResponse(packages)],
+          ["https://gitlab.com/api/v4/projects/group%2Fproject/packages?package_type=generic&package_name=artifact&order_by=created_at&sort=desc&per_page=100", jsonResponse(packages)],
           ["https://gitlab.com/api/v4/projects/group%2Fproject/packages/generic/artifact/1.0.0/artifact.tar.gz", binaryResponse(tarballData)],
         ])
       );
@@ -211,6 +221,50 @@ describe("GitLabRegistryClient", () => {
       expect(result.version).toBe("1.0.0");
     });
 
+    test("returns the publisher signature from the grekt.sig package file", async () => {
+      const { client } = createClient(
+        { host: "gitlab.com", project: "group/project" },
+        new Map([
+          ["https://gitlab.com/api/v4/projects/group%2Fproject/packages/generic/artifact/1.0.0/artifact.tar.gz", binaryResponse(Buffer.from("fake-tarball"))],
+          ["https://gitlab.com/api/v4/projects/group%2Fproject/packages/generic/artifact/1.0.0/grekt.sig", jsonResponse(SIGNATURE)],
+        ])
+      );
+
+      const result = await client.download("@scope/artifact", { version: "1.0.0", targetDir: "/target" });
+
+      expect(result.success).toBe(true);
+      expect(result.signature).toEqual(SIGNATURE);
+    });
+
+    test("returns the deprecation message from deprecations.json", async () => {
+      const { client } = createClient(
+        { host: "gitlab.com", project: "group/project" },
+        new Map([
+          ["https://gitlab.com/api/v4/projects/group%2Fproject/packages/generic/artifact/1.0.0/artifact.tar.gz", binaryResponse(Buffer.from("fake-tarball"))],
+          ["https://gitlab.com/api/v4/projects/group%2Fproject/packages/generic/artifact/deprecations/deprecations.json", jsonResponse({ "1.0.0": "Use 2.x" })],
+        ])
+      );
+
+      const result = await client.download("@scope/artifact", { version: "1.0.0", targetDir: "/target" });
+
+      expect(result.success).toBe(true);
+      expect(result.deprecationMessage).toBe("Use 2.x");
+    });
+
+    test("returns no signature for unsigned versions", async () => {
+      const { client } = createClient(
+        { host: "gitlab.com", project: "group/project" },
+        new Map([
+          ["https://gitlab.com/api/v4/projects/group%2Fproject/packages/generic/artifact/1.0.0/artifact.tar.gz", binaryResponse(Buffer.from("fake-tarball"))],
+        ])
+      );
+
+      const result = await client.download("@scope/artifact", { version: "1.0.0", targetDir: "/target" });
+
+      expect(result.success).toBe(true);
+      expect(result.signature).toBeUndefined();
+    });
+
     test("resolves latest version when not specified", async () => {
       const packages = [
         { id: 2, name: "artifact", version: "2.0.0", package_type: "generic", created_at: "2024-02-01" },
@@ -221,7 +275,7 @@ describe("GitLabRegistryClient", () => {
       const { client, fs } = createClient(
         { host: "gitlab.com", project: "group/project" },
         new Map([
-          ["https://gitlab.com/api/v4/projects/group%2Fproject/packages?package_type=generic&package_name=artifact", jsonResponse(packages)],
+          ["https://gitlab.com/api/v4/projects/group%2Fproject/packages?package_type=generic&package_name=artifact&order_by=created_at&sort=desc&per_page=100", jsonResponse(packages)],
           ["https://gitlab.com/api/v4/projects/group%2Fproject/packages/generic/artifact/2.0.0/artifact.tar.gz", binaryResponse(tarballData)],
         ])
       );
@@ -238,7 +292,7 @@ describe("GitLabRegistryClient", () => {
       const { client } = createClient(
         { host: "gitlab.com", project: "group/project" },
         new Map([
-          ["https://gitlab.com/api/v4/projects/group%2Fproject/packages?package_type=generic&package_name=missing", jsonResponse([])],
+          ["https://gitlab.com/api/v4/projects/group%2Fproject/packages?package_type=generic&package_name=missing&order_by=created_at&sort=desc&per_page=100", jsonResponse([])],
         ])
       );
 
@@ -246,6 +300,7 @@ describe("GitLabRegistryClient", () => {
 
       expect(result.success).toBe(false);
       expect(result.error).toContain("No versions found");
+      expect(result.failureReason).toBe("not_found");
     });
 
     test("uses correct API URL format with encoded project path", async () => {
@@ -258,7 +313,8 @@ describe("GitLabRegistryClient", () => {
       const http = createMockHttpClient();
       http.fetch = async (url: string) => {
         if (url.includes("/packages/generic/")) {
-          downloadUrl = url;
+          // First package file request is the tarball (grekt.sig follows)
+          downloadUrl ||= url;
           return binaryResponse(tarballData);
         }
         if (url.includes("/packages?")) {
@@ -294,7 +350,7 @@ describe("GitLabRegistryClient", () => {
       const { client, fs } = createClient(
         { host: "gitlab.com", project: "group/project" },
         new Map([
-          ["https://gitlab.com/api/v4/projects/group%2Fproject/packages?package_type=generic&package_name=artifact", jsonResponse(packages)],
+          ["https://gitlab.com/api/v4/projects/group%2Fproject/packages?package_type=generic&package_name=artifact&order_by=created_at&sort=desc&per_page=100", jsonResponse(packages)],
           ["https://gitlab.com/api/v4/projects/group%2Fproject/packages/generic/artifact/1.0.0/artifact.tar.gz", binaryResponse(tarballData)],
         ])
       );
@@ -304,7 +360,7 @@ describe("GitLabRegistryClient", () => {
       const result = await client.download("@scope/artifact", { version: "1.0.0", targetDir: "/target" });
 
       expect(result.success).toBe(true);
-      expect(result.integrity).toMatch(/^sha256:/);
+      expect(result.integrity).toMatch(/^sha256-/);
       expect(result.fileHashes).toBeDefined();
     });
   });
@@ -376,6 +432,37 @@ describe("GitLabRegistryClient", () => {
       expect(uploadedUrl).toContain("group%2Fproject");
       expect(uploadedUrl).toContain("/packages/generic/artifact/1.0.0/artifact.tar.gz");
     });
+
+    test("uploads the publisher signature next to the tarball", async () => {
+      const uploads = new Map<string, string>();
+
+      const http = createMockHttpClient();
+      http.fetch = async (url: string, options?: RequestInit) => {
+        if (options?.method === "PUT") {
+          uploads.set(url.slice(url.lastIndexOf("/") + 1), String(options.body));
+          return jsonResponse({ message: "created" }, 201);
+        }
+        return errorResponse(404, "Not Found");
+      };
+
+      const client = new GitLabRegistryClient(
+        { type: "gitlab", host: "gitlab.com", project: "group/project", token: "my-token" },
+        http,
+        createMockFileSystem({ "/path/to/tarball.tar.gz": Buffer.from("tarball content") }),
+        createMockTarOperations()
+      );
+
+      const result = await client.publish({
+        artifactId: "@scope/artifact",
+        version: "1.0.0",
+        tarballPath: "/path/to/tarball.tar.gz",
+        signature: SIGNATURE,
+      });
+
+      expect(result.success).toBe(true);
+      expect([...uploads.keys()]).toEqual(["artifact.tar.gz", "grekt.sig"]);
+      expect(JSON.parse(uploads.get("grekt.sig")!)).toEqual(SIGNATURE);
+    });
   });
 
   describe("listVersions", () => {
@@ -391,7 +478,7 @@ describe("GitLabRegistryClient", () => {
       const { client } = createClient(
         { host: "gitlab.com", project: "group/project" },
         new Map([
-          ["https://gitlab.com/api/v4/projects/group%2Fproject/packages?package_type=generic&package_name=artifact", jsonResponse(packages)],
+          ["https://gitlab.com/api/v4/projects/group%2Fproject/packages?package_type=generic&package_name=artifact&order_by=created_at&sort=desc&per_page=100", jsonResponse(packages)],
         ])
       );
 
@@ -401,6 +488,43 @@ describe("GitLabRegistryClient", () => {
       expect(result).toEqual(["10.0.0", "2.0.0", "1.0.0"]);
     });
 
+    test("follows pagination to include old versions", async () => {
+      const packagesUrl = "https://gitlab.com/api/v4/projects/group%2Fproject/packages?package_type=generic&package_name=artifact&order_by=created_at&sort=desc&per_page=100";
+      const page = (version: string) => ({ id: 1, name: "artifact", version, package_type: "generic", created_at: "2024-01-01T00:00:00Z" });
+
+      const { client } = createClient(
+        { host: "gitlab.com", project: "group/project" },
+        new Map([
+          [packagesUrl, new Response(JSON.stringify([page("3.0.0"), page("2.0.0")]), { headers: { "X-Next-Page": "2" } })],
+          [`${packagesUrl}&page=2`, jsonResponse([page("1.0.0")])],
+        ])
+      );
+
+      expect(await client.listVersions("@scope/artifact")).toEqual(["3.0.0", "2.0.0", "1.0.0"]);
+    });
+
+    test("stops at the configured page cap", async () => {
+      const packagesUrl = "https://gitlab.com/api/v4/projects/group%2Fproject/packages?package_type=generic&package_name=artifact&order_by=created_at&sort=desc&per_page=100";
+      const requested: string[] = [];
+
+      const { client, http } = createClient({ host: "gitlab.com", project: "group/project", maxPages: 2 });
+      http.fetch = async (url: string) => {
+        // Listing pages only (yanked.json is read once the listing is done)
+        if (url.startsWith(packagesUrl)) requested.push(url);
+        const pageNumber = Number(new URL(url).searchParams.get("page") ?? "1");
+        const body = [{ id: pageNumber, name: "artifact", version: `${10 - pageNumber}.0.0`, package_type: "generic" }];
+        return new Response(JSON.stringify(body), { headers: { "X-Next-Page": String(pageNumber + 1) } });
+      };
+
+      // A partial list could resolve ranges to the wrong version
+      await expect(client.listVersions("@scope/artifact")).rejects.toThrow("more than 2 pages. Raise maxPages");
+      expect(requested).toEqual([packagesUrl, `${packagesUrl}&page=2`]);
+
+      const info = await client.getArtifactInfo("@scope/artifact");
+      expect(info?.truncated).toBe(true);
+      expect(info?.versions.map((v) => v.version)).toEqual(["9.0.0", "8.0.0"]);
+    });
+
     test("filters out invalid semver versions", async () => {
       const packages = [
         { id: 1, name: "artifact", version: "1.0.0", package_type: "generic", created_at: "2024-01-01T00:00:00Z" },
@@ -411,7 +535,7 @@ describe("GitLabRegistryClient", () => {
       const { client } = createClient(
         { host: "gitlab.com", project: "group/project" },
         new Map([
-          ["https://gitlab.com/api/v4/projects/group%2Fproject/packages?package_type=generic&package_name=artifact", jsonResponse(packages)],
+          ["https://gitlab.com/api/v4/projects/group%2Fproject/packages?package_type=generic&package_name=artifact&order_by=created_at&sort=desc&per_page=100", jsonResponse(packages)],
         ])
       );
 
@@ -424,7 +548,7 @@ describe("GitLabRegistryClient", () => {
       const { client } = createClient(
         { host: "gitlab.com", project: "group/project" },
         new Map([
-          ["https://gitlab.com/api/v4/projects/group%2Fproject/packages?package_type=generic&package_name=missing", jsonResponse([])],
+          ["https://gitlab.com/api/v4/projects/group%2Fproject/packages?package_type=generic&package_name=missing&order_by=created_at&sort=desc&per_page=100", jsonResponse([])],
         ])
       );
 
@@ -447,7 +571,7 @@ describe("GitLabRegistryClient", () => {
       const { client } = createClient(
         { host: "gitlab.com", project: "group/project" },
         new Map([
-          ["https://gitlab.com/api/v4/projects/group%2Fproject/packages?package_type=generic&package_name=artifact", jsonResponse(packages)],
+          ["https://gitlab.com/api/v4/projects/group%2Fproject/packages?package_type=generic&package_name=artifact&order_by=created_at&sort=desc&per_page=100", jsonResponse(packages)],
         ])
       );
 
@@ -460,7 +584,7 @@ describe("GitLabRegistryClient", () => {
       const { client } = createClient(
         { host: "gitlab.com", project: "group/project" },
         new Map([
-          ["https://gitlab.com/api/v4/projects/group%2Fproject/packages?package_type=generic&package_name=missing", jsonResponse([])],
+          ["https://gitlab.com/api/v4/projects/group%2Fproject/packages?package_type=generic&package_name=missing&order_by=created_at&sort=desc&per_page=100", jsonResponse([])],
         ])
       );
 
@@ -468,6 +592,220 @@ describe("GitLabRegistryClient", () => {
 
       expect(result).toBeNull();
     });
+
+    test("follows the latest dist-tag", async () => {
+      const packages = [
+        { id: 1, name: "artifact", version: "1.0.0", package_type: "generic", created_at: "2024-01-01T00:00:00Z" },
+        { id: 2, name: "artifact", version: "2.0.0", package_type: "generic", created_at: "2024-02-01T00:00:00Z" },
+      ];
+
+      const { client } = createClient(
+        { host: "gitlab.com", project: "group/project" },
+        new Map([
+          ["https://gitlab.com/api/v4/projects/group%2Fproject/packages?package_type=generic&package_name=artifact&order_by=created_at&sort=desc&per_page=100", jsonResponse(packages)],
+          ["https://gitlab.com/api/v4/projects/group%2Fproject/packages/generic/artifact/dist-tags/dist-tags.json", jsonResponse({ latest: "1.0.0" })],
+        ])
+      );
+
+      expect(await client.getLatestVersion("@scope/artifact")).toBe("1.0.0");
+    });
+  });
+
+  describe("deprecation", () => {
+    const DEPRECATIONS_URL = "https://gitlab.com/api/v4/projects/group%2Fproject/packages/generic/artifact/deprecations/deprecations.json";
+
+    test("deprecate merges the message into deprecations.json", async () => {
+      const uploads: Array<{ url: string; body: unknown }> = [];
+      const { client, http } = createClient({ token: "glpat-xxxx" });
+      http.fetch = async (url: string, init?: RequestInit) => {
+        if (init?.method === "PUT") {
+          uploads.push({ url, body: JSON.parse(String(init.body)) });
+          return jsonResponse({}, 201);
+        }
+        if (url === DEPRECATIONS_URL) {
+          return jsonResponse({ "1.0.0": "Use 2.x" });
+        }
+        // versionExists HEAD on the tarball
+        return new Response(null, { status: 200 });
+      };
+
+      await client.deprecate("@scope/artifact", { version: "1.1.0", message: "Broken build" });
+
+      expect(uploads).toEqual([{ url: DEPRECATIONS_URL, body: { "1.0.0": "Use 2.x", "1.1.0": "Broken build" } }]);
+    });
+
+    test("deprecate throws for versions that were not published", async () => {
+      const { client } = createClient({ token: "glpat-xxxx" });
+
+      await expect(
+        client.deprecate("@scope/artifact", { version: "9.9.9", message: "Broken" })
+      ).rejects.toThrow("Version 9.9.9 not found for @scope/artifact");
+    });
+
+    test("undeprecate removes the version from deprecations.json", async () => {
+      const uploads: unknown[] = [];
+      const { client, http } = createClient({ token: "glpat-xxxx" });
+      http.fetch = async (url: string, init?: RequestInit) => {
+        if (init?.method === "PUT") {
+          uploads.push(JSON.parse(String(init.body)));
+          return jsonResponse({}, 201);
+        }
+        return jsonResponse({ "1.0.0": "Use 2.x", "1.1.0": "Broken build" });
+      };
+
+      await client.undeprecate("@scope/artifact", "1.1.0");
+
+      expect(uploads).toEqual([{ "1.0.0": "Use 2.x" }]);
+    });
+
+    test("throws without a token", async () => {
+      const { client } = createClient(
+        { token: undefined },
+        new Map([[DEPRECATIONS_URL, jsonResponse({ "1.0.0": "Use 2.x" })]])
+      );
+
+      await expect(client.undeprecate("@scope/artifact", "1.0.0")).rejects.toThrow("requires authentication");
+    });
+
+    test("getArtifactInfo reports deprecated versions", async () => {
+      const packages = [
+        { id: 1, name: "artifact", version: "1.0.0", package_type: "generic", created_at: "2024-01-01T00:00:00Z" },
+        { id: 2, name: "artifact", version: "2.0.0", package_type: "generic", created_at: "2024-02-01T00:00:00Z" },
+      ];
+
+      const { client } = createClient(
+        {},
+        new Map([
+          ["https://gitlab.com/api/v4/projects/group%2Fproject/packages?package_type=generic&package_name=artifact&order_by=created_at&sort=desc&per_page=100", jsonResponse(packages)],
+          [DEPRECATIONS_URL, jsonResponse({ "1.0.0": "Use 2.x" })],
+        ])
+      );
+
+      const info = await client.getArtifactInfo("@scope/artifact");
+
+      expect(info?.versions.map((v) => [v.version, v.deprecated])).toEqual([
+        ["2.0.0", undefined],
+        ["1.0.0", "Use 2.x"],
+      ]);
+    });
+  });
+
+  describe("dist-tags", () => {
+    const DIST_TAGS_URL = "https://gitlab.com/api/v4/projects/group%2Fproject/packages/generic/artifact/dist-tags/dist-tags.json";
+
+    test("setDistTag merges the tag into dist-tags.json", async () => {
+      const uploads: Array<{ url: string; body: unknown }> = [];
+      const { client, http } = createClient({ token: "glpat-xxxx" });
+      http.fetch = async (url: string, init?: RequestInit) => {
+        if (init?.method === "PUT") {
+          uploads.push({ url, body: JSON.parse(String(init.body)) });
+          return jsonResponse({}, 201);
+        }
+        if (url === DIST_TAGS_URL) {
+          return jsonResponse({ latest: "1.0.0" });
+        }
+        // versionExists HEAD on the tarball
+        return new Response(null, { status: 200 });
+      };
+
+      const result = await client.setDistTag("@scope/artifact", "next", "2.0.0-beta.1");
+
+      expect(result).toEqual({ success: true });
+      expect(uploads).toEqual([{ url: DIST_TAGS_URL, body: { latest: "1.0.0", next: "2.0.0-beta.1" } }]);
+    });
+
+    test("setDistTag rejects versions that were not published", async () => {
+      const { client } = createClient({ token: "glpat-xxxx" });
+
+      const result = await client.setDistTag("@scope/artifact", "next", "9.9.9");
+
+      expect(result.success).toBe(false);
+    });
+
+    test("removeDistTag reports tags that are not set", async () => {
+      const { client } = createClient(
+        { token: "glpat-xxxx" },
+        new Map([[DIST_TAGS_URL, jsonResponse({ latest: "1.0.0" })]])
+      );
+
+      const result = await client.removeDistTag("@scope/artifact", "beta");
+
+      expect(result).toEqual({ success: false, error: "Dist-tag beta is not set for @scope/artifact" });
+    });
+  });
+
+  describe("yank and unpublish", () => {
+    const PACKAGES_URL = "https://gitlab.com/api/v4/projects/group%2Fproject/packages?package_type=generic&package_name=artifact&order_by=created_at&sort=desc&per_page=100";
+    const YANKED_URL = "https://gitlab.com/api/v4/projects/group%2Fproject/packages/generic/artifact/yanked/yanked.json";
+
+    test("listVersions leaves out versions listed in yanked.json", async () => {
+      const packages = [
+        { id: 1, name: "artifact", version: "1.0.0", package_type: "generic", created_at: "2024-01-01T00:00:00Z" },
+        { id: 2, name: "artifact", version: "1.1.0", package_type: "generic", created_at: "2024-02-01T00:00:00Z" },
+      ];
+      const { client } = createClient(
+        {},
+        new Map([
+          [PACKAGES_URL, jsonResponse(packages)],
+          [YANKED_URL, jsonResponse(["1.1.0"])],
+        ])
+      );
+
+      expect(await client.listVersions("@scope/artifact")).toEqual(["1.0.0"]);
+    });
+
+    test("yank adds the version to yanked.json", async () => {
+      const uploads: Array<{ url: string; body: unknown }> = [];
+      const { client, http } = createClient({ token: "glpat-xxxx" });
+      http.fetch = async (url: string, init?: RequestInit) => {
+        if (init?.method === "PUT") {
+          uploads.push({ url, body: JSON.parse(String(init.body)) });
+          return jsonResponse({}, 201);
+        }
+        if (url === YANKED_URL) {
+          return jsonResponse(["1.0.0"]);
+        }
+        // versionExists HEAD on the tarball
+        return new Response(null, { status: 200 });
+      };
+
+      const result = await client.yank("@scope/artifact", "1.1.0");
+
+      expect(result).toEqual({ success: true });
+      expect(uploads).toEqual([{ url: YANKED_URL, body: ["1.0.0", "1.1.0"] }]);
+    });
+
+    test("unpublish deletes a recently published package", async () => {
+      const packages = [
+        { id: 7, name: "artifact", version: "1.0.0", package_type: "generic", created_at: new Date().toISOString() },
+      ];
+      const deletes: string[] = [];
+      const { client, http } = createClient({ token: "glpat-xxxx" });
+      http.fetch = async (url: string, init?: RequestInit) => {
+        if (init?.method === "DELETE") {
+          deletes.push(url);
+          return new Response(null, { status: 204 });
+        }
+        return url === PACKAGES_URL ? jsonResponse(packages) : new Response(null, { status: 404 });
+      };
+
+      const result = await client.unpublish("@scope/artifact", { version: "1.0.0" });
+
+      expect(result).toEqual({ success: true });
+      expect(deletes).toEqual(["https://gitlab.com/api/v4/projects/group%2Fproject/packages/7"]);
+    });
+
+    test("unpublish refuses packages published outside the window", async () => {
+      const packages = [
+        { id: 7, name: "artifact", version: "1.0.0", package_type: "generic", created_at: "2024-01-01T00:00:00Z" },
+      ];
+      const { client } = createClient({ token: "glpat-xxxx" }, new Map([[PACKAGES_URL, jsonResponse(packages)]]));
+
+      const result = await client.unpublish("@scope/artifact", { version: "1.0.0" });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("published more than 72 hours ago");
+    });
   });
 
   describe("versionExists", () => {
@@ -538,7 +876,7 @@ describe("GitLabRegistryClient", () => {
       const { client } = createClient(
         { host: "gitlab.com", project: "group/project" },
         new Map([
-          ["https://gitlab.com/api/v4/projects/group%2Fproject/packages?package_type=generic&package_name=missing", jsonResponse([])],
+          ["https://gitlab.com/api/v4/projects/group%2Fproject/packages?package_type=generic&package_name=missing&order_by=created_at&sort=desc&per_page=100", jsonResponse([])],
         ])
       );
 
@@ -557,7 +895,7 @@ describe("GitLabRegistryClient", () => {
       const { client } = createClient(
         { host: "gitlab.com", project: "group/project" },
         new Map([
-          ["https://gitlab.com/api/v4/projects/group%2Fproject/packages?package_type=generic&package_name=artifact", jsonResponse(packages)],
+          ["https://gitlab.com/api/v4/projects/group%2Fproject/packages?package_type=generic&package_name=artifact&order_by=created_at&sort=desc&per_page=100", jsonResponse(packages)],
         ])
       );
 
@@ -580,7 +918,7 @@ describe("GitLabRegistryClient", () => {
       const { client } = createClient(
         { host: "gitlab.com", project: "group/project" },
         new Map([
-          ["https://gitlab.com/api/v4/projects/group%2Fproject/packages?package_type=generic&package_name=artifact", jsonResponse(packages)],
+          ["https://gitlab.com/api/v4/projects/group%2Fproject/packages?package_type=generic&package_name=artifact&order_by=created_at&sort=desc&per_page=100", jsonResponse(packages)],
         ])
       );
 
@@ -588,6 +926,31 @@ describe("GitLabRegistryClient", () => {
 
       expect(result!.versions[0].publishedAt).toBe("2024-01-15T10:30:00Z");
     });
+
+    test("reports the version latest installs: the latest dist-tag, never a prerelease", async () => {
+      const packages = [
+        { id: 1, name: "artifact", version: "1.0.0", package_type: "generic", created_at: "2024-01-01T00:00:00Z" },
+        { id: 2, name: "artifact", version: "1.1.0", package_type: "generic", created_at: "2024-02-01T00:00:00Z" },
+        { id: 3, name: "artifact", version: "2.0.0-beta.1", package_type: "generic", created_at: "2024-03-01T00:00:00Z" },
+      ];
+      const packagesUrl = "https://gitlab.com/api/v4/projects/group%2Fproject/packages?package_type=generic&package_name=artifact&order_by=created_at&sort=desc&per_page=100";
+      const distTagsUrl = "https://gitlab.com/api/v4/projects/group%2Fproject/packages/generic/artifact/dist-tags/dist-tags.json";
+
+      const untagged = createClient(
+        { host: "gitlab.com", project: "group/project" },
+        new Map([[packagesUrl, jsonResponse(packages)]])
+      );
+      expect((await untagged.client.getArtifactInfo("@scope/artifact"))!.latestVersion).toBe("1.1.0");
+
+      const tagged = createClient(
+        { host: "gitlab.com", project: "group/project" },
+        new Map([
+          [packagesUrl, jsonResponse(packages)],
+          [distTagsUrl, jsonResponse({ latest: "1.0.0" })],
+        ])
+      );
+      expect((await tagged.client.getArtifactInfo("@scope/artifact"))!.latestVersion).toBe("1.0.0");
+    });
   });
 
   describe("authentication headers", () => {
@@ -802,4 +1165,39 @@ describe("GitLabRegistryClient", () => {
       expect(url.searchParams.get("package_name")).toBe("utils");
     });
   });
+
+  describe("metadata cache", () => {
+    test("reuses package list and refreshes it after publish", async () => {
+      const packagesUrl = "https://gitlab.com/api/v4/projects/group%2Fproject/packages?package_type=generic&package_name=artifact&order_by=created_at&sort=desc&per_page=100";
+      const published = ["1.0.0"];
+      let listRequests = 0;
+
+      const http = createMockHttpClient();
+      http.fetch = async (url: string, options?: RequestInit) => {
+        if (url === packagesUrl) {
+          listRequests++;
+          return jsonResponse(published.map((version, id) => ({ id, name: "artifact", version, package_type: "generic" })));
+        }
+        if (options?.method === "HEAD") return errorResponse(404, "Not Found");
+        if (options?.method === "PUT") {
+          published.push("1.1.0");
+          return jsonResponse({ message: "201 Created" }, 201);
+        }
+        return errorResponse(404, "Not Found");
+      };
+
+      const registry: ResolvedRegistry = { type: "gitlab", host: "gitlab.com", project: "group/project", token: "my-token" };
+      const fs = createMockFileSystem({ "/tmp/artifact.tar.gz": "tarball" });
+      const client = new GitLabRegistryClient(registry, http, fs, createMockTarOperations(), new MetadataCache());
+
+      expect(await client.listVersions("@scope/artifact")).toEqual(["1.0.0"]);
+      expect(await client.getLatestVersion("@scope/artifact")).toBe("1.0.0");
+      expect(listRequests).toBe(1);
+
+      await client.publish({ artifactId: "@scope/artifact", version: "1.1.0", tarballPath: "/tmp/artifact.tar.gz" });
+
+      expect(await client.listVersions("@scope/artifact")).toEqual(["1.1.0", "1.0.0"]);
+      expect(listRequests).toBe(2);
+    });
+  });
 });
@@ -10,17 +10,52 @@
  * @see https://docs.gitlab.com/ee/user/packages/generic_packages/
  */
 
-import { validateTarballContents, generateSecureTempPath, type FileSystem, type HttpClient, type TarOperations } from "#/core";
+import {
+  validateTarballContents,
+  generateSecureTempPath,
+  isNetworkError,
+  type FileSystem,
+  type HttpClient,
+  type MetadataCache,
+  type TarOperations,
+} from "#/core";
 import type {
   RegistryClient,
   ResolvedRegistry,
+  ArtifactDownloadOptions,
   DownloadResult,
   PublishResult,
+  ArtifactPublishOptions,
+  DistTagResult,
+  DeprecateOptions,
+  DeprecationOperations,
   RegistryArtifactInfo,
   VersionInfo,
+  YankResult,
+  UnpublishOptions,
+  UnpublishResult,
 } from "../registry.types";
 import { hashDirectory, calculateIntegrity } from "#/artifact";
-import { sortVersionsDesc, getHighestVersion } from "#/version";
+import { sortVersionsDesc, resolveVersionSpec, LATEST_TAG } from "#/version";
+import { DistTagsSchema, DeprecationsSchema, YankedVersionsSchema, type DistTags, type Deprecations } from "#/schemas";
+import { parseArtifactSignature } from "#/security/signing";
+import { validateDistTagChange } from "../dist-tags";
+import { checkUnpublishAllowed } from "../unpublish";
+import { fetchAllPages, GITLAB_PAGE_SIZE, DEFAULT_MAX_PAGES } from "./gitlab-pagination";
+
+const TARBALL_FILENAME = "artifact.tar.gz";
+// Publisher signature, uploaded as a second file of the same package version
+const SIGNATURE_FILENAME = "grekt.sig";
+// Dist-tags live in a package version that is not semver, so listings skip it.
+// Each update uploads the file again: GitLab serves the most recent upload of a file name.
+const DIST_TAGS_VERSION = "dist-tags";
+const DIST_TAGS_FILENAME = "dist-tags.json";
+// Deprecation messages of all versions (version -> message), stored the same way
+const DEPRECATIONS_VERSION = "deprecations";
+const DEPRECATIONS_FILENAME = "deprecations.json";
+// Yanked versions (JSON array), stored the same way
+const YANKED_VERSION = "yanked";
+const YANKED_FILENAME = "yanked.json";
 
 interface GitLabPackage {
   id: number;
@@ -30,7 +65,7 @@ interface GitLabPackage {
   created_at: string;
 }
 
-export class GitLabRegistryClient implements RegistryClient {
+export class GitLabRegistryClient implements RegistryClient, DeprecationOperations {
   private host: string;
   private encodedProject: string;
   private token?: string;
@@ -38,12 +73,17 @@ export class GitLabRegistryClient implements RegistryClient {
   private http: HttpClient;
   private fs: FileSystem;
   private tar: TarOperations;
+  private metadataCache?: MetadataCache;
+  private maxPages: number;
+  /** Page URLs of the last listing per artifact, invalidated together after publish */
+  private packagePageUrls = new Map<string, string[]>();
 
   constructor(
     registry: ResolvedRegistry,
     http: HttpClient,
     fs: FileSystem,
-    tar: TarOperations
+    tar: TarOperations,
+    metadataCache?: MetadataCache
   ) {
     if (!registry.project) {
       throw new Error("GitLab registry requires 'project' field in config");
@@ -58,6 +98,8 @@ export class GitLabRegistryClient implements RegistryClient {
     this.http = http;
     this.fs = fs;
     this.tar = tar;
+    this.metadataCache = metadataCache;
+    this.maxPages = registry.maxPages ?? DEFAULT_MAX_PAGES;
   }
 
   /**
@@ -94,19 +136,61 @@ export class GitLabRegistryClient implements RegistryClient {
   }
 
   /**
-   * List all packages matching the artifact name
+   * GitLab API: /projects/:id_or_path/packages/generic/:package_name/:package_version/:file_name
    */
-  private async listPackages(artifactId: string): Promise<{ data: GitLabPackage[]; error?: string }> {
+  private getPackageFileUrl(artifactId: string, version: string, fileName: string): string {
+    const encodedPackageName = encodeURIComponent(this.getPackageName(artifactId));
+    return `https://${this.host}/api/v4/projects/${this.encodedProject}/packages/generic/${encodedPackageName}/${version}/${fileName}`;
+  }
+
+  /**
+   * Fetch the publisher signature of a version. Unsigned versions have no signature file.
+   */
+  private async fetchSignature(artifactId: string, version: string): Promise<DownloadResult["signature"]> {
     try {
-      const packageName = this.getPackageName(artifactId);
-      const encodedPackageName = encodeURIComponent(packageName);
+      const response = await this.http.fetch(this.getPackageFileUrl(artifactId, version, SIGNATURE_FILENAME), {
+        headers: this.getHeaders(),
+        redirect: "follow",
+      });
+      return response.ok ? parseArtifactSignature(await response.text()) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
 
-      // GitLab API: GET /projects/:id_or_path/packages?package_type=generic&package_name=:name
-      const url = `https://${this.host}/api/v4/projects/${this.encodedProject}/packages?package_type=generic&package_name=${encodedPackageName}`;
+  /**
+   * GitLab API: GET /projects/:id_or_path/packages?package_type=generic&package_name=:name
+   *
+   * Newest first, so hitting the page cap drops the oldest versions rather than the latest.
+   */
+  private getPackagesUrl(artifactId: string): string {
+    const encodedPackageName = encodeURIComponent(this.getPackageName(artifactId));
+    return (
+      `https://${this.host}/api/v4/projects/${this.encodedProject}/packages?package_type=generic&package_name=${encodedPackageName}` +
+      `&order_by=created_at&sort=desc&per_page=${GITLAB_PAGE_SIZE}`
+    );
+  }
 
-      const response = await this.http.fetch(url, { headers: this.getHeaders() });
+  /**
+   * List all packages matching the artifact name, following pagination up to the page cap
+   * (each page revalidated through the metadata cache when set).
+   * Hitting the cap keeps the pages read so far, with truncated and an error set.
+   */
+  private async listPackages(
+    artifactId: string
+  ): Promise<{ data: GitLabPackage[]; error?: string; truncated?: boolean }> {
+    try {
+      const init = { headers: this.getHeaders() };
+      const fetchPage = (url: string) =>
+        this.metadataCache
+          ? this.metadataCache.fetch((u, i) => this.http.fetch(u, i), url, init)
+          : this.http.fetch(url, init);
 
-      if (!response.ok) {
+      const result = await fetchAllPages<GitLabPackage>(fetchPage, this.getPackagesUrl(artifactId), this.maxPages);
+      this.packagePageUrls.set(artifactId, result.pageUrls);
+
+      const response = result.failedResponse;
+      if (response) {
         if (response.status === 404) return { data: [] };
         return {
           data: [],
@@ -114,21 +198,24 @@ export class GitLabRegistryClient implements RegistryClient {
         };
       }
 
-      return { data: await response.json() };
+      if (result.truncated) {
+        return {
+          data: result.items,
+          truncated: true,
+          error: `Package list for ${artifactId} is incomplete: more than ${this.maxPages} pages. Raise maxPages for this registry in .grekt/config.yaml`,
+        };
+      }
+
+      return { data: result.items };
     } catch (err) {
       const message = err instanceof Error ? err.message : "Unknown error";
       return { data: [], error: `Failed to list packages: ${message}` };
     }
   }
 
-  async download(
-    artifactId: string,
-    options: { version?: string; targetDir: string }
-  ): Promise<DownloadResult> {
+  async download(artifactId: string, options: ArtifactDownloadOptions): Promise<DownloadResult> {
     try {
       const { version, targetDir } = options;
-      const packageName = this.getPackageName(artifactId);
-      const encodedPackageName = encodeURIComponent(packageName);
 
       // If no version specified, get the latest
       let resolvedVersion = version;
@@ -137,16 +224,14 @@ export class GitLabRegistryClient implements RegistryClient {
         if (!latest) {
           return {
             success: false,
-            error: `No versions found for artifact: ${artifactId}`
+            error: `No versions found for artifact: ${artifactId}`,
+            failureReason: "not_found",
           };
         }
         resolvedVersion = latest;
       }
 
-      // Download URL for generic package file
-      // GET /projects/:id_or_path/packages/generic/:package_name/:package_version/:file_name
-      const fileName = "artifact.tar.gz";
-      const url = `https://${this.host}/api/v4/projects/${this.encodedProject}/packages/generic/${encodedPackageName}/${resolvedVersion}/${fileName}`;
+      const url = this.getPackageFileUrl(artifactId, resolvedVersion, TARBALL_FILENAME);
 
       const response = await this.http.fetch(url, {
         headers: this.getHeaders(),
@@ -156,7 +241,8 @@ export class GitLabRegistryClient implements RegistryClient {
       if (!response.ok) {
         return {
           success: false,
-          error: `Failed to download tarball: ${response.status} ${response.statusText}`
+          error: `Failed to download tarball: ${response.status} ${response.statusText}`,
+          failureReason: response.status === 404 ? "not_found" : undefined,
         };
       }
 
@@ -190,8 +276,8 @@ export class GitLabRegistryClient implements RegistryClient {
       }
 
       // Calculate integrity after extraction
-      const fileHashes = hashDirectory(this.fs, targetDir);
-      const integrity = calculateIntegrity(fileHashes);
+      const fileHashes = hashDirectory(this.fs, targetDir, options.hashAlgorithm);
+      const integrity = calculateIntegrity(fileHashes, options.hashAlgorithm);
 
       return {
         success: true,
@@ -199,17 +285,21 @@ export class GitLabRegistryClient implements RegistryClient {
         resolved: url,
         integrity,
         fileHashes,
+        deprecationMessage: (await this.getDeprecations(artifactId))[resolvedVersion],
+        signature: await this.fetchSignature(artifactId, resolvedVersion),
       };
     } catch (err) {
       const message = err instanceof Error ? err.message : "Unknown error";
-      return { success: false, error: `Download failed: ${message}` };
+      return {
+        success: false,
+        error: `Download failed: ${message}`,
+        failureReason: isNetworkError(err) ? "network" : undefined,
+      };
     }
   }
 
-  async publish(
-    options: { artifactId: string; version: string; tarballPath: string }
-  ): Promise<PublishResult> {
-    const { artifactId, version, tarballPath } = options;
+  async publish(options: ArtifactPublishOptions): Promise<PublishResult> {
+    const { artifactId, version, tarballPath, signature } = options;
 
     if (!this.token) {
       return {
@@ -228,13 +318,7 @@ export class GitLabRegistryClient implements RegistryClient {
     }
 
     try {
-      const packageName = this.getPackageName(artifactId);
-      const encodedPackageName = encodeURIComponent(packageName);
-      const fileName = "artifact.tar.gz";
-
-      // Upload URL for generic package file
-      // PUT /projects/:id_or_path/packages/generic/:package_name/:package_version/:file_name
-      const url = `https://${this.host}/api/v4/projects/${this.encodedProject}/packages/generic/${encodedPackageName}/${version}/${fileName}`;
+      const url = this.getPackageFileUrl(artifactId, version, TARBALL_FILENAME);
 
       const body = this.fs.readFileBinary(tarballPath);
 
@@ -255,6 +339,29 @@ export class GitLabRegistryClient implements RegistryClient {
         };
       }
 
+      // The new package shifts every page of the listing, not only the first
+      for (const url of this.packagePageUrls.get(artifactId) ?? [this.getPackagesUrl(artifactId)]) {
+        this.metadataCache?.invalidate(url);
+      }
+
+      if (signature) {
+        const signatureResponse = await this.http.fetch(this.getPackageFileUrl(artifactId, version, SIGNATURE_FILENAME), {
+          method: "PUT",
+          headers: {
+            ...this.getHeaders(),
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(signature),
+        });
+
+        if (!signatureResponse.ok) {
+          return {
+            success: false,
+            error: `Signature upload failed: ${signatureResponse.status} ${signatureResponse.statusText} (${artifactId}@${version} was published unsigned)`,
+          };
+        }
+      }
+
       return {
         success: true,
         url,
@@ -268,20 +375,15 @@ export class GitLabRegistryClient implements RegistryClient {
   }
 
   async getLatestVersion(artifactId: string): Promise<string | null> {
-    const { data: packages } = await this.listPackages(artifactId);
-    const versions = packages.map(p => p.version);
+    const versions = await this.listVersions(artifactId);
 
-    // Return highest semver version (not most recently published)
-    return getHighestVersion(versions);
+    // The latest dist-tag, else the highest stable semver version (not most recently published)
+    return resolveVersionSpec(LATEST_TAG, versions, await this.getDistTags(artifactId));
   }
 
   async versionExists(artifactId: string, version: string): Promise<boolean> {
     try {
-      const packageName = this.getPackageName(artifactId);
-      const encodedPackageName = encodeURIComponent(packageName);
-      const fileName = "artifact.tar.gz";
-
-      const url = `https://${this.host}/api/v4/projects/${this.encodedProject}/packages/generic/${encodedPackageName}/${version}/${fileName}`;
+      const url = this.getPackageFileUrl(artifactId, version, TARBALL_FILENAME);
 
       const response = await this.http.fetch(url, {
         method: "HEAD",
@@ -294,22 +396,35 @@ export class GitLabRegistryClient implements RegistryClient {
     }
   }
 
+  /**
+   * Throws when the package list hit the page cap: a partial list could
+   * resolve ranges and latest to the wrong version
+   */
   async listVersions(artifactId: string): Promise<string[]> {
-    const { data: packages } = await this.listPackages(artifactId);
-    const versions = packages.map(p => p.version);
+    const { data: packages, error, truncated } = await this.listPackages(artifactId);
+    if (truncated) {
+      throw new Error(error);
+    }
+
+    const yanked = packages.length > 0 ? await this.getYanked(artifactId) : [];
+    const versions = packages.map(p => p.version).filter(v => !yanked.includes(v));
 
     // Sort by semver descending (highest version first)
     return sortVersionsDesc(versions);
   }
 
   async getArtifactInfo(artifactId: string): Promise<RegistryArtifactInfo | null> {
-    const { data: packages } = await this.listPackages(artifactId);
+    const { data: packages, truncated } = await this.listPackages(artifactId);
     if (packages.length === 0) {
       return null;
     }
 
+    const deprecations = await this.getDeprecations(artifactId);
+    const yanked = await this.getYanked(artifactId);
     const versions: VersionInfo[] = packages.map(p => ({
       version: p.version,
+      deprecated: deprecations[p.version],
+      yanked: yanked.includes(p.version) || undefined,
       publishedAt: p.created_at,
     }));
 
@@ -319,12 +434,228 @@ export class GitLabRegistryClient implements RegistryClient {
       versions.find(v => v.version === version)!
     );
 
+    // Same version an install of "latest" gets
+    const installable = sortedVersions.filter(v => !yanked.includes(v));
+    const latestVersion = resolveVersionSpec(LATEST_TAG, installable, await this.getDistTags(artifactId));
+
     return {
       artifactId,
-      latestVersion: sortedVersions[0] ?? "",
+      latestVersion: latestVersion ?? sortedVersions[0] ?? "",
       versions: sortedVersionInfo,
+      truncated: truncated || undefined,
     };
   }
+
+  /**
+   * GitLab API: GET .../packages/generic/:package_name/dist-tags/dist-tags.json
+   */
+  async getDistTags(artifactId: string): Promise<DistTags> {
+    const url = this.getPackageFileUrl(artifactId, DIST_TAGS_VERSION, DIST_TAGS_FILENAME);
+    const result = DistTagsSchema.safeParse(await this.fetchMetadataFile(url));
+    return result.success ? result.data : {};
+  }
+
+  async setDistTag(artifactId: string, tag: string, version: string): Promise<DistTagResult> {
+    const invalid = validateDistTagChange(tag, version);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    if (!(await this.versionExists(artifactId, version))) {
+      return { success: false, error: `Version ${version} not found for ${artifactId}` };
+    }
+
+    const distTags = await this.getDistTags(artifactId);
+    const url = this.getPackageFileUrl(artifactId, DIST_TAGS_VERSION, DIST_TAGS_FILENAME);
+    return this.writeMetadataFile(url, { ...distTags, [tag]: version }, "dist-tags");
+  }
+
+  async removeDistTag(artifactId: string, tag: string): Promise<DistTagResult> {
+    const invalid = validateDistTagChange(tag);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    const { [tag]: removed, ...distTags } = await this.getDistTags(artifactId);
+    if (removed === undefined) {
+      return { success: false, error: `Dist-tag ${tag} is not set for ${artifactId}` };
+    }
+
+    const url = this.getPackageFileUrl(artifactId, DIST_TAGS_VERSION, DIST_TAGS_FILENAME);
+    return this.writeMetadataFile(url, distTags, "dist-tags");
+  }
+
+  /**
+   * GitLab API: GET .../packages/generic/:package_name/deprecations/deprecations.json
+   */
+  private async getDeprecations(artifactId: string): Promise<Deprecations> {
+    const url = this.getPackageFileUrl(artifactId, DEPRECATIONS_VERSION, DEPRECATIONS_FILENAME);
+    const result = DeprecationsSchema.safeParse(await this.fetchMetadataFile(url));
+    return result.success ? result.data : {};
+  }
+
+  async deprecate(artifactId: string, options: DeprecateOptions): Promise<void> {
+    if (!(await this.versionExists(artifactId, options.version))) {
+      throw new Error(`Version ${options.version} not found for ${artifactId}`);
+    }
+
+    const deprecations = await this.getDeprecations(artifactId);
+    await this.writeDeprecations(artifactId, { ...deprecations, [options.version]: options.message });
+  }
+
+  async undeprecate(artifactId: string, version: string): Promise<void> {
+    const { [version]: removed, ...deprecations } = await this.getDeprecations(artifactId);
+    if (removed === undefined) {
+      return;
+    }
+
+    await this.writeDeprecations(artifactId, deprecations);
+  }
+
+  private async writeDeprecations(artifactId: string, deprecations: Deprecations): Promise<void> {
+    const url = this.getPackageFileUrl(artifactId, DEPRECATIONS_VERSION, DEPRECATIONS_FILENAME);
+    const result = await this.writeMetadataFile(url, deprecations, "deprecations");
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+  }
+
+  /**
+   * GitLab API: GET .../packages/generic/:package_name/yanked/yanked.json
+   */
+  private async getYanked(artifactId: string): Promise<string[]> {
+    const url = this.getPackageFileUrl(artifactId, YANKED_VERSION, YANKED_FILENAME);
+    const result = YankedVersionsSchema.safeParse(await this.fetchMetadataFile(url));
+    return result.success ? result.data : [];
+  }
+
+  async yank(artifactId: string, version: string): Promise<YankResult> {
+    return this.setYanked(artifactId, version, true);
+  }
+
+  async unyank(artifactId: string, version: string): Promise<YankResult> {
+    return this.setYanked(artifactId, version, false);
+  }
+
+  private async setYanked(artifactId: string, version: string, yank: boolean): Promise<YankResult> {
+    if (!(await this.versionExists(artifactId, version))) {
+      return { success: false, error: `Version ${version} not found for ${artifactId}` };
+    }
+
+    const yanked = (await this.getYanked(artifactId)).filter(v => v !== version);
+    const url = this.getPackageFileUrl(artifactId, YANKED_VERSION, YANKED_FILENAME);
+    return this.writeMetadataFile(url, yank ? [...yanked, version] : yanked, "yanked versions");
+  }
+
+  /**
+   * GitLab API: DELETE /projects/:id_or_path/packages/:package_id
+   */
+  async unpublish(artifactId: string, options: UnpublishOptions): Promise<UnpublishResult> {
+    const { version } = options;
+
+    if (!this.token) {
+      return {
+        success: false,
+        error: "GitLab registry requires authentication. Set token in .grekt/config.yaml or GITLAB_TOKEN env var.",
+      };
+    }
+
+    const { data: packages, error } = await this.listPackages(artifactId);
+    const pkg = packages.find(p => p.version === version);
+    if (!pkg) {
+      return { success: false, error: error ?? `Version ${version} not found for ${artifactId}` };
+    }
+
+    const blocked = checkUnpublishAllowed(options, {
+      artifactId,
+      publishedAt: pkg.created_at,
+      distTags: await this.getDistTags(artifactId),
+    });
+    if (blocked) {
+      return { success: false, error: blocked };
+    }
+
+    try {
+      const response = await this.http.fetch(
+        `https://${this.host}/api/v4/projects/${this.encodedProject}/packages/${pkg.id}`,
+        { method: "DELETE", headers: this.getHeaders() }
+      );
+
+      if (!response.ok) {
+        return { success: false, error: `Failed to delete package: ${response.status} ${response.statusText}` };
+      }
+
+      for (const url of this.packagePageUrls.get(artifactId) ?? [this.getPackagesUrl(artifactId)]) {
+        this.metadataCache?.invalidate(url);
+      }
+
+      // A version published again later must not start out yanked
+      const yanked = await this.getYanked(artifactId);
+      if (yanked.includes(version)) {
+        const url = this.getPackageFileUrl(artifactId, YANKED_VERSION, YANKED_FILENAME);
+        await this.writeMetadataFile(url, yanked.filter(v => v !== version), "yanked versions");
+      }
+
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : "Unknown error" };
+    }
+  }
+
+  /**
+   * Fetch a JSON metadata file of the package (revalidated through the metadata cache when set)
+   *
+   * @returns Parsed JSON, or undefined when the file is missing or unreadable
+   */
+  private async fetchMetadataFile(url: string): Promise<unknown> {
+    const init = { headers: this.getHeaders(), redirect: "follow" as const };
+
+    try {
+      const response = this.metadataCache
+        ? await this.metadataCache.fetch((u, i) => this.http.fetch(u, i), url, init)
+        : await this.http.fetch(url, init);
+
+      return response.ok ? await response.json() : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * GitLab API: PUT .../packages/generic/:package_name/:metadata_version/:file_name
+   */
+  private async writeMetadataFile(
+    url: string,
+    data: Record<string, string> | string[],
+    label: string
+  ): Promise<{ success: boolean; error?: string }> {
+    if (!this.token) {
+      return {
+        success: false,
+        error: "GitLab registry requires authentication. Set token in .grekt/config.yaml or GITLAB_TOKEN env var.",
+      };
+    }
+
+    try {
+      const response = await this.http.fetch(url, {
+        method: "PUT",
+        headers: {
+          ...this.getHeaders(),
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        return { success: false, error: `Failed to update ${label}: ${response.status} ${response.statusText}` };
+      }
+
+      this.metadataCache?.invalidate(url);
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : "Unknown error" };
+    }
+  }
 }
 
 /**
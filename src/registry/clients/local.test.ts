@@ -0,0 +1,502 @@
+import { describe, test, expect } from "vitest";
+import { LocalRegistryClient } from "./local";
+import { VerifyingRegistryClient } from "../verify";
+import { createMockFileSystem, createMockTarOperations } from "#/test-utils/mocks";
+import type { ResolvedRegistry } from "../registry.types";
+import type { TarEntry } from "#/core";
+import { calculateIntegrity } from "#/artifact";
+import { generatePublisherKeyPair, getPublisherKeyId, signArtifact } from "#/security/signing";
+
+const ROOT = "/mnt/registry";
+const ARTIFACT_DIR = `${ROOT}/@scope/artifact`;
+
+function buildMetadata(overrides: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    name: "@scope/artifact",
+    latest: "1.1.0",
+    versions: ["1.1.0", "1.0.0"],
+    deprecated: {},
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-02-01T00:00:00.000Z",
+    ...overrides,
+  });
+}
+
+describe("LocalRegistryClient", () => {
+  const createClient = (
+    files: Record<string, string | Buffer> = {},
+    registry: Partial<ResolvedRegistry> = {},
+    tarEntries: TarEntry[] = []
+  ) => {
+    const fullRegistry: ResolvedRegistry = {
+      type: "local",
+      host: "localhost",
+      path: ROOT,
+      ...registry,
+    };
+    const fs = createMockFileSystem(files);
+    const tar = createMockTarOperations(tarEntries);
+
+    return { client: new LocalRegistryClient(fullRegistry, fs, tar), fs, tar };
+  };
+
+  describe("constructor", () => {
+    test("throws when path field is missing", () => {
+      const registry: ResolvedRegistry = { type: "local", host: "localhost" };
+
+      expect(
+        () => new LocalRegistryClient(registry, createMockFileSystem(), createMockTarOperations())
+      ).toThrow("Local registry requires 'path' field in config");
+    });
+  });
+
+  describe("listVersions", () => {
+    test("returns versions from metadata sorted descending", async () => {
+      const { client } = createClient({
+        [`${ARTIFACT_DIR}/metadata.json`]: buildMetadata({ versions: ["1.0.0", "1.10.0", "1.2.0"] }),
+      });
+
+      expect(await client.listVersions("@scope/artifact")).toEqual(["1.10.0", "1.2.0", "1.0.0"]);
+    });
+
+    test("falls back to tarballs when metadata has no versions", async () => {
+      const { client } = createClient({
+        [`${ARTIFACT_DIR}/metadata.json`]: buildMetadata({ versions: undefined }),
+        [`${ARTIFACT_DIR}/1.0.0.tar.gz`]: "tarball",
+        [`${ARTIFACT_DIR}/2.0.0.tar.gz`]: "tarball",
+        [`${ARTIFACT_DIR}/notes.txt`]: "ignored",
+      });
+
+      expect(await client.listVersions("@scope/artifact")).toEqual(["2.0.0", "1.0.0"]);
+    });
+
+    test("returns empty list for unknown artifact", async () => {
+      const { client } = createClient();
+
+      expect(await client.listVersions("@scope/missing")).toEqual([]);
+    });
+
+    test("applies prefix to artifact directory", async () => {
+      const { client } = createClient(
+        { [`${ROOT}/@scope/frontend-artifact/1.0.0.tar.gz`]: "tarball" },
+        { prefix: "frontend" }
+      );
+
+      expect(await client.listVersions("@scope/artifact")).toEqual(["1.0.0"]);
+    });
+  });
+
+  describe("versionExists", () => {
+    test("checks tarball presence", async () => {
+      const { client } = createClient({ [`${ARTIFACT_DIR}/1.0.0.tar.gz`]: "tarball" });
+
+      expect(await client.versionExists("@scope/artifact", "1.0.0")).toBe(true);
+      expect(await client.versionExists("@scope/artifact", "2.0.0")).toBe(false);
+    });
+  });
+
+  describe("download", () => {
+    test("extracts requested version and returns file URL", async () => {
+      const { client, tar } = createClient({
+        [`${ARTIFACT_DIR}/metadata.json`]: buildMetadata(),
+        [`${ARTIFACT_DIR}/1.0.0.tar.gz`]: "tarball",
+      });
+
+      const result = await client.download("@scope/artifact", { version: "1.0.0", targetDir: "/target" });
+
+      expect(result.success).toBe(true);
+      expect(result.version).toBe("1.0.0");
+      expect(result.resolved).toBe(`file://${ARTIFACT_DIR}/1.0.0.tar.gz`);
+      expect(tar.calls.find((c) => c.operation === "extract")?.options).toMatchObject({
+        tarballPath: `${ARTIFACT_DIR}/1.0.0.tar.gz`,
+        targetDir: "/target",
+        stripComponents: 1,
+      });
+    });
+
+    test("rejects versions that would leave the artifact directory", async () => {
+      const { client, tar } = createClient({ [`${ROOT}/escaped.tar.gz`]: "tarball" });
+
+      const result = await client.download("@scope/artifact", { version: "../../escaped", targetDir: "/target" });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Invalid version "../../escaped"');
+      expect(tar.calls).toEqual([]);
+    });
+
+    test("hashes with the requested algorithm", async () => {
+      const { client } = createClient({ [`${ARTIFACT_DIR}/1.0.0.tar.gz`]: "tarball" });
+
+      const result = await client.download("@scope/artifact", {
+        version: "1.0.0",
+        targetDir: "/target",
+        hashAlgorithm: "sha512",
+      });
+
+      expect(result.integrity).toMatch(/^sha512-/);
+    });
+
+    test("resolves latest version when not specified", async () => {
+      const { client } = createClient({
+        [`${ARTIFACT_DIR}/metadata.json`]: buildMetadata(),
+        [`${ARTIFACT_DIR}/1.0.0.tar.gz`]: "tarball",
+        [`${ARTIFACT_DIR}/1.1.0.tar.gz`]: "tarball",
+      });
+
+      const result = await client.download("@scope/artifact", { targetDir: "/target" });
+
+      expect(result.version).toBe("1.1.0");
+    });
+
+    test("returns deprecation message from metadata", async () => {
+      const { client } = createClient({
+        [`${ARTIFACT_DIR}/metadata.json`]: buildMetadata({ deprecated: { "1.0.0": "Use 1.1.0" } }),
+        [`${ARTIFACT_DIR}/1.0.0.tar.gz`]: "tarball",
+      });
+
+      const result = await client.download("@scope/artifact", { version: "1.0.0", targetDir: "/target" });
+
+      expect(result.deprecationMessage).toBe("Use 1.1.0");
+    });
+
+    test("fails when version tarball is missing", async () => {
+      const { client } = createClient({ [`${ARTIFACT_DIR}/metadata.json`]: buildMetadata() });
+
+      const result = await client.download("@scope/artifact", { version: "1.0.0", targetDir: "/target" });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Version 1.0.0 not found for @scope/artifact");
+      expect(result.failureReason).toBe("not_found");
+    });
+
+    test("fails when artifact has no versions", async () => {
+      const { client } = createClient();
+
+      const result = await client.download("@scope/artifact", { targetDir: "/target" });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("No versions found");
+    });
+
+    test("rejects unsafe tarballs before extraction", async () => {
+      const { client, tar } = createClient(
+        { [`${ARTIFACT_DIR}/1.0.0.tar.gz`]: "tarball" },
+        {},
+        [{ path: "package/../../etc/passwd", type: "file" }]
+      );
+
+      const result = await client.download("@scope/artifact", { version: "1.0.0", targetDir: "/target" });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("Unsafe tarball");
+      expect(tar.calls.some((c) => c.operation === "extract")).toBe(false);
+    });
+  });
+
+  describe("publish", () => {
+    test("copies tarball and creates metadata", async () => {
+      const { client, fs } = createClient({ "/tmp/artifact.tar.gz": "tarball" });
+
+      const result = await client.publish({
+        artifactId: "@scope/artifact",
+        version: "1.0.0",
+        tarballPath: "/tmp/artifact.tar.gz",
+      });
+
+      expect(result).toEqual({ success: true, url: `file://${ARTIFACT_DIR}/1.0.0.tar.gz` });
+      expect(fs.readFile(`${ARTIFACT_DIR}/1.0.0.tar.gz`)).toBe("tarball");
+
+      const metadata = JSON.parse(fs.readFile(`${ARTIFACT_DIR}/metadata.json`));
+      expect(metadata).toMatchObject({ name: "@scope/artifact", latest: "1.0.0", versions: ["1.0.0"], deprecated: {} });
+    });
+
+    test("updates existing metadata and keeps createdAt", async () => {
+      const { client, fs } = createClient({
+        "/tmp/artifact.tar.gz": "tarball",
+        [`${ARTIFACT_DIR}/metadata.json`]: buildMetadata({ deprecated: { "1.0.0": "old" } }),
+      });
+
+      await client.publish({ artifactId: "@scope/artifact", version: "2.0.0", tarballPath: "/tmp/artifact.tar.gz" });
+
+      const metadata = JSON.parse(fs.readFile(`${ARTIFACT_DIR}/metadata.json`));
+      expect(metadata.latest).toBe("2.0.0");
+      expect(metadata.versions).toEqual(["2.0.0", "1.1.0", "1.0.0"]);
+      expect(metadata.deprecated).toEqual({ "1.0.0": "old" });
+      expect(metadata.createdAt).toBe("2024-01-01T00:00:00.000Z");
+    });
+
+    test("stores the publisher signature next to the tarball and serves it on download", async () => {
+      const publisher = generatePublisherKeyPair();
+      const { client, fs } = createClient({ "/tmp/artifact.tar.gz": "tarball" });
+      // The mock tar extracts nothing, so the download covers an empty directory
+      const signature = signArtifact(
+        { artifactId: "@scope/artifact", version: "1.0.0", integrity: calculateIntegrity({}) },
+        publisher.secretKey
+      );
+
+      await client.publish({ artifactId: "@scope/artifact", version: "1.0.0", tarballPath: "/tmp/artifact.tar.gz", signature });
+      expect(JSON.parse(fs.readFile(`${ARTIFACT_DIR}/1.0.0.sig.json`))).toEqual(signature);
+
+      const verifying = new VerifyingRegistryClient(client, fs, { trustedPublishers: { "@scope": [publisher.publicKey] } });
+      const result = await verifying.download("@scope/artifact", { version: "1.0.0", targetDir: "/target" });
+
+      expect(result.success).toBe(true);
+      expect(result.signature).toEqual(signature);
+      expect(result.signedBy).toBe(getPublisherKeyId(publisher.publicKey));
+    });
+
+    test("refuses to overwrite an existing version", async () => {
+      const { client } = createClient({
+        "/tmp/artifact.tar.gz": "tarball",
+        [`${ARTIFACT_DIR}/1.0.0.tar.gz`]: "existing",
+      });
+
+      const result = await client.publish({
+        artifactId: "@scope/artifact",
+        version: "1.0.0",
+        tarballPath: "/tmp/artifact.tar.gz",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("already exists");
+    });
+
+    test("rejects versions that are not semver", async () => {
+      const { client, fs } = createClient({ "/tmp/artifact.tar.gz": "tarball" });
+
+      const result = await client.publish({
+        artifactId: "@scope/artifact",
+        version: "../../../escaped",
+        tarballPath: "/tmp/artifact.tar.gz",
+      });
+
+      expect(result).toEqual({ success: false, error: 'Invalid version "../../../escaped" for @scope/artifact' });
+      expect(fs.exists(`${ROOT}/escaped.tar.gz`)).toBe(false);
+      expect(fs.exists(`${ARTIFACT_DIR}/metadata.json`)).toBe(false);
+    });
+
+    test("leaves no signature behind when the tarball copy fails", async () => {
+      const publisher = generatePublisherKeyPair();
+      const { client, fs } = createClient();
+      const signature = signArtifact(
+        { artifactId: "@scope/artifact", version: "1.0.0", integrity: calculateIntegrity({}) },
+        publisher.secretKey
+      );
+
+      const result = await client.publish({ artifactId: "@scope/artifact", version: "1.0.0", tarballPath: "/tmp/missing.tar.gz", signature });
+
+      expect(result.success).toBe(false);
+      expect(fs.exists(`${ARTIFACT_DIR}/1.0.0.sig.json`)).toBe(false);
+    });
+  });
+
+  describe("getArtifactInfo", () => {
+    test("returns versions with deprecation and timestamps", async () => {
+      const { client } = createClient({
+        [`${ARTIFACT_DIR}/metadata.json`]: buildMetadata({ deprecated: { "1.0.0": "Broken" } }),
+      });
+
+      const info = await client.getArtifactInfo("@scope/artifact");
+
+      expect(info).toEqual({
+        artifactId: "@scope/artifact",
+        latestVersion: "1.1.0",
+        versions: [
+          { version: "1.1.0", deprecated: undefined },
+          { version: "1.0.0", deprecated: "Broken" },
+        ],
+        createdAt: "2024-01-01T00:00:00.000Z",
+        updatedAt: "2024-02-01T00:00:00.000Z",
+      });
+    });
+
+    test("returns null for unknown artifact", async () => {
+      const { client } = createClient();
+
+      expect(await client.getArtifactInfo("@scope/missing")).toBeNull();
+    });
+
+    test("skips prereleases for latestVersion", async () => {
+      const { client } = createClient({
+        [`${ARTIFACT_DIR}/metadata.json`]: buildMetadata({ versions: ["2.0.0-beta.1", "1.1.0", "1.0.0"] }),
+      });
+
+      expect((await client.getArtifactInfo("@scope/artifact"))?.latestVersion).toBe("1.1.0");
+    });
+
+    test("flags yanked versions and skips them for latestVersion", async () => {
+      const { client } = createClient({
+        [`${ARTIFACT_DIR}/metadata.json`]: buildMetadata({ yanked: ["1.1.0"] }),
+      });
+
+      const info = await client.getArtifactInfo("@scope/artifact");
+
+      expect(info?.latestVersion).toBe("1.0.0");
+      expect(info?.versions).toEqual([
+        { version: "1.1.0", yanked: true },
+        { version: "1.0.0" },
+      ]);
+    });
+  });
+
+  describe("yank", () => {
+    const files = {
+      [`${ARTIFACT_DIR}/metadata.json`]: buildMetadata(),
+      [`${ARTIFACT_DIR}/1.0.0.tar.gz`]: "tarball",
+      [`${ARTIFACT_DIR}/1.1.0.tar.gz`]: "tarball",
+    };
+
+    test("hides the version from listings and latest", async () => {
+      const { client, fs } = createClient(files);
+
+      expect(await client.yank("@scope/artifact", "1.1.0")).toEqual({ success: true });
+
+      expect(await client.listVersions("@scope/artifact")).toEqual(["1.0.0"]);
+      expect(await client.getLatestVersion("@scope/artifact")).toBe("1.0.0");
+      expect(JSON.parse(fs.readFile(`${ARTIFACT_DIR}/metadata.json`))).toMatchObject({ latest: "1.0.0", yanked: ["1.1.0"] });
+    });
+
+    test("keeps the version downloadable by exact version", async () => {
+      const { client } = createClient(files);
+      await client.yank("@scope/artifact", "1.1.0");
+
+      const result = await client.download("@scope/artifact", { version: "1.1.0", targetDir: "/target" });
+
+      expect(result.success).toBe(true);
+      expect((await client.download("@scope/artifact", { targetDir: "/target" })).version).toBe("1.0.0");
+    });
+
+    test("unyank makes the version resolvable again", async () => {
+      const { client } = createClient(files);
+      await client.yank("@scope/artifact", "1.1.0");
+
+      expect(await client.unyank("@scope/artifact", "1.1.0")).toEqual({ success: true });
+
+      expect(await client.listVersions("@scope/artifact")).toEqual(["1.1.0", "1.0.0"]);
+    });
+
+    test("fails for unknown versions", async () => {
+      const { client } = createClient(files);
+
+      expect(await client.yank("@scope/artifact", "9.0.0")).toEqual({
+        success: false,
+        error: "Version 9.0.0 not found for @scope/artifact",
+      });
+    });
+  });
+
+  describe("dist-tags", () => {
+    const files = {
+      [`${ARTIFACT_DIR}/metadata.json`]: buildMetadata({ versions: ["2.0.0-beta.1", "1.1.0", "1.0.0"] }),
+      [`${ARTIFACT_DIR}/1.0.0.tar.gz`]: "tarball",
+      [`${ARTIFACT_DIR}/1.1.0.tar.gz`]: "tarball",
+      [`${ARTIFACT_DIR}/2.0.0-beta.1.tar.gz`]: "tarball",
+    };
+
+    test("stores dist-tags in metadata.json", async () => {
+      const { client, fs } = createClient(files);
+
+      expect(await client.setDistTag("@scope/artifact", "beta", "2.0.0-beta.1")).toEqual({ success: true });
+
+      expect(await client.getDistTags("@scope/artifact")).toEqual({ beta: "2.0.0-beta.1" });
+      expect(JSON.parse(fs.readFile(`${ARTIFACT_DIR}/metadata.json`)).distTags).toEqual({ beta: "2.0.0-beta.1" });
+    });
+
+    test("installs and reports the version the latest tag points at", async () => {
+      const { client, fs } = createClient(files);
+
+      await client.setDistTag("@scope/artifact", "latest", "1.0.0");
+
+      expect(await client.getLatestVersion("@scope/artifact")).toBe("1.0.0");
+      expect((await client.getArtifactInfo("@scope/artifact"))?.latestVersion).toBe("1.0.0");
+      expect((await client.download("@scope/artifact", { targetDir: "/target" })).version).toBe("1.0.0");
+      expect(JSON.parse(fs.readFile(`${ARTIFACT_DIR}/metadata.json`)).latest).toBe("1.0.0");
+    });
+
+    test("removes dist-tags, never latest", async () => {
+      const { client } = createClient(files);
+      await client.setDistTag("@scope/artifact", "beta", "2.0.0-beta.1");
+
+      expect(await client.removeDistTag("@scope/artifact", "beta")).toEqual({ success: true });
+      expect(await client.getDistTags("@scope/artifact")).toEqual({});
+      expect((await client.removeDistTag("@scope/artifact", "beta")).error).toBe(
+        "Dist-tag beta is not set for @scope/artifact"
+      );
+      expect((await client.removeDistTag("@scope/artifact", "latest")).success).toBe(false);
+    });
+
+    test("refuses unknown versions", async () => {
+      const { client } = createClient(files);
+
+      expect(await client.setDistTag("@scope/artifact", "next", "9.0.0")).toEqual({
+        success: false,
+        error: "Version 9.0.0 not found for @scope/artifact",
+      });
+    });
+
+    test("blocks unpublishing a tagged version", async () => {
+      const { client } = createClient({ "/tmp/artifact.tar.gz": "tarball" });
+      await client.publish({ artifactId: "@scope/artifact", version: "1.0.0", tarballPath: "/tmp/artifact.tar.gz" });
+      await client.setDistTag("@scope/artifact", "stable", "1.0.0");
+
+      const result = await client.unpublish("@scope/artifact", { version: "1.0.0" });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("dist-tags stable point at it");
+    });
+  });
+
+  describe("unpublish", () => {
+    test("deletes a recently published version", async () => {
+      const { client, fs } = createClient({ "/tmp/artifact.tar.gz": "tarball" });
+      await client.publish({ artifactId: "@scope/artifact", version: "1.0.0", tarballPath: "/tmp/artifact.tar.gz" });
+      await client.publish({ artifactId: "@scope/artifact", version: "1.1.0", tarballPath: "/tmp/artifact.tar.gz" });
+
+      const result = await client.unpublish("@scope/artifact", { version: "1.1.0" });
+
+      expect(result).toEqual({ success: true });
+      expect(fs.exists(`${ARTIFACT_DIR}/1.1.0.tar.gz`)).toBe(false);
+      const metadata = JSON.parse(fs.readFile(`${ARTIFACT_DIR}/metadata.json`));
+      expect(metadata.versions).toEqual(["1.0.0"]);
+      expect(metadata.latest).toBe("1.0.0");
+      expect(Object.keys(metadata.publishedAt)).toEqual(["1.0.0"]);
+    });
+
+    test("deletes the signature with the tarball", async () => {
+      const { client, fs } = createClient({ "/tmp/artifact.tar.gz": "tarball" });
+      const signature = signArtifact(
+        { artifactId: "@scope/artifact", version: "1.0.0", integrity: calculateIntegrity({}) },
+        generatePublisherKeyPair().secretKey
+      );
+      await client.publish({ artifactId: "@scope/artifact", version: "1.0.0", tarballPath: "/tmp/artifact.tar.gz", signature });
+
+      expect(await client.unpublish("@scope/artifact", { version: "1.0.0" })).toEqual({ success: true });
+      expect(fs.exists(`${ARTIFACT_DIR}/1.0.0.sig.json`)).toBe(false);
+    });
+
+    test("refuses versions without a recorded publish time unless forced", async () => {
+      const { client, fs } = createClient({
+        [`${ARTIFACT_DIR}/metadata.json`]: buildMetadata(),
+        [`${ARTIFACT_DIR}/1.0.0.tar.gz`]: "tarball",
+      });
+
+      const refused = await client.unpublish("@scope/artifact", { version: "1.0.0" });
+      expect(refused.success).toBe(false);
+      expect(refused.error).toContain("does not record when it was published");
+      expect(fs.exists(`${ARTIFACT_DIR}/1.0.0.tar.gz`)).toBe(true);
+
+      expect(await client.unpublish("@scope/artifact", { version: "1.0.0", force: true })).toEqual({ success: true });
+      expect(fs.exists(`${ARTIFACT_DIR}/1.0.0.tar.gz`)).toBe(false);
+    });
+
+    test("refuses versions with dependents", async () => {
+      const { client } = createClient({ "/tmp/artifact.tar.gz": "tarball" });
+      await client.publish({ artifactId: "@scope/artifact", version: "1.0.0", tarballPath: "/tmp/artifact.tar.gz" });
+
+      const result = await client.unpublish("@scope/artifact", { version: "1.0.0", dependents: ["@scope/app"] });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("required by @scope/app");
+    });
+  });
+});
@@ -0,0 +1,449 @@
+/**
+ * Local directory registry client
+ *
+ * Implementation for air-gapped setups where the registry is a plain
+ * directory (local disk, NFS share, mounted volume). No network access.
+ *
+ * Layout:
+ *   <path>/@scope/name/metadata.json   (ArtifactMetadataSchema)
+ *   <path>/@scope/name/1.0.0.tar.gz
+ *   <path>/@scope/name/1.0.0.sig.json  (publisher signature, signed versions only)
+ *
+ * Dist-tags, yanked versions and publish times are recorded in metadata.json.
+ */
+
+import { join } from "path";
+import { validateTarballContents, type FileSystem, type TarOperations } from "#/core";
+import type {
+  RegistryClient,
+  ResolvedRegistry,
+  ArtifactDownloadOptions,
+  ArtifactPublishOptions,
+  DownloadResult,
+  PublishResult,
+  DistTagResult,
+  RegistryArtifactInfo,
+  VersionInfo,
+  YankResult,
+  UnpublishOptions,
+  UnpublishResult,
+} from "../registry.types";
+import { ArtifactMetadataSchema, type ArtifactMetadata } from "#/schemas";
+import { hashDirectory, calculateIntegrity } from "#/artifact";
+import { sortVersionsDesc, isValidSemver, resolveVersionSpec, LATEST_TAG } from "#/version";
+import { parseArtifactSignature } from "#/security/signing";
+import { validateDistTagChange } from "../dist-tags";
+import { checkUnpublishAllowed } from "../unpublish";
+
+const METADATA_FILENAME = "metadata.json";
+const TARBALL_EXTENSION = ".tar.gz";
+const SIGNATURE_EXTENSION = ".sig.json";
+
+export class LocalRegistryClient implements RegistryClient {
+  private root: string;
+  private prefix?: string;
+  private fs: FileSystem;
+  private tar: TarOperations;
+
+  constructor(registry: ResolvedRegistry, fs: FileSystem, tar: TarOperations) {
+    if (!registry.path) {
+      throw new Error("Local registry requires 'path' field in config (directory containing artifact tarballs)");
+    }
+
+    this.root = registry.path;
+    this.prefix = registry.prefix;
+    this.fs = fs;
+    this.tar = tar;
+  }
+
+  /**
+   * Get the directory holding all versions of an artifact
+   */
+  private getArtifactDir(artifactId: string): string {
+    const match = artifactId.match(/^(@[^/]+)\/(.+)$/);
+    const scope = match ? match[1]! : "";
+    const name = match ? match[2]! : artifactId;
+    const packageName = this.prefix ? `${this.prefix}-${name}` : name;
+
+    return scope ? join(this.root, scope, packageName) : join(this.root, packageName);
+  }
+
+  /**
+   * Path of a version file. Only semver versions are joined into the path,
+   * so a version can never point outside the artifact directory.
+   */
+  private getVersionPath(artifactId: string, version: string, extension: string): string {
+    if (!isValidSemver(version)) {
+      throw new Error(`Invalid version "${version}" for ${artifactId}`);
+    }
+    return join(this.getArtifactDir(artifactId), `${version}${extension}`);
+  }
+
+  private getTarballPath(artifactId: string, version: string): string {
+    return this.getVersionPath(artifactId, version, TARBALL_EXTENSION);
+  }
+
+  private getSignaturePath(artifactId: string, version: string): string {
+    return this.getVersionPath(artifactId, version, SIGNATURE_EXTENSION);
+  }
+
+  /**
+   * Read the publisher signature of a version. Unsigned versions have no signature file.
+   */
+  private readSignature(artifactId: string, version: string): DownloadResult["signature"] {
+    const signaturePath = this.getSignaturePath(artifactId, version);
+    return this.fs.exists(signaturePath) ? parseArtifactSignature(this.fs.readFile(signaturePath)) : undefined;
+  }
+
+  /**
+   * Read metadata.json for an artifact.
+   * Returns null when the artifact does not exist or metadata is invalid.
+   */
+  private readMetadata(artifactId: string): ArtifactMetadata | null {
+    const metadataPath = join(this.getArtifactDir(artifactId), METADATA_FILENAME);
+    if (!this.fs.exists(metadataPath)) {
+      return null;
+    }
+
+    try {
+      const result = ArtifactMetadataSchema.safeParse(JSON.parse(this.fs.readFile(metadataPath)));
+      return result.success ? result.data : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private writeMetadata(artifactId: string, metadata: ArtifactMetadata): void {
+    const metadataPath = join(this.getArtifactDir(artifactId), METADATA_FILENAME);
+    this.fs.writeFile(metadataPath, `${JSON.stringify(metadata, null, 2)}\n`);
+  }
+
+  /**
+   * Versions from metadata, falling back to the tarballs on disk
+   * when metadata has no version list (e.g. hand-copied directories).
+   */
+  private readVersions(artifactId: string, metadata: ArtifactMetadata | null): string[] {
+    if (metadata?.versions) {
+      return metadata.versions;
+    }
+
+    let entries: string[];
+    try {
+      entries = this.fs.readdir(this.getArtifactDir(artifactId));
+    } catch {
+      return [];
+    }
+
+    return entries
+      .filter((entry) => entry.endsWith(TARBALL_EXTENSION))
+      .map((entry) => entry.slice(0, -TARBALL_EXTENSION.length))
+      .filter(isValidSemver);
+  }
+
+  /**
+   * Versions that ranges and latest may resolve to (yanked versions left out)
+   */
+  private readInstallableVersions(artifactId: string, metadata: ArtifactMetadata | null): string[] {
+    const yanked = metadata?.yanked ?? [];
+    return this.readVersions(artifactId, metadata).filter((v) => !yanked.includes(v));
+  }
+
+  /**
+   * Version latest installs: the latest dist-tag, else the highest stable installable version
+   */
+  private readLatestVersion(artifactId: string, metadata: ArtifactMetadata | null): string | null {
+    return resolveVersionSpec(LATEST_TAG, this.readInstallableVersions(artifactId, metadata), metadata?.distTags);
+  }
+
+  /**
+   * Write metadata for a new version list, keeping per-version fields of remaining versions
+   * (dist-tags of removed versions are dropped)
+   */
+  private updateMetadata(
+    artifactId: string,
+    existing: ArtifactMetadata | null,
+    versions: string[],
+    changes: Partial<Pick<ArtifactMetadata, "distTags" | "yanked" | "publishedAt" | "deprecated">> = {}
+  ): void {
+    const now = new Date().toISOString();
+    const yanked = (changes.yanked ?? existing?.yanked ?? []).filter((v) => versions.includes(v));
+    const distTags = Object.fromEntries(
+      Object.entries(changes.distTags ?? existing?.distTags ?? {}).filter(([, v]) => versions.includes(v))
+    );
+    const installable = versions.filter((v) => !yanked.includes(v));
+
+    this.writeMetadata(artifactId, {
+      name: artifactId,
+      latest: resolveVersionSpec(LATEST_TAG, installable, distTags) ?? versions[0] ?? "",
+      versions,
+      distTags,
+      deprecated: changes.deprecated ?? existing?.deprecated ?? {},
+      yanked,
+      publishedAt: changes.publishedAt ?? existing?.publishedAt ?? {},
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    });
+  }
+
+  async download(artifactId: string, options: ArtifactDownloadOptions): Promise<DownloadResult> {
+    const { version, targetDir } = options;
+
+    try {
+      const metadata = this.readMetadata(artifactId);
+
+      let resolvedVersion = version;
+      if (!resolvedVersion) {
+        resolvedVersion = this.readLatestVersion(artifactId, metadata) ?? undefined;
+        if (!resolvedVersion) {
+          return { success: false, error: `No versions found for artifact: ${artifactId}`, failureReason: "not_found" };
+        }
+      }
+
+      const tarballPath = this.getTarballPath(artifactId, resolvedVersion);
+      if (!this.fs.exists(tarballPath)) {
+        return {
+          success: false,
+          error: `Version ${resolvedVersion} not found for ${artifactId}`,
+          failureReason: "not_found",
+        };
+      }
+
+      // Validate tarball contents BEFORE extraction (prevents path traversal)
+      const validation = validateTarballContents(this.tar, tarballPath, targetDir, 1);
+      if (!validation.safe) {
+        return {
+          success: false,
+          error: `Unsafe tarball: ${validation.violations.join(", ")}`,
+        };
+      }
+
+      this.fs.mkdir(targetDir, { recursive: true });
+
+      this.tar.extract({
+        tarballPath,
+        targetDir,
+        gzip: true,
+        stripComponents: 1,
+      });
+
+      // Calculate integrity after extraction
+      const fileHashes = hashDirectory(this.fs, targetDir, options.hashAlgorithm);
+      const integrity = calculateIntegrity(fileHashes, options.hashAlgorithm);
+
+      return {
+        success: true,
+        version: resolvedVersion,
+        resolved: `file://${tarballPath}`,
+        deprecationMessage: metadata?.deprecated[resolvedVersion],
+        integrity,
+        fileHashes,
+        signature: this.readSignature(artifactId, resolvedVersion),
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      return { success: false, error: `Download failed: ${message}` };
+    }
+  }
+
+  async publish(options: ArtifactPublishOptions): Promise<PublishResult> {
+    const { artifactId, version, tarballPath, signature } = options;
+
+    if (!isValidSemver(version)) {
+      return { success: false, error: `Invalid version "${version}" for ${artifactId}` };
+    }
+
+    // Prevent overwriting existing versions
+    const alreadyExists = await this.versionExists(artifactId, version);
+    if (alreadyExists) {
+      return {
+        success: false,
+        error: `Version ${version} already exists for ${artifactId}. Cannot overwrite published versions.`,
+      };
+    }
+
+    try {
+      const artifactDir = this.getArtifactDir(artifactId);
+      const destination = this.getTarballPath(artifactId, version);
+
+      this.fs.mkdir(artifactDir, { recursive: true });
+      // Tarball first: a failed copy leaves no orphan signature, and a failed
+      // signature write removes the tarball so the version never shows up unsigned
+      this.fs.copyFile(tarballPath, destination);
+      if (signature) {
+        try {
+          this.fs.writeFile(this.getSignaturePath(artifactId, version), `${JSON.stringify(signature, null, 2)}\n`);
+        } catch (err) {
+          this.fs.unlink(destination);
+          throw err;
+        }
+      }
+
+      const existing = this.readMetadata(artifactId);
+      const versions = sortVersionsDesc([...new Set([...this.readVersions(artifactId, existing), version])]);
+
+      this.updateMetadata(artifactId, existing, versions, {
+        publishedAt: { ...existing?.publishedAt, [version]: new Date().toISOString() },
+      });
+
+      return {
+        success: true,
+        url: `file://${destination}`,
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : "Unknown error",
+      };
+    }
+  }
+
+  async getLatestVersion(artifactId: string): Promise<string | null> {
+    return this.readLatestVersion(artifactId, this.readMetadata(artifactId));
+  }
+
+  async versionExists(artifactId: string, version: string): Promise<boolean> {
+    return isValidSemver(version) && this.fs.exists(this.getTarballPath(artifactId, version));
+  }
+
+  async listVersions(artifactId: string): Promise<string[]> {
+    const metadata = this.readMetadata(artifactId);
+    return sortVersionsDesc(this.readInstallableVersions(artifactId, metadata));
+  }
+
+  async getArtifactInfo(artifactId: string): Promise<RegistryArtifactInfo | null> {
+    const metadata = this.readMetadata(artifactId);
+    const versions = sortVersionsDesc(this.readVersions(artifactId, metadata));
+
+    if (versions.length === 0) {
+      return null;
+    }
+
+    const versionInfos: VersionInfo[] = versions.map((version) => ({
+      version,
+      deprecated: metadata?.deprecated[version],
+      yanked: metadata?.yanked.includes(version) || undefined,
+      publishedAt: metadata?.publishedAt[version],
+    }));
+
+    return {
+      artifactId,
+      latestVersion: this.readLatestVersion(artifactId, metadata) ?? versions[0] ?? "",
+      versions: versionInfos,
+      createdAt: metadata?.createdAt,
+      updatedAt: metadata?.updatedAt,
+    };
+  }
+
+  async getDistTags(artifactId: string): Promise<Record<string, string>> {
+    return this.readMetadata(artifactId)?.distTags ?? {};
+  }
+
+  async setDistTag(artifactId: string, tag: string, version: string): Promise<DistTagResult> {
+    const invalid = validateDistTagChange(tag, version);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    return this.writeDistTags(artifactId, version, (distTags) => ({ ...distTags, [tag]: version }));
+  }
+
+  async removeDistTag(artifactId: string, tag: string): Promise<DistTagResult> {
+    const invalid = validateDistTagChange(tag);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    return this.writeDistTags(artifactId, undefined, (distTags) => {
+      const { [tag]: removed, ...rest } = distTags;
+      if (removed === undefined) {
+        throw new Error(`Dist-tag ${tag} is not set for ${artifactId}`);
+      }
+      return rest;
+    });
+  }
+
+  /**
+   * @param version - Version the change points a tag at, which must be published
+   */
+  private writeDistTags(
+    artifactId: string,
+    version: string | undefined,
+    change: (distTags: Record<string, string>) => Record<string, string>
+  ): DistTagResult {
+    try {
+      const existing = this.readMetadata(artifactId);
+      const versions = this.readVersions(artifactId, existing);
+      if (version !== undefined && !versions.includes(version)) {
+        return { success: false, error: `Version ${version} not found for ${artifactId}` };
+      }
+
+      this.updateMetadata(artifactId, existing, sortVersionsDesc(versions), {
+        distTags: change(existing?.distTags ?? {}),
+      });
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : "Unknown error" };
+    }
+  }
+
+  async yank(artifactId: string, version: string): Promise<YankResult> {
+    return this.setYanked(artifactId, version, true);
+  }
+
+  async unyank(artifactId: string, version: string): Promise<YankResult> {
+    return this.setYanked(artifactId, version, false);
+  }
+
+  private async setYanked(artifactId: string, version: string, yank: boolean): Promise<YankResult> {
+    if (!(await this.versionExists(artifactId, version))) {
+      return { success: false, error: `Version ${version} not found for ${artifactId}` };
+    }
+
+    try {
+      const existing = this.readMetadata(artifactId);
+      const yanked = (existing?.yanked ?? []).filter((v) => v !== version);
+      this.updateMetadata(artifactId, existing, sortVersionsDesc(this.readVersions(artifactId, existing)), {
+        yanked: yank ? [...yanked, version] : yanked,
+      });
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : "Unknown error" };
+    }
+  }
+
+  async unpublish(artifactId: string, options: UnpublishOptions): Promise<UnpublishResult> {
+    const { version } = options;
+    if (!(await this.versionExists(artifactId, version))) {
+      return { success: false, error: `Version ${version} not found for ${artifactId}` };
+    }
+
+    const existing = this.readMetadata(artifactId);
+    const blocked = checkUnpublishAllowed(options, {
+      artifactId,
+      publishedAt: existing?.publishedAt[version],
+      distTags: existing?.distTags,
+    });
+    if (blocked) {
+      return { success: false, error: blocked };
+    }
+
+    try {
+      this.fs.unlink(this.getTarballPath(artifactId, version));
+      const signaturePath = this.getSignaturePath(artifactId, version);
+      if (this.fs.exists(signaturePath)) {
+        this.fs.unlink(signaturePath);
+      }
+
+      const deprecated = { ...existing?.deprecated };
+      const publishedAt = { ...existing?.publishedAt };
+      delete deprecated[version];
+      delete publishedAt[version];
+      const versions = this.readVersions(artifactId, existing).filter((v) => v !== version);
+      this.updateMetadata(artifactId, existing, sortVersionsDesc(versions), { deprecated, publishedAt });
+
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : "Unknown error" };
+    }
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Version tags of OCI repositories (GHCR and generic OCI clients)
+ *
+ * A yanked version gets a second tag, <version>_yanked, on the same manifest.
+ * It is neither semver nor a dist-tag, so one tags/list request is enough to
+ * tell installable versions from yanked ones.
+ *
+ * Unpublishing deletes the version tag. Publish times come from the
+ * org.opencontainers.image.created manifest annotation.
+ */
+
+import { GREKT_YANKED_TAG_SUFFIX, OCI_CREATED_ANNOTATION, type OciClient } from "#/oci";
+import { isValidSemver, sortVersionsDesc } from "#/version";
+import type { UnpublishOptions, UnpublishResult, YankResult } from "../registry.types";
+import { checkUnpublishAllowed } from "../unpublish";
+
+export interface OciVersionTags {
+  /** All published versions, sorted by semver descending */
+  versions: string[];
+  /** Versions with a yanked tag */
+  yanked: string[];
+}
+
+export function getYankedTag(version: string): string {
+  return `${version}${GREKT_YANKED_TAG_SUFFIX}`;
+}
+
+/**
+ * Split a repository's tags into versions and yanked versions
+ */
+export function parseVersionTags(tags: string[]): OciVersionTags {
+  const versions = sortVersionsDesc(tags.filter(isValidSemver));
+  const tagSet = new Set(tags);
+  return { versions, yanked: versions.filter((v) => tagSet.has(getYankedTag(v))) };
+}
+
+/**
+ * Add or remove the yanked tag of a version
+ */
+export async function setVersionYanked(
+  ociClient: OciClient,
+  repoName: string,
+  version: string,
+  yank: boolean
+): Promise<YankResult> {
+  const result = yank
+    ? await ociClient.tagManifest(repoName, version, getYankedTag(version))
+    : await ociClient.deleteTag(repoName, getYankedTag(version));
+  return result.success ? { success: true } : { success: false, error: result.error ?? "Failed to update yanked tag" };
+}
+
+/**
+ * Delete a version tag (and its yanked tag) once the guardrails pass
+ */
+export async function unpublishVersion(
+  ociClient: OciClient,
+  repoName: string,
+  artifactId: string,
+  options: UnpublishOptions,
+  distTags: Record<string, string>
+): Promise<UnpublishResult> {
+  const { version } = options;
+
+  const { manifest, error } = await ociClient.pullManifest(repoName, version);
+  if (!manifest) {
+    return { success: false, error: error ?? `Version ${version} not found for ${artifactId}` };
+  }
+
+  const blocked = checkUnpublishAllowed(options, {
+    artifactId,
+    publishedAt: manifest.annotations?.[OCI_CREATED_ANNOTATION],
+    distTags,
+  });
+  if (blocked) {
+    return { success: false, error: blocked };
+  }
+
+  const result = await ociClient.deleteTag(repoName, version);
+  if (!result.success) {
+    return { success: false, error: result.error };
+  }
+
+  const listing = await ociClient.listTags(repoName);
+  if (listing.tags?.includes(getYankedTag(version))) {
+    await ociClient.deleteTag(repoName, getYankedTag(version));
+  }
+
+  return { success: true };
+}
@@ -0,0 +1,355 @@
+import { describe, test, expect } from "vitest";
+import { OciRegistryClient } from "./oci";
+import {
+  createMockHttpClient,
+  createMockFileSystem,
+  createMockTarOperations,
+  jsonResponse,
+} from "#/test-utils/mocks";
+import type { ResolvedRegistry } from "../registry.types";
+
+const LAYER_MANIFEST = {
+  schemaVersion: 2,
+  mediaType: "application/vnd.oci.image.manifest.v1+json",
+  layers: [{
+    mediaType: "application/vnd.grekt.artifact.layer.v1.tar+gzip",
+    digest: "sha256:abc123",
+    size: 100,
+  }],
+};
+
+const SIGNATURE = {
+  algorithm: "ed25519" as const,
+  keyId: "0123456789abcdef",
+  artifactId: "@scope/utils",
+  version: "1.0.0",
+  integrity: "sha256:00000000000000000000000000000000",
+  signature: "c2lnbmF0dXJl",
+};
+
+function basic(credentials: string): string {
+  return `Basic ${Buffer.from(credentials).toString("base64")}`;
+}
+
+describe("OciRegistryClient", () => {
+  /**
+   * Client whose registry answers tags/list for any repository and records the requested names
+   */
+  const createClient = (registry: Partial<ResolvedRegistry> = {}) => {
+    const requestedRepos: string[] = [];
+    const http = createMockHttpClient();
+    http.fetch = async (url: string) => {
+      const match = url.match(/\/v2\/(.+)\/tags\/list/);
+      if (match) {
+        requestedRepos.push(match[1]!);
+      }
+      return jsonResponse({ tags: ["1.0.0", "latest", "2.0.0"] });
+    };
+
+    const fullRegistry: ResolvedRegistry = {
+      type: "oci",
+      host: "harbor.internal",
+      ...registry,
+    };
+
+    return {
+      client: new OciRegistryClient(fullRegistry, http, createMockFileSystem(), createMockTarOperations()),
+      requestedRepos,
+    };
+  };
+
+  describe("constructor", () => {
+    test("throws when repository template has no {name}", () => {
+      expect(() => createClient({ repository: "{project}/fixed", project: "platform" })).toThrow(
+        "must include {name}"
+      );
+    });
+
+    test("throws when template uses {project} without project", () => {
+      expect(() => createClient({ repository: "{project}/{name}" })).toThrow(
+        "uses {project} but no 'project' is configured"
+      );
+    });
+  });
+
+  describe("repository naming", () => {
+    test("defaults to project/name when project is set", async () => {
+      const { client, requestedRepos } = createClient({ project: "platform" });
+
+      await client.listVersions("@scope/utils");
+
+      expect(requestedRepos).toEqual(["platform/utils"]);
+    });
+
+    test("defaults to scope/name without project", async () => {
+      const { client, requestedRepos } = createClient();
+
+      await client.listVersions("@scope/utils");
+
+      expect(requestedRepos).toEqual(["scope/utils"]);
+    });
+
+    test("applies custom template and prefix", async () => {
+      const { client, requestedRepos } = createClient({
+        project: "platform",
+        repository: "{project}/grekt/{scope}/{name}",
+        prefix: "frontend",
+      });
+
+      await client.listVersions("@scope/utils");
+
+      expect(requestedRepos).toEqual(["platform/grekt/scope/frontend-utils"]);
+    });
+
+    test("supports flat repository names (ECR style)", async () => {
+      const { client, requestedRepos } = createClient({ repository: "grekt-{scope}-{name}" });
+
+      await client.listVersions("@scope/utils");
+
+      expect(requestedRepos).toEqual(["grekt-scope-utils"]);
+    });
+  });
+
+  describe("listVersions", () => {
+    test("returns only semver tags sorted descending", async () => {
+      const { client } = createClient();
+
+      expect(await client.listVersions("@scope/utils")).toEqual(["2.0.0", "1.0.0"]);
+    });
+  });
+
+  describe("authentication", () => {
+    test("uses Basic credentials on a Basic challenge (registry:2, ECR)", async () => {
+      const http = createMockHttpClient();
+      http.fetch = async (_url: string, options?: RequestInit) => {
+        const auth = (options?.headers as Record<string, string>)?.Authorization;
+        if (auth === basic("AWS:ecr-password")) {
+          return jsonResponse({ tags: ["1.0.0"] });
+        }
+        return new Response("Unauthorized", {
+          status: 401,
+          headers: { "WWW-Authenticate": 'Basic realm="https://123.dkr.ecr.eu-west-1.amazonaws.com/",service="ecr.amazonaws.com"' },
+        });
+      };
+
+      const client = new OciRegistryClient(
+        { type: "oci", host: "123.dkr.ecr.eu-west-1.amazonaws.com", username: "AWS", token: "ecr-password" },
+        http,
+        createMockFileSystem(),
+        createMockTarOperations()
+      );
+
+      expect(await client.listVersions("@scope/utils")).toEqual(["1.0.0"]);
+    });
+
+    test("exchanges username and password for a bearer token (Harbor)", async () => {
+      const tokenAuthHeaders: string[] = [];
+      const registryAuthHeaders: (string | undefined)[] = [];
+
+      const http = createMockHttpClient();
+      http.fetch = async (url: string, options?: RequestInit) => {
+        const auth = (options?.headers as Record<string, string>)?.Authorization;
+
+        if (url.startsWith("https://harbor.internal/service/token")) {
+          tokenAuthHeaders.push(auth ?? "");
+          return jsonResponse({ token: "harbor-token" });
+        }
+
+        registryAuthHeaders.push(auth);
+        if (auth === "Bearer harbor-token") {
+          return jsonResponse({ tags: ["1.0.0"] });
+        }
+        return new Response("Unauthorized", {
+          status: 401,
+          headers: {
+            "WWW-Authenticate":
+              'Bearer realm="https://harbor.internal/service/token",service="harbor-registry",scope="repository:platform/utils:pull"',
+          },
+        });
+      };
+
+      const client = new OciRegistryClient(
+        { type: "oci", host: "harbor.internal", project: "platform", username: "robot$grekt", token: "secret" },
+        http,
+        createMockFileSystem(),
+        createMockTarOperations()
+      );
+
+      expect(await client.listVersions("@scope/utils")).toEqual(["1.0.0"]);
+      expect(tokenAuthHeaders).toEqual([basic("robot$grekt:secret")]);
+      // Password is never sent directly as a bearer token
+      expect(registryAuthHeaders[0]).toBeUndefined();
+    });
+
+    test("exchanges anonymously for public repositories (Docker Hub)", async () => {
+      const tokenAuthHeaders: (string | undefined)[] = [];
+
+      const http = createMockHttpClient();
+      http.fetch = async (url: string, options?: RequestInit) => {
+        const auth = (options?.headers as Record<string, string>)?.Authorization;
+
+        if (url.startsWith("https://auth.docker.io/token")) {
+          tokenAuthHeaders.push(auth);
+          return jsonResponse({ access_token: "anonymous-token" });
+        }
+        if (auth === "Bearer anonymous-token") {
+          return jsonResponse({ tags: ["3.0.0"] });
+        }
+        return new Response("Unauthorized", {
+          status: 401,
+          headers: {
+            "WWW-Authenticate":
+              'Bearer realm="https://auth.docker.io/token",service="registry.docker.io",scope="repository:acme/utils:pull"',
+          },
+        });
+      };
+
+      const client = new OciRegistryClient(
+        { type: "oci", host: "registry-1.docker.io", project: "acme" },
+        http,
+        createMockFileSystem(),
+        createMockTarOperations()
+      );
+
+      expect(await client.listVersions("@scope/utils")).toEqual(["3.0.0"]);
+      expect(tokenAuthHeaders).toEqual([undefined]);
+    });
+  });
+
+  describe("download", () => {
+    test("pulls the artifact layer and returns an OCI reference", async () => {
+      const http = createMockHttpClient();
+      http.fetch = async (url: string) => {
+        if (url.includes("/manifests/")) {
+          return jsonResponse(LAYER_MANIFEST);
+        }
+        if (url.includes("/blobs/")) {
+          return new Response(Buffer.from("fake-tarball"), { status: 200 });
+        }
+        return jsonResponse({ tags: [] });
+      };
+
+      const fs = createMockFileSystem();
+      fs.files.set("/target/file.md", { content: "content", isDirectory: false });
+
+      const client = new OciRegistryClient(
+        { type: "oci", host: "zot.internal:5000", repository: "grekt/{scope}/{name}" },
+        http,
+        fs,
+        createMockTarOperations()
+      );
+      const result = await client.download("@scope/utils", { version: "1.0.0", targetDir: "/target" });
+
+      expect(result.success).toBe(true);
+      expect(result.resolved).toBe("oci://zot.internal:5000/grekt/scope/utils:1.0.0");
+      expect(result.integrity).toMatch(/^sha256-/);
+    });
+
+    test("returns the publisher signature from the manifest annotation", async () => {
+      const http = createMockHttpClient();
+      http.fetch = async (url: string) => {
+        if (url.includes("/manifests/")) {
+          return jsonResponse({ ...LAYER_MANIFEST, annotations: { "dev.grekt.signature": JSON.stringify(SIGNATURE) } });
+        }
+        return new Response(Buffer.from("fake-tarball"), { status: 200 });
+      };
+
+      const client = new OciRegistryClient(
+        { type: "oci", host: "harbor.internal", project: "platform" },
+        http,
+        createMockFileSystem(),
+        createMockTarOperations()
+      );
+      const result = await client.download("@scope/utils", { version: "1.0.0", targetDir: "/target" });
+
+      expect(result.success).toBe(true);
+      expect(result.signature).toEqual(SIGNATURE);
+    });
+  });
+
+  describe("publish", () => {
+    test("pushes blobs and manifest to the templated repository", async () => {
+      const urls: string[] = [];
+
+      const http = createMockHttpClient();
+      http.fetch = async (url: string, options?: RequestInit) => {
+        const method = options?.method ?? "GET";
+        urls.push(`${method} ${url}`);
+
+        if (method === "POST") {
+          return new Response(null, { status: 202, headers: { Location: "/v2/platform/utils/blobs/uploads/abc" } });
+        }
+        if (method === "PUT") {
+          return new Response(null, { status: 201 });
+        }
+        return new Response("Not Found", { status: 404 });
+      };
+
+      const fs = createMockFileSystem({ "/tmp/utils.tar.gz": "tarball" });
+      const client = new OciRegistryClient(
+        { type: "oci", host: "harbor.internal", project: "platform" },
+        http,
+        fs,
+        createMockTarOperations()
+      );
+
+      const result = await client.publish({ artifactId: "@scope/utils", version: "1.0.0", tarballPath: "/tmp/utils.tar.gz" });
+
+      expect(result).toEqual({ success: true, url: "oci://harbor.internal/platform/utils:1.0.0" });
+      expect(urls).toContain("PUT https://harbor.internal/v2/platform/utils/manifests/1.0.0");
+    });
+
+    test("annotates the manifest with the publisher signature", async () => {
+      let manifest: { annotations?: Record<string, string> } | undefined;
+
+      const http = createMockHttpClient();
+      http.fetch = async (url: string, options?: RequestInit) => {
+        const method = options?.method ?? "GET";
+        if (method === "POST") {
+          return new Response(null, { status: 202, headers: { Location: "/v2/platform/utils/blobs/uploads/abc" } });
+        }
+        if (method === "PUT") {
+          if (url.includes("/manifests/")) {
+            manifest = JSON.parse(new TextDecoder().decode(options?.body as Uint8Array));
+          }
+          return new Response(null, { status: 201 });
+        }
+        return new Response("Not Found", { status: 404 });
+      };
+
+      const client = new OciRegistryClient(
+        { type: "oci", host: "harbor.internal", project: "platform" },
+        http,
+        createMockFileSystem({ "/tmp/utils.tar.gz": "tarball" }),
+        createMockTarOperations()
+      );
+
+      const result = await client.publish({
+        artifactId: "@scope/utils",
+        version: "1.0.0",
+        tarballPath: "/tmp/utils.tar.gz",
+        signature: SIGNATURE,
+      });
+
+      expect(result.success).toBe(true);
+      expect(JSON.parse(manifest!.annotations!["dev.grekt.signature"]!)).toEqual(SIGNATURE);
+    });
+
+    test("refuses to overwrite an existing version", async () => {
+      const http = createMockHttpClient();
+      http.fetch = async () => jsonResponse(LAYER_MANIFEST);
+
+      const client = new OciRegistryClient(
+        { type: "oci", host: "harbor.internal", project: "platform" },
+        http,
+        createMockFileSystem({ "/tmp/utils.tar.gz": "tarball" }),
+        createMockTarOperations()
+      );
+
+      const result = await client.publish({ artifactId: "@scope/utils", version: "1.0.0", tarballPath: "/tmp/utils.tar.gz" });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("already exists");
+    });
+  });
+});
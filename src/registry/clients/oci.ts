@@ -0,0 +1,331 @@
+/**
+ * Generic OCI registry client
+ *
+ * Implementation for any OCI Distribution Spec registry: Harbor, Zot,
+ * Docker Hub, ECR or a self-hosted registry:2. Pull and push go through
+ * the native OCI client, authenticated with a bearer token exchange or
+ * Basic auth depending on the registry challenge.
+ *
+ * Repository naming is configurable with a template:
+ *   {project} - `project` from config (Harbor project, Docker Hub namespace)
+ *   {scope}   - artifact scope without "@"
+ *   {name}    - artifact name, with `prefix-` applied when configured
+ *
+ * Default: "{project}/{name}" when project is set, "{scope}/{name}" otherwise.
+ *
+ * @see https://github.com/opencontainers/distribution-spec/blob/main/spec.md
+ */
+
+import { basename } from "path";
+import {
+  validateTarballContents,
+  generateSecureTempPath,
+  type FileSystem,
+  type HttpClient,
+  type MetadataCache,
+  type TarOperations,
+} from "#/core";
+import type {
+  RegistryClient,
+  ResolvedRegistry,
+  ArtifactDownloadOptions,
+  DownloadResult,
+  PublishResult,
+  ArtifactPublishOptions,
+  DistTagResult,
+  RegistryArtifactInfo,
+  VersionInfo,
+  YankResult,
+  UnpublishOptions,
+  UnpublishResult,
+} from "../registry.types";
+import { hashDirectory, calculateIntegrity } from "#/artifact";
+import { isValidSemver, isDistTag, resolveVersionSpec, LATEST_TAG } from "#/version";
+import { OciClient, OCI_CREATED_ANNOTATION, GREKT_SIGNATURE_ANNOTATION } from "#/oci";
+import { parseArtifactSignature } from "#/security/signing";
+import { validateDistTagChange } from "../dist-tags";
+import { parseVersionTags, setVersionYanked, unpublishVersion, type OciVersionTags } from "./oci-versions";
+
+const PROJECT_TEMPLATE = "{project}/{name}";
+const SCOPE_TEMPLATE = "{scope}/{name}";
+
+export class OciRegistryClient implements RegistryClient {
+  private host: string;
+  private project?: string;
+  private prefix?: string;
+  private repositoryTemplate: string;
+  private fs: FileSystem;
+  private tar: TarOperations;
+  private ociClient: OciClient;
+
+  constructor(
+    registry: ResolvedRegistry,
+    http: HttpClient,
+    fs: FileSystem,
+    tar: TarOperations,
+    metadataCache?: MetadataCache
+  ) {
+    const template = registry.repository ?? (registry.project ? PROJECT_TEMPLATE : SCOPE_TEMPLATE);
+
+    if (!template.includes("{name}")) {
+      throw new Error("OCI registry 'repository' template must include {name}");
+    }
+    if (template.includes("{project}") && !registry.project) {
+      throw new Error("OCI registry 'repository' template uses {project} but no 'project' is configured");
+    }
+
+    this.host = registry.host;
+    this.project = registry.project;
+    this.prefix = registry.prefix;
+    this.repositoryTemplate = template;
+    this.fs = fs;
+    this.tar = tar;
+
+    this.ociClient = new OciClient(
+      { host: this.host, token: registry.token, username: registry.username, tagDeletion: registry.tagDeletion },
+      http,
+      metadataCache
+    );
+  }
+
+  /**
+   * Get OCI repository name for an artifact from the naming template
+   */
+  private getRepositoryName(artifactId: string): string {
+    const match = artifactId.match(/^@([^/]+)\/(.+)$/);
+    const scope = match ? match[1]! : "";
+    const name = match ? match[2]! : artifactId;
+    const packageName = this.prefix ? `${this.prefix}-${name}` : name;
+
+    return this.repositoryTemplate
+      .replaceAll("{project}", this.project ?? "")
+      .replaceAll("{scope}", scope)
+      .replaceAll("{name}", packageName)
+      .replace(/\/{2,}/g, "/")
+      .replace(/^\/|\/$/g, "");
+  }
+
+  async download(artifactId: string, options: ArtifactDownloadOptions): Promise<DownloadResult> {
+    const { version, targetDir } = options;
+
+    try {
+      const repoName = this.getRepositoryName(artifactId);
+
+      // If no version specified, get the latest
+      let resolvedVersion = version;
+      if (!resolvedVersion) {
+        const latest = await this.getLatestVersion(artifactId);
+        if (!latest) {
+          return {
+            success: false,
+            error: `No versions found for artifact: ${artifactId}`,
+            failureReason: "not_found",
+          };
+        }
+        resolvedVersion = latest;
+      }
+
+      const pullResult = await this.ociClient.pullArtifactLayer(repoName, resolvedVersion);
+
+      if (!pullResult.success || !pullResult.data) {
+        return {
+          success: false,
+          error: pullResult.error ?? "Failed to pull artifact",
+          failureReason: pullResult.status === 404 ? "not_found" : pullResult.networkError ? "network" : undefined,
+        };
+      }
+
+      const tempTarball = generateSecureTempPath("oci");
+      this.fs.writeFileBinary(tempTarball, pullResult.data);
+
+      // Validate tarball contents BEFORE extraction (prevents path traversal)
+      const validation = validateTarballContents(this.tar, tempTarball, targetDir, 1);
+      if (!validation.safe) {
+        this.fs.unlink(tempTarball);
+        return {
+          success: false,
+          error: `Unsafe tarball: ${validation.violations.join(", ")}`,
+        };
+      }
+
+      this.fs.mkdir(targetDir, { recursive: true });
+
+      this.tar.extract({
+        tarballPath: tempTarball,
+        targetDir,
+        gzip: true,
+        stripComponents: 1,
+      });
+
+      // Clean up temp file
+      if (this.fs.exists(tempTarball)) {
+        this.fs.unlink(tempTarball);
+      }
+
+      // Calculate integrity after extraction
+      const fileHashes = hashDirectory(this.fs, targetDir, options.hashAlgorithm);
+      const integrity = calculateIntegrity(fileHashes, options.hashAlgorithm);
+
+      return {
+        success: true,
+        version: resolvedVersion,
+        resolved: `oci://${this.host}/${repoName}:${resolvedVersion}`,
+        integrity,
+        fileHashes,
+        signature: parseArtifactSignature(pullResult.annotations?.[GREKT_SIGNATURE_ANNOTATION]),
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      return { success: false, error: `Download failed: ${message}` };
+    }
+  }
+
+  async publish(options: ArtifactPublishOptions): Promise<PublishResult> {
+    const { artifactId, version, tarballPath, signature } = options;
+
+    // Prevent overwriting existing versions
+    const alreadyExists = await this.versionExists(artifactId, version);
+    if (alreadyExists) {
+      return {
+        success: false,
+        error: `Version ${version} already exists for ${artifactId}. Cannot overwrite published versions.`,
+      };
+    }
+
+    try {
+      const repoName = this.getRepositoryName(artifactId);
+      const fullRef = `${this.host}/${repoName}:${version}`;
+
+      const tarball = this.fs.readFileBinary(tarballPath);
+      const pushResult = await this.ociClient.pushArtifact(repoName, version, tarball, {
+        config: { name: artifactId, version },
+        title: basename(tarballPath),
+        annotations: {
+          [OCI_CREATED_ANNOTATION]: new Date().toISOString(),
+          ...(signature && { [GREKT_SIGNATURE_ANNOTATION]: JSON.stringify(signature) }),
+        },
+      });
+
+      if (!pushResult.success) {
+        return {
+          success: false,
+          error: pushResult.error ?? "Failed to push artifact",
+        };
+      }
+
+      return {
+        success: true,
+        url: `oci://${fullRef}`,
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : "Unknown error",
+      };
+    }
+  }
+
+  async getLatestVersion(artifactId: string): Promise<string | null> {
+    const versions = await this.listVersions(artifactId);
+    if (versions.length === 0) return null;
+    return resolveVersionSpec(LATEST_TAG, versions, await this.getDistTags(artifactId));
+  }
+
+  async versionExists(artifactId: string, version: string): Promise<boolean> {
+    const repoName = this.getRepositoryName(artifactId);
+    return this.ociClient.tagExists(repoName, version);
+  }
+
+  async listVersions(artifactId: string): Promise<string[]> {
+    const { versions, yanked } = await this.listVersionTags(artifactId);
+    return versions.filter((v) => !yanked.includes(v));
+  }
+
+  /**
+   * Published versions (semver tags, descending) and the yanked ones, from one tags/list request
+   */
+  private async listVersionTags(artifactId: string): Promise<OciVersionTags> {
+    const result = await this.ociClient.listTags(this.getRepositoryName(artifactId));
+    return result.success && result.tags ? parseVersionTags(result.tags) : { versions: [], yanked: [] };
+  }
+
+  async getArtifactInfo(artifactId: string): Promise<RegistryArtifactInfo | null> {
+    const { versions, yanked } = await this.listVersionTags(artifactId);
+
+    if (versions.length === 0) {
+      return null;
+    }
+
+    const versionInfos: VersionInfo[] = versions.map((version) => ({
+      version,
+      yanked: yanked.includes(version) || undefined,
+    }));
+
+    // Same version an install of "latest" gets
+    const installable = versions.filter((v) => !yanked.includes(v));
+    const latestVersion = resolveVersionSpec(LATEST_TAG, installable, await this.getDistTags(artifactId));
+
+    return {
+      artifactId,
+      latestVersion: latestVersion ?? versions[0] ?? "",
+      versions: versionInfos,
+    };
+  }
+
+  /**
+   * Dist-tags are plain OCI tags that are not versions. The version a tag
+   * points at is read from the config blob written by pushArtifact.
+   */
+  async getDistTags(artifactId: string): Promise<Record<string, string>> {
+    const repoName = this.getRepositoryName(artifactId);
+    const result = await this.ociClient.listTags(repoName);
+    if (!result.success || !result.tags) {
+      return {};
+    }
+
+    const distTags: Record<string, string> = {};
+    for (const tag of result.tags.filter(isDistTag)) {
+      const { config } = await this.ociClient.pullArtifactConfig(repoName, tag);
+      // Tags pushed by other tools have no grekt config: not a dist-tag
+      if (typeof config?.version === "string" && isValidSemver(config.version)) {
+        distTags[tag] = config.version;
+      }
+    }
+    return distTags;
+  }
+
+  async setDistTag(artifactId: string, tag: string, version: string): Promise<DistTagResult> {
+    const invalid = validateDistTagChange(tag, version);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    const repoName = this.getRepositoryName(artifactId);
+    const result = await this.ociClient.tagManifest(repoName, version, tag);
+    return result.success ? { success: true } : { success: false, error: result.error ?? "Failed to tag version" };
+  }
+
+  async removeDistTag(artifactId: string, tag: string): Promise<DistTagResult> {
+    const invalid = validateDistTagChange(tag);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    const result = await this.ociClient.deleteTag(this.getRepositoryName(artifactId), tag);
+    return result.success ? { success: true } : { success: false, error: result.error };
+  }
+
+  async yank(artifactId: string, version: string): Promise<YankResult> {
+    return setVersionYanked(this.ociClient, this.getRepositoryName(artifactId), version, true);
+  }
+
+  async unyank(artifactId: string, version: string): Promise<YankResult> {
+    return setVersionYanked(this.ociClient, this.getRepositoryName(artifactId), version, false);
+  }
+
+  async unpublish(artifactId: string, options: UnpublishOptions): Promise<UnpublishResult> {
+    const distTags = await this.getDistTags(artifactId);
+    return unpublishVersion(this.ociClient, this.getRepositoryName(artifactId), artifactId, options, distTags);
+  }
+
+}
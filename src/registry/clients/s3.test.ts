@@ -0,0 +1,528 @@
+import { describe, test, expect } from "vitest";
+import { S3RegistryClient } from "./s3";
+import { createMockFileSystem, createMockTarOperations } from "#/test-utils/mocks";
+import type { ResolvedRegistry } from "../registry.types";
+import type { HttpClient, TarEntry } from "#/core";
+
+const ENDPOINT = "https://minio.test";
+const BUCKET_URL = `${ENDPOINT}/grekt`;
+const ARTIFACT_URL = `${BUCKET_URL}/%40scope/artifact`;
+const KEYS = { accessKeyId: "AKIA", secretAccessKey: "secret" };
+const SIGNATURE = {
+  algorithm: "ed25519" as const,
+  keyId: "0123456789abcdef",
+  artifactId: "@scope/artifact",
+  version: "1.0.0",
+  integrity: "sha256:00000000000000000000000000000000",
+  signature: "c2lnbmF0dXJl",
+};
+
+interface RecordedRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * In-memory S3 bucket keyed by object URL.
+ * Records every request so tests can assert on methods and signing headers.
+ */
+function createFakeS3(objects: Record<string, string> = {}): HttpClient & {
+  objects: Map<string, Uint8Array>;
+  requests: RecordedRequest[];
+} {
+  const stored = new Map<string, Uint8Array>(
+    Object.entries(objects).map(([url, content]) => [url, new TextEncoder().encode(content)])
+  );
+  const requests: RecordedRequest[] = [];
+
+  return {
+    objects: stored,
+    requests,
+
+    async fetch(url: string, options?: RequestInit): Promise<Response> {
+      const method = options?.method ?? "GET";
+      requests.push({ url, method, headers: (options?.headers ?? {}) as Record<string, string> });
+
+      if (method === "PUT") {
+        stored.set(url, new Uint8Array(options?.body as Uint8Array));
+        return new Response(null, { status: 200 });
+      }
+      if (method === "DELETE") {
+        stored.delete(url);
+        return new Response(null, { status: 204 });
+      }
+
+      const object = stored.get(url);
+      if (!object) {
+        return new Response(null, { status: 404, statusText: "Not Found" });
+      }
+      return new Response(method === "HEAD" ? null : object, { status: 200 });
+    },
+  };
+}
+
+function buildMetadata(overrides: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    name: "@scope/artifact",
+    latest: "1.1.0",
+    versions: ["1.1.0", "1.0.0"],
+    deprecated: {},
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-02-01T00:00:00.000Z",
+    ...overrides,
+  });
+}
+
+describe("S3RegistryClient", () => {
+  const createClient = (
+    objects: Record<string, string> = {},
+    s3: Partial<NonNullable<ResolvedRegistry["s3"]>> = {},
+    files: Record<string, string> = {},
+    tarEntries: TarEntry[] = []
+  ) => {
+    const registry: ResolvedRegistry = {
+      type: "s3",
+      host: "minio.test",
+      s3: {
+        endpoint: ENDPOINT,
+        bucket: "grekt",
+        ...s3,
+      },
+      s3Credentials: KEYS,
+    };
+    const http = createFakeS3(objects);
+    const fs = createMockFileSystem(files);
+    const tar = createMockTarOperations(tarEntries);
+
+    return { client: new S3RegistryClient(registry, http, fs, tar), http, fs, tar };
+  };
+
+  describe("constructor", () => {
+    test("throws when s3 field is missing", () => {
+      const registry: ResolvedRegistry = { type: "s3", host: "s3.amazonaws.com" };
+
+      expect(
+        () => new S3RegistryClient(registry, createFakeS3(), createMockFileSystem(), createMockTarOperations())
+      ).toThrow("S3 registry requires 's3' field in config");
+    });
+  });
+
+  describe("request signing", () => {
+    test("signs requests with SigV4 using the configured region", async () => {
+      const { client, http } = createClient({}, { region: "auto" });
+
+      await client.listVersions("@scope/artifact");
+
+      const request = http.requests[0]!;
+      expect(request.url).toBe(`${ARTIFACT_URL}/metadata.json`);
+      expect(request.headers.Authorization).toMatch(
+        /^AWS4-HMAC-SHA256 Credential=AKIA\/\d{8}\/auto\/s3\/aws4_request, SignedHeaders=host;x-amz-content-sha256;x-amz-date, Signature=[0-9a-f]{64}$/
+      );
+    });
+
+    test("installs from publicUrl without access keys", async () => {
+      const registry: ResolvedRegistry = {
+        type: "s3",
+        host: "minio.test",
+        s3: { endpoint: ENDPOINT, bucket: "grekt", publicUrl: "https://cdn.test" },
+      };
+      const http = createFakeS3({
+        "https://cdn.test/%40scope/artifact/metadata.json": buildMetadata(),
+        "https://cdn.test/%40scope/artifact/1.1.0.tar.gz": "tarball",
+        "https://cdn.test/%40scope/artifact/1.1.0.sig.json": JSON.stringify({ ...SIGNATURE, version: "1.1.0" }),
+      });
+      const client = new S3RegistryClient(registry, http, createMockFileSystem(), createMockTarOperations());
+
+      const result = await client.download("@scope/artifact", { targetDir: "/project/.grekt/artifacts/@scope/artifact" });
+
+      expect(result.success).toBe(true);
+      expect(result.version).toBe("1.1.0");
+      expect(result.signature?.version).toBe("1.1.0");
+      expect(http.requests.every((r) => r.url.startsWith("https://cdn.test/") && !r.headers.Authorization)).toBe(true);
+    });
+
+    test("requires access keys to publish", async () => {
+      const registry: ResolvedRegistry = {
+        type: "s3",
+        host: "minio.test",
+        s3: { endpoint: ENDPOINT, bucket: "grekt", publicUrl: "https://cdn.test" },
+      };
+      const http = createFakeS3();
+      const client = new S3RegistryClient(
+        registry,
+        http,
+        createMockFileSystem({ "/tmp/artifact.tar.gz": "tarball" }),
+        createMockTarOperations()
+      );
+
+      const result = await client.publish({
+        artifactId: "@scope/artifact",
+        version: "1.0.0",
+        tarballPath: "/tmp/artifact.tar.gz",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("No S3 credentials for bucket grekt");
+      expect(http.requests.some((r) => r.method === "PUT")).toBe(false);
+    });
+
+    test("defaults region to us-east-1", async () => {
+      const { client, http } = createClient();
+
+      await client.listVersions("@scope/artifact");
+
+      expect(http.requests[0]!.headers.Authorization).toContain("/us-east-1/s3/aws4_request");
+    });
+  });
+
+  describe("listVersions", () => {
+    test("returns versions from metadata sorted descending", async () => {
+      const { client } = createClient({
+        [`${ARTIFACT_URL}/metadata.json`]: buildMetadata({ versions: ["1.0.0", "1.10.0", "1.2.0"] }),
+      });
+
+      expect(await client.listVersions("@scope/artifact")).toEqual(["1.10.0", "1.2.0", "1.0.0"]);
+    });
+
+    test("returns empty list for unknown artifact", async () => {
+      const { client } = createClient();
+
+      expect(await client.listVersions("@scope/missing")).toEqual([]);
+    });
+
+    test("applies prefix to object keys", async () => {
+      const client = new S3RegistryClient(
+        {
+          type: "s3",
+          host: "minio.test",
+          prefix: "frontend",
+          s3: { endpoint: ENDPOINT, bucket: "grekt" },
+          s3Credentials: KEYS,
+        },
+        createFakeS3({ [`${BUCKET_URL}/%40scope/frontend-artifact/metadata.json`]: buildMetadata() }),
+        createMockFileSystem(),
+        createMockTarOperations()
+      );
+
+      expect(await client.listVersions("@scope/artifact")).toEqual(["1.1.0", "1.0.0"]);
+    });
+  });
+
+  describe("versionExists", () => {
+    test("checks tarball object with HEAD", async () => {
+      const { client, http } = createClient({ [`${ARTIFACT_URL}/1.0.0.tar.gz`]: "tarball" });
+
+      expect(await client.versionExists("@scope/artifact", "1.0.0")).toBe(true);
+      expect(await client.versionExists("@scope/artifact", "2.0.0")).toBe(false);
+      expect(http.requests.every((r) => r.method === "HEAD")).toBe(true);
+    });
+
+    test("throws on errors other than a missing object", async () => {
+      const { client, http } = createClient();
+      http.fetch = async () => new Response(null, { status: 403, statusText: "Forbidden" });
+
+      await expect(client.versionExists("@scope/artifact", "1.0.0")).rejects.toThrow("S3 returned 403");
+    });
+  });
+
+  describe("download", () => {
+    test("extracts requested version and returns object URL", async () => {
+      const { client, tar } = createClient({
+        [`${ARTIFACT_URL}/metadata.json`]: buildMetadata(),
+        [`${ARTIFACT_URL}/1.0.0.tar.gz`]: "tarball",
+      });
+
+      const result = await client.download("@scope/artifact", { version: "1.0.0", targetDir: "/target" });
+
+      expect(result.success).toBe(true);
+      expect(result.version).toBe("1.0.0");
+      expect(result.resolved).toBe(`${ARTIFACT_URL}/1.0.0.tar.gz`);
+      expect(tar.calls.find((c) => c.operation === "extract")?.options).toMatchObject({
+        targetDir: "/target",
+        stripComponents: 1,
+      });
+    });
+
+    test("returns the publisher signature stored next to the tarball", async () => {
+      const { client } = createClient({
+        [`${ARTIFACT_URL}/metadata.json`]: buildMetadata(),
+        [`${ARTIFACT_URL}/1.0.0.tar.gz`]: "tarball",
+        [`${ARTIFACT_URL}/1.0.0.sig.json`]: JSON.stringify(SIGNATURE),
+      });
+
+      const signed = await client.download("@scope/artifact", { version: "1.0.0", targetDir: "/target" });
+      expect(signed.signature).toEqual(SIGNATURE);
+
+      const unsigned = await client.download("@scope/artifact", { version: "1.1.0", targetDir: "/target" });
+      expect(unsigned.signature).toBeUndefined();
+    });
+
+    test("resolves latest version when not specified", async () => {
+      const { client } = createClient({
+        [`${ARTIFACT_URL}/metadata.json`]: buildMetadata(),
+        [`${ARTIFACT_URL}/1.1.0.tar.gz`]: "tarball",
+      });
+
+      const result = await client.download("@scope/artifact", { targetDir: "/target" });
+
+      expect(result.version).toBe("1.1.0");
+    });
+
+    test("downloads unsigned from publicUrl when configured", async () => {
+      const { client, http } = createClient(
+        {
+          [`${ARTIFACT_URL}/metadata.json`]: buildMetadata(),
+          "https://cdn.test/%40scope/artifact/1.0.0.tar.gz": "tarball",
+        },
+        { publicUrl: "https://cdn.test" }
+      );
+
+      const result = await client.download("@scope/artifact", { version: "1.0.0", targetDir: "/target" });
+
+      expect(result.success).toBe(true);
+      expect(result.resolved).toBe("https://cdn.test/%40scope/artifact/1.0.0.tar.gz");
+      const tarballRequest = http.requests.find((r) => r.url.startsWith("https://cdn.test"));
+      expect(tarballRequest?.headers.Authorization).toBeUndefined();
+    });
+
+    test("returns deprecation message from metadata", async () => {
+      const { client } = createClient({
+        [`${ARTIFACT_URL}/metadata.json`]: buildMetadata({ deprecated: { "1.0.0": "Use 1.1.0" } }),
+        [`${ARTIFACT_URL}/1.0.0.tar.gz`]: "tarball",
+      });
+
+      const result = await client.download("@scope/artifact", { version: "1.0.0", targetDir: "/target" });
+
+      expect(result.deprecationMessage).toBe("Use 1.1.0");
+    });
+
+    test("fails when version object is missing", async () => {
+      const { client } = createClient({ [`${ARTIFACT_URL}/metadata.json`]: buildMetadata() });
+
+      const result = await client.download("@scope/artifact", { version: "1.0.0", targetDir: "/target" });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Version 1.0.0 not found for @scope/artifact");
+    });
+
+    test("rejects unsafe tarballs before extraction", async () => {
+      const { client, tar } = createClient(
+        { [`${ARTIFACT_URL}/1.0.0.tar.gz`]: "tarball" },
+        {},
+        {},
+        [{ path: "package/../../etc/passwd", type: "file" }]
+      );
+
+      const result = await client.download("@scope/artifact", { version: "1.0.0", targetDir: "/target" });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("Unsafe tarball");
+      expect(tar.calls.some((c) => c.operation === "extract")).toBe(false);
+    });
+  });
+
+  describe("publish", () => {
+    test("uploads tarball and creates metadata", async () => {
+      const { client, http } = createClient({}, {}, { "/tmp/artifact.tar.gz": "tarball" });
+
+      const result = await client.publish({
+        artifactId: "@scope/artifact",
+        version: "1.0.0",
+        tarballPath: "/tmp/artifact.tar.gz",
+      });
+
+      expect(result).toEqual({ success: true, url: `${ARTIFACT_URL}/1.0.0.tar.gz` });
+      expect(new TextDecoder().decode(http.objects.get(`${ARTIFACT_URL}/1.0.0.tar.gz`))).toBe("tarball");
+
+      const metadata = JSON.parse(new TextDecoder().decode(http.objects.get(`${ARTIFACT_URL}/metadata.json`)));
+      expect(metadata).toMatchObject({ name: "@scope/artifact", latest: "1.0.0", versions: ["1.0.0"], deprecated: {} });
+
+      const put = http.requests.find((r) => r.method === "PUT" && r.url.endsWith(".tar.gz"));
+      expect(put?.headers["Content-Type"]).toBe("application/gzip");
+      expect(put?.headers.Authorization).toContain("AWS4-HMAC-SHA256");
+    });
+
+    test("updates existing metadata and keeps createdAt", async () => {
+      const { client, http } = createClient(
+        { [`${ARTIFACT_URL}/metadata.json`]: buildMetadata({ deprecated: { "1.0.0": "old" } }) },
+        {},
+        { "/tmp/artifact.tar.gz": "tarball" }
+      );
+
+      await client.publish({ artifactId: "@scope/artifact", version: "2.0.0", tarballPath: "/tmp/artifact.tar.gz" });
+
+      const metadata = JSON.parse(new TextDecoder().decode(http.objects.get(`${ARTIFACT_URL}/metadata.json`)));
+      expect(metadata.latest).toBe("2.0.0");
+      expect(metadata.versions).toEqual(["2.0.0", "1.1.0", "1.0.0"]);
+      expect(metadata.deprecated).toEqual({ "1.0.0": "old" });
+      expect(metadata.createdAt).toBe("2024-01-01T00:00:00.000Z");
+    });
+
+    test("uploads the publisher signature before the tarball", async () => {
+      const { client, http } = createClient({}, {}, { "/tmp/artifact.tar.gz": "tarball" });
+
+      await client.publish({
+        artifactId: "@scope/artifact",
+        version: "1.0.0",
+        tarballPath: "/tmp/artifact.tar.gz",
+        signature: SIGNATURE,
+      });
+
+      expect(JSON.parse(new TextDecoder().decode(http.objects.get(`${ARTIFACT_URL}/1.0.0.sig.json`)))).toEqual(SIGNATURE);
+      const puts = http.requests.filter((r) => r.method === "PUT").map((r) => r.url);
+      expect(puts.slice(0, 2)).toEqual([`${ARTIFACT_URL}/1.0.0.sig.json`, `${ARTIFACT_URL}/1.0.0.tar.gz`]);
+    });
+
+    test("refuses to overwrite an existing version", async () => {
+      const { client } = createClient(
+        { [`${ARTIFACT_URL}/1.0.0.tar.gz`]: "existing" },
+        {},
+        { "/tmp/artifact.tar.gz": "tarball" }
+      );
+
+      const result = await client.publish({
+        artifactId: "@scope/artifact",
+        version: "1.0.0",
+        tarballPath: "/tmp/artifact.tar.gz",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("already exists");
+    });
+
+    test("aborts when the existing version check fails", async () => {
+      const { client, http } = createClient({}, {}, { "/tmp/artifact.tar.gz": "tarball" });
+      const fetch = http.fetch.bind(http);
+      http.fetch = async (url, options) =>
+        options?.method === "HEAD" ? new Response(null, { status: 503, statusText: "Slow Down" }) : fetch(url, options);
+
+      const result = await client.publish({
+        artifactId: "@scope/artifact",
+        version: "1.0.0",
+        tarballPath: "/tmp/artifact.tar.gz",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("S3 returned 503");
+      expect(http.requests.some((r) => r.method === "PUT")).toBe(false);
+    });
+  });
+
+  describe("getArtifactInfo", () => {
+    test("returns versions with deprecation and timestamps", async () => {
+      const { client } = createClient({
+        [`${ARTIFACT_URL}/metadata.json`]: buildMetadata({ deprecated: { "1.0.0": "Broken" } }),
+      });
+
+      const info = await client.getArtifactInfo("@scope/artifact");
+
+      expect(info).toEqual({
+        artifactId: "@scope/artifact",
+        latestVersion: "1.1.0",
+        versions: [
+          { version: "1.1.0", deprecated: undefined },
+          { version: "1.0.0", deprecated: "Broken" },
+        ],
+        createdAt: "2024-01-01T00:00:00.000Z",
+        updatedAt: "2024-02-01T00:00:00.000Z",
+      });
+    });
+
+    test("returns null for unknown artifact", async () => {
+      const { client } = createClient();
+
+      expect(await client.getArtifactInfo("@scope/missing")).toBeNull();
+    });
+  });
+
+  describe("yank", () => {
+    test("records the yank in metadata and hides the version from listings", async () => {
+      const { client, http } = createClient({ [`${ARTIFACT_URL}/metadata.json`]: buildMetadata() });
+
+      expect(await client.yank("@scope/artifact", "1.1.0")).toEqual({ success: true });
+
+      const metadata = JSON.parse(new TextDecoder().decode(http.objects.get(`${ARTIFACT_URL}/metadata.json`)));
+      expect(metadata).toMatchObject({ latest: "1.0.0", yanked: ["1.1.0"] });
+      expect(await client.listVersions("@scope/artifact")).toEqual(["1.0.0"]);
+      expect((await client.getArtifactInfo("@scope/artifact"))?.versions[0]).toEqual({ version: "1.1.0", yanked: true });
+    });
+
+    test("fails for unknown versions", async () => {
+      const { client } = createClient({ [`${ARTIFACT_URL}/metadata.json`]: buildMetadata() });
+
+      const result = await client.unyank("@scope/artifact", "9.0.0");
+
+      expect(result).toEqual({ success: false, error: "Version 9.0.0 not found for @scope/artifact" });
+    });
+  });
+
+  describe("dist-tags", () => {
+    test("stores dist-tags in metadata.json and installs what latest points at", async () => {
+      const { client, http } = createClient({
+        [`${ARTIFACT_URL}/metadata.json`]: buildMetadata(),
+        [`${ARTIFACT_URL}/1.0.0.tar.gz`]: "tarball",
+      });
+
+      expect(await client.setDistTag("@scope/artifact", "latest", "1.0.0")).toEqual({ success: true });
+
+      const metadata = JSON.parse(new TextDecoder().decode(http.objects.get(`${ARTIFACT_URL}/metadata.json`)));
+      expect(metadata).toMatchObject({ latest: "1.0.0", distTags: { latest: "1.0.0" } });
+      expect(await client.getDistTags("@scope/artifact")).toEqual({ latest: "1.0.0" });
+      expect(await client.getLatestVersion("@scope/artifact")).toBe("1.0.0");
+      expect((await client.download("@scope/artifact", { targetDir: "/target" })).version).toBe("1.0.0");
+    });
+
+    test("removes dist-tags", async () => {
+      const { client } = createClient({ [`${ARTIFACT_URL}/metadata.json`]: buildMetadata({ distTags: { beta: "1.1.0" } }) });
+
+      expect(await client.removeDistTag("@scope/artifact", "beta")).toEqual({ success: true });
+      expect(await client.getDistTags("@scope/artifact")).toEqual({});
+      expect((await client.removeDistTag("@scope/artifact", "beta")).error).toBe(
+        "Dist-tag beta is not set for @scope/artifact"
+      );
+    });
+
+    test("refuses unknown versions", async () => {
+      const { client } = createClient({ [`${ARTIFACT_URL}/metadata.json`]: buildMetadata() });
+
+      expect(await client.setDistTag("@scope/artifact", "next", "9.0.0")).toEqual({
+        success: false,
+        error: "Version 9.0.0 not found for @scope/artifact",
+      });
+    });
+  });
+
+  describe("unpublish", () => {
+    test("deletes the tarball and signature of a recently published version", async () => {
+      const { client, http } = createClient({}, {}, { "/tmp/artifact.tar.gz": "tarball" });
+      await client.publish({
+        artifactId: "@scope/artifact",
+        version: "1.0.0",
+        tarballPath: "/tmp/artifact.tar.gz",
+        signature: SIGNATURE,
+      });
+
+      const result = await client.unpublish("@scope/artifact", { version: "1.0.0" });
+
+      expect(result).toEqual({ success: true });
+      expect(http.objects.has(`${ARTIFACT_URL}/1.0.0.tar.gz`)).toBe(false);
+      expect(http.objects.has(`${ARTIFACT_URL}/1.0.0.sig.json`)).toBe(false);
+      const metadata = JSON.parse(new TextDecoder().decode(http.objects.get(`${ARTIFACT_URL}/metadata.json`)));
+      expect(metadata.versions).toEqual([]);
+    });
+
+    test("refuses versions published before the window", async () => {
+      const { client, http } = createClient({
+        [`${ARTIFACT_URL}/metadata.json`]: buildMetadata({ publishedAt: { "1.0.0": "2024-01-01T00:00:00.000Z" } }),
+        [`${ARTIFACT_URL}/1.0.0.tar.gz`]: "tarball",
+      });
+
+      const result = await client.unpublish("@scope/artifact", { version: "1.0.0" });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("published more than 72 hours ago");
+      expect(http.requests.some((r) => r.method === "DELETE")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,599 @@
+/**
+ * S3-compatible registry client
+ *
+ * Implementation for self-hosted registries on AWS S3, MinIO or Cloudflare R2.
+ * Requests are signed with SigV4 and sent through the injected HttpClient
+ * (path-style URLs: <endpoint>/<bucket>/<key>).
+ *
+ * Layout (same as the local registry):
+ *   <bucket>/@scope/name/metadata.json   (ArtifactMetadataSchema)
+ *   <bucket>/@scope/name/1.0.0.tar.gz
+ *   <bucket>/@scope/name/1.0.0.sig.json  (publisher signature, signed versions only)
+ *
+ * When publicUrl is set, tarballs are downloaded unsigned from it (CDN / public bucket),
+ * and so is everything else a consumer without access keys reads: installs only need
+ * keys for private buckets, publish, yank and unpublish always do.
+ * Access keys come from the TokenProvider (credentials store), not from the registry entry.
+ * Dist-tags, yanked versions and publish times are recorded in metadata.json.
+ */
+
+import {
+  validateTarballContents,
+  generateSecureTempPath,
+  isNetworkError,
+  type FileSystem,
+  type HttpClient,
+  type S3AccessKeys,
+  type TarOperations,
+} from "#/core";
+import type {
+  RegistryClient,
+  ResolvedRegistry,
+  ArtifactDownloadOptions,
+  ArtifactPublishOptions,
+  DownloadResult,
+  PublishResult,
+  DistTagResult,
+  RegistryArtifactInfo,
+  VersionInfo,
+  YankResult,
+  UnpublishOptions,
+  UnpublishResult,
+} from "../registry.types";
+import { ArtifactMetadataSchema, type ArtifactMetadata, type S3RegistryConfig } from "#/schemas";
+import { hashDirectory, calculateIntegrity } from "#/artifact";
+import { sortVersionsDesc, resolveVersionSpec, LATEST_TAG } from "#/version";
+import { parseArtifactSignature } from "#/security/signing";
+import { validateDistTagChange } from "../dist-tags";
+import { checkUnpublishAllowed } from "../unpublish";
+import { signS3Request, encodeRfc3986 } from "./s3-signer";
+
+const METADATA_FILENAME = "metadata.json";
+const TARBALL_EXTENSION = ".tar.gz";
+const SIGNATURE_EXTENSION = ".sig.json";
+const DEFAULT_REGION = "us-east-1";
+
+export class S3RegistryClient implements RegistryClient {
+  private config: S3RegistryConfig;
+  private credentials?: S3AccessKeys;
+  private prefix?: string;
+  private http: HttpClient;
+  private fs: FileSystem;
+  private tar: TarOperations;
+
+  constructor(registry: ResolvedRegistry, http: HttpClient, fs: FileSystem, tar: TarOperations) {
+    if (!registry.s3) {
+      throw new Error("S3 registry requires 's3' field in config (endpoint, bucket)");
+    }
+
+    this.config = registry.s3;
+    this.credentials = registry.s3Credentials;
+    this.prefix = registry.prefix;
+    this.http = http;
+    this.fs = fs;
+    this.tar = tar;
+  }
+
+  /**
+   * Get the object key prefix holding all versions of an artifact
+   */
+  private getArtifactKey(artifactId: string): string {
+    const match = artifactId.match(/^(@[^/]+)\/(.+)$/);
+    const scope = match ? match[1]! : "";
+    const name = match ? match[2]! : artifactId;
+    const packageName = this.prefix ? `${this.prefix}-${name}` : name;
+
+    return scope ? `${scope}/${packageName}` : packageName;
+  }
+
+  private getTarballKey(artifactId: string, version: string): string {
+    return `${this.getArtifactKey(artifactId)}/${version}${TARBALL_EXTENSION}`;
+  }
+
+  private getSignatureKey(artifactId: string, version: string): string {
+    return `${this.getArtifactKey(artifactId)}/${version}${SIGNATURE_EXTENSION}`;
+  }
+
+  private getMetadataKey(artifactId: string): string {
+    return `${this.getArtifactKey(artifactId)}/${METADATA_FILENAME}`;
+  }
+
+  /**
+   * Path-style object URL, each key segment encoded once
+   */
+  private getObjectUrl(key: string): string {
+    const endpoint = this.config.endpoint.replace(/\/+$/, "");
+    const encodedKey = key.split("/").map(encodeRfc3986).join("/");
+    return `${endpoint}/${encodeRfc3986(this.config.bucket)}/${encodedKey}`;
+  }
+
+  /**
+   * Public URL for an object, or the endpoint URL when no publicUrl is configured
+   */
+  private getPublicUrl(key: string): string {
+    if (!this.config.publicUrl) {
+      return this.getObjectUrl(key);
+    }
+    const base = this.config.publicUrl.replace(/\/+$/, "");
+    return `${base}/${key.split("/").map(encodeRfc3986).join("/")}`;
+  }
+
+  private signedFetch(
+    method: string,
+    key: string,
+    options: { body?: Uint8Array<ArrayBuffer>; headers?: Record<string, string> } = {}
+  ): Promise<Response> {
+    if (!this.credentials) {
+      throw new Error(
+        `No S3 credentials for bucket ${this.config.bucket}. Add its access keys to the credentials store (they are not read from .grekt/config.yaml)`
+      );
+    }
+
+    const url = this.getObjectUrl(key);
+    const headers = signS3Request(
+      { method, url, headers: options.headers, body: options.body, date: new Date() },
+      {
+        ...this.credentials,
+        region: this.config.region ?? DEFAULT_REGION,
+      }
+    );
+
+    return this.http.fetch(url, { method, headers, body: options.body });
+  }
+
+  /**
+   * Read an object, unsigned from publicUrl when there are no access keys
+   */
+  private readObject(key: string, method: "GET" | "HEAD" = "GET"): Promise<Response> {
+    if (!this.credentials && this.config.publicUrl) {
+      return this.http.fetch(this.getPublicUrl(key), { method });
+    }
+    return this.signedFetch(method, key);
+  }
+
+  /**
+   * Fetch metadata.json for an artifact.
+   * Returns null when the artifact does not exist or metadata is invalid.
+   * Throws on access errors so callers can surface them.
+   */
+  private async readMetadata(artifactId: string): Promise<ArtifactMetadata | null> {
+    const response = await this.readObject(this.getMetadataKey(artifactId));
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`S3 returned ${response.status} reading metadata for ${artifactId}`);
+    }
+
+    try {
+      const result = ArtifactMetadataSchema.safeParse(await response.json());
+      return result.success ? result.data : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async writeMetadata(artifactId: string, metadata: ArtifactMetadata): Promise<void> {
+    const body = new TextEncoder().encode(`${JSON.stringify(metadata, null, 2)}\n`);
+    const response = await this.signedFetch("PUT", this.getMetadataKey(artifactId), {
+      body,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-cache", // metadata changes on every publish
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to write metadata: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  private getMetadataVersions(metadata: ArtifactMetadata | null): string[] {
+    if (!metadata) {
+      return [];
+    }
+    return metadata.versions ?? [metadata.latest];
+  }
+
+  /**
+   * Versions that ranges and latest may resolve to (yanked versions left out)
+   */
+  private getInstallableVersions(metadata: ArtifactMetadata | null): string[] {
+    const yanked = metadata?.yanked ?? [];
+    return this.getMetadataVersions(metadata).filter((v) => !yanked.includes(v));
+  }
+
+  /**
+   * Version latest installs: the latest dist-tag, else the highest stable installable version
+   */
+  private getLatest(metadata: ArtifactMetadata | null): string | null {
+    return resolveVersionSpec(LATEST_TAG, this.getInstallableVersions(metadata), metadata?.distTags);
+  }
+
+  /**
+   * Write metadata for a new version list, keeping per-version fields of remaining versions
+   * (dist-tags of removed versions are dropped)
+   */
+  private async updateMetadata(
+    artifactId: string,
+    existing: ArtifactMetadata | null,
+    versions: string[],
+    changes: Partial<Pick<ArtifactMetadata, "distTags" | "yanked" | "publishedAt" | "deprecated">> = {}
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const yanked = (changes.yanked ?? existing?.yanked ?? []).filter((v) => versions.includes(v));
+    const distTags = Object.fromEntries(
+      Object.entries(changes.distTags ?? existing?.distTags ?? {}).filter(([, v]) => versions.includes(v))
+    );
+    const installable = versions.filter((v) => !yanked.includes(v));
+
+    await this.writeMetadata(artifactId, {
+      name: artifactId,
+      latest: resolveVersionSpec(LATEST_TAG, installable, distTags) ?? versions[0] ?? "",
+      versions,
+      distTags,
+      deprecated: changes.deprecated ?? existing?.deprecated ?? {},
+      yanked,
+      publishedAt: changes.publishedAt ?? existing?.publishedAt ?? {},
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    });
+  }
+
+  private fetchTarball(key: string): Promise<Response> {
+    if (this.config.publicUrl) {
+      return this.http.fetch(this.getPublicUrl(key));
+    }
+    return this.signedFetch("GET", key);
+  }
+
+  /**
+   * Fetch the publisher signature of a version. Unsigned versions have no signature object.
+   */
+  private async fetchSignature(artifactId: string, version: string): Promise<DownloadResult["signature"]> {
+    try {
+      const response = await this.fetchTarball(this.getSignatureKey(artifactId, version));
+      return response.ok ? parseArtifactSignature(await response.text()) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async download(artifactId: string, options: ArtifactDownloadOptions): Promise<DownloadResult> {
+    const { version, targetDir } = options;
+
+    try {
+      const metadata = await this.readMetadata(artifactId);
+
+      let resolvedVersion = version;
+      if (!resolvedVersion) {
+        resolvedVersion = this.getLatest(metadata) ?? undefined;
+        if (!resolvedVersion) {
+          return { success: false, error: `No versions found for artifact: ${artifactId}`, failureReason: "not_found" };
+        }
+      }
+
+      const tarballKey = this.getTarballKey(artifactId, resolvedVersion);
+      const response = await this.fetchTarball(tarballKey);
+
+      if (response.status === 404) {
+        return {
+          success: false,
+          error: `Version ${resolvedVersion} not found for ${artifactId}`,
+          failureReason: "not_found",
+        };
+      }
+      if (!response.ok) {
+        return {
+          success: false,
+          error: `Failed to download tarball: ${response.status} ${response.statusText}`,
+        };
+      }
+
+      const buffer = await response.arrayBuffer();
+      const tempTarball = generateSecureTempPath("s3");
+      this.fs.writeFileBinary(tempTarball, Buffer.from(buffer));
+
+      // Validate tarball contents BEFORE extraction (prevents path traversal)
+      const validation = validateTarballContents(this.tar, tempTarball, targetDir, 1);
+      if (!validation.safe) {
+        this.fs.unlink(tempTarball);
+        return {
+          success: false,
+          error: `Unsafe tarball: ${validation.violations.join(", ")}`,
+        };
+      }
+
+      this.fs.mkdir(targetDir, { recursive: true });
+
+      this.tar.extract({
+        tarballPath: tempTarball,
+        targetDir,
+        gzip: true,
+        stripComponents: 1,
+      });
+
+      // Clean up temp file
+      if (this.fs.exists(tempTarball)) {
+        this.fs.unlink(tempTarball);
+      }
+
+      // Calculate integrity after extraction
+      const fileHashes = hashDirectory(this.fs, targetDir, options.hashAlgorithm);
+      const integrity = calculateIntegrity(fileHashes, options.hashAlgorithm);
+
+      return {
+        success: true,
+        version: resolvedVersion,
+        resolved: this.getPublicUrl(tarballKey),
+        deprecationMessage: metadata?.deprecated[resolvedVersion],
+        integrity,
+        fileHashes,
+        signature: await this.fetchSignature(artifactId, resolvedVersion),
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      return {
+        success: false,
+        error: `Download failed: ${message}`,
+        failureReason: isNetworkError(err) ? "network" : undefined,
+      };
+    }
+  }
+
+  async publish(options: ArtifactPublishOptions): Promise<PublishResult> {
+    const { artifactId, version, tarballPath, signature } = options;
+
+    try {
+      // Prevent overwriting existing versions (a failed check aborts the publish)
+      const alreadyExists = await this.versionExists(artifactId, version);
+      if (alreadyExists) {
+        return {
+          success: false,
+          error: `Version ${version} already exists for ${artifactId}. Cannot overwrite published versions.`,
+        };
+      }
+
+      // Signature first: a version never shows up unsigned when it was signed
+      if (signature) {
+        const signatureResponse = await this.signedFetch("PUT", this.getSignatureKey(artifactId, version), {
+          body: new TextEncoder().encode(JSON.stringify(signature)),
+          headers: { "Content-Type": "application/json" },
+        });
+        if (!signatureResponse.ok) {
+          return {
+            success: false,
+            error: `Failed to upload signature: ${signatureResponse.status} ${signatureResponse.statusText}`,
+          };
+        }
+      }
+
+      const tarballKey = this.getTarballKey(artifactId, version);
+      const body = new Uint8Array(this.fs.readFileBinary(tarballPath));
+
+      const response = await this.signedFetch("PUT", tarballKey, {
+        body,
+        headers: { "Content-Type": "application/gzip" },
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        return {
+          success: false,
+          error: `Failed to upload tarball: ${response.status} ${errorText}`,
+        };
+      }
+
+      const existing = await this.readMetadata(artifactId);
+      const versions = sortVersionsDesc([...new Set([...this.getMetadataVersions(existing), version])]);
+
+      await this.updateMetadata(artifactId, existing, versions, {
+        publishedAt: { ...existing?.publishedAt, [version]: new Date().toISOString() },
+      });
+
+      return {
+        success: true,
+        url: this.getPublicUrl(tarballKey),
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : "Unknown error",
+      };
+    }
+  }
+
+  async getLatestVersion(artifactId: string): Promise<string | null> {
+    try {
+      return this.getLatest(await this.readMetadata(artifactId));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Throws on errors other than a missing object, so publish never takes a
+   * failed check (network, auth) for a free version
+   */
+  async versionExists(artifactId: string, version: string): Promise<boolean> {
+    const response = await this.readObject(this.getTarballKey(artifactId, version), "HEAD");
+    if (response.status === 404) {
+      return false;
+    }
+    if (!response.ok) {
+      throw new Error(`S3 returned ${response.status} checking ${artifactId}@${version}`);
+    }
+    return true;
+  }
+
+  async listVersions(artifactId: string): Promise<string[]> {
+    try {
+      const metadata = await this.readMetadata(artifactId);
+      return sortVersionsDesc(this.getInstallableVersions(metadata));
+    } catch {
+      return [];
+    }
+  }
+
+  async getArtifactInfo(artifactId: string): Promise<RegistryArtifactInfo | null> {
+    let metadata: ArtifactMetadata | null;
+    try {
+      metadata = await this.readMetadata(artifactId);
+    } catch {
+      return null;
+    }
+
+    const versions = sortVersionsDesc(this.getMetadataVersions(metadata));
+    if (!metadata || versions.length === 0) {
+      return null;
+    }
+
+    const versionInfos: VersionInfo[] = versions.map((version) => ({
+      version,
+      deprecated: metadata.deprecated[version],
+      yanked: metadata.yanked.includes(version) || undefined,
+      publishedAt: metadata.publishedAt[version],
+    }));
+
+    return {
+      artifactId,
+      latestVersion: this.getLatest(metadata) ?? versions[0] ?? "",
+      versions: versionInfos,
+      createdAt: metadata.createdAt,
+      updatedAt: metadata.updatedAt,
+    };
+  }
+
+  async getDistTags(artifactId: string): Promise<Record<string, string>> {
+    try {
+      return (await this.readMetadata(artifactId))?.distTags ?? {};
+    } catch {
+      return {};
+    }
+  }
+
+  async setDistTag(artifactId: string, tag: string, version: string): Promise<DistTagResult> {
+    const invalid = validateDistTagChange(tag, version);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    return this.writeDistTags(artifactId, version, (distTags) => ({ ...distTags, [tag]: version }));
+  }
+
+  async removeDistTag(artifactId: string, tag: string): Promise<DistTagResult> {
+    const invalid = validateDistTagChange(tag);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    return this.writeDistTags(artifactId, undefined, (distTags) => {
+      const { [tag]: removed, ...rest } = distTags;
+      if (removed === undefined) {
+        throw new Error(`Dist-tag ${tag} is not set for ${artifactId}`);
+      }
+      return rest;
+    });
+  }
+
+  /**
+   * @param version - Version the change points a tag at, which must be published
+   */
+  private async writeDistTags(
+    artifactId: string,
+    version: string | undefined,
+    change: (distTags: Record<string, string>) => Record<string, string>
+  ): Promise<DistTagResult> {
+    try {
+      const existing = await this.readMetadata(artifactId);
+      const versions = this.getMetadataVersions(existing);
+      if (version !== undefined && !versions.includes(version)) {
+        return { success: false, error: `Version ${version} not found for ${artifactId}` };
+      }
+
+      await this.updateMetadata(artifactId, existing, sortVersionsDesc(versions), {
+        distTags: change(existing?.distTags ?? {}),
+      });
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : "Unknown error" };
+    }
+  }
+
+  async yank(artifactId: string, version: string): Promise<YankResult> {
+    return this.setYanked(artifactId, version, true);
+  }
+
+  async unyank(artifactId: string, version: string): Promise<YankResult> {
+    return this.setYanked(artifactId, version, false);
+  }
+
+  private async setYanked(artifactId: string, version: string, yank: boolean): Promise<YankResult> {
+    try {
+      const existing = await this.readMetadata(artifactId);
+      const versions = this.getMetadataVersions(existing);
+      if (!versions.includes(version)) {
+        return { success: false, error: `Version ${version} not found for ${artifactId}` };
+      }
+
+      const yanked = (existing?.yanked ?? []).filter((v) => v !== version);
+      await this.updateMetadata(artifactId, existing, sortVersionsDesc(versions), {
+        yanked: yank ? [...yanked, version] : yanked,
+      });
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : "Unknown error" };
+    }
+  }
+
+  async unpublish(artifactId: string, options: UnpublishOptions): Promise<UnpublishResult> {
+    const { version } = options;
+
+    try {
+      const existing = await this.readMetadata(artifactId);
+      const versions = this.getMetadataVersions(existing);
+      if (!versions.includes(version)) {
+        return { success: false, error: `Version ${version} not found for ${artifactId}` };
+      }
+
+      const blocked = checkUnpublishAllowed(options, {
+        artifactId,
+        publishedAt: existing?.publishedAt[version],
+        distTags: existing?.distTags,
+      });
+      if (blocked) {
+        return { success: false, error: blocked };
+      }
+
+      const response = await this.signedFetch("DELETE", this.getTarballKey(artifactId, version));
+      if (!response.ok && response.status !== 404) {
+        return { success: false, error: `Failed to delete tarball: ${response.status} ${response.statusText}` };
+      }
+
+      // Unsigned versions have no signature object (404)
+      const signatureResponse = await this.signedFetch("DELETE", this.getSignatureKey(artifactId, version));
+      if (!signatureResponse.ok && signatureResponse.status !== 404) {
+        return {
+          success: false,
+          error: `Failed to delete signature: ${signatureResponse.status} ${signatureResponse.statusText}`,
+        };
+      }
+
+      const deprecated = { ...existing?.deprecated };
+      const publishedAt = { ...existing?.publishedAt };
+      delete deprecated[version];
+      delete publishedAt[version];
+      await this.updateMetadata(
+        artifactId,
+        existing,
+        sortVersionsDesc(versions.filter((v) => v !== version)),
+        { deprecated, publishedAt }
+      );
+
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : "Unknown error" };
+    }
+  }
+}
@@ -0,0 +1,285 @@
+import { describe, test, expect } from "vitest";
+import { resolveDependencyGraph, toLockfileEntries, createRegistryDependencySource } from "./dependencies";
+import type { DependencySource } from "./dependencies.types";
+import type { RegistryClient } from "./registry.types";
+import type { LockfileEntry } from "#/schemas";
+import { createMockFileSystem } from "#/test-utils/mocks";
+
+/**
+ * In-memory registry: artifactId → version → declared dependencies
+ */
+function createSource(
+  registry: Record<string, Record<string, Record<string, string>>>,
+  distTags: Record<string, Record<string, string>> = {}
+): DependencySource {
+  return {
+    async listVersions(artifactId) {
+      return Object.keys(registry[artifactId] ?? {});
+    },
+    async getDistTags(artifactId) {
+      return distTags[artifactId] ?? {};
+    },
+    async getDependencies(artifactId, version) {
+      return registry[artifactId]?.[version] ?? {};
+    },
+  };
+}
+
+describe("resolveDependencyGraph", () => {
+  test("resolves direct entries without dependencies", async () => {
+    const source = createSource({ "@a/agent": { "1.0.0": {}, "1.1.0": {} } });
+
+    const result = await resolveDependencyGraph({ "@a/agent": "^1.0.0" }, source);
+
+    expect(result.success).toBe(true);
+    expect(result.nodes["@a/agent"]).toEqual({
+      artifactId: "@a/agent",
+      version: "1.1.0",
+      direct: true,
+      requiredBy: [],
+      dependencies: {},
+    });
+  });
+
+  test("pulls in transitive dependencies and records who required them", async () => {
+    const source = createSource({
+      "@a/agent": { "1.0.0": { "@b/skills": "^2.0.0" } },
+      "@b/skills": { "2.0.0": { "@c/rules": "1.0.0" }, "2.3.0": { "@c/rules": "1.0.0" } },
+      "@c/rules": { "1.0.0": {} },
+    });
+
+    const result = await resolveDependencyGraph({ "@a/agent": "1.0.0" }, source);
+
+    expect(result.success).toBe(true);
+    expect(Object.keys(result.nodes)).toEqual(["@a/agent", "@b/skills", "@c/rules"]);
+    expect(result.nodes["@a/agent"]!.dependencies).toEqual({ "@b/skills": "2.3.0" });
+    expect(result.nodes["@b/skills"]).toMatchObject({ version: "2.3.0", direct: false, requiredBy: ["@a/agent"] });
+    expect(result.nodes["@c/rules"]).toMatchObject({ version: "1.0.0", requiredBy: ["@b/skills"] });
+  });
+
+  test("picks a single version satisfying all dependents", async () => {
+    const source = createSource({
+      "@a/one": { "1.0.0": { "@s/shared": "^1.0.0" } },
+      "@a/two": { "1.0.0": { "@s/shared": "~1.2.0" } },
+      "@s/shared": { "1.2.5": {}, "1.4.0": {}, "2.0.0": {} },
+    });
+
+    const result = await resolveDependencyGraph({ "@a/one": "1.0.0", "@a/two": "1.0.0" }, source);
+
+    expect(result.success).toBe(true);
+    expect(result.nodes["@s/shared"]).toMatchObject({ version: "1.2.5", requiredBy: ["@a/one", "@a/two"] });
+  });
+
+  test("marks artifacts that are both direct and transitive", async () => {
+    const source = createSource({
+      "@a/agent": { "1.0.0": { "@s/shared": "^1.0.0" } },
+      "@s/shared": { "1.0.0": {} },
+    });
+
+    const result = await resolveDependencyGraph({ "@a/agent": "1.0.0", "@s/shared": "1.0.0" }, source);
+
+    expect(result.nodes["@s/shared"]).toMatchObject({ direct: true, requiredBy: ["@a/agent"] });
+  });
+
+  test("resolves dist-tag dependencies to the registry's tag", async () => {
+    const source = createSource(
+      {
+        "@a/agent": { "1.0.0": { "@s/shared": "beta" } },
+        "@s/shared": { "1.0.0": {}, "2.0.0-beta.1": {}, "2.0.0-beta.2": {} },
+      },
+      { "@s/shared": { latest: "1.0.0", beta: "2.0.0-beta.1" } }
+    );
+
+    const result = await resolveDependencyGraph({ "@a/agent": "1.0.0" }, source);
+
+    expect(result.success).toBe(true);
+    expect(result.nodes["@s/shared"]!.version).toBe("2.0.0-beta.1");
+  });
+
+  test("reports version conflicts with every constraint", async () => {
+    const source = createSource({
+      "@a/one": { "1.0.0": { "@s/shared": "^1.0.0" } },
+      "@a/two": { "1.0.0": { "@s/shared": "^2.0.0" } },
+      "@s/shared": { "1.0.0": {}, "2.0.0": {} },
+    });
+
+    const result = await resolveDependencyGraph({ "@a/one": "1.0.0", "@a/two": "1.0.0" }, source);
+
+    expect(result.success).toBe(false);
+    expect(result.conflicts).toEqual([
+      {
+        artifactId: "@s/shared",
+        constraints: [
+          { specifier: "^1.0.0", requiredBy: "@a/one" },
+          { specifier: "^2.0.0", requiredBy: "@a/two" },
+        ],
+        availableVersions: ["1.0.0", "2.0.0"],
+      },
+    ]);
+  });
+
+  test("reports conflict between direct entry and dependency", async () => {
+    const source = createSource({
+      "@a/agent": { "1.0.0": { "@s/shared": "^2.0.0" } },
+      "@s/shared": { "1.0.0": {}, "2.0.0": {} },
+    });
+
+    const result = await resolveDependencyGraph({ "@a/agent": "1.0.0", "@s/shared": "1.0.0" }, source);
+
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0]!.constraints).toContainEqual({ specifier: "1.0.0", requiredBy: null });
+  });
+
+  test("detects cycles", async () => {
+    const source = createSource({
+      "@a/one": { "1.0.0": { "@a/two": "1.0.0" } },
+      "@a/two": { "1.0.0": { "@a/three": "1.0.0" } },
+      "@a/three": { "1.0.0": { "@a/one": "1.0.0" } },
+    });
+
+    const result = await resolveDependencyGraph({ "@a/one": "1.0.0" }, source);
+
+    expect(result.success).toBe(false);
+    expect(result.cycles).toEqual([["@a/one", "@a/two", "@a/three", "@a/one"]]);
+  });
+
+  test("detects self-dependency", async () => {
+    const source = createSource({ "@a/one": { "1.0.0": { "@a/one": "1.0.0" } } });
+
+    const result = await resolveDependencyGraph({ "@a/one": "1.0.0" }, source);
+
+    expect(result.cycles).toEqual([["@a/one", "@a/one"]]);
+  });
+
+  test("reports missing artifacts as errors", async () => {
+    const source = createSource({ "@a/agent": { "1.0.0": { "@x/missing": "^1.0.0" } } });
+
+    const result = await resolveDependencyGraph({ "@a/agent": "1.0.0" }, source);
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual(["No versions found for artifact: @x/missing"]);
+  });
+
+  test("reports invalid dependency IDs", async () => {
+    const source = createSource({ "@a/agent": { "1.0.0": { "not-an-id": "1.0.0" } } });
+
+    const result = await resolveDependencyGraph({ "@a/agent": "1.0.0" }, source);
+
+    expect(result.errors[0]).toContain('Invalid dependency "not-an-id"');
+  });
+
+  test("captures source failures as errors", async () => {
+    const source: DependencySource = {
+      async listVersions() {
+        return ["1.0.0"];
+      },
+      async getDependencies() {
+        throw new Error("network down");
+      },
+    };
+
+    const result = await resolveDependencyGraph({ "@a/agent": "1.0.0" }, source);
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual(["Failed to read dependencies of @a/agent@1.0.0: network down"]);
+  });
+});
+
+describe("toLockfileEntries", () => {
+  function entry(version: string, overrides: Partial<LockfileEntry> = {}): LockfileEntry {
+    return { version, integrity: "sha256-abc", mode: "lazy", files: {}, ...overrides };
+  }
+
+  test("records which locked artifacts pulled in each dependency", async () => {
+    const source = createSource({
+      "@a/one": { "1.0.0": { "@s/shared": "^1.0.0" } },
+      "@a/two": { "1.0.0": { "@s/shared": "^1.0.0" } },
+      "@s/shared": { "1.0.0": {} },
+    });
+    const graph = await resolveDependencyGraph({ "@a/one": "1.0.0", "@a/two": "1.0.0" }, source);
+
+    const entries = toLockfileEntries(graph, {
+      "@a/one": entry("1.0.0", { requiredBy: ["@x/stale"] }),
+      "@s/shared": entry("1.0.0"),
+    });
+
+    expect(entries).toEqual({
+      "@a/one": entry("1.0.0"),
+      "@s/shared": entry("1.0.0", { requiredBy: ["@a/one"] }),
+    });
+  });
+});
+
+describe("createRegistryDependencySource", () => {
+  function createClient(manifests: Record<string, string>, fs: ReturnType<typeof createMockFileSystem>) {
+    const downloads: string[] = [];
+    const client: RegistryClient = {
+      async download(_artifactId, options) {
+        const manifest = manifests[options.version!];
+        if (!manifest) return { success: false, error: "Version not found" };
+        downloads.push(options.targetDir);
+        fs.writeFile(`${options.targetDir}/grekt.yaml`, manifest);
+        return { success: true, version: options.version };
+      },
+      async publish() {
+        return { success: false };
+      },
+      async getLatestVersion() {
+        return null;
+      },
+      async versionExists() {
+        return false;
+      },
+      async listVersions() {
+        return Object.keys(manifests);
+      },
+    };
+    return { client, downloads };
+  }
+
+  test("reads dependencies from downloaded manifest", async () => {
+    const fs = createMockFileSystem();
+    const { client, downloads } = createClient({
+      "1.0.0": 'name: "@a/agent"\nversion: 1.0.0\ndescription: Agent\ndependencies:\n  "@b/skills": "^2.0.0"\n',
+    }, fs);
+    const source = createRegistryDependencySource({ getClient: () => client, fs, stagingDir: "/staging" });
+
+    const dependencies = await source.getDependencies("@a/agent", "1.0.0");
+
+    expect(dependencies).toEqual({ "@b/skills": "^2.0.0" });
+    expect(downloads).toEqual(["/staging/a-agent/1.0.0"]);
+  });
+
+  test("reuses already staged versions", async () => {
+    const fs = createMockFileSystem({
+      "/staging/a-agent/1.0.0/grekt.yaml": 'name: "@a/agent"\nversion: 1.0.0\ndescription: Agent\n',
+    });
+    const { client, downloads } = createClient({}, fs);
+    const source = createRegistryDependencySource({ getClient: () => client, fs, stagingDir: "/staging" });
+
+    const dependencies = await source.getDependencies("@a/agent", "1.0.0");
+
+    expect(dependencies).toEqual({});
+    expect(downloads).toEqual([]);
+  });
+
+  test("reads dist-tags from the client, none when it has no dist-tags", async () => {
+    const fs = createMockFileSystem();
+    const { client } = createClient({}, fs);
+    const tagged: RegistryClient = { ...client, getDistTags: async () => ({ beta: "2.0.0-beta.1" }) };
+
+    const untaggedSource = createRegistryDependencySource({ getClient: () => client, fs, stagingDir: "/staging" });
+    const taggedSource = createRegistryDependencySource({ getClient: () => tagged, fs, stagingDir: "/staging" });
+
+    expect(await untaggedSource.getDistTags!("@a/agent")).toEqual({});
+    expect(await taggedSource.getDistTags!("@a/agent")).toEqual({ beta: "2.0.0-beta.1" });
+  });
+
+  test("throws when download fails", async () => {
+    const fs = createMockFileSystem();
+    const { client } = createClient({}, fs);
+    const source = createRegistryDependencySource({ getClient: () => client, fs, stagingDir: "/staging" });
+
+    await expect(source.getDependencies("@a/agent", "9.9.9")).rejects.toThrow("Version not found");
+  });
+});
@@ -0,0 +1,379 @@
+/**
+ * Dependency resolver
+ *
+ * Builds the full transitive dependency graph from the direct entries in
+ * grekt.yaml and the `dependencies` declared in each artifact manifest.
+ *
+ * Each artifact resolves to a single version (flat install layout).
+ * When constraints from different dependents cannot be satisfied by one
+ * version, a conflict is reported instead of silently picking one.
+ */
+
+import { join } from "path";
+import type { FileSystem } from "#/core";
+import { ArtifactManifestSchema, type LockfileEntry } from "#/schemas";
+import { safeParseYaml } from "#/friendly-errors";
+import { toSafeName } from "#/artifact";
+import { isDistTag, isValidSemver, resolveVersionSpec, satisfiesRange, sortVersionsDesc } from "#/version";
+import { parseArtifactId } from "./resolver";
+import type { RegistryClient } from "./registry.types";
+import type {
+  DependencySource,
+  DependencyConstraint,
+  DependencyConflict,
+  DependencyResolutionResult,
+  ResolvedDependency,
+} from "./dependencies.types";
+
+// Re-resolution passes before giving up on a stable version selection.
+// Each pass only happens when a later constraint invalidated an earlier pick.
+const MAX_RESOLUTION_PASSES = 10;
+
+type ConstraintMap = Map<string, DependencyConstraint[]>;
+
+/**
+ * Published versions and dist-tags of an artifact
+ */
+interface AvailableVersions {
+  versions: string[];
+  distTags: Record<string, string>;
+}
+
+/**
+ * Check whether a version satisfies a single specifier.
+ * Dist-tags match only the version they resolve to (the registry's tag first).
+ */
+function matchesSpecifier(version: string, specifier: string, available: AvailableVersions): boolean {
+  if (isValidSemver(specifier)) {
+    return version === specifier;
+  }
+  if (isDistTag(specifier)) {
+    return resolveVersionSpec(specifier, available.versions, available.distTags) === version;
+  }
+  return satisfiesRange(version, specifier);
+}
+
+/**
+ * Pick the highest version satisfying every constraint, or null.
+ */
+function pickVersion(available: AvailableVersions, constraints: DependencyConstraint[]): string | null {
+  const candidate = sortVersionsDesc(available.versions).find((version) =>
+    constraints.every((c) => matchesSpecifier(version, c.specifier, available))
+  );
+  return candidate ?? null;
+}
+
+function addConstraint(constraints: ConstraintMap, artifactId: string, constraint: DependencyConstraint): void {
+  const existing = constraints.get(artifactId);
+  if (existing) {
+    existing.push(constraint);
+  } else {
+    constraints.set(artifactId, [constraint]);
+  }
+}
+
+/**
+ * Find all cycles in the resolved graph.
+ * Traversal is sorted so the output is deterministic.
+ */
+function findCycles(edges: Map<string, string[]>): string[][] {
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+  const state = new Map<string, "visiting" | "done">();
+  const path: string[] = [];
+
+  function visit(node: string): void {
+    state.set(node, "visiting");
+    path.push(node);
+
+    for (const next of edges.get(node) ?? []) {
+      const nextState = state.get(next);
+      if (nextState === "visiting") {
+        const cycle = [...path.slice(path.indexOf(next)), next];
+        const key = [...cycle.slice(0, -1)].sort().join("|");
+        if (!seen.has(key)) {
+          seen.add(key);
+          cycles.push(cycle);
+        }
+      } else if (!nextState) {
+        visit(next);
+      }
+    }
+
+    path.pop();
+    state.set(node, "done");
+  }
+
+  for (const node of [...edges.keys()].sort()) {
+    if (!state.has(node)) {
+      visit(node);
+    }
+  }
+
+  return cycles;
+}
+
+/**
+ * Resolve the transitive dependency graph for a set of direct entries.
+ *
+ * @param roots - Direct entries from grekt.yaml: artifactId → version specifier
+ * @param source - Provides versions and manifest dependencies
+ */
+export async function resolveDependencyGraph(
+  roots: Record<string, string>,
+  source: DependencySource
+): Promise<DependencyResolutionResult> {
+  const errors = new Set<string>();
+  const versionsCache = new Map<string, string[]>();
+  const distTagsCache = new Map<string, Record<string, string>>();
+  const dependenciesCache = new Map<string, Record<string, string>>();
+
+  async function getVersions(artifactId: string): Promise<string[]> {
+    const cached = versionsCache.get(artifactId);
+    if (cached) return cached;
+
+    let versions: string[] = [];
+    try {
+      versions = await source.listVersions(artifactId);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      errors.add(`Failed to list versions of ${artifactId}: ${message}`);
+    }
+    versionsCache.set(artifactId, versions);
+    return versions;
+  }
+
+  /**
+   * Load dist-tags the first time a dist-tag constraint is placed on an artifact
+   */
+  async function loadDistTags(artifactId: string, specifier: string): Promise<void> {
+    if (!isDistTag(specifier) || !source.getDistTags || distTagsCache.has(artifactId)) return;
+
+    let distTags: Record<string, string> = {};
+    try {
+      distTags = await source.getDistTags(artifactId);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      errors.add(`Failed to read dist-tags of ${artifactId}: ${message}`);
+    }
+    distTagsCache.set(artifactId, distTags);
+  }
+
+  function getAvailable(artifactId: string): AvailableVersions {
+    return { versions: versionsCache.get(artifactId) ?? [], distTags: distTagsCache.get(artifactId) ?? {} };
+  }
+
+  async function getDependencies(artifactId: string, version: string): Promise<Record<string, string>> {
+    const key = `${artifactId}@${version}`;
+    const cached = dependenciesCache.get(key);
+    if (cached) return cached;
+
+    let dependencies: Record<string, string> = {};
+    try {
+      dependencies = await source.getDependencies(artifactId, version);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      errors.add(`Failed to read dependencies of ${key}: ${message}`);
+    }
+    dependenciesCache.set(key, dependencies);
+    return dependencies;
+  }
+
+  let previous: ConstraintMap = new Map();
+  let constraints: ConstraintMap = new Map();
+  let chosen = new Map<string, string>();
+  let edges = new Map<string, string[]>();
+
+  for (let pass = 0; pass < MAX_RESOLUTION_PASSES; pass++) {
+    constraints = new Map();
+    chosen = new Map();
+    edges = new Map();
+    const visited = new Set<string>();
+    const queue: string[] = [];
+
+    for (const artifactId of Object.keys(roots).sort()) {
+      addConstraint(constraints, artifactId, { specifier: roots[artifactId]!, requiredBy: null });
+      await loadDistTags(artifactId, roots[artifactId]!);
+      queue.push(artifactId);
+    }
+
+    while (queue.length > 0) {
+      const artifactId = queue.shift()!;
+      if (visited.has(artifactId)) continue;
+      visited.add(artifactId);
+
+      const versions = await getVersions(artifactId);
+      if (versions.length === 0) {
+        errors.add(`No versions found for artifact: ${artifactId}`);
+        continue;
+      }
+
+      // Constraints discovered in the previous pass steer the pick toward a
+      // version that will still be valid once the whole graph is known
+      const current = constraints.get(artifactId) ?? [];
+      const hinted = [...current, ...(previous.get(artifactId) ?? [])];
+      const available = getAvailable(artifactId);
+      const version = pickVersion(available, hinted) ?? pickVersion(available, current);
+      if (!version) continue;
+
+      chosen.set(artifactId, version);
+
+      const declared = await getDependencies(artifactId, version);
+      const dependencyIds: string[] = [];
+
+      for (const rawId of Object.keys(declared).sort()) {
+        let dependencyId: string;
+        try {
+          dependencyId = parseArtifactId(rawId).artifactId;
+        } catch {
+          errors.add(`Invalid dependency "${rawId}" declared by ${artifactId}@${version}`);
+          continue;
+        }
+
+        addConstraint(constraints, dependencyId, { specifier: declared[rawId]!, requiredBy: artifactId });
+        await loadDistTags(dependencyId, declared[rawId]!);
+        dependencyIds.push(dependencyId);
+        queue.push(dependencyId);
+      }
+
+      edges.set(artifactId, dependencyIds);
+    }
+
+    const stable = [...chosen].every(([artifactId, version]) => {
+      const available = getAvailable(artifactId);
+      return (constraints.get(artifactId) ?? []).every((c) => matchesSpecifier(version, c.specifier, available));
+    });
+
+    if (stable) break;
+    previous = constraints;
+  }
+
+  const conflicts: DependencyConflict[] = [];
+  for (const artifactId of [...constraints.keys()].sort()) {
+    const available = getAvailable(artifactId);
+    if (available.versions.length === 0) continue;
+
+    const artifactConstraints = constraints.get(artifactId)!;
+    const version = chosen.get(artifactId);
+    const satisfied = version !== undefined &&
+      artifactConstraints.every((c) => matchesSpecifier(version, c.specifier, available));
+
+    if (!satisfied) {
+      conflicts.push({ artifactId, constraints: artifactConstraints, availableVersions: available.versions });
+    }
+  }
+
+  const nodes: Record<string, ResolvedDependency> = {};
+  for (const artifactId of [...chosen.keys()].sort()) {
+    const artifactConstraints = constraints.get(artifactId) ?? [];
+    const requiredBy = [...new Set(
+      artifactConstraints.map((c) => c.requiredBy).filter((id): id is string => id !== null)
+    )].sort();
+
+    const dependencies: Record<string, string> = {};
+    for (const dependencyId of edges.get(artifactId) ?? []) {
+      const dependencyVersion = chosen.get(dependencyId);
+      if (dependencyVersion) {
+        dependencies[dependencyId] = dependencyVersion;
+      }
+    }
+
+    nodes[artifactId] = {
+      artifactId,
+      version: chosen.get(artifactId)!,
+      direct: artifactConstraints.some((c) => c.requiredBy === null),
+      requiredBy,
+      dependencies,
+    };
+  }
+
+  const cycles = findCycles(edges);
+
+  return {
+    success: conflicts.length === 0 && cycles.length === 0 && errors.size === 0,
+    nodes,
+    conflicts,
+    cycles,
+    errors: [...errors],
+  };
+}
+
+/**
+ * Record in lockfile entries which artifacts pulled each one in
+ *
+ * @param graph - Resolved dependency graph the entries were installed from
+ * @param entries - Lockfile entries of the installed artifacts, keyed by artifact ID
+ * @returns The entries with requiredBy set from the graph, limited to locked
+ *          artifacts (absent when none of them requires the artifact)
+ */
+export function toLockfileEntries(
+  graph: DependencyResolutionResult,
+  entries: Record<string, LockfileEntry>
+): Record<string, LockfileEntry> {
+  const locked: Record<string, LockfileEntry> = {};
+
+  for (const artifactId of Object.keys(entries).sort()) {
+    const { requiredBy: _previous, ...entry } = entries[artifactId]!;
+    const requiredBy = (graph.nodes[artifactId]?.requiredBy ?? []).filter((dependent) => dependent in entries);
+    locked[artifactId] = requiredBy.length > 0 ? { ...entry, requiredBy } : entry;
+  }
+
+  return locked;
+}
+
+/**
+ * Options for the registry-backed dependency source
+ */
+export interface RegistryDependencySourceOptions {
+  /** Returns the client for the registry that serves an artifact's scope */
+  getClient(artifactId: string): RegistryClient;
+  fs: FileSystem;
+  /** Directory where artifact versions are downloaded to read their manifests */
+  stagingDir: string;
+}
+
+/**
+ * Create a DependencySource backed by registry clients.
+ *
+ * Versions come from `listVersions` and dist-tags from `getDistTags` (none
+ * when the client has no dist-tags). Dependencies are read from the
+ * grekt.yaml of each downloaded version, staged under
+ * `<stagingDir>/<safe-name>/<version>` so the CLI can reuse them for install.
+ */
+export function createRegistryDependencySource(options: RegistryDependencySourceOptions): DependencySource {
+  const { getClient, fs, stagingDir } = options;
+
+  return {
+    listVersions(artifactId: string): Promise<string[]> {
+      return getClient(artifactId).listVersions(artifactId);
+    },
+
+    async getDistTags(artifactId: string): Promise<Record<string, string>> {
+      const client = getClient(artifactId);
+      return client.getDistTags ? client.getDistTags(artifactId) : {};
+    },
+
+    async getDependencies(artifactId: string, version: string): Promise<Record<string, string>> {
+      const targetDir = join(stagingDir, toSafeName(artifactId), version);
+      const manifestPath = join(targetDir, "grekt.yaml");
+
+      if (!fs.exists(manifestPath)) {
+        const result = await getClient(artifactId).download(artifactId, { version, targetDir });
+        if (!result.success) {
+          throw new Error(result.error ?? "Download failed");
+        }
+      }
+
+      if (!fs.exists(manifestPath)) {
+        throw new Error("Artifact has no grekt.yaml");
+      }
+
+      const parsed = safeParseYaml(fs.readFile(manifestPath), ArtifactManifestSchema, manifestPath);
+      if (!parsed.success) {
+        throw new Error(parsed.error.message);
+      }
+
+      return parsed.data.dependencies ?? {};
+    },
+  };
+}
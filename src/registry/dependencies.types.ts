@@ -0,0 +1,71 @@
+/**
+ * Types for transitive artifact dependency resolution.
+ *
+ * Artifacts declare dependencies in their manifest (grekt.yaml):
+ *   dependencies:
+ *     "@scope/shared-skills": "^1.0.0"
+ *
+ * Artifacts install flat into .grekt/artifacts/@scope/name, so each
+ * artifact resolves to exactly ONE version across the whole graph.
+ */
+
+/**
+ * Source of version and dependency information for the resolver.
+ * Decouples graph resolution from how manifests are obtained.
+ */
+export interface DependencySource {
+  /** List available versions of an artifact */
+  listVersions(artifactId: string): Promise<string[]>;
+  /** Get the dist-tags of an artifact (tag → version), when the registry has them */
+  getDistTags?(artifactId: string): Promise<Record<string, string>>;
+  /** Get the declared dependencies of a specific artifact version */
+  getDependencies(artifactId: string, version: string): Promise<Record<string, string>>;
+}
+
+/**
+ * A version requirement placed on an artifact
+ */
+export interface DependencyConstraint {
+  /** Version specifier (exact, range or dist-tag) */
+  specifier: string;
+  /** Artifact that declared the requirement, null for direct entries in grekt.yaml */
+  requiredBy: string | null;
+}
+
+/**
+ * A node in the resolved dependency graph
+ */
+export interface ResolvedDependency {
+  artifactId: string;
+  version: string;
+  /** True when the artifact is listed directly in grekt.yaml */
+  direct: boolean;
+  /** Artifacts that pulled this one in (sorted, empty for purely direct entries) */
+  requiredBy: string[];
+  /** Resolved dependencies of this node: artifactId → version */
+  dependencies: Record<string, string>;
+}
+
+/**
+ * Artifact whose constraints cannot all be satisfied by a single version
+ */
+export interface DependencyConflict {
+  artifactId: string;
+  constraints: DependencyConstraint[];
+  /** Versions that were available when resolving */
+  availableVersions: string[];
+}
+
+/**
+ * Result from resolving a dependency graph
+ */
+export interface DependencyResolutionResult {
+  success: boolean;
+  /** Resolved nodes keyed by artifact ID */
+  nodes: Record<string, ResolvedDependency>;
+  conflicts: DependencyConflict[];
+  /** Each cycle as a path that starts and ends with the same artifact ID */
+  cycles: string[][];
+  /** Source errors (download failures, invalid manifests, invalid IDs) */
+  errors: string[];
+}
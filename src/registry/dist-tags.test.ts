@@ -0,0 +1,23 @@
+import { describe, test, expect } from "vitest";
+import { validateDistTagChange } from "./dist-tags";
+
+describe("validateDistTagChange", () => {
+  test("allows setting and removing channel tags", () => {
+    expect(validateDistTagChange("next", "2.0.0-beta.1")).toBeNull();
+    expect(validateDistTagChange("latest", "1.0.0")).toBeNull();
+    expect(validateDistTagChange("beta")).toBeNull();
+  });
+
+  test("rejects versions and ranges used as tag names", () => {
+    expect(validateDistTagChange("1.0.0", "1.0.0")).toContain('Invalid dist-tag "1.0.0"');
+    expect(validateDistTagChange("^1.0.0", "1.0.0")).toContain("Invalid dist-tag");
+  });
+
+  test("rejects targets that are not exact versions", () => {
+    expect(validateDistTagChange("next", "^2.0.0")).toBe('Invalid version "^2.0.0" for dist-tag next');
+  });
+
+  test("rejects removing latest", () => {
+    expect(validateDistTagChange("latest")).toContain("cannot be removed");
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Dist-tags
+ *
+ * Named pointers to published versions ("latest", "next", "beta") that let
+ * publishers promote a release channel. Each client stores them natively:
+ * OCI tags (GHCR, generic OCI), a dist-tags.json package file (GitLab),
+ * metadata.json (local and S3) or the dist-tags endpoint (default registry).
+ *
+ * Without a "latest" tag, latest is the highest stable version, so
+ * publishing a prerelease never changes what plain installs get.
+ */
+
+import { isDistTag, isValidSemver, LATEST_TAG } from "#/version";
+import type { DistTagResult } from "./registry.types";
+
+/**
+ * Result for wrapped clients without dist-tag storage
+ */
+export const DIST_TAGS_UNSUPPORTED: DistTagResult = {
+  success: false,
+  error: "This registry does not support dist-tags",
+};
+
+/**
+ * Validate a dist-tag change before it reaches the registry
+ *
+ * @param version - Target version, omitted when removing the tag
+ * @returns Error message, or null when the change is allowed
+ */
+export function validateDistTagChange(tag: string, version?: string): string | null {
+  if (!isDistTag(tag)) {
+    return `Invalid dist-tag "${tag}". Use a lowercase name such as next or beta (versions and ranges are not tags)`;
+  }
+
+  if (version === undefined) {
+    return tag === LATEST_TAG ? `The ${LATEST_TAG} dist-tag cannot be removed, point it at another version instead` : null;
+  }
+
+  return isValidSemver(version) ? null : `Invalid version "${version}" for dist-tag ${tag}`;
+}
@@ -1,9 +1,18 @@
 import { describe, test, expect } from "vitest";
 import {
   buildGitHubTarballUrl,
+  buildGitHubCommitUrl,
+  buildGitLabCommitUrl,
   buildGitLabArchiveUrl,
+  buildBitbucketArchiveUrl,
+  buildBitbucketCommitUrl,
+  buildGiteaArchiveUrl,
+  buildGiteaCommitUrl,
   getGitHubHeaders,
   getGitLabHeaders,
+  getBitbucketHeaders,
+  getGiteaHeaders,
+  getArchiveHeaders,
   downloadAndExtractTarball,
 } from "./download";
 import {
@@ -67,6 +76,52 @@ describe("download", () => {
     });
   });
 
+  describe("buildGitHubCommitUrl", () => {
+    test("builds commit URL with encoded ref", () => {
+      const url = buildGitHubCommitUrl("owner", "repo", "feature/login");
+
+      expect(url).toBe("https://api.github.com/repos/owner/repo/commits/feature%2Flogin");
+    });
+
+    test("defaults to HEAD", () => {
+      expect(buildGitHubCommitUrl("owner", "repo")).toBe("https://api.github.com/repos/owner/repo/commits/HEAD");
+    });
+  });
+
+  describe("buildGitLabCommitUrl", () => {
+    test("builds commit URL with encoded project and ref", () => {
+      const url = buildGitLabCommitUrl("gitlab.mycompany.com", "team/project", "v1.0.0");
+
+      expect(url).toBe("https://gitlab.mycompany.com/api/v4/projects/team%2Fproject/repository/commits/v1.0.0");
+    });
+  });
+
+  describe("Bitbucket URLs", () => {
+    test("builds archive URL for a ref", () => {
+      expect(buildBitbucketArchiveUrl("team", "repo", "v1.0.0")).toBe("https://bitbucket.org/team/repo/get/v1.0.0.tar.gz");
+    });
+
+    test("builds commit URL with encoded ref", () => {
+      expect(buildBitbucketCommitUrl("team", "repo", "feature/login")).toBe(
+        "https://api.bitbucket.org/2.0/repositories/team/repo/commit/feature%2Flogin"
+      );
+    });
+  });
+
+  describe("Gitea URLs", () => {
+    test("builds archive URL on the instance host", () => {
+      expect(buildGiteaArchiveUrl("git.mycompany.com", "team", "repo", "v1.0.0")).toBe(
+        "https://git.mycompany.com/api/v1/repos/team/repo/archive/v1.0.0.tar.gz"
+      );
+    });
+
+    test("builds commit URL with encoded ref", () => {
+      expect(buildGiteaCommitUrl("git.mycompany.com", "team", "repo", "feature/login")).toBe(
+        "https://git.mycompany.com/api/v1/repos/team/repo/git/commits/feature%2Flogin"
+      );
+    });
+  });
+
   describe("getGitHubHeaders", () => {
     test("returns base headers without token", () => {
       const headers = getGitHubHeaders();
@@ -101,6 +156,54 @@ describe("download", () => {
     });
   });
 
+  describe("getBitbucketHeaders", () => {
+    test("returns base headers without token", () => {
+      const headers = getBitbucketHeaders();
+
+      expect(headers["User-Agent"]).toBe("grekt-cli");
+      expect(headers.Authorization).toBeUndefined();
+    });
+
+    test("sends access tokens as Bearer", () => {
+      expect(getBitbucketHeaders("bb-access-token").Authorization).toBe("Bearer bb-access-token");
+    });
+
+    test("sends app passwords as Basic", () => {
+      const headers = getBitbucketHeaders("user:app-password");
+
+      expect(headers.Authorization).toBe(`Basic ${Buffer.from("user:app-password").toString("base64")}`);
+    });
+  });
+
+  describe("getGiteaHeaders", () => {
+    test("includes token Authorization when token provided", () => {
+      const headers = getGiteaHeaders("my-gitea-token");
+
+      expect(headers.Authorization).toBe("token my-gitea-token");
+      expect(headers["User-Agent"]).toBe("grekt-cli");
+    });
+
+    test("omits Authorization without token", () => {
+      expect(getGiteaHeaders().Authorization).toBeUndefined();
+    });
+  });
+
+  describe("getArchiveHeaders", () => {
+    const ARCHIVE_URL = "https://files.example.com/artifact.tar.gz";
+
+    test("includes Bearer Authorization for the host the token was configured for", () => {
+      expect(getArchiveHeaders(ARCHIVE_URL, "my-token", "files.example.com").Authorization).toBe("Bearer my-token");
+      expect(getArchiveHeaders(ARCHIVE_URL, "my-token", "Files.Example.com").Authorization).toBe("Bearer my-token");
+      expect(getArchiveHeaders(ARCHIVE_URL).Authorization).toBeUndefined();
+    });
+
+    test("does not send the token to a foreign host", () => {
+      expect(getArchiveHeaders("https://evil.example.net/artifact.tar.gz", "my-token", "files.example.com").Authorization).toBeUndefined();
+      expect(getArchiveHeaders("https://files.example.com.evil.net/a.tar.gz", "my-token", "files.example.com").Authorization).toBeUndefined();
+      expect(getArchiveHeaders(ARCHIVE_URL, "my-token").Authorization).toBeUndefined();
+    });
+  });
+
   describe("downloadAndExtractTarball", () => {
     test("downloads and extracts tarball successfully", async () => {
       const tarballData = Buffer.from("fake-tarball-data");
@@ -27,6 +27,49 @@ export function buildGitLabArchiveUrl(
   return `https://${host}/api/v4/projects/${encodedProject}/repository/archive.tar.gz?sha=${ref}`;
 }
 
+/**
+ * Build GitHub API URL resolving a ref (branch, tag, SHA) to its commit.
+ */
+export function buildGitHubCommitUrl(owner: string, repo: string, ref: string = "HEAD"): string {
+  return `https://api.github.com/repos/${owner}/${repo}/commits/${encodeURIComponent(ref)}`;
+}
+
+/**
+ * Build GitLab API URL resolving a ref (branch, tag, SHA) to its commit.
+ */
+export function buildGitLabCommitUrl(host: string, projectPath: string, ref: string = "HEAD"): string {
+  const encodedProject = encodeURIComponent(projectPath);
+  return `https://${host}/api/v4/projects/${encodedProject}/repository/commits/${encodeURIComponent(ref)}`;
+}
+
+/**
+ * Build Bitbucket Cloud archive URL for a repository.
+ */
+export function buildBitbucketArchiveUrl(owner: string, repo: string, ref: string = "HEAD"): string {
+  return `https://bitbucket.org/${owner}/${repo}/get/${encodeURIComponent(ref)}.tar.gz`;
+}
+
+/**
+ * Build Bitbucket Cloud API URL resolving a ref (branch, tag, SHA) to its commit.
+ */
+export function buildBitbucketCommitUrl(owner: string, repo: string, ref: string = "HEAD"): string {
+  return `https://api.bitbucket.org/2.0/repositories/${owner}/${repo}/commit/${encodeURIComponent(ref)}`;
+}
+
+/**
+ * Build Gitea / Forgejo API archive URL for a repository.
+ */
+export function buildGiteaArchiveUrl(host: string, owner: string, repo: string, ref: string = "main"): string {
+  return `https://${host}/api/v1/repos/${owner}/${repo}/archive/${encodeURIComponent(ref)}.tar.gz`;
+}
+
+/**
+ * Build Gitea / Forgejo API URL resolving a ref (branch, tag, SHA) to its commit.
+ */
+export function buildGiteaCommitUrl(host: string, owner: string, repo: string, ref: string = "HEAD"): string {
+  return `https://${host}/api/v1/repos/${owner}/${repo}/git/commits/${encodeURIComponent(ref)}`;
+}
+
 /**
  * Get headers for GitHub API requests.
  */
@@ -58,6 +101,68 @@ export function getGitLabHeaders(token?: string): Record<string, string> {
   return headers;
 }
 
+/**
+ * Get headers for Bitbucket Cloud requests.
+ * Access tokens are sent as Bearer, app passwords as `username:app-password` (Basic).
+ */
+export function getBitbucketHeaders(token?: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    "User-Agent": "grekt-cli",
+  };
+
+  if (token) {
+    headers.Authorization = token.includes(":")
+      ? `Basic ${Buffer.from(token).toString("base64")}`
+      : `Bearer ${token}`;
+  }
+
+  return headers;
+}
+
+/**
+ * Get headers for Gitea / Forgejo API requests.
+ */
+export function getGiteaHeaders(token?: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    "User-Agent": "grekt-cli",
+  };
+
+  if (token) {
+    headers.Authorization = `token ${token}`;
+  }
+
+  return headers;
+}
+
+function getUrlHost(url: string): string | undefined {
+  try {
+    return new URL(url).host;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get headers for plain HTTPS archive downloads.
+ * The token is only sent to the host it was configured for, never to an
+ * arbitrary archive URL.
+ *
+ * @param url - Archive URL
+ * @param token - Bearer token
+ * @param tokenHost - Host the token was configured for (e.g. files.example.com)
+ */
+export function getArchiveHeaders(url: string, token?: string, tokenHost?: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    "User-Agent": "grekt-cli",
+  };
+
+  if (token && tokenHost && getUrlHost(url) === tokenHost.toLowerCase()) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+
+  return headers;
+}
+
 /**
  * Download a tarball from URL and extract to target directory.
  * Handles temp file creation, extraction, and cleanup.
@@ -77,7 +182,7 @@ export async function downloadAndExtractTarball(
   targetDir: string,
   options: DownloadOptions = {}
 ): Promise<TarballDownloadResult> {
-  const { headers = {}, stripComponents = 1, tempTarballPath } = options;
+  const { headers = {}, stripComponents = 1, tempTarballPath, subdir } = options;
 
   // Ensure User-Agent is always set
   const finalHeaders: Record<string, string> = {
@@ -127,6 +232,7 @@ export async function downloadAndExtractTarball(
       targetDir,
       gzip: true,
       stripComponents: stripComponents > 0 ? stripComponents : undefined,
+      subdir,
     });
 
     return { success: true };
@@ -1,7 +1,11 @@
 import { describe, test, expect } from "vitest";
-import { createRegistryClient } from "./factory";
+import { createRegistryClient, createRegistryClientChain } from "./factory";
+import { FallbackRegistryClient } from "./fallback";
 import { DefaultRegistryClient } from "./clients/default";
 import { GitLabRegistryClient } from "./clients/gitlab";
+import { LocalRegistryClient } from "./clients/local";
+import { S3RegistryClient } from "./clients/s3";
+import { OciRegistryClient } from "./clients/oci";
 import {
   createMockHttpClient,
   createMockFileSystem,
@@ -9,6 +13,7 @@ import {
   createMockTarOperations,
 } from "#/test-utils/mocks";
 import type { ResolvedRegistry } from "./registry.types";
+import { createRetryingHttpClient } from "#/core";
 
 import { REGISTRY_HOST } from "#/constants";
 
@@ -42,6 +47,68 @@ describe("factory", () => {
       expect(client).toBeInstanceOf(GitLabRegistryClient);
     });
 
+    test("returns LocalRegistryClient for local type", () => {
+      const registry: ResolvedRegistry = {
+        type: "local",
+        host: "localhost",
+        path: "/mnt/registry",
+      };
+
+      const client = createRegistryClient(registry, http, fs, shell, tar);
+
+      expect(client).toBeInstanceOf(LocalRegistryClient);
+    });
+
+    test("throws when local registry missing path", () => {
+      const registry: ResolvedRegistry = {
+        type: "local",
+        host: "localhost",
+      };
+
+      expect(() => createRegistryClient(registry, http, fs, shell, tar)).toThrow(
+        "Local registry requires 'path' field in config"
+      );
+    });
+
+    test("returns S3RegistryClient for s3 type", () => {
+      const registry: ResolvedRegistry = {
+        type: "s3",
+        host: "s3.amazonaws.com",
+        s3: {
+          endpoint: "https://minio.test",
+          bucket: "grekt",
+        },
+        s3Credentials: { accessKeyId: "key", secretAccessKey: "secret" },
+      };
+
+      const client = createRegistryClient(registry, http, fs, shell, tar);
+
+      expect(client).toBeInstanceOf(S3RegistryClient);
+    });
+
+    test("throws when s3 registry missing s3 config", () => {
+      const registry: ResolvedRegistry = {
+        type: "s3",
+        host: "s3.amazonaws.com",
+      };
+
+      expect(() => createRegistryClient(registry, http, fs, shell, tar)).toThrow(
+        "S3 registry requires 's3' field in config"
+      );
+    });
+
+    test("returns OciRegistryClient for oci type", () => {
+      const registry: ResolvedRegistry = {
+        type: "oci",
+        host: "harbor.internal",
+        project: "platform",
+      };
+
+      const client = createRegistryClient(registry, http, fs, shell, tar);
+
+      expect(client).toBeInstanceOf(OciRegistryClient);
+    });
+
     test("returns DefaultRegistryClient for unknown type", () => {
       const registry: ResolvedRegistry = {
         type: "unknown" as "default",
@@ -78,4 +145,46 @@ describe("factory", () => {
       expect(client).toBeInstanceOf(GitLabRegistryClient);
     });
   });
+
+  describe("createRegistryClientChain", () => {
+    test("downloads from the next registry and records it", async () => {
+      const http = createMockHttpClient();
+      const client = createRegistryClientChain(
+        [
+          { type: "local", host: "localhost", path: "/mnt/mirror" },
+          { type: "local", host: "localhost", path: "/mnt/upstream" },
+        ],
+        http,
+        createMockFileSystem({ "/mnt/upstream/@scope/artifact/1.0.0.tar.gz": "tarball" }),
+        createMockShellExecutor(),
+        createMockTarOperations()
+      );
+
+      expect(client).toBeInstanceOf(FallbackRegistryClient);
+
+      const result = await client.download("@scope/artifact", { version: "1.0.0", targetDir: "/target" });
+
+      expect(result.success).toBe(true);
+      expect(result.registry).toBe("local:/mnt/upstream");
+    });
+  });
+
+  describe("retries", () => {
+    test("clients retry transient registry errors", async () => {
+      const metadataUrl = "https://gitlab.com/api/v4/projects/group%2Fproject/packages?package_type=generic&package_name=artifact&order_by=created_at&sort=desc&per_page=100";
+      const responses = [
+        new Response(null, { status: 503 }),
+        new Response(JSON.stringify([{ name: "artifact", version: "1.0.0" }]), { status: 200 }),
+      ];
+      const http = createMockHttpClient(new Map([[metadataUrl, () => responses.shift()!]]));
+      const registry: ResolvedRegistry = { type: "gitlab", host: "gitlab.com", project: "group/project" };
+
+      // Custom policy passed in is kept (no real delays in tests)
+      const retrying = createRetryingHttpClient(http, { sleep: async () => {} });
+      const client = createRegistryClient(registry, retrying, createMockFileSystem(), createMockShellExecutor(), createMockTarOperations());
+
+      expect(await client.listVersions("@scope/artifact")).toEqual(["1.0.0"]);
+      expect(responses).toHaveLength(0);
+    });
+  });
 });
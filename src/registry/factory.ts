@@ -5,29 +5,81 @@
  * The factory is the ONLY place that knows about specific client implementations.
  */
 
-import type { FileSystem, HttpClient, ShellExecutor, TarOperations } from "#/core";
+import {
+  createRetryingHttpClient,
+  type FileSystem,
+  type HttpClient,
+  type MetadataCache,
+  type ShellExecutor,
+  type TarOperations,
+} from "#/core";
 import type { ResolvedRegistry, RegistryClient } from "./registry.types";
 import { DefaultRegistryClient } from "./clients/default";
 import { GitLabRegistryClient } from "./clients/gitlab";
 import { GitHubRegistryClient } from "./clients/github";
+import { LocalRegistryClient } from "./clients/local";
+import { S3RegistryClient } from "./clients/s3";
+import { OciRegistryClient } from "./clients/oci";
+import { FallbackRegistryClient } from "./fallback";
+import { getRegistryId } from "./resolver";
 
 /**
  * Create a registry client for the resolved registry
+ *
+ * `shell` is no longer used by any client (GHCR publish is native OCI push)
+ * but stays in the signature so existing callers keep working.
+ *
+ * `http` is wrapped with the default retry policy. Pass a client from
+ * createRetryingHttpClient to use a custom policy instead.
+ *
+ * `metadataCache` (usually EngineContext.metadataCache) enables conditional
+ * metadata requests for the default, GitLab, GitHub and OCI clients.
  */
 export function createRegistryClient(
   registry: ResolvedRegistry,
   http: HttpClient,
   fs: FileSystem,
-  shell: ShellExecutor,
-  tar: TarOperations
+  _shell: ShellExecutor,
+  tar: TarOperations,
+  metadataCache?: MetadataCache
 ): RegistryClient {
+  http = createRetryingHttpClient(http);
+
   switch (registry.type) {
     case "gitlab":
-      return new GitLabRegistryClient(registry, http, fs, tar);
+      return new GitLabRegistryClient(registry, http, fs, tar, metadataCache);
     case "github":
-      return new GitHubRegistryClient(registry, http, fs, shell, tar);
+      return new GitHubRegistryClient(registry, http, fs, tar, metadataCache);
+    case "local":
+      return new LocalRegistryClient(registry, fs, tar);
+    case "s3":
+      return new S3RegistryClient(registry, http, fs, tar);
+    case "oci":
+      return new OciRegistryClient(registry, http, fs, tar, metadataCache);
     case "default":
     default:
-      return new DefaultRegistryClient(registry, http, fs, tar);
+      return new DefaultRegistryClient(registry, http, fs, tar, metadataCache);
   }
 }
+
+/**
+ * Create a client for a scope's registry chain (see resolveRegistryChain)
+ *
+ * Reads fail over along the chain, publish goes to the primary registry.
+ * Successful downloads report the serving registry in `DownloadResult.registry`.
+ */
+export function createRegistryClientChain(
+  registries: ResolvedRegistry[],
+  http: HttpClient,
+  fs: FileSystem,
+  shell: ShellExecutor,
+  tar: TarOperations,
+  metadataCache?: MetadataCache
+): FallbackRegistryClient {
+  return new FallbackRegistryClient(
+    registries.map((registry) => ({
+      registryId: getRegistryId(registry),
+      client: createRegistryClient(registry, http, fs, shell, tar, metadataCache),
+    }))
+  );
+}
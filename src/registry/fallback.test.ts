@@ -0,0 +1,199 @@
+import { describe, test, expect } from "vitest";
+import { FallbackRegistryClient } from "./fallback";
+import type { RegistryClient, DownloadResult } from "./registry.types";
+
+const TARGET = { version: "1.0.0", targetDir: "/target" };
+
+/**
+ * Minimal client stub: versions served and download outcome are fixed per registry
+ */
+function createStubClient(options: {
+  versions?: string[];
+  download?: DownloadResult | Error;
+}): RegistryClient & { downloads: number; publishes: number } {
+  const stub = {
+    downloads: 0,
+    publishes: 0,
+
+    async download(): Promise<DownloadResult> {
+      stub.downloads++;
+      if (options.download instanceof Error) {
+        throw options.download;
+      }
+      return options.download ?? { success: false, error: "Not found", failureReason: "not_found" };
+    },
+
+    async publish() {
+      stub.publishes++;
+      return { success: true, url: "published" };
+    },
+
+    async getLatestVersion() {
+      return options.versions?.[0] ?? null;
+    },
+
+    async versionExists(_artifactId: string, version: string) {
+      return options.versions?.includes(version) ?? false;
+    },
+
+    async listVersions() {
+      return options.versions ?? [];
+    },
+  };
+  return stub;
+}
+
+function networkError(): Error {
+  return new TypeError("fetch failed", { cause: { code: "ECONNREFUSED" } });
+}
+
+const SUCCESS: DownloadResult = {
+  success: true,
+  version: "1.0.0",
+  resolved: "https://public/artifact.tar.gz",
+  integrity: "sha256:abc",
+  fileHashes: {},
+};
+
+describe("FallbackRegistryClient", () => {
+  test("throws when chain is empty", () => {
+    expect(() => new FallbackRegistryClient([])).toThrow("at least one registry");
+  });
+
+  describe("download", () => {
+    test("returns primary result and records serving registry", async () => {
+      const mirror = createStubClient({ download: SUCCESS });
+      const upstream = createStubClient({ download: SUCCESS });
+      const client = new FallbackRegistryClient([
+        { registryId: "gitlab:mirror.internal/grekt", client: mirror },
+        { registryId: "default:registry.grekt.com", client: upstream },
+      ]);
+
+      const result = await client.download("@scope/artifact", TARGET);
+
+      expect(result).toEqual({ ...SUCCESS, registry: "gitlab:mirror.internal/grekt" });
+      expect(upstream.downloads).toBe(0);
+    });
+
+    test("fails over on not found", async () => {
+      const mirror = createStubClient({ download: { success: false, error: "404", failureReason: "not_found" } });
+      const upstream = createStubClient({ download: SUCCESS });
+      const client = new FallbackRegistryClient([
+        { registryId: "mirror", client: mirror },
+        { registryId: "upstream", client: upstream },
+      ]);
+
+      const result = await client.download("@scope/artifact", TARGET);
+
+      expect(result.success).toBe(true);
+      expect(result.registry).toBe("upstream");
+    });
+
+    test("fails over on network failure reported or thrown", async () => {
+      const reported = createStubClient({ download: { success: false, error: "fetch failed", failureReason: "network" } });
+      const thrown = createStubClient({ download: networkError() });
+      const upstream = createStubClient({ download: SUCCESS });
+      const client = new FallbackRegistryClient([
+        { registryId: "reported", client: reported },
+        { registryId: "thrown", client: thrown },
+        { registryId: "upstream", client: upstream },
+      ]);
+
+      const result = await client.download("@scope/artifact", TARGET);
+
+      expect(result.registry).toBe("upstream");
+      expect(thrown.downloads).toBe(1);
+    });
+
+    test("does not fail over on other errors", async () => {
+      const mirror = createStubClient({ download: { success: false, error: "Unsafe tarball: ../etc/passwd" } });
+      const upstream = createStubClient({ download: SUCCESS });
+      const client = new FallbackRegistryClient([
+        { registryId: "mirror", client: mirror },
+        { registryId: "upstream", client: upstream },
+      ]);
+
+      const result = await client.download("@scope/artifact", TARGET);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("Unsafe tarball");
+      expect(upstream.downloads).toBe(0);
+    });
+
+    test("reports every registry when all fail", async () => {
+      const client = new FallbackRegistryClient([
+        { registryId: "mirror", client: createStubClient({ download: { success: false, error: "Version 1.0.0 not found", failureReason: "not_found" } }) },
+        { registryId: "upstream", client: createStubClient({ download: { success: false, error: "fetch failed", failureReason: "network" } }) },
+      ]);
+
+      const result = await client.download("@scope/artifact", TARGET);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe(
+        "@scope/artifact could not be downloaded from any registry (mirror: Version 1.0.0 not found; upstream: fetch failed)"
+      );
+      expect(result.failureReason).toBe("network");
+    });
+  });
+
+  describe("version lookups", () => {
+    test("listVersions uses first registry that has versions", async () => {
+      const client = new FallbackRegistryClient([
+        { registryId: "mirror", client: createStubClient({ versions: [] }) },
+        { registryId: "upstream", client: createStubClient({ versions: ["2.0.0", "1.0.0"] }) },
+      ]);
+
+      expect(await client.listVersions("@scope/artifact")).toEqual(["2.0.0", "1.0.0"]);
+      expect(await client.getLatestVersion("@scope/artifact")).toBe("2.0.0");
+    });
+
+    test("versionExists is true when any registry has the version", async () => {
+      const client = new FallbackRegistryClient([
+        { registryId: "mirror", client: createStubClient({ versions: ["1.0.0"] }) },
+        { registryId: "upstream", client: createStubClient({ versions: ["2.0.0"] }) },
+      ]);
+
+      expect(await client.versionExists("@scope/artifact", "2.0.0")).toBe(true);
+      expect(await client.versionExists("@scope/artifact", "3.0.0")).toBe(false);
+    });
+
+    test("skips registries that throw network errors", async () => {
+      const unreachable = createStubClient({});
+      unreachable.listVersions = async () => {
+        throw networkError();
+      };
+      const client = new FallbackRegistryClient([
+        { registryId: "mirror", client: unreachable },
+        { registryId: "upstream", client: createStubClient({ versions: ["1.0.0"] }) },
+      ]);
+
+      expect(await client.listVersions("@scope/artifact")).toEqual(["1.0.0"]);
+    });
+
+    test("rethrows non-network errors", async () => {
+      const broken = createStubClient({});
+      broken.listVersions = async () => {
+        throw new Error("bug");
+      };
+      const client = new FallbackRegistryClient([{ registryId: "mirror", client: broken }]);
+
+      await expect(client.listVersions("@scope/artifact")).rejects.toThrow("bug");
+    });
+  });
+
+  describe("publish", () => {
+    test("publishes to the primary registry only", async () => {
+      const mirror = createStubClient({});
+      const upstream = createStubClient({});
+      const client = new FallbackRegistryClient([
+        { registryId: "mirror", client: mirror },
+        { registryId: "upstream", client: upstream },
+      ]);
+
+      await client.publish({ artifactId: "@scope/artifact", version: "1.0.0", tarballPath: "/tmp/a.tar.gz" });
+
+      expect(mirror.publishes).toBe(1);
+      expect(upstream.publishes).toBe(0);
+    });
+  });
+});
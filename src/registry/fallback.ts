@@ -0,0 +1,169 @@
+/**
+ * Registry fallback chain
+ *
+ * Wraps the ordered clients of a scope (e.g. internal mirror first, public
+ * registry second) behind a single RegistryClient.
+ *
+ * Reads fail over to the next registry only when the artifact is missing
+ * (404) or the registry is unreachable. Any other failure (auth, unsafe
+ * tarball, server error) is returned as is, so a misconfigured mirror is
+ * never silently bypassed.
+ *
+ * Publishing always targets the primary registry.
+ */
+
+import { isNetworkError } from "#/core";
+import type {
+  RegistryClient,
+  ArtifactDownloadOptions,
+  ArtifactPublishOptions,
+  DownloadResult,
+  PublishResult,
+  RegistryArtifactInfo,
+  DistTagResult,
+  YankResult,
+  UnpublishOptions,
+  UnpublishResult,
+} from "./registry.types";
+import { DIST_TAGS_UNSUPPORTED } from "./dist-tags";
+import { YANK_UNSUPPORTED, UNPUBLISH_UNSUPPORTED } from "./unpublish";
+
+/**
+ * A client in a fallback chain with the registry ID recorded in the lockfile
+ */
+export interface RegistryChainMember {
+  /** Registry identifier (see getRegistryId) */
+  registryId: string;
+  client: RegistryClient;
+}
+
+export class FallbackRegistryClient implements RegistryClient {
+  private members: RegistryChainMember[];
+
+  constructor(members: RegistryChainMember[]) {
+    if (members.length === 0) {
+      throw new Error("Registry fallback chain requires at least one registry");
+    }
+    this.members = members;
+  }
+
+  /**
+   * Run a read on each registry in order until one yields a usable value.
+   * Network errors thrown by a client move on to the next registry.
+   */
+  private async firstResult<T>(
+    read: (client: RegistryClient) => Promise<T>,
+    isUsable: (value: T) => boolean,
+    fallback: T
+  ): Promise<T> {
+    for (const { client } of this.members) {
+      try {
+        const value = await read(client);
+        if (isUsable(value)) {
+          return value;
+        }
+      } catch (err) {
+        if (!isNetworkError(err)) {
+          throw err;
+        }
+      }
+    }
+    return fallback;
+  }
+
+  async download(
+    artifactId: string,
+    options: ArtifactDownloadOptions
+  ): Promise<DownloadResult> {
+    const failures: string[] = [];
+    let lastReason: DownloadResult["failureReason"];
+
+    for (const { registryId, client } of this.members) {
+      let result: DownloadResult;
+      try {
+        result = await client.download(artifactId, options);
+      } catch (err) {
+        if (!isNetworkError(err)) {
+          throw err;
+        }
+        const message = err instanceof Error ? err.message : "Unknown error";
+        result = { success: false, error: message, failureReason: "network" };
+      }
+
+      if (result.success) {
+        return { ...result, registry: registryId };
+      }
+
+      // Not a missing artifact or unreachable registry: report it, don't mask it
+      if (!result.failureReason) {
+        return result;
+      }
+
+      failures.push(`${registryId}: ${result.error ?? "Download failed"}`);
+      lastReason = result.failureReason;
+    }
+
+    return {
+      success: false,
+      error: `${artifactId} could not be downloaded from any registry (${failures.join("; ")})`,
+      failureReason: lastReason,
+    };
+  }
+
+  async publish(options: ArtifactPublishOptions): Promise<PublishResult> {
+    return this.members[0]!.client.publish(options);
+  }
+
+  async getLatestVersion(artifactId: string): Promise<string | null> {
+    return this.firstResult((client) => client.getLatestVersion(artifactId), (v) => v !== null, null);
+  }
+
+  async versionExists(artifactId: string, version: string): Promise<boolean> {
+    return this.firstResult((client) => client.versionExists(artifactId, version), (exists) => exists, false);
+  }
+
+  async listVersions(artifactId: string): Promise<string[]> {
+    return this.firstResult((client) => client.listVersions(artifactId), (versions) => versions.length > 0, []);
+  }
+
+  async getArtifactInfo(artifactId: string): Promise<RegistryArtifactInfo | null> {
+    return this.firstResult(
+      async (client) => (client.getArtifactInfo ? client.getArtifactInfo(artifactId) : null),
+      (info) => info !== null,
+      null
+    );
+  }
+
+  async getDistTags(artifactId: string): Promise<Record<string, string>> {
+    return this.firstResult(
+      async (client) => (client.getDistTags ? client.getDistTags(artifactId) : {}),
+      (distTags) => Object.keys(distTags).length > 0,
+      {}
+    );
+  }
+
+  async setDistTag(artifactId: string, tag: string, version: string): Promise<DistTagResult> {
+    const primary = this.members[0]!.client;
+    return primary.setDistTag ? primary.setDistTag(artifactId, tag, version) : DIST_TAGS_UNSUPPORTED;
+  }
+
+  async removeDistTag(artifactId: string, tag: string): Promise<DistTagResult> {
+    const primary = this.members[0]!.client;
+    return primary.removeDistTag ? primary.removeDistTag(artifactId, tag) : DIST_TAGS_UNSUPPORTED;
+  }
+
+  async yank(artifactId: string, version: string): Promise<YankResult> {
+    const primary = this.members[0]!.client;
+    return primary.yank ? primary.yank(artifactId, version) : YANK_UNSUPPORTED;
+  }
+
+  async unyank(artifactId: string, version: string): Promise<YankResult> {
+    const primary = this.members[0]!.client;
+    return primary.unyank ? primary.unyank(artifactId, version) : YANK_UNSUPPORTED;
+  }
+
+  async unpublish(artifactId: string, options: UnpublishOptions): Promise<UnpublishResult> {
+    const primary = this.members[0]!.client;
+    return primary.unpublish ? primary.unpublish(artifactId, options) : UNPUBLISH_UNSUPPORTED;
+  }
+}
@@ -0,0 +1,335 @@
+import { describe, test, expect } from "vitest";
+import { installGitSource, resolveGitCommit, isCommitSha } from "./git-source";
+import { parseSource } from "./sources";
+import {
+  createMockFileSystem,
+  createMockHttpClient,
+  createMockTarOperations,
+  jsonResponse,
+  binaryResponse,
+  errorResponse,
+} from "#/test-utils/mocks";
+
+const MAIN_SHA = "a".repeat(40);
+const OLD_SHA = "b".repeat(40);
+
+/**
+ * Fake git host: tarball bytes are the commit SHA, extraction writes them to grekt.yaml
+ */
+function setup(branchHead = MAIN_SHA) {
+  const fs = createMockFileSystem();
+  const tar = createMockTarOperations();
+  const downloads: string[] = [];
+
+  tar.extract = (options) => {
+    tar.calls.push({ operation: "extract", options });
+    // Repository layout: root artifact, plus artifacts/reviewer (with manifest) and docs/ (without)
+    const dir = options.subdir ?? "";
+    if (dir === "" || dir === "artifacts/reviewer") {
+      fs.writeFile(`${options.targetDir}/grekt.yaml`, `commit: ${fs.readFile(options.tarballPath)}\n`);
+    } else if (dir === "docs") {
+      fs.writeFile(`${options.targetDir}/README.md`, "# Docs");
+    }
+  };
+
+  const http = createMockHttpClient();
+  http.fetch = async (url: string) => {
+    if (url === "https://api.github.com/repos/owner/repo/commits/main") {
+      return jsonResponse({ sha: branchHead });
+    }
+    if (url === "https://gitlab.example.com/api/v4/projects/team%2Frepo/repository/commits/v1.0.0") {
+      return jsonResponse({ id: MAIN_SHA });
+    }
+    if (url === "https://api.bitbucket.org/2.0/repositories/team/repo/commit/main") {
+      return jsonResponse({ hash: branchHead });
+    }
+    if (url === "https://gitea.example.com/api/v1/repos/team/repo/git/commits/v1.0.0") {
+      return jsonResponse({ sha: MAIN_SHA });
+    }
+    if (url === "https://example.com/releases/artifact.tar.gz") {
+      downloads.push(url);
+      return binaryResponse(Buffer.from("release"));
+    }
+
+    const tarball =
+      url.match(/\/tarball\/([0-9a-f]{40})$/) ??
+      url.match(/archive\.tar\.gz\?sha=([0-9a-f]{40})$/) ??
+      url.match(/\/(?:get|archive)\/([0-9a-f]{40})\.tar\.gz$/);
+    if (tarball) {
+      downloads.push(tarball[1]!);
+      return binaryResponse(Buffer.from(tarball[1]!));
+    }
+    return errorResponse(404, "Not Found");
+  };
+
+  return { fs, tar, http, downloads };
+}
+
+describe("isCommitSha", () => {
+  test("accepts full SHAs only", () => {
+    expect(isCommitSha(MAIN_SHA)).toBe(true);
+    expect(isCommitSha("abc1234")).toBe(false);
+    expect(isCommitSha("main")).toBe(false);
+  });
+});
+
+describe("resolveGitCommit", () => {
+  test("resolves GitHub branch to commit SHA", async () => {
+    const { http } = setup();
+
+    const result = await resolveGitCommit(http, parseSource("github:owner/repo#main"));
+
+    expect(result).toEqual({ commit: MAIN_SHA });
+  });
+
+  test("resolves GitLab tag to commit SHA", async () => {
+    const { http } = setup();
+
+    const result = await resolveGitCommit(http, parseSource("gitlab:gitlab.example.com/team/repo#v1.0.0"));
+
+    expect(result).toEqual({ commit: MAIN_SHA });
+  });
+
+  test("resolves Bitbucket branch to commit SHA", async () => {
+    const { http } = setup();
+
+    const result = await resolveGitCommit(http, parseSource("bitbucket:team/repo#main"));
+
+    expect(result).toEqual({ commit: MAIN_SHA });
+  });
+
+  test("resolves Gitea tag to commit SHA", async () => {
+    const { http } = setup();
+
+    const result = await resolveGitCommit(http, parseSource("gitea:gitea.example.com/team/repo#v1.0.0"));
+
+    expect(result).toEqual({ commit: MAIN_SHA });
+  });
+
+  test("does not call the API for a full SHA", async () => {
+    const http = createMockHttpClient();
+
+    const result = await resolveGitCommit(http, parseSource(`github:owner/repo#${OLD_SHA}`));
+
+    expect(result).toEqual({ commit: OLD_SHA });
+  });
+
+  test("returns error for unknown ref", async () => {
+    const { http } = setup();
+
+    const result = await resolveGitCommit(http, parseSource("github:owner/repo#missing"));
+
+    expect(result.error).toBe("Git ref not found: github:owner/repo#missing");
+  });
+});
+
+describe("installGitSource", () => {
+  test("installs the commit a branch resolves to", async () => {
+    const { fs, tar, http, downloads } = setup();
+
+    const result = await installGitSource(http, fs, tar, parseSource("github:owner/repo#main"), {
+      targetDir: "/project/.grekt/artifacts/repo",
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.commit).toBe(MAIN_SHA);
+    expect(result.resolved).toBe(`github:owner/repo#${MAIN_SHA}`);
+    expect(result.fileHashes).toHaveProperty("grekt.yaml");
+    expect(result.integrity).toMatch(/^sha256-/);
+    expect(downloads).toEqual([MAIN_SHA]);
+  });
+
+  test("hashes with the lockfile's algorithm", async () => {
+    const { fs, tar, http } = setup();
+
+    const result = await installGitSource(http, fs, tar, parseSource("github:owner/repo#main"), {
+      targetDir: "/target",
+      hashAlgorithm: "sha512",
+    });
+
+    expect(result.integrity).toMatch(/^sha512-/);
+    expect(result.fileHashes!["grekt.yaml"]).toMatch(/^sha512-/);
+  });
+
+  test("reinstalls the locked commit after the branch moved", async () => {
+    const first = setup(OLD_SHA);
+    const locked = await installGitSource(first.http, first.fs, first.tar, parseSource("github:owner/repo#main"), {
+      targetDir: "/target",
+    });
+
+    // Branch head moved to MAIN_SHA since the lockfile was written
+    const { fs, tar, http, downloads } = setup(MAIN_SHA);
+    const result = await installGitSource(http, fs, tar, parseSource("github:owner/repo#main"), {
+      targetDir: "/target",
+      commit: locked.commit,
+      integrity: locked.integrity,
+    });
+
+    expect(result.success).toBe(true);
+    expect(downloads).toEqual([OLD_SHA]);
+    expect(result.integrity).toBe(locked.integrity);
+    expect(result.resolved).toBe(locked.resolved);
+  });
+
+  test("pins self-hosted GitLab sources", async () => {
+    const { fs, tar, http } = setup();
+
+    const result = await installGitSource(http, fs, tar, parseSource("gitlab:gitlab.example.com/team/repo#v1.0.0"), {
+      targetDir: "/target",
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.resolved).toBe(`gitlab:gitlab.example.com/team/repo#${MAIN_SHA}`);
+  });
+
+  test("pins Bitbucket sources", async () => {
+    const { fs, tar, http, downloads } = setup();
+
+    const result = await installGitSource(http, fs, tar, parseSource("bitbucket:team/repo#main"), {
+      targetDir: "/target",
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.resolved).toBe(`bitbucket:team/repo#${MAIN_SHA}`);
+    expect(downloads).toEqual([MAIN_SHA]);
+  });
+
+  test("pins Gitea sources", async () => {
+    const { fs, tar, http, downloads } = setup();
+
+    const result = await installGitSource(http, fs, tar, parseSource("gitea:gitea.example.com/team/repo#v1.0.0"), {
+      targetDir: "/target",
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.resolved).toBe(`gitea:gitea.example.com/team/repo#${MAIN_SHA}`);
+    expect(downloads).toEqual([MAIN_SHA]);
+  });
+
+  test("rejects Gitea sources without a host", async () => {
+    const { fs, tar, http, downloads } = setup();
+
+    const result = await installGitSource(http, fs, tar, parseSource("gitea:team/repo"), { targetDir: "/target" });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("expected gitea:host/owner/repo");
+    expect(downloads).toEqual([]);
+  });
+
+  test("fails on integrity mismatch", async () => {
+    const { fs, tar, http } = setup();
+
+    const result = await installGitSource(http, fs, tar, parseSource("github:owner/repo#main"), {
+      targetDir: "/target",
+      integrity: "sha256:00000000000000000000000000000000",
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("Integrity mismatch for github:owner/repo#main");
+    expect(fs.exists("/target/grekt.yaml")).toBe(false);
+  });
+
+  test("rejects an invalid locked commit", async () => {
+    const { fs, tar, http, downloads } = setup();
+
+    const result = await installGitSource(http, fs, tar, parseSource("github:owner/repo#main"), {
+      targetDir: "/target",
+      commit: "main",
+    });
+
+    expect(result).toEqual({ success: false, error: "Invalid locked commit: main" });
+    expect(downloads).toEqual([]);
+  });
+
+  describe("subdirectory sources", () => {
+    test("extracts only the artifact subtree", async () => {
+      const { fs, tar, http } = setup();
+
+      const result = await installGitSource(http, fs, tar, parseSource("github:owner/repo/artifacts/reviewer#main"), {
+        targetDir: "/target",
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.resolved).toBe(`github:owner/repo/artifacts/reviewer#${MAIN_SHA}`);
+      const extract = tar.calls.find((call) => call.operation === "extract")!;
+      expect(extract.options).toMatchObject({ subdir: "artifacts/reviewer", stripComponents: 1 });
+    });
+
+    test("fails when the subtree has no grekt.yaml", async () => {
+      const { fs, tar, http } = setup();
+
+      const result = await installGitSource(http, fs, tar, parseSource("github:owner/repo/docs#main"), {
+        targetDir: "/target",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("No grekt.yaml found at docs in github:owner/repo/docs#main");
+      expect(fs.exists("/target/README.md")).toBe(false);
+    });
+
+    test("rejects paths escaping the repository", async () => {
+      const { fs, tar, http, downloads } = setup();
+
+      const result = await installGitSource(http, fs, tar, parseSource("github:owner/repo/../etc#main"), {
+        targetDir: "/target",
+      });
+
+      expect(result).toEqual({ success: false, error: "Invalid source path: ../etc" });
+      expect(downloads).toEqual([]);
+    });
+  });
+
+  describe("archive URL sources", () => {
+    test("installs the archive without a commit", async () => {
+      const { fs, tar, http, downloads } = setup();
+
+      const result = await installGitSource(http, fs, tar, parseSource("https://example.com/releases/artifact.tar.gz"), {
+        targetDir: "/target",
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.commit).toBeUndefined();
+      expect(result.resolved).toBe("https://example.com/releases/artifact.tar.gz");
+      expect(result.integrity).toMatch(/^sha256-/);
+      expect(downloads).toEqual(["https://example.com/releases/artifact.tar.gz"]);
+    });
+
+    test("sends the token only to the host it was configured for", async () => {
+      const { fs, tar, http } = setup();
+      const authorization: Array<string | undefined> = [];
+      const fetch = http.fetch;
+      http.fetch = async (url: string, init?: RequestInit) => {
+        authorization.push((init?.headers as Record<string, string> | undefined)?.Authorization);
+        return fetch(url, init);
+      };
+      const source = parseSource("https://example.com/releases/artifact.tar.gz");
+
+      await installGitSource(http, fs, tar, source, { targetDir: "/own", token: "secret", tokenHost: "example.com" });
+      await installGitSource(http, fs, tar, source, { targetDir: "/foreign", token: "secret", tokenHost: "files.internal" });
+
+      expect(authorization).toEqual(["Bearer secret", undefined]);
+    });
+
+    test("fails when the archive changed since it was locked", async () => {
+      const { fs, tar, http } = setup();
+
+      const result = await installGitSource(http, fs, tar, parseSource("https://example.com/releases/artifact.tar.gz"), {
+        targetDir: "/target",
+        integrity: "sha256:00000000000000000000000000000000",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("Integrity mismatch for https://example.com/releases/artifact.tar.gz");
+      expect(fs.exists("/target/grekt.yaml")).toBe(false);
+    });
+  });
+
+  test("rejects non-git sources", async () => {
+    const { fs, tar, http } = setup();
+
+    const result = await installGitSource(http, fs, tar, parseSource("@scope/artifact"), { targetDir: "/target" });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("Not a git source: @scope/artifact");
+  });
+});
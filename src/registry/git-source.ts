@@ -0,0 +1,274 @@
+/**
+ * Git source installer
+ *
+ * Installs `github:`, `gitlab:`, `bitbucket:` and `gitea:` sources end to end:
+ * 1. Resolve the ref (branch, tag, HEAD) to an immutable commit SHA
+ * 2. Download and validate the archive of that commit
+ *    (only the source path subtree for monorepos, which must hold a grekt.yaml)
+ * 3. Hash the extracted files for the lockfile
+ *
+ * The lockfile stores the commit, so reinstalling a branch-based source
+ * reproduces the locked content instead of the current branch head.
+ *
+ * Plain `https://` archive sources skip step 1: there is no ref to pin, so
+ * the lockfile integrity is what makes their reinstalls reproducible.
+ */
+
+import { join } from "path";
+import { generateSecureTempPath, type FileSystem, type HttpClient, type TarOperations } from "#/core";
+import type { ParsedSource, GitSourceInstallOptions, GitSourceInstallResult } from "./registry.types";
+import {
+  buildGitHubCommitUrl,
+  buildGitLabCommitUrl,
+  buildBitbucketCommitUrl,
+  buildGiteaCommitUrl,
+  buildGitHubTarballUrl,
+  buildGitLabArchiveUrl,
+  buildBitbucketArchiveUrl,
+  buildGiteaArchiveUrl,
+  getGitHubHeaders,
+  getGitLabHeaders,
+  getBitbucketHeaders,
+  getGiteaHeaders,
+  getArchiveHeaders,
+  downloadAndExtractTarball,
+} from "./download";
+import { getSourceDisplayName } from "./sources";
+import { hashDirectory, calculateIntegrity, matchesIntegrity } from "#/artifact";
+
+const COMMIT_SHA_PATTERN = /^[0-9a-f]{40}$/i;
+const MANIFEST_FILENAME = "grekt.yaml";
+
+/**
+ * Check if a ref is a full commit SHA (already immutable, nothing to resolve)
+ */
+export function isCommitSha(ref: string): boolean {
+  return COMMIT_SHA_PATTERN.test(ref);
+}
+
+/**
+ * Split an owner/repo identifier (GitHub, Bitbucket, Gitea)
+ */
+function parseOwnerRepo(identifier: string): { owner: string; repo: string } | null {
+  const [owner, repo, ...rest] = identifier.split("/");
+  if (!owner || !repo || rest.length > 0) {
+    return null;
+  }
+  return { owner, repo };
+}
+
+/**
+ * API endpoints and auth headers of the host serving a git source
+ */
+interface GitHost {
+  commitUrl(ref: string): string;
+  archiveUrl(commit: string): string;
+  headers: Record<string, string>;
+  /** Field holding the SHA in the commit API response */
+  commitField: "sha" | "id" | "hash";
+}
+
+function getGitHost(source: ParsedSource, token?: string): { host?: GitHost; error?: string } {
+  switch (source.type) {
+    case "github": {
+      const repo = parseOwnerRepo(source.identifier);
+      if (!repo) {
+        return { error: `Invalid GitHub repository: ${source.identifier}` };
+      }
+      return {
+        host: {
+          commitUrl: (ref) => buildGitHubCommitUrl(repo.owner, repo.repo, ref),
+          archiveUrl: (commit) => buildGitHubTarballUrl(repo.owner, repo.repo, commit),
+          headers: getGitHubHeaders(token),
+          commitField: "sha",
+        },
+      };
+    }
+    case "gitlab": {
+      const gitlabHost = source.host ?? "gitlab.com";
+      return {
+        host: {
+          commitUrl: (ref) => buildGitLabCommitUrl(gitlabHost, source.identifier, ref),
+          archiveUrl: (commit) => buildGitLabArchiveUrl(gitlabHost, source.identifier, commit),
+          headers: getGitLabHeaders(token),
+          commitField: "id",
+        },
+      };
+    }
+    case "bitbucket": {
+      const repo = parseOwnerRepo(source.identifier);
+      if (!repo) {
+        return { error: `Invalid Bitbucket repository: ${source.identifier}` };
+      }
+      return {
+        host: {
+          commitUrl: (ref) => buildBitbucketCommitUrl(repo.owner, repo.repo, ref),
+          archiveUrl: (commit) => buildBitbucketArchiveUrl(repo.owner, repo.repo, commit),
+          headers: getBitbucketHeaders(token),
+          commitField: "hash",
+        },
+      };
+    }
+    case "gitea": {
+      const repo = parseOwnerRepo(source.identifier);
+      if (!source.host || !repo) {
+        return { error: `Invalid Gitea repository: ${getSourceDisplayName(source)} (expected gitea:host/owner/repo)` };
+      }
+      const giteaHost = source.host;
+      return {
+        host: {
+          commitUrl: (ref) => buildGiteaCommitUrl(giteaHost, repo.owner, repo.repo, ref),
+          archiveUrl: (commit) => buildGiteaArchiveUrl(giteaHost, repo.owner, repo.repo, commit),
+          headers: getGiteaHeaders(token),
+          commitField: "sha",
+        },
+      };
+    }
+    default:
+      return { error: `Not a git source: ${source.raw}` };
+  }
+}
+
+/**
+ * Resolve a git source ref to its commit SHA via the host API
+ */
+export async function resolveGitCommit(
+  http: HttpClient,
+  source: ParsedSource,
+  token?: string
+): Promise<{ commit?: string; error?: string }> {
+  const { host, error } = getGitHost(source, token);
+  if (!host) {
+    return { error };
+  }
+
+  const ref = source.ref ?? "HEAD";
+  if (isCommitSha(ref)) {
+    return { commit: ref.toLowerCase() };
+  }
+
+  try {
+    const response = await http.fetch(host.commitUrl(ref), { headers: host.headers });
+
+    if (response.status === 404 || response.status === 422) {
+      return { error: `Git ref not found: ${getSourceDisplayName(source)}` };
+    }
+    if (!response.ok) {
+      return { error: `Failed to resolve ${getSourceDisplayName(source)}: ${response.status} ${response.statusText}` };
+    }
+
+    // GitHub and Gitea return { sha }, GitLab returns { id }, Bitbucket returns { hash }
+    const data = (await response.json()) as Record<string, unknown>;
+    const commit = data[host.commitField];
+
+    if (typeof commit !== "string" || !isCommitSha(commit)) {
+      return { error: `Unexpected commit response for ${getSourceDisplayName(source)}` };
+    }
+    return { commit: commit.toLowerCase() };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return { error: `Failed to resolve ${getSourceDisplayName(source)}: ${message}` };
+  }
+}
+
+/**
+ * Install a git source into targetDir, pinned to a commit (url sources are installed as downloaded)
+ *
+ * @returns Lockfile-ready result: `resolved` is the source pinned to the commit
+ */
+export async function installGitSource(
+  http: HttpClient,
+  fs: FileSystem,
+  tar: TarOperations,
+  source: ParsedSource,
+  options: GitSourceInstallOptions
+): Promise<GitSourceInstallResult> {
+  const { targetDir, token } = options;
+
+  // Source path must stay inside the repository
+  if (source.path && source.path.split("/").some((segment) => segment === ".." || segment === ".")) {
+    return { success: false, error: `Invalid source path: ${source.path}` };
+  }
+
+  // Plain archive URLs have no commit to pin: the URL is the resolved source and
+  // the lockfile integrity guards against the content changing behind it
+  if (source.type === "url") {
+    return installArchive(http, fs, tar, source, source.identifier, getArchiveHeaders(source.identifier, token, options.tokenHost), options);
+  }
+
+  const { host, error: hostError } = getGitHost(source, token);
+  if (!host) {
+    return { success: false, error: hostError };
+  }
+
+  if (options.commit && !isCommitSha(options.commit)) {
+    return { success: false, error: `Invalid locked commit: ${options.commit}` };
+  }
+
+  const { commit, error } = options.commit
+    ? { commit: options.commit.toLowerCase(), error: undefined }
+    : await resolveGitCommit(http, source, token);
+
+  if (!commit) {
+    return { success: false, error };
+  }
+
+  return installArchive(http, fs, tar, source, host.archiveUrl(commit), host.headers, options, commit);
+}
+
+/**
+ * Download, extract and verify a source archive
+ */
+async function installArchive(
+  http: HttpClient,
+  fs: FileSystem,
+  tar: TarOperations,
+  source: ParsedSource,
+  url: string,
+  headers: Record<string, string>,
+  options: GitSourceInstallOptions,
+  commit?: string
+): Promise<GitSourceInstallResult> {
+  const { targetDir } = options;
+
+  const download = await downloadAndExtractTarball(http, fs, tar, url, targetDir, {
+    headers,
+    tempTarballPath: generateSecureTempPath("git"),
+    subdir: source.path,
+  });
+
+  if (!download.success) {
+    return { success: false, commit, error: `Failed to download ${getSourceDisplayName(source)}: ${download.error}` };
+  }
+
+  if (source.path && !fs.exists(join(targetDir, MANIFEST_FILENAME))) {
+    fs.rmdir(targetDir, { recursive: true });
+    return {
+      success: false,
+      commit,
+      error: `No ${MANIFEST_FILENAME} found at ${source.path} in ${getSourceDisplayName(source)}`,
+    };
+  }
+
+  const fileHashes = hashDirectory(fs, targetDir, options.hashAlgorithm);
+  const integrity = calculateIntegrity(fileHashes, options.hashAlgorithm);
+
+  // v1 lockfile integrities are checked by re-hashing in their format
+  if (options.integrity && options.integrity !== integrity && !matchesIntegrity(fs, targetDir, options.integrity)) {
+    // Never leave unverified files where an install is expected
+    fs.rmdir(targetDir, { recursive: true });
+    return {
+      success: false,
+      commit,
+      error: `Integrity mismatch for ${getSourceDisplayName(source)}: expected ${options.integrity}, got ${integrity}`,
+    };
+  }
+
+  return {
+    success: true,
+    commit,
+    resolved: commit ? getSourceDisplayName({ ...source, ref: commit }) : getSourceDisplayName(source),
+    integrity,
+    fileHashes,
+  };
+}
@@ -2,7 +2,7 @@
  * Registry module
  *
  * Handles artifact resolution, download, and publishing
- * across different registry types (default, GitLab, GitHub).
+ * across different registry types (default, GitLab, GitHub, local, S3, generic OCI).
  */
 
 // Types
@@ -14,17 +14,54 @@ export * from "./resolver";
 // Sources (source string parsing)
 export * from "./sources";
 
+// Version resolution (ranges, dist-tags)
+export * from "./version-resolver";
+export { validateDistTagChange } from "./dist-tags";
+
+// Yank and unpublish (guardrails)
+export { checkUnpublishAllowed, UNPUBLISH_WINDOW_HOURS, type UnpublishContext } from "./unpublish";
+
+// Dependencies (transitive graph resolution)
+export * from "./dependencies.types";
+export {
+  resolveDependencyGraph,
+  toLockfileEntries,
+  createRegistryDependencySource,
+  type RegistryDependencySourceOptions,
+} from "./dependencies";
+
 // Download utilities (URL builders, headers)
 export {
   buildGitHubTarballUrl,
   buildGitLabArchiveUrl,
+  buildGitHubCommitUrl,
+  buildGitLabCommitUrl,
+  buildBitbucketArchiveUrl,
+  buildBitbucketCommitUrl,
+  buildGiteaArchiveUrl,
+  buildGiteaCommitUrl,
   getGitHubHeaders,
   getGitLabHeaders,
+  getBitbucketHeaders,
+  getGiteaHeaders,
+  getArchiveHeaders,
   downloadAndExtractTarball,
 } from "./download";
 
+// Git sources (commit-pinned install)
+export { installGitSource, resolveGitCommit, isCommitSha } from "./git-source";
+
 // Factory (client creation)
-export { createRegistryClient } from "./factory";
+export { createRegistryClient, createRegistryClientChain } from "./factory";
+
+// Fallback chains (mirrors, failover)
+export { FallbackRegistryClient, type RegistryChainMember } from "./fallback";
+
+// Download cache (content-addressed, offline installs)
+export { CachedRegistryClient, type DownloadCacheOptions } from "./cache";
+
+// Publisher signatures (verified on install)
+export { VerifyingRegistryClient, type SignatureVerificationOptions } from "./verify";
 
 // Browser (remote artifact discovery)
 export * from "./browse.types";
@@ -33,3 +70,7 @@ export { createRegistryBrowser } from "./browser-factory";
 // Clients (direct access if needed)
 export { DefaultRegistryClient, RegistryApiError } from "./clients/default";
 export { GitLabRegistryClient } from "./clients/gitlab";
+export { LocalRegistryClient } from "./clients/local";
+export { S3RegistryClient } from "./clients/s3";
+export { OciRegistryClient } from "./clients/oci";
+export { signS3Request, type S3SignRequest, type S3SigningCredentials } from "./clients/s3-signer";
@@ -6,10 +6,14 @@
  * "a registry client" with download/publish methods.
  */
 
+import type { S3RegistryConfig, ArtifactSignature, HashAlgorithm } from "#/schemas";
+import type { S3AccessKeys } from "#/core";
+import type { Category } from "#/categories";
+
 // Re-export types from schemas to avoid duplication
-export type { LocalConfig, RegistryEntry } from "#/schemas";
+export type { LocalConfig, RegistryEntry, ScopeRegistries } from "#/schemas";
 
-export type RegistryType = "gitlab" | "github" | "default";
+export type RegistryType = "gitlab" | "github" | "default" | "local" | "s3" | "oci";
 
 /**
  * Normalized registry configuration.
@@ -22,8 +26,21 @@ export interface ResolvedRegistry {
   token?: string;
   prefix?: string; // Package name prefix (e.g., "frontend" → "frontend-artifact-name")
   apiBasePath?: string; // REST API base path for default registry (e.g., "/functions/v1")
+  path?: string; // Directory for local registry
+  s3?: S3RegistryConfig; // Endpoint and bucket for S3 registry
+  s3Credentials?: S3AccessKeys; // Access keys for S3 registry (from the TokenProvider)
+  username?: string; // Username for generic OCI registries (token is the password)
+  repository?: string; // Repository name template for generic OCI registries (e.g., "{project}/{scope}/{name}")
+  tagDeletion?: boolean; // OCI registry deletes a tag without deleting its manifest
+  maxPages?: number; // Page cap for paginated GitLab listings (packages, repository tree)
 }
 
+/**
+ * Why a download failed, when the client can tell.
+ * Fallback chains only move to the next registry for these reasons.
+ */
+export type DownloadFailureReason = "not_found" | "network";
+
 /**
  * Result from download operation
  */
@@ -32,12 +49,22 @@ export interface DownloadResult {
   version?: string;
   resolved?: string;
   deprecationMessage?: string;
-  /** Integrity hash of the extracted artifact (sha256:...) */
+  /** Integrity hash of the extracted artifact (SRI, e.g. sha256-...) */
   integrity?: string;
   /** Per-file hashes for lockfile storage */
   fileHashes?: Record<string, string>;
   /** Error message if success is false */
   error?: string;
+  /** Classified failure cause if success is false */
+  failureReason?: DownloadFailureReason;
+  /** Registry that served the artifact (see getRegistryId), set by fallback chains */
+  registry?: string;
+  /** True when the artifact was served from the download cache */
+  cached?: boolean;
+  /** Publisher signature distributed with the artifact, if it was signed */
+  signature?: ArtifactSignature;
+  /** Key ID of the trusted publisher whose signature was verified (see VerifyingRegistryClient) */
+  signedBy?: string;
 }
 
 /**
@@ -49,12 +76,51 @@ export interface PublishResult {
   error?: string;
 }
 
+/**
+ * Result from setting or removing a dist-tag
+ */
+export interface DistTagResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Result from yanking or unyanking a version
+ */
+export interface YankResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Options for unpublishing a version (see checkUnpublishAllowed for the guardrails)
+ */
+export interface UnpublishOptions {
+  version: string;
+  /** Artifacts known to depend on the version (e.g. from dependency graphs); unpublish is refused while any remain */
+  dependents?: string[];
+  /** Skip the guardrails, e.g. to remove a leaked secret. Prefer yank otherwise. */
+  force?: boolean;
+}
+
+/**
+ * Result from unpublishing a version
+ */
+export interface UnpublishResult {
+  success: boolean;
+  error?: string;
+}
+
 /**
  * Options for client download operation
  */
 export interface ArtifactDownloadOptions {
   version?: string;
   targetDir: string;
+  /** Expected integrity (from the lockfile), lets the download cache serve the exact locked content */
+  integrity?: string;
+  /** Algorithm of the returned hashes (Lockfile.hashAlgorithm, default sha256) */
+  hashAlgorithm?: HashAlgorithm;
 }
 
 /**
@@ -64,6 +130,8 @@ export interface ArtifactPublishOptions {
   artifactId: string;
   version: string;
   tarballPath: string;
+  /** Publisher signature of the tarball's integrity (see signArtifact), stored alongside it */
+  signature?: ArtifactSignature;
 }
 
 /**
@@ -85,17 +153,18 @@ export interface RegistryClient {
   publish(options: ArtifactPublishOptions): Promise<PublishResult>;
 
   /**
-   * Get the latest version of an artifact
+   * Get the latest version of an artifact (never a yanked version)
    */
   getLatestVersion(artifactId: string): Promise<string | null>;
 
   /**
-   * Check if a specific version exists
+   * Check if a specific version exists (yanked versions still exist)
    */
   versionExists(artifactId: string, version: string): Promise<boolean>;
 
   /**
-   * List all versions of an artifact (sorted by semver descending)
+   * List the installable versions of an artifact (sorted by semver descending).
+   * Yanked versions are left out so ranges and dist-tags never resolve to them.
    */
   listVersions(artifactId: string): Promise<string[]>;
 
@@ -103,12 +172,43 @@ export interface RegistryClient {
    * Get full artifact information (optional, for info command)
    */
   getArtifactInfo?(artifactId: string): Promise<RegistryArtifactInfo | null>;
+
+  /**
+   * Get the dist-tags of an artifact (tag → version), empty when none are set.
+   * Optional: registries without dist-tag storage resolve "latest" to the highest stable version.
+   */
+  getDistTags?(artifactId: string): Promise<Record<string, string>>;
+
+  /**
+   * Point a dist-tag at a published version (creates or moves the tag)
+   */
+  setDistTag?(artifactId: string, tag: string, version: string): Promise<DistTagResult>;
+
+  /**
+   * Remove a dist-tag ("latest" cannot be removed)
+   */
+  removeDistTag?(artifactId: string, tag: string): Promise<DistTagResult>;
+
+  /**
+   * Yank a version: hidden from ranges and latest, still downloadable by exact version (lockfiles)
+   */
+  yank?(artifactId: string, version: string): Promise<YankResult>;
+
+  /**
+   * Make a yanked version resolvable again
+   */
+  unyank?(artifactId: string, version: string): Promise<YankResult>;
+
+  /**
+   * Delete a version for good, subject to the unpublish guardrails
+   */
+  unpublish?(artifactId: string, options: UnpublishOptions): Promise<UnpublishResult>;
 }
 
 /**
  * Source types for artifact origins
  */
-export type SourceType = "registry" | "github" | "gitlab" | "local";
+export type SourceType = "registry" | "github" | "gitlab" | "bitbucket" | "gitea" | "url" | "local";
 
 /**
  * Parsed source information
@@ -116,12 +216,14 @@ export type SourceType = "registry" | "github" | "gitlab" | "local";
 export interface ParsedSource {
   /** Source type */
   type: SourceType;
-  /** For registry: artifact ID. For git: owner/repo. For local: file path */
+  /** For registry: artifact ID. For git: owner/repo. For url: the archive URL. For local: file path */
   identifier: string;
   /** Git ref (tag, branch, commit). Defaults to HEAD/main */
   ref?: string;
-  /** For self-hosted GitLab: the host */
+  /** For self-hosted GitLab and Gitea: the host */
   host?: string;
+  /** For git: artifact directory inside the repository (monorepos). Undefined means repo root */
+  path?: string;
   /** Original source string */
   raw: string;
 }
@@ -155,6 +257,39 @@ export interface Publisher {
   publish(ctx: PublishContext): Promise<PublisherResult>;
 }
 
+/**
+ * Options for installing a git source (see installGitSource)
+ */
+export interface GitSourceInstallOptions {
+  targetDir: string;
+  /** Token for private repositories (TokenProvider.getGitToken) */
+  token?: string;
+  /** Host the token was configured for. Archive URL sources only send the token to this host */
+  tokenHost?: string;
+  /** Commit SHA locked in the lockfile. Skips ref resolution so reinstalls reproduce the same content */
+  commit?: string;
+  /** Expected integrity from the lockfile, the install fails on mismatch */
+  integrity?: string;
+  /** Algorithm of the returned hashes (Lockfile.hashAlgorithm, default sha256) */
+  hashAlgorithm?: HashAlgorithm;
+}
+
+/**
+ * Result of installing a git source
+ */
+export interface GitSourceInstallResult {
+  success: boolean;
+  /** Immutable commit SHA the ref resolved to (git hosts only, url sources have none) */
+  commit?: string;
+  /** Lockfile-ready source pinned to the commit (e.g. github:owner/repo#<sha>). For url sources: the URL */
+  resolved?: string;
+  /** Integrity hash of the extracted files (SRI, e.g. sha256-...) */
+  integrity?: string;
+  /** Per-file hashes for lockfile storage */
+  fileHashes?: Record<string, string>;
+  error?: string;
+}
+
 /**
  * Options for tarball download and extraction
  */
@@ -163,6 +298,8 @@ export interface DownloadOptions {
   stripComponents?: number;
   /** Temporary file path for tarball. Caller should generate a secure random path. */
   tempTarballPath?: string;
+  /** Only extract this directory of the archive (see TarExtractOptions.subdir) */
+  subdir?: string;
 }
 
 /**
@@ -179,6 +316,8 @@ export interface TarballDownloadResult {
 export interface VersionInfo {
   version: string;
   deprecated?: string;
+  /** True when the version was yanked */
+  yanked?: boolean;
   publishedAt?: string;
 }
 
@@ -191,6 +330,8 @@ export interface RegistryArtifactInfo {
   versions: VersionInfo[];
   createdAt?: string;
   updatedAt?: string;
+  /** True when the registry listing hit its page cap, so older versions are missing */
+  truncated?: boolean;
 }
 
 // ============================================================================
@@ -210,6 +351,7 @@ export interface DefaultPublishRequest {
   private?: boolean;
   license?: string;
   repository?: string;
+  signature?: ArtifactSignature;
 }
 
 /**
@@ -240,6 +382,73 @@ export interface DeprecateOptions {
   message: string;
 }
 
+/**
+ * Version deprecation, implemented by registries that can store it
+ * (default, GitHub, GitLab). Deprecated versions stay installable; downloads
+ * report the message in DownloadResult.deprecationMessage.
+ */
+export interface DeprecationOperations {
+  /**
+   * Deprecate an artifact version with a message.
+   */
+  deprecate(artifactId: string, options: DeprecateOptions): Promise<void>;
+
+  /**
+   * Remove deprecation from an artifact version.
+   */
+  undeprecate(artifactId: string, version: string): Promise<void>;
+}
+
+/**
+ * Sort order for registry search results.
+ * Without a sort, the registry ranks by relevance to the query.
+ */
+export type ArtifactSearchSort = "relevance" | "downloads" | "recent" | "name";
+
+/**
+ * Options for searching the default registry.
+ */
+export interface ArtifactSearchOptions {
+  /** Free text matched against artifact id, description and keywords */
+  query?: string;
+  /** Only artifacts providing components of this category */
+  category?: Category;
+  /** Only artifacts tagged with all of these keywords */
+  keywords?: string[];
+  sort?: ArtifactSearchSort;
+  /** Results per page (1-100, default 20) */
+  limit?: number;
+  /** 1-based page number (default 1) */
+  page?: number;
+}
+
+/**
+ * An artifact matching a registry search.
+ */
+export interface ArtifactSearchResult {
+  id: string;
+  description: string;
+  keywords: string[];
+  /** Highest published version */
+  latestVersion: string;
+  /** Total downloads across all versions */
+  downloads: number;
+  /** Deprecation message of the latest version, if deprecated */
+  deprecated?: string;
+}
+
+/**
+ * One page of registry search results.
+ */
+export interface ArtifactSearchPage {
+  results: ArtifactSearchResult[];
+  /** Total number of matches across all pages */
+  total: number;
+  page: number;
+  limit: number;
+  hasMore: boolean;
+}
+
 /**
  * Error response from the default registry API.
  */
@@ -254,7 +463,7 @@ export interface RegistryErrorResponse {
  * Separated from RegistryClient to avoid polluting the universal interface
  * with operations that only the default registry supports.
  */
-export interface DefaultRegistryOperations {
+export interface DefaultRegistryOperations extends DeprecationOperations {
   /**
    * Publish artifact metadata and get a signed upload URL.
    * Caller is responsible for uploading the tarball to the URL.
@@ -268,12 +477,7 @@ export interface DefaultRegistryOperations {
   confirmPublish(options: ConfirmPublishOptions): Promise<void>;
 
   /**
-   * Deprecate an artifact version with a message.
-   */
-  deprecate(artifactId: string, options: DeprecateOptions): Promise<void>;
-
-  /**
-   * Remove deprecation from an artifact version.
+   * Search public artifacts (and private ones visible to the token), one page at a time.
    */
-  undeprecate(artifactId: string, version: string): Promise<void>;
+  search(options: ArtifactSearchOptions): Promise<ArtifactSearchPage>;
 }
@@ -3,7 +3,9 @@ import {
   parseArtifactId,
   getDefaultHost,
   resolveRegistry,
+  resolveRegistryChain,
   resolveRegistryForArtifact,
+  getRegistryId,
 } from "./resolver";
 import { createMockTokenProvider } from "#/test-utils/mocks";
 import type { LocalConfig } from "./registry.types";
@@ -36,6 +38,22 @@ describe("parseArtifactId", () => {
     expect(result.version).toBe("2.0.0");
   });
 
+  test("extracts dist-tag from @scope/name@tag", () => {
+    const result = parseArtifactId("@scope/pkg@next");
+
+    expect(result.artifactId).toBe("@scope/pkg");
+    expect(result.tag).toBe("next");
+    expect(result.version).toBeUndefined();
+  });
+
+  test("keeps ranges as version", () => {
+    expect(parseArtifactId("@scope/pkg@^1.2.0")).toMatchObject({ version: "^1.2.0", tag: undefined });
+  });
+
+  test("throws on an invalid version specifier", () => {
+    expect(() => parseArtifactId("@scope/pkg@v1.0.0")).toThrow('Invalid version "v1.0.0"');
+  });
+
   test("handles prerelease versions", () => {
     expect(parseArtifactId("@s/p@1.0.0-alpha.1").version).toBe("1.0.0-alpha.1");
     expect(parseArtifactId("@s/p@1.0.0-rc.2+build").version).toBe("1.0.0-rc.2+build");
@@ -66,6 +84,9 @@ describe("getDefaultHost", () => {
     expect(getDefaultHost("default")).toBe(DEFAULT_HOST);
     expect(getDefaultHost("gitlab")).toBe(GITLAB_HOST);
     expect(getDefaultHost("github")).toBe(GITHUB_HOST);
+    expect(getDefaultHost("local")).toBe("localhost");
+    expect(getDefaultHost("s3")).toBe("s3.amazonaws.com");
+    expect(getDefaultHost("oci")).toBe("registry-1.docker.io");
   });
 });
 
@@ -129,6 +150,66 @@ describe("resolveRegistry", () => {
     expect(resolveRegistry("@org", config).prefix).toBeUndefined();
   });
 
+  test("includes path for local registry", () => {
+    const config: LocalConfig = {
+      registries: { "@org": { type: "local", path: "/mnt/grekt-registry" } },
+    };
+
+    const result = resolveRegistry("@org", config);
+
+    expect(result.type).toBe("local");
+    expect(result.path).toBe("/mnt/grekt-registry");
+  });
+
+  test("includes username and repository template for oci registry", () => {
+    const config: LocalConfig = {
+      registries: {
+        "@org": {
+          type: "oci",
+          host: "harbor.internal",
+          project: "platform",
+          username: "robot$grekt",
+          repository: "{project}/{scope}/{name}",
+        },
+      },
+    };
+
+    const result = resolveRegistry("@org", config);
+
+    expect(result.type).toBe("oci");
+    expect(result.host).toBe("harbor.internal");
+    expect(result.username).toBe("robot$grekt");
+    expect(result.repository).toBe("{project}/{scope}/{name}");
+  });
+
+  test("includes s3 config for s3 registry", () => {
+    const s3 = {
+      endpoint: "https://account.r2.cloudflarestorage.com",
+      bucket: "grekt",
+      region: "auto",
+    };
+    const config: LocalConfig = {
+      registries: { "@org": { type: "s3", s3 } },
+    };
+
+    const result = resolveRegistry("@org", config);
+
+    expect(result.type).toBe("s3");
+    expect(result.s3).toEqual(s3);
+    expect(result.s3Credentials).toBeUndefined();
+  });
+
+  test("takes s3 access keys from the TokenProvider", () => {
+    const keys = { accessKeyId: "key", secretAccessKey: "secret" };
+    const config: LocalConfig = {
+      registries: { "@org": { type: "s3", s3: { endpoint: "https://minio.internal:9000", bucket: "grekt" } } },
+    };
+    const tokens = createMockTokenProvider({ s3: { "@org": keys } });
+
+    expect(resolveRegistry("@org", config, tokens).s3Credentials).toEqual(keys);
+    expect(resolveRegistry("@other", config, tokens).s3Credentials).toBeUndefined();
+  });
+
   describe("token resolution", () => {
     test("uses token from config", () => {
       const config: LocalConfig = {
@@ -160,6 +241,17 @@ describe("resolveRegistry", () => {
       expect(resolveRegistry("@org", config, tokens).token).toBe("gh-token");
     });
 
+    test("falls back to registry token for oci", () => {
+      const config: LocalConfig = {
+        registries: { "@org": { type: "oci", host: "harbor.internal", project: "p" } },
+      };
+      const tokens = createMockTokenProvider({
+        registry: { "@org": "harbor-password" },
+      });
+
+      expect(resolveRegistry("@org", config, tokens).token).toBe("harbor-password");
+    });
+
     test("prefers config token over TokenProvider", () => {
       const config: LocalConfig = {
         registries: { "@org": { type: "gitlab", project: "p", token: "config" } },
@@ -173,6 +265,81 @@ describe("resolveRegistry", () => {
   });
 });
 
+describe("resolveRegistryChain", () => {
+  test("returns default registry when scope is not configured", () => {
+    const chain = resolveRegistryChain("@unknown", null);
+
+    expect(chain).toHaveLength(1);
+    expect(chain[0]!.type).toBe("default");
+  });
+
+  test("wraps a single entry in a one-element chain", () => {
+    const config: LocalConfig = {
+      registries: { "@org": { type: "gitlab", project: "org/artifacts" } },
+    };
+
+    const chain = resolveRegistryChain("@org", config);
+
+    expect(chain.map((r) => r.type)).toEqual(["gitlab"]);
+  });
+
+  test("resolves every entry of a fallback chain in order with its own token", () => {
+    const config: LocalConfig = {
+      registries: {
+        "@org": [
+          { type: "gitlab", project: "mirror/artifacts", host: "gitlab.internal.com" },
+          { type: "default" },
+        ],
+      },
+    };
+    const tokens = createMockTokenProvider({
+      registry: { "@org": "registry-token" },
+      git: { gitlab: { "gitlab.internal.com": "gitlab-token" } },
+    });
+
+    const chain = resolveRegistryChain("@org", config, tokens);
+
+    expect(chain.map((r) => [r.type, r.host, r.token])).toEqual([
+      ["gitlab", "gitlab.internal.com", "gitlab-token"],
+      ["default", DEFAULT_HOST, "registry-token"],
+    ]);
+  });
+
+  test("resolveRegistry returns the primary registry of a chain", () => {
+    const config: LocalConfig = {
+      registries: { "@org": [{ type: "local", path: "/mnt/mirror" }, { type: "default" }] },
+    };
+
+    const result = resolveRegistry("@org", config);
+
+    expect(result.type).toBe("local");
+    expect(result.path).toBe("/mnt/mirror");
+  });
+});
+
+describe("getRegistryId", () => {
+  test("uses type, host and project", () => {
+    expect(getRegistryId({ type: "gitlab", host: "gitlab.com", project: "team/artifacts" })).toBe(
+      "gitlab:gitlab.com/team/artifacts"
+    );
+    expect(getRegistryId({ type: "default", host: DEFAULT_HOST })).toBe(`default:${DEFAULT_HOST}`);
+  });
+
+  test("uses path for local registries", () => {
+    expect(getRegistryId({ type: "local", host: "localhost", path: "/mnt/registry" })).toBe("local:/mnt/registry");
+  });
+
+  test("uses endpoint host and bucket for s3 registries", () => {
+    const registry = {
+      type: "s3" as const,
+      host: "s3.amazonaws.com",
+      s3: { endpoint: "https://minio.internal:9000", bucket: "grekt" },
+    };
+
+    expect(getRegistryId(registry)).toBe("s3:minio.internal:9000/grekt");
+  });
+});
+
 describe("resolveRegistryForArtifact", () => {
   test("parses artifact and resolves registry in one call", () => {
     const config: LocalConfig = {
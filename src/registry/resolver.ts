@@ -6,8 +6,10 @@
  */
 
 import type { TokenProvider } from "#/core";
-import type { LocalConfig, ResolvedRegistry, RegistryType } from "./registry.types";
+import type { LocalConfig, RegistryEntry, ResolvedRegistry, RegistryType } from "./registry.types";
+import { toRegistryEntries } from "#/schemas";
 import { ARTIFACT_ID_REGEX, REGISTRY_HOST, DEFAULT_REGISTRY_API_PATH } from "#/constants";
+import { isDistTag, isValidVersionSpec } from "#/version";
 
 const DEFAULT_REGISTRY_HOST = REGISTRY_HOST;
 
@@ -22,11 +24,15 @@ const DEFAULT_REGISTRY_HOST = REGISTRY_HOST;
  * parseArtifactId("@miscope/agent-tools") → { scope: "@miscope", name: "agent-tools", artifactId: "@miscope/agent-tools" }
  * parseArtifactId("grekt/tools") → { scope: "@grekt", name: "tools", artifactId: "@grekt/tools" }
  * parseArtifactId("@scope/name@1.0.0") → { scope: "@scope", name: "name", version: "1.0.0", artifactId: "@scope/name" }
+ * parseArtifactId("@scope/name@next") → { scope: "@scope", name: "name", tag: "next", artifactId: "@scope/name" }
  */
 export function parseArtifactId(source: string): {
   scope: string;
   name: string;
+  /** Exact version or range after the @ */
   version?: string;
+  /** Dist-tag after the @ (e.g. "next", "beta") */
+  tag?: string;
   artifactId: string;
 } {
   // Match @?scope/name optionally followed by @version (@ is optional)
@@ -36,14 +42,21 @@ export function parseArtifactId(source: string): {
     throw new Error(`Invalid artifact ID: ${source}. Expected format: @scope/name or scope/name`);
   }
 
-  const [, scopeWithoutAt, name, version] = match;
+  const [, scopeWithoutAt, name, spec] = match;
   const scope = `@${scopeWithoutAt}`;
   const artifactId = `${scope}/${name}`;
 
+  if (spec !== undefined && !isValidVersionSpec(spec)) {
+    throw new Error(`Invalid version "${spec}" in ${source}. Expected a version (1.2.0), a range (^1.2.0) or a dist-tag (next)`);
+  }
+
+  const tag = spec !== undefined && isDistTag(spec) ? spec : undefined;
+
   return {
     scope,
     name: name!,
-    version,
+    version: tag ? undefined : spec,
+    tag,
     artifactId,
   };
 }
@@ -57,6 +70,12 @@ export function getDefaultHost(type: RegistryType): string {
       return "gitlab.com";
     case "github":
       return "ghcr.io"; // GitHub Container Registry for OCI artifacts
+    case "local":
+      return "localhost"; // Filesystem only, host is informational
+    case "s3":
+      return "s3.amazonaws.com"; // Informational, requests go to s3.endpoint
+    case "oci":
+      return "registry-1.docker.io"; // Docker Hub
     case "default":
     default:
       return DEFAULT_REGISTRY_HOST;
@@ -64,35 +83,15 @@ export function getDefaultHost(type: RegistryType): string {
 }
 
 /**
- * Resolve a scope to a registry configuration
- *
- * Priority:
- * 1. Explicit config in localConfig
- * 2. Fall back to default public registry
+ * Resolve a single registry entry for a scope
  *
  * Token priority:
  * 1. Config entry token
  * 2. TokenProvider (for env vars like GITLAB_TOKEN, GITHUB_TOKEN)
+ *
+ * S3 access keys only come from the TokenProvider.
  */
-export function resolveRegistry(
-  scope: string,
-  localConfig: LocalConfig | null,
-  tokens?: TokenProvider
-): ResolvedRegistry {
-  const entry = localConfig?.registries?.[scope];
-
-  if (!entry) {
-    // No config for scope → use public registry with API path
-    const registryToken = tokens?.getRegistryToken(scope);
-    return {
-      type: "default",
-      host: DEFAULT_REGISTRY_HOST,
-      apiBasePath: DEFAULT_REGISTRY_API_PATH,
-      token: registryToken,
-    };
-  }
-
-  // Get token from config, fall back to TokenProvider
+function resolveEntry(scope: string, entry: RegistryEntry, tokens?: TokenProvider): ResolvedRegistry {
   let token = entry.token;
 
   if (!token && tokens) {
@@ -100,7 +99,7 @@ export function resolveRegistry(
       token = tokens.getGitToken("gitlab", entry.host);
     } else if (entry.type === "github") {
       token = tokens.getGitToken("github", entry.host);
-    } else if (entry.type === "default") {
+    } else if (entry.type === "default" || entry.type === "oci") {
       token = tokens.getRegistryToken(scope);
     }
   }
@@ -112,9 +111,78 @@ export function resolveRegistry(
     token,
     prefix: entry.prefix,
     apiBasePath: entry.type === "default" ? DEFAULT_REGISTRY_API_PATH : undefined,
+    path: entry.path,
+    s3: entry.s3,
+    s3Credentials: entry.type === "s3" ? tokens?.getS3Credentials?.(scope) : undefined,
+    username: entry.username,
+    repository: entry.repository,
+    tagDeletion: entry.tagDeletion,
+    maxPages: entry.maxPages,
   };
 }
 
+/**
+ * Resolve a scope to its ordered registry chain (primary first)
+ *
+ * Priority:
+ * 1. Explicit config in localConfig (single entry or fallback list)
+ * 2. Fall back to default public registry
+ */
+export function resolveRegistryChain(
+  scope: string,
+  localConfig: LocalConfig | null,
+  tokens?: TokenProvider
+): ResolvedRegistry[] {
+  const registries = localConfig?.registries?.[scope];
+
+  if (!registries) {
+    // No config for scope → use public registry with API path
+    const registryToken = tokens?.getRegistryToken(scope);
+    return [{
+      type: "default",
+      host: DEFAULT_REGISTRY_HOST,
+      apiBasePath: DEFAULT_REGISTRY_API_PATH,
+      token: registryToken,
+    }];
+  }
+
+  return toRegistryEntries(registries).map((entry) => resolveEntry(scope, entry, tokens));
+}
+
+/**
+ * Resolve a scope to a registry configuration
+ *
+ * Returns the primary registry of the scope. Use resolveRegistryChain
+ * to get the fallback registries as well.
+ */
+export function resolveRegistry(
+  scope: string,
+  localConfig: LocalConfig | null,
+  tokens?: TokenProvider
+): ResolvedRegistry {
+  return resolveRegistryChain(scope, localConfig, tokens)[0]!;
+}
+
+/**
+ * Stable identifier of a registry, recorded in the lockfile to tell
+ * which registry of a fallback chain served an artifact.
+ *
+ * @example
+ * getRegistryId({ type: "gitlab", host: "gitlab.com", project: "team/artifacts" }) → "gitlab:gitlab.com/team/artifacts"
+ * getRegistryId({ type: "local", host: "localhost", path: "/mnt/registry" }) → "local:/mnt/registry"
+ */
+export function getRegistryId(registry: ResolvedRegistry): string {
+  if (registry.type === "local" && registry.path) {
+    return `local:${registry.path}`;
+  }
+  if (registry.type === "s3" && registry.s3) {
+    return `s3:${new URL(registry.s3.endpoint).host}/${registry.s3.bucket}`;
+  }
+
+  const project = registry.project ? `/${registry.project}` : "";
+  return `${registry.type}:${registry.host}${project}`;
+}
+
 /**
  * Resolve registry for an artifact ID
  *
@@ -86,6 +86,73 @@ describe("sources", () => {
       expect(result.type).toBe("gitlab");
       expect(result.identifier).toBe("group/subgroup/project");
       expect(result.host).toBe("gitlab.com");
+      expect(result.path).toBeUndefined();
+    });
+
+    test("parses github subdirectory path", () => {
+      const result = parseSource("github:owner/repo/artifacts/reviewer#v1.2.0");
+
+      expect(result.type).toBe("github");
+      expect(result.identifier).toBe("owner/repo");
+      expect(result.path).toBe("artifacts/reviewer");
+      expect(result.ref).toBe("v1.2.0");
+    });
+
+    test("normalizes slashes in subdirectory path", () => {
+      const result = parseSource("github:owner/repo//artifacts/reviewer/");
+
+      expect(result.path).toBe("artifacts/reviewer");
+    });
+
+    test("parses gitlab subdirectory after /-/ separator", () => {
+      const result = parseSource("gitlab:gitlab.mycompany.com/group/subgroup/project/-/artifacts/reviewer#main");
+
+      expect(result.host).toBe("gitlab.mycompany.com");
+      expect(result.identifier).toBe("group/subgroup/project");
+      expect(result.path).toBe("artifacts/reviewer");
+      expect(result.ref).toBe("main");
+    });
+
+    test("parses gitlab.com subdirectory", () => {
+      const result = parseSource("gitlab:group/project/-/artifacts/reviewer");
+
+      expect(result.host).toBe("gitlab.com");
+      expect(result.identifier).toBe("group/project");
+      expect(result.path).toBe("artifacts/reviewer");
+    });
+
+    test("parses bitbucket source with subdirectory and ref", () => {
+      const result = parseSource("bitbucket:team/repo/artifacts/reviewer#main");
+
+      expect(result.type).toBe("bitbucket");
+      expect(result.identifier).toBe("team/repo");
+      expect(result.path).toBe("artifacts/reviewer");
+      expect(result.ref).toBe("main");
+    });
+
+    test("parses gitea source with host", () => {
+      const result = parseSource("gitea:git.mycompany.com/team/repo#v1.0.0");
+
+      expect(result.type).toBe("gitea");
+      expect(result.host).toBe("git.mycompany.com");
+      expect(result.identifier).toBe("team/repo");
+      expect(result.path).toBeUndefined();
+      expect(result.ref).toBe("v1.0.0");
+    });
+
+    test("parses gitea subdirectory", () => {
+      const result = parseSource("gitea:git.mycompany.com/team/repo/artifacts/reviewer");
+
+      expect(result.identifier).toBe("team/repo");
+      expect(result.path).toBe("artifacts/reviewer");
+    });
+
+    test("returns url type for https archive", () => {
+      const result = parseSource("https://example.com/releases/artifact-1.0.0.tar.gz");
+
+      expect(result.type).toBe("url");
+      expect(result.identifier).toBe("https://example.com/releases/artifact-1.0.0.tar.gz");
+      expect(result.ref).toBeUndefined();
     });
 
     test("returns local type for relative path", () => {
@@ -195,6 +262,25 @@ describe("sources", () => {
       expect(display).toBe("gitlab:gitlab.mycompany.com/owner/repo#v1.0.0");
     });
 
+    test.each([
+      "github:owner/repo/artifacts/reviewer",
+      "github:owner/repo/artifacts/reviewer#v1.2.0",
+      "gitlab:group/project/-/artifacts/reviewer#main",
+      "gitlab:gitlab.mycompany.com/group/subgroup/project/-/artifacts/reviewer#v1.2.0",
+      "bitbucket:team/repo/artifacts/reviewer#main",
+      "gitea:git.mycompany.com/team/repo/artifacts/reviewer#v1.2.0",
+    ])("round-trips subdirectory source %s", (raw) => {
+      expect(getSourceDisplayName(parseSource(raw))).toBe(raw);
+    });
+
+    test.each([
+      "bitbucket:team/repo",
+      "gitea:git.mycompany.com/team/repo#main",
+      "https://example.com/releases/artifact.tar.gz",
+    ])("round-trips source %s", (raw) => {
+      expect(getSourceDisplayName(parseSource(raw))).toBe(raw);
+    });
+
     test("formats local source as path", () => {
       const source = parseSource("./my-skills");
       const display = getSourceDisplayName(source);
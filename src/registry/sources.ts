@@ -15,6 +15,18 @@ function isDotDirectoryPath(source: string): boolean {
   return /^\.\w/.test(source) && source.includes("/");
 }
 
+// GitLab project paths can be nested (group/subgroup/project), so a subdirectory
+// is separated the way GitLab URLs do it: group/project/-/path/to/artifact
+const GITLAB_PATH_SEPARATOR = "/-/";
+
+/**
+ * Normalize a repository subdirectory: no leading/trailing or repeated slashes
+ */
+function normalizeSourcePath(path: string): string | undefined {
+  const normalized = path.split("/").filter(Boolean).join("/");
+  return normalized || undefined;
+}
+
 /**
  * Parse artifact source string into structured format
  *
@@ -23,9 +35,14 @@ function isDotDirectoryPath(source: string): boolean {
  * - `@author/name` or `name` → registry
  * - `github:owner/repo` → GitHub
  * - `github:owner/repo#v1.0.0` → GitHub with tag
+ * - `github:owner/repo/path/to/artifact#v1.0.0` → GitHub subdirectory
  * - `gitlab:owner/repo` → GitLab.com
  * - `gitlab:host.com/owner/repo` → Self-hosted GitLab
  * - `gitlab:host.com/owner/repo#main` → Self-hosted with ref
+ * - `gitlab:host.com/group/repo/-/path/to/artifact#main` → GitLab subdirectory
+ * - `bitbucket:owner/repo/path/to/artifact#main` → Bitbucket Cloud
+ * - `gitea:host.com/owner/repo/path/to/artifact#v1.0.0` → Gitea / Forgejo
+ * - `https://example.com/artifact.tar.gz` → Plain archive URL
  */
 export function parseSource(source: string): ParsedSource {
   // Local paths: ./relative, ../parent, /absolute, ~/home, .dotdir/path
@@ -37,16 +54,47 @@ export function parseSource(source: string): ParsedSource {
     };
   }
 
-  // GitHub: github:owner/repo or github:owner/repo#ref
-  if (source.startsWith("github:")) {
-    const rest = source.slice(7); // Remove "github:"
+  // Archive URL: https://host/path/artifact.tar.gz (no ref, pinned by integrity)
+  if (source.startsWith("https://")) {
+    return {
+      type: "url",
+      identifier: source,
+      raw: source,
+    };
+  }
+
+  // GitHub / Bitbucket: github:owner/repo or github:owner/repo#ref
+  const ownerRepoType = source.startsWith("github:") ? "github" : source.startsWith("bitbucket:") ? "bitbucket" : undefined;
+  if (ownerRepoType) {
+    const rest = source.slice(ownerRepoType.length + 1); // Remove "github:" / "bitbucket:"
     const hashIndex = rest.indexOf("#");
     const repoPath = hashIndex === -1 ? rest : rest.slice(0, hashIndex);
     const ref = hashIndex === -1 ? undefined : rest.slice(hashIndex + 1);
+    const [owner, repo, ...pathParts] = repoPath.split("/");
+    const path = normalizeSourcePath(pathParts.join("/"));
     return {
-      type: "github",
-      identifier: repoPath,
+      type: ownerRepoType,
+      identifier: repo === undefined ? repoPath : `${owner}/${repo}`,
       ref: ref || undefined,
+      path,
+      raw: source,
+    };
+  }
+
+  // Gitea / Forgejo: gitea:host/owner/repo (always self-hosted, no default host)
+  if (source.startsWith("gitea:")) {
+    const rest = source.slice(6); // Remove "gitea:"
+    const hashIndex = rest.indexOf("#");
+    const location = hashIndex === -1 ? rest : rest.slice(0, hashIndex);
+    const ref = hashIndex === -1 ? undefined : rest.slice(hashIndex + 1);
+    const [host, owner, repo, ...pathParts] = location.split("/");
+    const path = normalizeSourcePath(pathParts.join("/"));
+    return {
+      type: "gitea",
+      identifier: [owner, repo].filter((part) => part !== undefined).join("/"),
+      ref: ref || undefined,
+      host,
+      path,
       raw: source,
     };
   }
@@ -55,8 +103,14 @@ export function parseSource(source: string): ParsedSource {
   if (source.startsWith("gitlab:")) {
     const rest = source.slice(7); // Remove "gitlab:"
     const hashIndex = rest.indexOf("#");
-    const pathPart = hashIndex === -1 ? rest : rest.slice(0, hashIndex);
+    const location = hashIndex === -1 ? rest : rest.slice(0, hashIndex);
     const ref = hashIndex === -1 ? undefined : rest.slice(hashIndex + 1);
+    const separatorIndex = location.indexOf(GITLAB_PATH_SEPARATOR);
+    const pathPart = separatorIndex === -1 ? location : location.slice(0, separatorIndex);
+    const path =
+      separatorIndex === -1
+        ? undefined
+        : normalizeSourcePath(location.slice(separatorIndex + GITLAB_PATH_SEPARATOR.length));
     const parts = pathPart.split("/");
 
     // If 3+ parts and first part looks like a host (has dot), it's self-hosted
@@ -68,6 +122,7 @@ export function parseSource(source: string): ParsedSource {
         identifier,
         ref: ref || undefined,
         host,
+        path,
         raw: source,
       };
     }
@@ -78,6 +133,7 @@ export function parseSource(source: string): ParsedSource {
       identifier: pathPart,
       ref: ref || undefined,
       host: "gitlab.com",
+      path,
       raw: source,
     };
   }
@@ -96,12 +152,21 @@ export function parseSource(source: string): ParsedSource {
 export function getSourceDisplayName(source: ParsedSource): string {
   switch (source.type) {
     case "github":
-      return `github:${source.identifier}${source.ref ? `#${source.ref}` : ""}`;
+    case "bitbucket": {
+      const path = source.path ? `/${source.path}` : "";
+      return `${source.type}:${source.identifier}${path}${source.ref ? `#${source.ref}` : ""}`;
+    }
+    case "gitea": {
+      const path = source.path ? `/${source.path}` : "";
+      return `gitea:${source.host}/${source.identifier}${path}${source.ref ? `#${source.ref}` : ""}`;
+    }
     case "gitlab": {
       const host = source.host === "gitlab.com" ? "" : `${source.host}/`;
-      return `gitlab:${host}${source.identifier}${source.ref ? `#${source.ref}` : ""}`;
+      const path = source.path ? `${GITLAB_PATH_SEPARATOR}${source.path}` : "";
+      return `gitlab:${host}${source.identifier}${path}${source.ref ? `#${source.ref}` : ""}`;
     }
     case "registry":
+    case "url":
     case "local":
       return source.identifier;
     default:
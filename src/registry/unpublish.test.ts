@@ -0,0 +1,59 @@
+import { describe, test, expect } from "vitest";
+import { checkUnpublishAllowed, UNPUBLISH_WINDOW_HOURS } from "./unpublish";
+
+const NOW = new Date("2026-03-10T12:00:00.000Z");
+const HOUR = 60 * 60 * 1000;
+
+function hoursAgo(hours: number): string {
+  return new Date(NOW.getTime() - hours * HOUR).toISOString();
+}
+
+describe("checkUnpublishAllowed", () => {
+  const context = { artifactId: "@scope/artifact", now: NOW };
+
+  test("allows versions inside the window", () => {
+    expect(checkUnpublishAllowed({ version: "1.0.0" }, { ...context, publishedAt: hoursAgo(1) })).toBeNull();
+  });
+
+  test("refuses versions published before the window", () => {
+    const error = checkUnpublishAllowed(
+      { version: "1.0.0" },
+      { ...context, publishedAt: hoursAgo(UNPUBLISH_WINDOW_HOURS + 1) }
+    );
+
+    expect(error).toBe(
+      `Cannot unpublish @scope/artifact@1.0.0: published more than ${UNPUBLISH_WINDOW_HOURS} hours ago. Yank it instead, or force the unpublish`
+    );
+  });
+
+  test("refuses versions without a publish time", () => {
+    expect(checkUnpublishAllowed({ version: "1.0.0" }, context)).toContain("does not record when it was published");
+  });
+
+  test("refuses versions with dependents", () => {
+    const error = checkUnpublishAllowed(
+      { version: "1.0.0", dependents: ["@scope/app", "@scope/tools"] },
+      { ...context, publishedAt: hoursAgo(1) }
+    );
+
+    expect(error).toContain("required by @scope/app, @scope/tools");
+  });
+
+  test("refuses versions dist-tags point at", () => {
+    const error = checkUnpublishAllowed(
+      { version: "1.0.0" },
+      { ...context, publishedAt: hoursAgo(1), distTags: { latest: "1.0.0", next: "2.0.0-beta.1" } }
+    );
+
+    expect(error).toContain("dist-tags latest point at it");
+  });
+
+  test("force skips every guardrail", () => {
+    expect(
+      checkUnpublishAllowed(
+        { version: "1.0.0", force: true, dependents: ["@scope/app"] },
+        { ...context, distTags: { latest: "1.0.0" } }
+      )
+    ).toBeNull();
+  });
+});
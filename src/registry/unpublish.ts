@@ -0,0 +1,82 @@
+/**
+ * Yank and unpublish
+ *
+ * Yanking hides a version from ranges, dist-tags and "latest" but keeps it
+ * downloadable, so lockfiles pinning it keep installing. It is the default
+ * way to retire a bad release and can be undone.
+ *
+ * Unpublishing deletes the version. It breaks every install that pins it, so
+ * it is refused outside a short window after publish, while dist-tags point
+ * at the version and while other artifacts depend on it, unless forced
+ * (e.g. to remove a leaked secret).
+ */
+
+import type { UnpublishOptions, UnpublishResult, YankResult } from "./registry.types";
+
+/** Versions can be unpublished without force up to this long after publish */
+export const UNPUBLISH_WINDOW_HOURS = 72;
+
+/**
+ * Result for wrapped clients without yank support
+ */
+export const YANK_UNSUPPORTED: YankResult = {
+  success: false,
+  error: "This registry does not support yanking versions",
+};
+
+/**
+ * Result for wrapped clients without unpublish support
+ */
+export const UNPUBLISH_UNSUPPORTED: UnpublishResult = {
+  success: false,
+  error: "This registry does not support unpublishing versions",
+};
+
+/**
+ * What a registry knows about a version it is asked to unpublish
+ */
+export interface UnpublishContext {
+  artifactId: string;
+  /** ISO timestamp, undefined when the registry does not record it */
+  publishedAt?: string;
+  /** Dist-tags of the artifact (tag → version) */
+  distTags?: Record<string, string>;
+  /** Reference time for the window (defaults to now) */
+  now?: Date;
+}
+
+/**
+ * Check the unpublish guardrails
+ *
+ * @returns Error message, or null when the version may be unpublished
+ */
+export function checkUnpublishAllowed(options: UnpublishOptions, context: UnpublishContext): string | null {
+  if (options.force) {
+    return null;
+  }
+
+  const ref = `${context.artifactId}@${options.version}`;
+
+  const tags = Object.entries(context.distTags ?? {})
+    .filter(([, version]) => version === options.version)
+    .map(([tag]) => tag);
+  if (tags.length > 0) {
+    return `Cannot unpublish ${ref}: dist-tags ${tags.join(", ")} point at it. Move them to another version first`;
+  }
+
+  if (options.dependents && options.dependents.length > 0) {
+    return `Cannot unpublish ${ref}: required by ${options.dependents.join(", ")}. Yank it instead`;
+  }
+
+  const publishedAt = context.publishedAt ? Date.parse(context.publishedAt) : NaN;
+  if (Number.isNaN(publishedAt)) {
+    return `Cannot unpublish ${ref}: the registry does not record when it was published. Yank it instead, or force the unpublish`;
+  }
+
+  const now = (context.now ?? new Date()).getTime();
+  if (now - publishedAt > UNPUBLISH_WINDOW_HOURS * 60 * 60 * 1000) {
+    return `Cannot unpublish ${ref}: published more than ${UNPUBLISH_WINDOW_HOURS} hours ago. Yank it instead, or force the unpublish`;
+  }
+
+  return null;
+}
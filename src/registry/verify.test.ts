@@ -0,0 +1,120 @@
+import { describe, test, expect } from "vitest";
+import { VerifyingRegistryClient } from "./verify";
+import type { RegistryClient, ArtifactDownloadOptions, DownloadResult } from "./registry.types";
+import type { ArtifactSignature } from "#/schemas";
+import { hashDirectory, hashContent, calculateIntegrity } from "#/artifact";
+import { generatePublisherKeyPair, getPublisherKeyId, signArtifact } from "#/security/signing";
+import { createMockFileSystem } from "#/test-utils/mocks";
+
+const ARTIFACT_ID = "@scope/artifact";
+const PUBLISHER = generatePublisherKeyPair();
+
+/**
+ * Stub client that "extracts" one file into targetDir and serves the given signature
+ */
+function createStubClient(
+  fs: ReturnType<typeof createMockFileSystem>,
+  sign: (integrity: string) => ArtifactSignature | undefined
+): RegistryClient {
+  return {
+    async download(artifactId: string, options: ArtifactDownloadOptions): Promise<DownloadResult> {
+      fs.writeFile(`${options.targetDir}/agent.md`, "# Agent");
+      const fileHashes = hashDirectory(fs, options.targetDir, options.hashAlgorithm);
+      const integrity = calculateIntegrity(fileHashes, options.hashAlgorithm);
+      return { success: true, version: "1.0.0", integrity, fileHashes, signature: sign(integrity) };
+    },
+    async publish() {
+      return { success: true };
+    },
+    async getLatestVersion() {
+      return "1.0.0";
+    },
+    async versionExists() {
+      return true;
+    },
+    async listVersions() {
+      return ["1.0.0"];
+    },
+  };
+}
+
+function setup(sign: (integrity: string) => ArtifactSignature | undefined) {
+  const fs = createMockFileSystem();
+  const client = new VerifyingRegistryClient(createStubClient(fs, sign), fs, {
+    trustedPublishers: { "@scope": [PUBLISHER.publicKey] },
+  });
+  return { fs, client };
+}
+
+describe("VerifyingRegistryClient", () => {
+  test("accepts downloads signed by a trusted publisher", async () => {
+    const { client } = setup((integrity) =>
+      signArtifact({ artifactId: ARTIFACT_ID, version: "1.0.0", integrity }, PUBLISHER.secretKey)
+    );
+
+    const result = await client.download(ARTIFACT_ID, { version: "1.0.0", targetDir: "/target" });
+
+    expect(result.success).toBe(true);
+    expect(result.signedBy).toBe(getPublisherKeyId(PUBLISHER.publicKey));
+  });
+
+  test("accepts signatures over another hash algorithm than the install uses", async () => {
+    const signedIntegrity = calculateIntegrity({ "agent.md": hashContent("# Agent") });
+    const { client } = setup(() =>
+      signArtifact({ artifactId: ARTIFACT_ID, version: "1.0.0", integrity: signedIntegrity }, PUBLISHER.secretKey)
+    );
+
+    const result = await client.download(ARTIFACT_ID, { version: "1.0.0", targetDir: "/target", hashAlgorithm: "sha512" });
+
+    expect(result.success).toBe(true);
+    expect(result.integrity).toMatch(/^sha512-/);
+    expect(result.signedBy).toBe(getPublisherKeyId(PUBLISHER.publicKey));
+  });
+
+  test("rejects and removes unsigned downloads from a trusted scope", async () => {
+    const { fs, client } = setup(() => undefined);
+
+    const result = await client.download(ARTIFACT_ID, { version: "1.0.0", targetDir: "/target" });
+
+    expect(result).toEqual({
+      success: false,
+      error: "Signature verification failed for @scope/artifact@1.0.0: Missing or malformed publisher signature",
+    });
+    expect(fs.exists("/target/agent.md")).toBe(false);
+  });
+
+  test("rejects signatures that do not cover the installed content", async () => {
+    const { client } = setup(() =>
+      signArtifact(
+        { artifactId: ARTIFACT_ID, version: "1.0.0", integrity: "sha256:00000000000000000000000000000000" },
+        PUBLISHER.secretKey
+      )
+    );
+
+    const result = await client.download(ARTIFACT_ID, { version: "1.0.0", targetDir: "/target" });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("not the installed content");
+  });
+
+  test("rejects signatures from keys not trusted for the scope", async () => {
+    const other = generatePublisherKeyPair();
+    const { client } = setup((integrity) =>
+      signArtifact({ artifactId: ARTIFACT_ID, version: "1.0.0", integrity }, other.secretKey)
+    );
+
+    const result = await client.download(ARTIFACT_ID, { version: "1.0.0", targetDir: "/target" });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain(`untrusted key ${getPublisherKeyId(other.publicKey)}`);
+  });
+
+  test("passes through scopes without trusted publishers", async () => {
+    const { client } = setup(() => undefined);
+
+    const result = await client.download("@other/artifact", { version: "1.0.0", targetDir: "/target" });
+
+    expect(result.success).toBe(true);
+    expect(result.signedBy).toBeUndefined();
+  });
+});
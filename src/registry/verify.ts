@@ -0,0 +1,123 @@
+/**
+ * Publisher signature verification
+ *
+ * Wraps a RegistryClient so downloads of scopes with trusted publisher keys
+ * (ProjectConfig.trustedPublishers) are only accepted when signed by one of
+ * those keys. The signature must cover the integrity computed from the
+ * extracted files, so it vouches for exactly what was installed.
+ *
+ * Rejected downloads are removed from targetDir. Scopes without trusted keys
+ * are passed through unverified.
+ */
+
+import type { FileSystem } from "#/core";
+import type {
+  RegistryClient,
+  ArtifactDownloadOptions,
+  ArtifactPublishOptions,
+  DownloadResult,
+  PublishResult,
+  RegistryArtifactInfo,
+  DistTagResult,
+  YankResult,
+  UnpublishOptions,
+  UnpublishResult,
+} from "./registry.types";
+import { DIST_TAGS_UNSUPPORTED } from "./dist-tags";
+import { YANK_UNSUPPORTED, UNPUBLISH_UNSUPPORTED } from "./unpublish";
+import { parseName, matchesIntegrity } from "#/artifact";
+import { verifyArtifactSignature } from "#/security/signing";
+
+export interface SignatureVerificationOptions {
+  /** Publisher public keys (grk_pub_...) per scope */
+  trustedPublishers: Record<string, string[]>;
+}
+
+export class VerifyingRegistryClient implements RegistryClient {
+  private client: RegistryClient;
+  private fs: FileSystem;
+  private trustedPublishers: Record<string, string[]>;
+
+  constructor(client: RegistryClient, fs: FileSystem, options: SignatureVerificationOptions) {
+    this.client = client;
+    this.fs = fs;
+    this.trustedPublishers = options.trustedPublishers;
+  }
+
+  private getTrustedKeys(artifactId: string): string[] {
+    const { scope } = parseName(artifactId);
+    return scope ? (this.trustedPublishers[scope] ?? []) : [];
+  }
+
+  async download(artifactId: string, options: ArtifactDownloadOptions): Promise<DownloadResult> {
+    const result = await this.client.download(artifactId, options);
+
+    const trustedKeys = this.getTrustedKeys(artifactId);
+    if (!result.success || trustedKeys.length === 0) {
+      return result;
+    }
+
+    const version = result.version ?? options.version ?? "";
+    // Signed with another hash algorithm than the install uses: re-hash the installed files in the signed one
+    const signedIntegrity = result.signature?.integrity;
+    const integrity =
+      signedIntegrity && signedIntegrity !== result.integrity && matchesIntegrity(this.fs, options.targetDir, signedIntegrity)
+        ? signedIntegrity
+        : (result.integrity ?? "");
+    const verification = verifyArtifactSignature(result.signature, { artifactId, version, integrity }, trustedKeys);
+
+    if (!verification.valid) {
+      this.fs.rmdir(options.targetDir, { recursive: true });
+      return {
+        success: false,
+        error: `Signature verification failed for ${artifactId}@${version}: ${verification.error}`,
+      };
+    }
+
+    return { ...result, signedBy: verification.keyId };
+  }
+
+  async publish(options: ArtifactPublishOptions): Promise<PublishResult> {
+    return this.client.publish(options);
+  }
+
+  async getLatestVersion(artifactId: string): Promise<string | null> {
+    return this.client.getLatestVersion(artifactId);
+  }
+
+  async versionExists(artifactId: string, version: string): Promise<boolean> {
+    return this.client.versionExists(artifactId, version);
+  }
+
+  async listVersions(artifactId: string): Promise<string[]> {
+    return this.client.listVersions(artifactId);
+  }
+
+  async getArtifactInfo(artifactId: string): Promise<RegistryArtifactInfo | null> {
+    return this.client.getArtifactInfo ? this.client.getArtifactInfo(artifactId) : null;
+  }
+
+  async getDistTags(artifactId: string): Promise<Record<string, string>> {
+    return this.client.getDistTags ? this.client.getDistTags(artifactId) : {};
+  }
+
+  async setDistTag(artifactId: string, tag: string, version: string): Promise<DistTagResult> {
+    return this.client.setDistTag ? this.client.setDistTag(artifactId, tag, version) : DIST_TAGS_UNSUPPORTED;
+  }
+
+  async removeDistTag(artifactId: string, tag: string): Promise<DistTagResult> {
+    return this.client.removeDistTag ? this.client.removeDistTag(artifactId, tag) : DIST_TAGS_UNSUPPORTED;
+  }
+
+  async yank(artifactId: string, version: string): Promise<YankResult> {
+    return this.client.yank ? this.client.yank(artifactId, version) : YANK_UNSUPPORTED;
+  }
+
+  async unyank(artifactId: string, version: string): Promise<YankResult> {
+    return this.client.unyank ? this.client.unyank(artifactId, version) : YANK_UNSUPPORTED;
+  }
+
+  async unpublish(artifactId: string, options: UnpublishOptions): Promise<UnpublishResult> {
+    return this.client.unpublish ? this.client.unpublish(artifactId, options) : UNPUBLISH_UNSUPPORTED;
+  }
+}
@@ -0,0 +1,102 @@
+import { describe, test, expect } from "vitest";
+import { resolveArtifactVersion } from "./version-resolver";
+import type { RegistryClient } from "./registry.types";
+
+function createVersionsClient(versions: string[]): RegistryClient & { listCalls: number } {
+  const client = {
+    listCalls: 0,
+    async download() {
+      return { success: false };
+    },
+    async publish() {
+      return { success: false };
+    },
+    async getLatestVersion() {
+      return versions[0] ?? null;
+    },
+    async versionExists(_artifactId: string, version: string) {
+      return versions.includes(version);
+    },
+    async listVersions() {
+      client.listCalls++;
+      return versions;
+    },
+  };
+  return client;
+}
+
+describe("resolveArtifactVersion", () => {
+  const versions = ["2.0.0", "1.4.1", "1.2.0", "1.0.0"];
+
+  test("returns exact versions without hitting the registry", async () => {
+    const client = createVersionsClient(versions);
+
+    const result = await resolveArtifactVersion(client, "@scope/name", "1.2.0");
+
+    expect(result).toEqual({ success: true, version: "1.2.0" });
+    expect(client.listCalls).toBe(0);
+  });
+
+  test("resolves caret range to highest match", async () => {
+    const client = createVersionsClient(versions);
+
+    const result = await resolveArtifactVersion(client, "@scope/name", "^1.2.0");
+
+    expect(result).toEqual({ success: true, version: "1.4.1", specifier: "^1.2.0" });
+  });
+
+  test("resolves comparator range", async () => {
+    const client = createVersionsClient(versions);
+
+    const result = await resolveArtifactVersion(client, "@scope/name", ">=1.0.0 <2");
+
+    expect(result.version).toBe("1.4.1");
+  });
+
+  test("resolves latest", async () => {
+    const client = createVersionsClient(versions);
+
+    const result = await resolveArtifactVersion(client, "@scope/name", "latest");
+
+    expect(result.version).toBe("2.0.0");
+  });
+
+  test("resolves latest to the highest stable version, skipping prereleases", async () => {
+    const client = createVersionsClient(["2.1.0-beta.2", ...versions]);
+
+    const result = await resolveArtifactVersion(client, "@scope/name", "latest");
+
+    expect(result).toEqual({ success: true, version: "2.0.0", specifier: "latest" });
+  });
+
+  test("resolves dist-tags through the registry", async () => {
+    const client = {
+      ...createVersionsClient(versions),
+      async getDistTags() {
+        return { latest: "2.0.0", next: "1.4.1" };
+      },
+    };
+
+    const result = await resolveArtifactVersion(client, "@scope/name", "next");
+
+    expect(result).toEqual({ success: true, version: "1.4.1", specifier: "next" });
+  });
+
+  test("fails when no version matches", async () => {
+    const client = createVersionsClient(versions);
+
+    const result = await resolveArtifactVersion(client, "@scope/name", "^3.0.0");
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('matches "^3.0.0"');
+  });
+
+  test("fails when artifact has no versions", async () => {
+    const client = createVersionsClient([]);
+
+    const result = await resolveArtifactVersion(client, "@scope/name", "^1.0.0");
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("No versions found");
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Version resolver
+ *
+ * Resolves version specifiers from grekt.yaml (exact, range, dist-tag)
+ * to an exact version using the registry client.
+ * The resolved version is what gets pinned in the lockfile.
+ */
+
+import { isDistTag, isValidSemver, resolveVersionSpec } from "#/version";
+import type { RegistryClient } from "./registry.types";
+
+/**
+ * Result from resolving a version specifier
+ */
+export interface VersionResolution {
+  success: boolean;
+  /** Exact version to install and pin */
+  version?: string;
+  /** Original specifier, only set when it was a range or dist-tag */
+  specifier?: string;
+  error?: string;
+}
+
+/**
+ * Resolve a version specifier to the highest matching published version.
+ *
+ * Exact versions are returned without a registry call: the download
+ * reports a clear error if the version does not exist.
+ *
+ * @example
+ * await resolveArtifactVersion(client, "@scope/name", "^1.2.0")
+ * → { success: true, version: "1.4.1", specifier: "^1.2.0" }
+ */
+export async function resolveArtifactVersion(
+  client: RegistryClient,
+  artifactId: string,
+  spec: string
+): Promise<VersionResolution> {
+  if (isValidSemver(spec)) {
+    return { success: true, version: spec };
+  }
+
+  const versions = await client.listVersions(artifactId);
+  if (versions.length === 0) {
+    return { success: false, specifier: spec, error: `No versions found for artifact: ${artifactId}` };
+  }
+
+  const distTags = isDistTag(spec) && client.getDistTags ? await client.getDistTags(artifactId) : {};
+  const version = resolveVersionSpec(spec, versions, distTags);
+  if (!version) {
+    return {
+      success: false,
+      specifier: spec,
+      error: `No version of ${artifactId} matches "${spec}". Available: ${versions.join(", ")}`,
+    };
+  }
+
+  return { success: true, version, specifier: spec };
+}
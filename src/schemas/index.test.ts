@@ -63,6 +63,30 @@ describe("schemas", () => {
       expect(result.name).toBe("my-local-tool");
     });
 
+    test("parses manifest with dependencies", () => {
+      const manifest = {
+        name: "@grekt/my-artifact",
+        version: "1.0.0",
+        description: "A test artifact",
+        dependencies: { "@grekt/shared-skills": "^1.2.0", "@other/rules": "2.0.0" },
+      };
+
+      const result = ArtifactManifestSchema.parse(manifest);
+
+      expect(result.dependencies).toEqual({ "@grekt/shared-skills": "^1.2.0", "@other/rules": "2.0.0" });
+    });
+
+    test("rejects invalid dependency version specifier", () => {
+      const manifest = {
+        name: "@grekt/my-artifact",
+        version: "1.0.0",
+        description: "A test artifact",
+        dependencies: { "@grekt/shared-skills": "v1.0.0" },
+      };
+
+      expect(() => ArtifactManifestSchema.parse(manifest)).toThrow();
+    });
+
     test("parses manifest with optional author", () => {
       const manifest = {
         name: "@grekt/my-artifact",
@@ -234,13 +258,28 @@ describe("schemas", () => {
       expect(result).toEqual({ version: "1.0.0", mode: "core" });
     });
 
-    test("rejects invalid semver string", () => {
-      expect(() => ArtifactEntrySchema.parse("banana")).toThrow();
+    test("parses range and dist-tag strings", () => {
+      expect(ArtifactEntrySchema.parse("^1.2.0")).toBe("^1.2.0");
+      expect(ArtifactEntrySchema.parse("~1.2.0")).toBe("~1.2.0");
+      expect(ArtifactEntrySchema.parse(">=1.0.0 <2")).toBe(">=1.0.0 <2");
+      expect(ArtifactEntrySchema.parse("latest")).toBe("latest");
+      expect(ArtifactEntrySchema.parse("next")).toBe("next");
+    });
+
+    test("parses object with range version", () => {
+      const result = ArtifactEntrySchema.parse({ version: "^2.0.0", mode: "core" });
+
+      expect(result).toEqual({ version: "^2.0.0", mode: "core" });
+    });
+
+    test("rejects invalid version specifier string", () => {
+      expect(() => ArtifactEntrySchema.parse("Not A Version")).toThrow();
       expect(() => ArtifactEntrySchema.parse("v1.0.0")).toThrow();
+      expect(() => ArtifactEntrySchema.parse(">=banana")).toThrow();
     });
 
-    test("rejects invalid semver in object", () => {
-      const invalid = { version: "banana" };
+    test("rejects invalid version specifier in object", () => {
+      const invalid = { version: "1.0.0.0" };
       expect(() => ArtifactEntrySchema.parse(invalid)).toThrow();
     });
 
@@ -528,6 +567,18 @@ describe("schemas", () => {
       );
     });
 
+    test("records registry that served the artifact", () => {
+      const entry = {
+        version: "1.0.0",
+        integrity: "sha256:abc123",
+        registry: "gitlab:gitlab.internal.com/mirror/artifacts",
+      };
+
+      const result = LockfileEntrySchema.parse(entry);
+
+      expect(result.registry).toBe("gitlab:gitlab.internal.com/mirror/artifacts");
+    });
+
     test("rejects invalid semver version", () => {
       const invalid = {
         version: "banana",
@@ -536,21 +587,56 @@ describe("schemas", () => {
 
       expect(() => LockfileEntrySchema.parse(invalid)).toThrow();
     });
+
+    test("pins exact version resolved from a range specifier", () => {
+      const entry = {
+        version: "1.4.1",
+        specifier: "^1.2.0",
+        integrity: "sha256:abc123",
+      };
+
+      const result = LockfileEntrySchema.parse(entry);
+
+      expect(result.version).toBe("1.4.1");
+      expect(result.specifier).toBe("^1.2.0");
+    });
+
+    test("records which artifacts pulled in a dependency", () => {
+      const entry = {
+        version: "1.0.0",
+        integrity: "sha256:abc123",
+        requiredBy: ["@scope/agent", "@scope/other"],
+      };
+
+      const result = LockfileEntrySchema.parse(entry);
+
+      expect(result.requiredBy).toEqual(["@scope/agent", "@scope/other"]);
+    });
+
+    test("rejects range as locked version", () => {
+      const invalid = {
+        version: "^1.2.0",
+        integrity: "sha256:abc123",
+      };
+
+      expect(() => LockfileEntrySchema.parse(invalid)).toThrow();
+    });
   });
 
   describe("LockfileSchema", () => {
     test("parses empty lockfile", () => {
-      const lockfile = { version: 1 as const };
+      const lockfile = { version: 2 as const };
 
       const result = LockfileSchema.parse(lockfile);
 
-      expect(result.version).toBe(1);
+      expect(result.version).toBe(2);
+      expect(result.hashAlgorithm).toBe("sha256");
       expect(result.artifacts).toEqual({});
     });
 
     test("parses lockfile with artifacts", () => {
       const lockfile = {
-        version: 1 as const,
+        version: 2 as const,
         artifacts: {
           "@grekt/test": {
             version: "1.0.0",
@@ -565,10 +651,14 @@ describe("schemas", () => {
     });
 
     test("rejects invalid version", () => {
-      const invalid = { version: 2 };
+      const invalid = { version: 1 };
 
       expect(() => LockfileSchema.parse(invalid)).toThrow();
     });
+
+    test("rejects unknown hash algorithms", () => {
+      expect(() => LockfileSchema.parse({ version: 2, hashAlgorithm: "md5" })).toThrow();
+    });
   });
 
   describe("ArtifactMetadataSchema", () => {
@@ -607,6 +697,72 @@ describe("schemas", () => {
   });
 
   describe("RegistryEntrySchema", () => {
+    test("parses local registry", () => {
+      const entry = {
+        type: "local" as const,
+        path: "/mnt/shared/grekt-registry",
+      };
+
+      const result = RegistryEntrySchema.parse(entry);
+
+      expect(result.type).toBe("local");
+      expect(result.path).toBe("/mnt/shared/grekt-registry");
+    });
+
+    test("parses oci registry", () => {
+      const entry = {
+        type: "oci" as const,
+        host: "harbor.internal",
+        project: "platform",
+        username: "robot$grekt",
+        token: "secret",
+        repository: "{project}/{scope}/{name}",
+      };
+
+      const result = RegistryEntrySchema.parse(entry);
+
+      expect(result.type).toBe("oci");
+      expect(result.username).toBe("robot$grekt");
+      expect(result.repository).toBe("{project}/{scope}/{name}");
+    });
+
+    test("parses s3 registry", () => {
+      const entry = {
+        type: "s3" as const,
+        s3: {
+          endpoint: "https://minio.internal:9000",
+          bucket: "grekt",
+          region: "auto",
+        },
+      };
+
+      const result = RegistryEntrySchema.parse(entry);
+
+      expect(result.type).toBe("s3");
+      expect(result.s3?.bucket).toBe("grekt");
+      expect(result.s3?.region).toBe("auto");
+    });
+
+    test("drops s3 access keys from registry entries", () => {
+      const entry = {
+        type: "s3" as const,
+        s3: { endpoint: "https://minio.internal:9000", bucket: "grekt", accessKeyId: "a", secretAccessKey: "b" },
+      };
+
+      const result = RegistryEntrySchema.parse(entry);
+
+      expect(result.s3).toEqual({ endpoint: "https://minio.internal:9000", bucket: "grekt" });
+    });
+
+    test("rejects s3 registry with invalid endpoint", () => {
+      const entry = {
+        type: "s3" as const,
+        s3: { endpoint: "not a url", bucket: "grekt" },
+      };
+
+      expect(() => RegistryEntrySchema.parse(entry)).toThrow();
+    });
+
     test("parses gitlab registry", () => {
       const entry = {
         type: "gitlab" as const,
@@ -670,6 +826,28 @@ describe("schemas", () => {
       expect(result.registries?.["@backend"].host).toBe("gitlab.internal.com");
     });
 
+    test("parses ordered registry fallback chain", () => {
+      const config = {
+        registries: {
+          "@myteam": [
+            { type: "gitlab" as const, project: "mirror/artifacts", host: "gitlab.internal.com" },
+            { type: "default" as const },
+          ],
+        },
+      };
+
+      const result = LocalConfigSchema.parse(config);
+
+      expect(result.registries?.["@myteam"]).toEqual([
+        { type: "gitlab", project: "mirror/artifacts", host: "gitlab.internal.com" },
+        { type: "default" },
+      ]);
+    });
+
+    test("rejects empty registry fallback chain", () => {
+      expect(() => LocalConfigSchema.parse({ registries: { "@myteam": [] } })).toThrow();
+    });
+
     test("rejects registry scope without @", () => {
       const invalid = {
         registries: {
@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { isValidSemver } from "#/version";
+import { isValidSemver, isValidVersionSpec } from "#/version";
 import { CATEGORIES, CATEGORY_CONFIG, type Category } from "#/categories";
 
 // Helper to create category-keyed schemas dynamically
@@ -17,6 +17,12 @@ export const SemverSchema = z.string().refine(isValidSemver, {
   message: "Invalid semver version. Must be valid semver (e.g., 1.0.0, 2.1.0-beta.1)",
 });
 
+// Version specifier schema for artifact entries: exact version, range or dist-tag
+// e.g. "1.2.0", "^1.2.0", "~1.2.0", ">=1.0.0 <2", "latest", "next"
+export const VersionSpecSchema = z.string().trim().refine(isValidVersionSpec, {
+  message: "Invalid version specifier. Use a version (1.2.0), a range (^1.2.0, ~1.2.0, >=1.0.0 <2) or a dist-tag (latest, next)",
+});
+
 // Keywords schemas
 export const KeywordSchema = z.string().trim().min(1);
 export const KeywordsSchema = z.array(KeywordSchema);
@@ -51,6 +57,7 @@ export const ArtifactManifestSchema = z.object({
   private: z.boolean().optional(),
   license: z.string().optional(),
   repository: z.string().url().optional(),
+  dependencies: z.record(z.string(), VersionSpecSchema).optional(), // Other artifacts this one needs: { "@scope/name": "^1.0.0" }
   components: ComponentsSchema, // Auto-generated during publish/pack
 });
 export type ArtifactManifest = z.infer<typeof ArtifactManifestSchema>;
@@ -88,9 +95,9 @@ const artifactEntryCategoryFields = Object.fromEntries(
 ) as Record<Category, z.ZodOptional<z.ZodArray<z.ZodString>>>;
 
 export const ArtifactEntrySchema = z.union([
-  SemverSchema, // "1.0.0" = all components, LAZY mode
+  VersionSpecSchema, // "1.0.0" or "^1.0.0" = all components, LAZY mode
   z.object({
-    version: SemverSchema,
+    version: VersionSpecSchema,
     mode: ArtifactModeSchema.default("lazy"), // LAZY by default, CORE opt-in
     trusted: z.union([z.boolean(), z.string()]).optional(),
     ...artifactEntryCategoryFields,
@@ -118,6 +125,11 @@ export const ProjectConfigSchema = z.object({
   remoteSearch: z.boolean().default(true), // Allow skill router to search the public registry when no local match is found
   artifacts: z.record(z.string(), ArtifactEntrySchema).default({}),
   customTargets: z.record(z.string(), CustomTargetSchema).default({}),
+  // Publisher public keys (grk_pub_...) per scope. Installs from a listed scope require a signature by one of them
+  trustedPublishers: z.record(
+    z.string().regex(/^@/, "Scope must start with @"),
+    z.array(z.string().regex(/^grk_pub_[0-9a-f]{64}$/, "Invalid publisher public key"))
+  ).optional(),
 });
 export type ProjectConfig = z.infer<typeof ProjectConfigSchema>;
 
@@ -146,9 +158,15 @@ export const S3CredentialsSchema = z.object({
   secretAccessKey: z.string(),
   bucket: z.string(),
   publicUrl: z.string().url().optional(),
+  region: z.string().optional(), // SigV4 signing region, defaults to us-east-1 (use "auto" for R2)
 });
 export type S3Credentials = z.infer<typeof S3CredentialsSchema>;
 
+// S3 settings inside a registry entry (type is implied by the entry).
+// Access keys stay in the credentials store (TokenProvider.getS3Credentials), never in .grekt/config.yaml
+export const S3RegistryConfigSchema = S3CredentialsSchema.omit({ type: true, accessKeyId: true, secretAccessKey: true });
+export type S3RegistryConfig = z.infer<typeof S3RegistryConfigSchema>;
+
 // Simple token credentials for git sources (GitHub, GitLab)
 export const TokenCredentialsSchema = z.object({
   token: z.string(),
@@ -176,14 +194,21 @@ export const CredentialsSchema = z.record(
 );
 export type Credentials = z.infer<typeof CredentialsSchema>;
 
+// Integrity hash algorithms, written as SRI strings ("sha256-<base64>")
+export const HashAlgorithmSchema = z.enum(["sha256", "sha512"]);
+export type HashAlgorithm = z.infer<typeof HashAlgorithmSchema>;
+
 // Lockfile entry (grekt.lock) - pinned versions, integrity hashes, and resolved URLs for reproducible installs
 export const LockfileEntrySchema = z.object({
-  version: SemverSchema,
-  integrity: z.string(), // SHA256 hash of entire artifact
+  version: SemverSchema, // Always the exact resolved version, never a range
+  specifier: z.string().optional(), // Range or dist-tag from grekt.yaml this version was resolved from (absent for exact versions)
+  integrity: z.string(), // SRI hash of entire artifact ("sha256-<base64>"), "sha256:<hex>" for entries migrated from v1
   source: z.string().optional(),
   resolved: z.string().optional(), // Full URL, IMMUTABLE after write
+  registry: z.string().optional(), // Registry that served the artifact when the scope has a fallback chain (e.g. "gitlab:gitlab.com/group/project")
   mode: ArtifactModeSchema.default("lazy"), // core = copied to target, lazy = only in index
-  files: z.record(z.string(), z.string()).default({}), // per-file hashes: { "agent.md": "sha256:abc..." }
+  requiredBy: z.array(z.string()).optional(), // Locked artifacts that depend on this one (absent when none do). Direct entries can have it too: grekt.yaml decides what is direct
+  files: z.record(z.string(), z.string()).default({}), // per-file hashes: { "agent.md": "sha256-abc..." }
   synced: z.record(
     z.string(), // plugin id ("claude", "cursor", etc.)
     z.record(z.string(), z.string()) // { "target/path.md": "sha256:..." | "link:source/path" }
@@ -191,33 +216,113 @@ export const LockfileEntrySchema = z.object({
 });
 
 export const LockfileSchema = z.object({
-  version: z.literal(1),
+  version: z.literal(2),
+  hashAlgorithm: HashAlgorithmSchema.default("sha256"), // Algorithm of hashes written on install
   artifacts: z.record(z.string(), LockfileEntrySchema).default({}),
 });
 export type Lockfile = z.infer<typeof LockfileSchema>;
 export type LockfileEntry = z.infer<typeof LockfileEntrySchema>;
 
-// Registry artifact metadata (stored in S3 as metadata.json per artifact)
+// v1 lockfile - truncated hex SHA-256 hashes ("sha256:<32 hex>"), only read to migrate to v2
+export const LockfileV1Schema = z.object({
+  version: z.literal(1),
+  artifacts: z.record(z.string(), LockfileEntrySchema).default({}),
+});
+export type LockfileV1 = z.infer<typeof LockfileV1Schema>;
+
+// Any lockfile version that can be read
+export const AnyLockfileSchema = z.discriminatedUnion("version", [LockfileV1Schema, LockfileSchema]);
+
+// Registry artifact metadata (stored as metadata.json per artifact in S3 and local registries)
 export const ArtifactMetadataSchema = z.object({
   name: z.string(), // Full artifact ID: @author/name
-  latest: z.string(), // Latest version (highest semver)
+  latest: z.string(), // Version latest installs (latest dist-tag, else highest stable semver)
   versions: z.array(z.string()).optional(), // All available versions
+  distTags: z.record(z.string(), z.string()).default({}), // dist-tag -> version
   deprecated: z.record(z.string(), z.string()).default({}), // version -> deprecation message
+  yanked: z.array(z.string()).default([]), // Versions hidden from ranges and latest (still installable when locked)
+  publishedAt: z.record(z.string(), z.string()).default({}), // version -> ISO timestamp (unpublish time window)
   createdAt: z.string(), // ISO timestamp
   updatedAt: z.string(), // ISO timestamp
 });
 export type ArtifactMetadata = z.infer<typeof ArtifactMetadataSchema>;
 
+// Dist-tags of an artifact (tag -> version), e.g. { "latest": "1.4.0", "next": "2.0.0-beta.1" }
+export const DistTagsSchema = z.record(z.string(), z.string());
+export type DistTags = z.infer<typeof DistTagsSchema>;
+
+// Deprecated versions of an artifact (version -> deprecation message), for registries without a metadata API (GitLab)
+export const DeprecationsSchema = z.record(z.string(), z.string());
+export type Deprecations = z.infer<typeof DeprecationsSchema>;
+
+// Yanked versions of an artifact, for registries without a metadata API (GitLab)
+export const YankedVersionsSchema = z.array(z.string());
+
+// Publisher signature over an artifact version's integrity (ed25519), distributed alongside the tarball
+export const ArtifactSignatureSchema = z.object({
+  algorithm: z.literal("ed25519"),
+  keyId: z.string(), // Fingerprint of the publisher public key
+  artifactId: z.string(),
+  version: z.string(),
+  integrity: z.string(), // sha256-... of the packed files, as computed on install
+  signature: z.string(), // base64
+});
+export type ArtifactSignature = z.infer<typeof ArtifactSignatureSchema>;
+
+// Download cache index entry (one JSON file per artifact version, points to content stored by integrity)
+export const DownloadCacheEntrySchema = z.object({
+  artifactId: z.string(),
+  version: z.string(),
+  integrity: z.string(), // sha256-... of the extracted files, also the content key
+  resolved: z.string().optional(), // Resolved URL reported by the registry
+  registry: z.string().optional(), // Registry that served it (fallback chains)
+  signature: ArtifactSignatureSchema.optional(), // Publisher signature served with it, for offline verification
+  deprecationMessage: z.string().optional(), // Deprecation reported when it was downloaded
+  cachedAt: z.string(), // ISO timestamp
+});
+export type DownloadCacheEntry = z.infer<typeof DownloadCacheEntrySchema>;
+
+// Metadata cache (persisted HTTP validators and bodies for registry metadata requests, keyed by URL + auth fingerprint)
+export const MetadataCacheEntrySchema = z.object({
+  etag: z.string().optional(), // ETag, revalidated with If-None-Match
+  lastModified: z.string().optional(), // Last-Modified, revalidated with If-Modified-Since
+  body: z.string(),
+  headers: z.record(z.string(), z.string()).default({}),
+});
+export const MetadataCacheFileSchema = z.object({
+  entries: z.record(z.string(), MetadataCacheEntrySchema).default({}),
+});
+export type MetadataCacheEntry = z.infer<typeof MetadataCacheEntrySchema>;
+export type MetadataCacheFile = z.infer<typeof MetadataCacheFileSchema>;
+
 // Registry entry for local config (.grekt/config.yaml)
 export const RegistryEntrySchema = z.object({
-  type: z.enum(["gitlab", "github", "default"]),
+  type: z.enum(["gitlab", "github", "default", "local", "s3", "oci"]),
   project: z.string().optional(), // Required for gitlab/github, validated at runtime
   host: z.string().optional(), // Optional, has defaults (gitlab.com, github.com)
   token: z.string().optional(), // Can also be set via env vars
   prefix: z.string().optional(), // Package name prefix (e.g., "frontend" → "frontend-artifact-name")
+  path: z.string().optional(), // Required for local, directory holding tarballs and metadata.json files
+  s3: S3RegistryConfigSchema.optional(), // Required for s3 (endpoint, bucket), keys come from the credentials store
+  username: z.string().optional(), // oci: username for Basic auth / token exchange (token is the password)
+  repository: z.string().optional(), // oci: repository name template, placeholders {project} {scope} {name}
+  tagDeletion: z.boolean().optional(), // oci/github: registry deletes a tag without its manifest (unyank, dist-tag removal)
+  maxPages: z.number().int().positive().optional(), // gitlab: page cap when listing packages or browsing (default 50)
 });
 export type RegistryEntry = z.infer<typeof RegistryEntrySchema>;
 
+// Registries for a scope: a single entry, or an ordered fallback chain (e.g. internal mirror first, public second)
+export const ScopeRegistriesSchema = z.union([
+  RegistryEntrySchema,
+  z.array(RegistryEntrySchema).min(1, "At least one registry is required"),
+]);
+export type ScopeRegistries = z.infer<typeof ScopeRegistriesSchema>;
+
+// Normalize a scope's registries to an ordered list (primary first)
+export function toRegistryEntries(registries: ScopeRegistries): RegistryEntry[] {
+  return Array.isArray(registries) ? registries : [registries];
+}
+
 // Session stored in local config (generated by grekt login)
 export const StoredSessionSchema = z.object({
   access_token: z.string(),
@@ -226,9 +331,9 @@ export const StoredSessionSchema = z.object({
 });
 export type StoredSession = z.infer<typeof StoredSessionSchema>;
 
-// Tokens for git sources (github, gitlab)
+// Tokens for git sources (github, gitlab, bitbucket, gitea)
 export const TokensSchema = z.record(
-  z.string(), // e.g., "github", "gitlab.com", "gitlab.company.com"
+  z.string(), // e.g., "github", "gitlab.com", "gitlab.company.com", "bitbucket", "gitea.company.com"
   z.string()  // token value
 );
 export type Tokens = z.infer<typeof TokensSchema>;
@@ -256,13 +361,13 @@ export const LocalConfigSchema = z.object({
   // Registry backends for artifacts with scope (@scope/name)
   registries: z.record(
     z.string().regex(/^@/, "Registry scope must start with @"),
-    RegistryEntrySchema
+    ScopeRegistriesSchema
   ).optional(),
 
   // Session for the public registry (grekt login)
   session: StoredSessionSchema.optional(),
 
-  // Tokens for git sources (github:owner/repo, gitlab:owner/repo)
+  // Tokens for git sources (github:owner/repo, gitlab:owner/repo, bitbucket:owner/repo, gitea:host/owner/repo)
   tokens: TokensSchema.optional(),
 
   // Eval engine configuration (providers, optional dashboard server)
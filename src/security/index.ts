@@ -3,3 +3,5 @@ export * from "./security.types";
 export * from "./badge";
 export * from "./trust";
 export * from "./trust.types";
+export * from "./signing";
+export * from "./signing.types";
@@ -1,6 +1,7 @@
-import { join, relative } from "path";
+import { basename, join, relative } from "path";
 import { scanSkill } from "agentverus-scanner";
 import type { FileSystem } from "#/core";
+import { walkArtifactFiles } from "#/artifact/ignore";
 import type { SecurityReport, SecurityFinding, TrustBadge } from "./security.types";
 
 // File extensions considered scannable content (same as registry)
@@ -24,23 +25,12 @@ function isScannable(filename: string): boolean {
 
 /**
  * Recursively collect all scannable files from a directory.
+ * No ignore rules apply: everything an install writes is scanned, node_modules and .grekt included.
  */
 function collectFiles(fs: FileSystem, dir: string): string[] {
-  const result: string[] = [];
-  const entries = fs.readdir(dir);
-
-  for (const entry of entries) {
-    const fullPath = join(dir, entry);
-    const stat = fs.stat(fullPath);
-
-    if (stat.isDirectory) {
-      result.push(...collectFiles(fs, fullPath));
-    } else if (isScannable(entry)) {
-      result.push(fullPath);
-    }
-  }
-
-  return result;
+  return walkArtifactFiles(fs, dir, { rules: "none" })
+    .filter((file) => isScannable(basename(file)))
+    .map((file) => join(dir, file));
 }
 
 /**
@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import {
+  generatePublisherKeyPair,
+  isValidPublisherPublicKey,
+  isValidPublisherSecretKey,
+  getPublisherKeyId,
+  getPublisherPublicKey,
+  signArtifact,
+  verifyArtifactSignature,
+  parseArtifactSignature,
+} from "./signing";
+import { PUBLISHER_PUBLIC_KEY_PREFIX, PUBLISHER_SECRET_KEY_PREFIX } from "./signing.types";
+
+const ARTIFACT = {
+  artifactId: "@scope/artifact",
+  version: "1.0.0",
+  integrity: "sha256:0123456789abcdef0123456789abcdef",
+};
+
+describe("generatePublisherKeyPair", () => {
+  it("returns prefixed hex keys", () => {
+    const { publicKey, secretKey } = generatePublisherKeyPair();
+    expect(publicKey.startsWith(PUBLISHER_PUBLIC_KEY_PREFIX)).toBe(true);
+    expect(secretKey.startsWith(PUBLISHER_SECRET_KEY_PREFIX)).toBe(true);
+    expect(isValidPublisherPublicKey(publicKey)).toBe(true);
+    expect(isValidPublisherSecretKey(secretKey)).toBe(true);
+  });
+
+  it("generates unique key pairs on each call", () => {
+    expect(generatePublisherKeyPair().publicKey).not.toBe(generatePublisherKeyPair().publicKey);
+  });
+});
+
+describe("isValidPublisherPublicKey", () => {
+  it("rejects secret keys, wrong lengths and non-strings", () => {
+    const { secretKey } = generatePublisherKeyPair();
+    expect(isValidPublisherPublicKey(secretKey)).toBe(false);
+    expect(isValidPublisherPublicKey(`${PUBLISHER_PUBLIC_KEY_PREFIX}abcd`)).toBe(false);
+    expect(isValidPublisherPublicKey(`${PUBLISHER_PUBLIC_KEY_PREFIX}${"g".repeat(64)}`)).toBe(false);
+    expect(isValidPublisherPublicKey(42)).toBe(false);
+  });
+});
+
+describe("getPublisherPublicKey", () => {
+  it("derives the public key of the pair", () => {
+    const { publicKey, secretKey } = generatePublisherKeyPair();
+    expect(getPublisherPublicKey(secretKey)).toBe(publicKey);
+  });
+});
+
+describe("signArtifact", () => {
+  it("records the signed fields and the key ID", () => {
+    const { publicKey, secretKey } = generatePublisherKeyPair();
+    const signature = signArtifact(ARTIFACT, secretKey);
+
+    expect(signature).toMatchObject({ algorithm: "ed25519", keyId: getPublisherKeyId(publicKey), ...ARTIFACT });
+    expect(getPublisherKeyId(publicKey)).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it("throws on a malformed secret key", () => {
+    expect(() => signArtifact(ARTIFACT, "grk_sec_invalid")).toThrow("Invalid publisher secret key");
+  });
+});
+
+describe("verifyArtifactSignature", () => {
+  it("accepts a signature from a trusted key", () => {
+    const { publicKey, secretKey } = generatePublisherKeyPair();
+    const signature = signArtifact(ARTIFACT, secretKey);
+
+    const result = verifyArtifactSignature(signature, ARTIFACT, [publicKey]);
+
+    expect(result).toEqual({ valid: true, keyId: getPublisherKeyId(publicKey) });
+  });
+
+  it("rejects a missing signature", () => {
+    const { publicKey } = generatePublisherKeyPair();
+
+    const result = verifyArtifactSignature(undefined, ARTIFACT, [publicKey]);
+
+    expect(result).toEqual({ valid: false, error: "Missing or malformed publisher signature" });
+  });
+
+  it("rejects a signature for different content", () => {
+    const { publicKey, secretKey } = generatePublisherKeyPair();
+    const signature = signArtifact(ARTIFACT, secretKey);
+
+    const result = verifyArtifactSignature(
+      signature,
+      { ...ARTIFACT, integrity: "sha256:ffffffffffffffffffffffffffffffff" },
+      [publicKey]
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain("not the installed content");
+  });
+
+  it("rejects a signature from an untrusted key", () => {
+    const trusted = generatePublisherKeyPair();
+    const signature = signArtifact(ARTIFACT, generatePublisherKeyPair().secretKey);
+
+    const result = verifyArtifactSignature(signature, ARTIFACT, [trusted.publicKey]);
+
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain("untrusted key");
+  });
+
+  it("rejects a tampered signature", () => {
+    const { publicKey, secretKey } = generatePublisherKeyPair();
+    const signature = signArtifact(ARTIFACT, secretKey);
+    const forged = { ...signature, signature: Buffer.alloc(64).toString("base64") };
+
+    const result = verifyArtifactSignature(forged, ARTIFACT, [publicKey]);
+
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain("Invalid signature");
+  });
+});
+
+describe("parseArtifactSignature", () => {
+  it("round-trips a serialized signature", () => {
+    const signature = signArtifact(ARTIFACT, generatePublisherKeyPair().secretKey);
+    expect(parseArtifactSignature(JSON.stringify(signature))).toEqual(signature);
+  });
+
+  it("returns undefined for absent or malformed input", () => {
+    expect(parseArtifactSignature(undefined)).toBeUndefined();
+    expect(parseArtifactSignature("{not json")).toBeUndefined();
+    expect(parseArtifactSignature(JSON.stringify({ algorithm: "rsa" }))).toBeUndefined();
+  });
+});
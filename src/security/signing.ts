@@ -0,0 +1,161 @@
+import { createHash, createPrivateKey, createPublicKey, generateKeyPairSync, sign, verify, type KeyObject } from "crypto";
+import { ArtifactSignatureSchema, type ArtifactSignature } from "#/schemas";
+import {
+  PUBLISHER_PUBLIC_KEY_PREFIX,
+  PUBLISHER_SECRET_KEY_PREFIX,
+  PUBLISHER_KEY_HEX_LENGTH,
+  SIGNATURE_ALGORITHM,
+  type PublisherKeyPair,
+  type SignedArtifact,
+  type SignatureVerification,
+} from "./signing.types";
+
+const HEX_PATTERN = /^[0-9a-f]+$/;
+
+// DER prefixes wrapping a raw 32-byte ed25519 key as SPKI (public) / PKCS#8 (private)
+const SPKI_ED25519_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+const PKCS8_ED25519_PREFIX = Buffer.from("302e020100300506032b657004220420", "hex");
+
+const PAYLOAD_HEADER = "grekt-artifact-signature:v1";
+
+function isValidKey(key: unknown, prefix: string): key is string {
+  if (typeof key !== "string" || !key.startsWith(prefix)) return false;
+  const hexPart = key.slice(prefix.length);
+  return hexPart.length === PUBLISHER_KEY_HEX_LENGTH && HEX_PATTERN.test(hexPart);
+}
+
+function toPublicKeyObject(publicKey: string): KeyObject {
+  const raw = Buffer.from(publicKey.slice(PUBLISHER_PUBLIC_KEY_PREFIX.length), "hex");
+  return createPublicKey({ key: Buffer.concat([SPKI_ED25519_PREFIX, raw]), format: "der", type: "spki" });
+}
+
+function toPrivateKeyObject(secretKey: string): KeyObject {
+  const seed = Buffer.from(secretKey.slice(PUBLISHER_SECRET_KEY_PREFIX.length), "hex");
+  return createPrivateKey({ key: Buffer.concat([PKCS8_ED25519_PREFIX, seed]), format: "der", type: "pkcs8" });
+}
+
+/**
+ * Signed bytes: name, version and integrity on separate lines, so no field can absorb another
+ */
+function buildPayload(artifact: SignedArtifact): Buffer {
+  return Buffer.from([PAYLOAD_HEADER, artifact.artifactId, artifact.version, artifact.integrity].join("\n"));
+}
+
+/**
+ * Generate a new ed25519 publisher key pair.
+ * Format: grk_pub_<64 hex chars> / grk_sec_<64 hex chars> (raw 32-byte keys)
+ */
+export function generatePublisherKeyPair(): PublisherKeyPair {
+  const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+  const rawPublic = publicKey.export({ format: "der", type: "spki" }).subarray(SPKI_ED25519_PREFIX.length);
+  const rawSeed = privateKey.export({ format: "der", type: "pkcs8" }).subarray(PKCS8_ED25519_PREFIX.length);
+
+  return {
+    publicKey: `${PUBLISHER_PUBLIC_KEY_PREFIX}${rawPublic.toString("hex")}`,
+    secretKey: `${PUBLISHER_SECRET_KEY_PREFIX}${rawSeed.toString("hex")}`,
+  };
+}
+
+export function isValidPublisherPublicKey(key: unknown): key is string {
+  return isValidKey(key, PUBLISHER_PUBLIC_KEY_PREFIX);
+}
+
+export function isValidPublisherSecretKey(key: unknown): key is string {
+  return isValidKey(key, PUBLISHER_SECRET_KEY_PREFIX);
+}
+
+/**
+ * Short fingerprint identifying a public key in signatures (first 16 hex chars of its SHA-256)
+ */
+export function getPublisherKeyId(publicKey: string): string {
+  const raw = Buffer.from(publicKey.slice(PUBLISHER_PUBLIC_KEY_PREFIX.length), "hex");
+  return createHash("sha256").update(raw).digest("hex").slice(0, 16);
+}
+
+/**
+ * Derive the public key of a secret key
+ */
+export function getPublisherPublicKey(secretKey: string): string {
+  const publicKey = createPublicKey(toPrivateKeyObject(secretKey));
+  const raw = publicKey.export({ format: "der", type: "spki" }).subarray(SPKI_ED25519_PREFIX.length);
+  return `${PUBLISHER_PUBLIC_KEY_PREFIX}${raw.toString("hex")}`;
+}
+
+/**
+ * Sign an artifact version's integrity at publish time.
+ *
+ * @throws Error if the secret key is malformed
+ */
+export function signArtifact(artifact: SignedArtifact, secretKey: string): ArtifactSignature {
+  if (!isValidPublisherSecretKey(secretKey)) {
+    throw new Error("Invalid publisher secret key");
+  }
+
+  const signature = sign(null, buildPayload(artifact), toPrivateKeyObject(secretKey));
+
+  return {
+    algorithm: SIGNATURE_ALGORITHM,
+    keyId: getPublisherKeyId(getPublisherPublicKey(secretKey)),
+    artifactId: artifact.artifactId,
+    version: artifact.version,
+    integrity: artifact.integrity,
+    signature: signature.toString("base64"),
+  };
+}
+
+/**
+ * Verify a publisher signature against the installed content and a set of trusted keys.
+ * Rejects missing or malformed signatures, signatures for other content, and unknown keys.
+ */
+export function verifyArtifactSignature(
+  signature: unknown,
+  artifact: SignedArtifact,
+  trustedKeys: string[],
+): SignatureVerification {
+  const parsed = ArtifactSignatureSchema.safeParse(signature);
+  if (!parsed.success) {
+    return { valid: false, error: "Missing or malformed publisher signature" };
+  }
+
+  const { keyId } = parsed.data;
+
+  if (
+    parsed.data.artifactId !== artifact.artifactId ||
+    parsed.data.version !== artifact.version ||
+    parsed.data.integrity !== artifact.integrity
+  ) {
+    return {
+      valid: false,
+      keyId,
+      error: `Signature covers ${parsed.data.artifactId}@${parsed.data.version} (${parsed.data.integrity}), not the installed content`,
+    };
+  }
+
+  const trustedKey = trustedKeys.find((key) => isValidPublisherPublicKey(key) && getPublisherKeyId(key) === keyId);
+  if (!trustedKey) {
+    return { valid: false, keyId, error: `Signed by untrusted key ${keyId}` };
+  }
+
+  const valid = verify(
+    null,
+    buildPayload(artifact),
+    toPublicKeyObject(trustedKey),
+    Buffer.from(parsed.data.signature, "base64"),
+  );
+
+  return valid ? { valid: true, keyId } : { valid: false, keyId, error: `Invalid signature from key ${keyId}` };
+}
+
+/**
+ * Parse a JSON-encoded signature as distributed next to a tarball (OCI annotation, package file).
+ * Returns undefined when absent or malformed, so verification reports it as missing.
+ */
+export function parseArtifactSignature(json: string | null | undefined): ArtifactSignature | undefined {
+  if (!json) return undefined;
+  try {
+    const parsed = ArtifactSignatureSchema.safeParse(JSON.parse(json));
+    return parsed.success ? parsed.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,25 @@
+export const PUBLISHER_PUBLIC_KEY_PREFIX = "grk_pub_";
+export const PUBLISHER_SECRET_KEY_PREFIX = "grk_sec_";
+
+// Raw ed25519 keys (public key, private seed) are 32 bytes
+export const PUBLISHER_KEY_HEX_LENGTH = 64;
+
+export const SIGNATURE_ALGORITHM = "ed25519";
+
+export interface PublisherKeyPair {
+  publicKey: string;
+  secretKey: string;
+}
+
+// What a publisher signature vouches for: this exact content under this name and version
+export interface SignedArtifact {
+  artifactId: string;
+  version: string;
+  integrity: string;
+}
+
+export interface SignatureVerification {
+  valid: boolean;
+  keyId?: string;
+  error?: string;
+}
@@ -414,6 +414,15 @@ describe("createMockTokenProvider", () => {
     });
     expect(tokens.getGitToken("gitlab")).toBe("default-tok");
   });
+
+  test("returns bitbucket token and gitea token per host", () => {
+    const tokens = createMockTokenProvider({
+      git: { bitbucket: "bb-xxx", gitea: { "git.corp.com": "gitea-xxx" } },
+    });
+    expect(tokens.getGitToken("bitbucket")).toBe("bb-xxx");
+    expect(tokens.getGitToken("gitea", "git.corp.com")).toBe("gitea-xxx");
+    expect(tokens.getGitToken("gitea")).toBeUndefined();
+  });
 });
 
 describe("response helpers", () => {
@@ -2,7 +2,7 @@
  * Test utilities - Mock factories for dependency injection interfaces
  */
 
-import type { FileSystem, HttpClient, ShellExecutor, TarOperations, TarEntry, TarCreateOptions, TarExtractOptions, TokenProvider } from "#/core";
+import type { FileSystem, HttpClient, ShellExecutor, TarOperations, TarEntry, TarCreateOptions, TarExtractOptions, TokenProvider, S3AccessKeys } from "#/core";
 
 interface MockFileEntry {
   content: string | Buffer;
@@ -262,22 +262,34 @@ export function createMockTarOperations(
  */
 export function createMockTokenProvider(tokens: {
   registry?: Record<string, string>;
-  git?: { github?: string; gitlab?: Record<string, string> };
+  git?: { github?: string; gitlab?: Record<string, string>; bitbucket?: string; gitea?: Record<string, string> };
+  s3?: Record<string, S3AccessKeys>;
 } = {}): TokenProvider {
   return {
     getRegistryToken(scope: string): string | undefined {
       return tokens.registry?.[scope];
     },
 
-    getGitToken(type: "github" | "gitlab", host?: string): string | undefined {
+    getGitToken(type: "github" | "gitlab" | "bitbucket" | "gitea", host?: string): string | undefined {
       if (type === "github") {
         return tokens.git?.github;
       }
+      if (type === "bitbucket") {
+        return tokens.git?.bitbucket;
+      }
+      if (type === "gitea") {
+        // Gitea has no public default instance, the host is always required
+        return host ? tokens.git?.gitea?.[host] : undefined;
+      }
       if (type === "gitlab" && host) {
         return tokens.git?.gitlab?.[host];
       }
       return tokens.git?.gitlab?.["gitlab.com"];
     },
+
+    getS3Credentials(scope: string): S3AccessKeys | undefined {
+      return tokens.s3?.[scope];
+    },
   };
 }
 
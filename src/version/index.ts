@@ -9,9 +9,17 @@ export {
   compareSemver,
   sortVersionsDesc,
   getHighestVersion,
+  getHighestStableVersion,
   isGreaterThan,
   isLessThan,
   bumpVersion,
   bumpPrerelease,
+  isValidRange,
+  isDistTag,
+  isValidVersionSpec,
+  satisfiesRange,
+  getHighestMatchingVersion,
+  resolveVersionSpec,
+  LATEST_TAG,
   type BumpType,
 } from "./version";
@@ -4,10 +4,17 @@ import {
   compareSemver,
   sortVersionsDesc,
   getHighestVersion,
+  getHighestStableVersion,
   isGreaterThan,
   isLessThan,
   bumpVersion,
   bumpPrerelease,
+  isValidRange,
+  isDistTag,
+  isValidVersionSpec,
+  satisfiesRange,
+  getHighestMatchingVersion,
+  resolveVersionSpec,
 } from "./version";
 
 describe("version", () => {
@@ -130,6 +137,20 @@ describe("version", () => {
     });
   });
 
+  describe("getHighestStableVersion", () => {
+    test("skips prereleases above the highest stable version", () => {
+      expect(getHighestStableVersion(["1.4.0", "2.0.0-beta.1", "1.0.0"])).toBe("1.4.0");
+    });
+
+    test("falls back to the highest prerelease when nothing is stable", () => {
+      expect(getHighestStableVersion(["1.0.0-beta.1", "1.0.0-rc.1"])).toBe("1.0.0-rc.1");
+    });
+
+    test("returns null for empty array", () => {
+      expect(getHighestStableVersion([])).toBeNull();
+    });
+  });
+
   describe("isGreaterThan", () => {
     test("returns true when a > b", () => {
       expect(isGreaterThan("2.0.0", "1.0.0")).toBe(true);
@@ -211,4 +232,137 @@ describe("version", () => {
       expect(() => bumpPrerelease("invalid", "beta")).toThrow();
     });
   });
+
+  describe("isValidRange", () => {
+    test("accepts caret, tilde and comparator ranges", () => {
+      expect(isValidRange("^1.2.0")).toBe(true);
+      expect(isValidRange("~1.2.0")).toBe(true);
+      expect(isValidRange(">=1.0.0 <2")).toBe(true);
+      expect(isValidRange("1.x")).toBe(true);
+    });
+
+    test("accepts exact versions", () => {
+      expect(isValidRange("1.0.0")).toBe(true);
+    });
+
+    test("rejects v prefix", () => {
+      expect(isValidRange("v1.0.0")).toBe(false);
+      expect(isValidRange(">=v1.0.0")).toBe(false);
+    });
+
+    test("rejects invalid ranges", () => {
+      expect(isValidRange(">=banana")).toBe(false);
+      expect(isValidRange("1.0.0.0")).toBe(false);
+    });
+  });
+
+  describe("isDistTag", () => {
+    test("accepts tag names", () => {
+      expect(isDistTag("latest")).toBe(true);
+      expect(isDistTag("next")).toBe(true);
+      expect(isDistTag("release-candidate")).toBe(true);
+    });
+
+    test("rejects ranges and versions", () => {
+      expect(isDistTag("x")).toBe(false);
+      expect(isDistTag("1.0.0")).toBe(false);
+      expect(isDistTag("v1")).toBe(false);
+    });
+
+    test("rejects invalid tag names", () => {
+      expect(isDistTag("Next")).toBe(false);
+      expect(isDistTag("my tag")).toBe(false);
+      expect(isDistTag("")).toBe(false);
+    });
+  });
+
+  describe("isValidVersionSpec", () => {
+    test("accepts versions, ranges and dist-tags", () => {
+      expect(isValidVersionSpec("1.0.0")).toBe(true);
+      expect(isValidVersionSpec("^1.2.0")).toBe(true);
+      expect(isValidVersionSpec("latest")).toBe(true);
+    });
+
+    test("rejects garbage", () => {
+      expect(isValidVersionSpec("v1.0.0")).toBe(false);
+      expect(isValidVersionSpec("not a version")).toBe(false);
+      expect(isValidVersionSpec("")).toBe(false);
+    });
+  });
+
+  describe("satisfiesRange", () => {
+    test("matches versions inside the range", () => {
+      expect(satisfiesRange("1.4.0", "^1.2.0")).toBe(true);
+      expect(satisfiesRange("1.2.9", "~1.2.0")).toBe(true);
+    });
+
+    test("rejects versions outside the range", () => {
+      expect(satisfiesRange("2.0.0", "^1.2.0")).toBe(false);
+      expect(satisfiesRange("1.3.0", "~1.2.0")).toBe(false);
+    });
+
+    test("excludes prereleases from ranges on other versions", () => {
+      expect(satisfiesRange("2.0.0-beta.1", ">=1.0.0")).toBe(false);
+    });
+
+    test("returns false for invalid input", () => {
+      expect(satisfiesRange("banana", "^1.0.0")).toBe(false);
+      expect(satisfiesRange("1.0.0", "banana")).toBe(false);
+    });
+  });
+
+  describe("getHighestMatchingVersion", () => {
+    const versions = ["1.0.0", "1.2.0", "1.4.1", "2.0.0", "2.1.0-beta.1"];
+
+    test("returns highest version in range", () => {
+      expect(getHighestMatchingVersion(versions, "^1.2.0")).toBe("1.4.1");
+      expect(getHighestMatchingVersion(versions, ">=1.0.0 <2")).toBe("1.4.1");
+      expect(getHighestMatchingVersion(versions, ">=1.0.0")).toBe("2.0.0");
+    });
+
+    test("returns null when nothing matches", () => {
+      expect(getHighestMatchingVersion(versions, "^3.0.0")).toBeNull();
+    });
+
+    test("ignores invalid versions", () => {
+      expect(getHighestMatchingVersion(["banana", "1.0.0"], "*")).toBe("1.0.0");
+    });
+  });
+
+  describe("resolveVersionSpec", () => {
+    const versions = ["1.0.0", "1.2.0", "2.0.0", "2.1.0-beta.1", "2.1.0-beta.2"];
+
+    test("returns exact version when available", () => {
+      expect(resolveVersionSpec("1.2.0", versions)).toBe("1.2.0");
+    });
+
+    test("returns null for unavailable exact version", () => {
+      expect(resolveVersionSpec("1.1.0", versions)).toBeNull();
+    });
+
+    test("resolves ranges to highest match", () => {
+      expect(resolveVersionSpec("^1.0.0", versions)).toBe("1.2.0");
+      expect(resolveVersionSpec("~2.0.0", versions)).toBe("2.0.0");
+    });
+
+    test("resolves latest to highest stable version", () => {
+      expect(resolveVersionSpec("latest", versions)).toBe("2.0.0");
+      expect(resolveVersionSpec("latest", ["1.0.0-beta.1", "1.0.0-beta.2"])).toBe("1.0.0-beta.2");
+    });
+
+    test("resolves channel tags to highest prerelease on that channel", () => {
+      expect(resolveVersionSpec("beta", versions)).toBe("2.1.0-beta.2");
+      expect(resolveVersionSpec("alpha", versions)).toBeNull();
+    });
+
+    test("prefers explicit dist-tags", () => {
+      expect(resolveVersionSpec("latest", versions, { latest: "2.0.0" })).toBe("2.0.0");
+      expect(resolveVersionSpec("next", versions, { next: "2.1.0-beta.1" })).toBe("2.1.0-beta.1");
+    });
+
+    test("ignores dist-tags pointing at unavailable versions", () => {
+      expect(resolveVersionSpec("latest", versions, { latest: "1.1.0" })).toBe("2.0.0");
+      expect(resolveVersionSpec("beta", versions, { beta: "2.1.0-beta.3" })).toBe("2.1.0-beta.2");
+    });
+  });
 });
@@ -79,6 +79,16 @@ export function getHighestVersion(versions: string[]): string | null {
   return sorted[0] ?? null;
 }
 
+/**
+ * Get the highest stable (non-prerelease) version from a list, so a
+ * 2.0.0-beta.1 never shadows 1.4.0. Falls back to the highest prerelease
+ * when nothing stable is published. Returns null if there are no valid versions.
+ */
+export function getHighestStableVersion(versions: string[]): string | null {
+  const sorted = sortVersionsDesc(versions);
+  return sorted.find((v) => semver.prerelease(v) === null) ?? sorted[0] ?? null;
+}
+
 /**
  * Check if version a is greater than version b.
  */
@@ -92,3 +102,112 @@ export function isGreaterThan(a: string, b: string): boolean {
 export function isLessThan(a: string, b: string): boolean {
   return semver.lt(a, b);
 }
+
+// ============================================================================
+// Version specifiers (ranges and dist-tags)
+// ============================================================================
+
+/**
+ * Dist-tag that always points at the highest published version.
+ */
+export const LATEST_TAG = "latest";
+
+// Dist-tag names: lowercase word with hyphens (e.g. "latest", "next", "beta", "release-candidate")
+const DIST_TAG_REGEX = /^[a-z][a-z0-9-]*$/;
+
+// Catches "v1", "v1.0.0" and ">=v1.2.0" - v-prefixed versions are rejected everywhere
+const V_PREFIX_REGEX = /(^|[\s<>=~^|])v\d/i;
+
+/**
+ * Check if a string is a valid semver range (e.g. "^1.2.0", "~1.2.0", ">=1.0.0 <2").
+ * An exact version is also a valid range. Rejects v-prefixed versions for consistency with isValidSemver.
+ */
+export function isValidRange(range: string): boolean {
+  // semver treats "" as "*", but an empty specifier is a config mistake, not "any version"
+  if (!range.trim() || V_PREFIX_REGEX.test(range)) {
+    return false;
+  }
+  return semver.validRange(range) !== null;
+}
+
+/**
+ * Check if a string is a dist-tag name (e.g. "latest", "next", "beta").
+ * Anything that parses as a semver range is not a dist-tag.
+ */
+export function isDistTag(spec: string): boolean {
+  if (!DIST_TAG_REGEX.test(spec) || V_PREFIX_REGEX.test(spec)) {
+    return false;
+  }
+  return semver.validRange(spec) === null;
+}
+
+/**
+ * Check if a string is a valid version specifier for grekt.yaml:
+ * exact version, semver range or dist-tag.
+ */
+export function isValidVersionSpec(spec: string): boolean {
+  return isValidSemver(spec) || isValidRange(spec) || isDistTag(spec);
+}
+
+/**
+ * Check if a version satisfies a semver range.
+ * Prereleases only match ranges that explicitly include the same major.minor.patch (semver default).
+ */
+export function satisfiesRange(version: string, range: string): boolean {
+  if (!isValidSemver(version) || !isValidRange(range)) {
+    return false;
+  }
+  return semver.satisfies(version, range);
+}
+
+/**
+ * Get the highest version from a list that satisfies a range.
+ * Returns null if nothing matches.
+ */
+export function getHighestMatchingVersion(versions: string[], range: string): string | null {
+  if (!isValidRange(range)) {
+    return null;
+  }
+  return semver.maxSatisfying(versions.filter(isValidSemver), range);
+}
+
+/**
+ * Resolve a version specifier against the available versions.
+ *
+ * Resolution order:
+ * 1. Exact version → returned as-is if available
+ * 2. Dist-tag present in `distTags` → the tagged version, if available (tags on yanked versions are skipped)
+ * 3. "latest" → highest stable version
+ * 4. Other dist-tags → highest prerelease on that channel (e.g. "beta" → 2.0.0-beta.3)
+ * 5. Range → highest satisfying version
+ *
+ * Returns null if the specifier cannot be satisfied.
+ *
+ * @example resolveVersionSpec("^1.2.0", ["1.2.0", "1.4.1", "2.0.0"]) → "1.4.1"
+ * @example resolveVersionSpec("beta", ["1.0.0", "2.0.0-beta.1", "2.0.0-beta.2"]) → "2.0.0-beta.2"
+ */
+export function resolveVersionSpec(
+  spec: string,
+  versions: string[],
+  distTags: Record<string, string> = {}
+): string | null {
+  if (isValidSemver(spec)) {
+    return versions.includes(spec) ? spec : null;
+  }
+
+  if (isDistTag(spec)) {
+    const tagged = distTags[spec];
+    if (tagged && versions.includes(tagged)) {
+      return tagged;
+    }
+
+    if (spec === LATEST_TAG) {
+      return getHighestStableVersion(versions);
+    }
+
+    const channel = versions.filter((v) => isValidSemver(v) && semver.prerelease(v)?.[0] === spec);
+    return getHighestVersion(channel);
+  }
+
+  return getHighestMatchingVersion(versions, spec);
+}